@@ -7,15 +7,15 @@ import React, { useState, useEffect } from 'react';
 import {
   Sparkles, Layers, Edit3, Settings2
 } from 'lucide-react';
-import { LlmProvider, TtsProvider, GeminiModel, ElevenLabsVoice, ImageAspectRatio, ImageStylePreset, ImageModel, ImageProvider, DialogueVisualMode, VeoModel, VideoResolution, VideoDuration } from './types';
+import { ScriptItem, MasteringSettings, DEFAULT_MASTERING_SETTINGS, PacingSettings, DEFAULT_PACING_SETTINGS, LlmProvider, TtsProvider, SfxProvider, GeminiModel, ElevenLabsVoice, ImageAspectRatio, ImageStylePreset, ImageModel, ImageProvider, DialogueVisualMode, VideoMode, VisualizerStyle, VideoFormat, ShortsRange, VeoModel, VideoResolution, VideoDuration } from './types';
 import { AppPage, BatchJob } from './batchTypes';
 
 import { BatchPage } from './pages/BatchPage';
 import { StudioPage } from './pages/StudioPage';
 import { ConfigPage } from './pages/ConfigPage';
 import { fetchElevenLabsVoices } from './services/elevenLabsService';
-import { generateScriptFromStory } from './services/geminiService';
-import { updateBatchJob, loadBatchJobs, saveAudioBlob, generateAudioKey, loadAudioBlob, generateItemAudioKey, saveItemAudioBase64, loadItemAudioBase64 } from './services/batchStorageService';
+import { generateScriptFromStory, pickShortsHighlight } from './services/geminiService';
+import { updateBatchJob, loadBatchJobs, saveAudioBlob, generateAudioKey, loadAudioBlob, saveItemAudioBase64, loadItemAudioBase64, loadSceneAudio, loadSfxLibrary } from './services/batchStorageService';
 import {
   initiateYouTubeAuth,
   isYouTubeAuthenticated,
@@ -26,16 +26,34 @@ import {
   YouTubeChannel,
   YouTubePlaylist,
   uploadToYouTube,
-  addVideoToPlaylist
+  YouTubeUploadMetadata,
+  YouTubeUploadResult,
+  addVideoToPlaylist,
+  uploadCaptionsToYouTube
 } from './services/youtubeService';
-import { mergeAudioBuffers, bufferToWav, bufferToMp3, createWebmVideo, getAudioContext, decodeAudioFile, decodeRawPCM } from './utils/audioUtils';
+import { findSfxLibraryMatch } from './services/sfxLibraryService';
+import { getShow, addEpisodeToShow, publishJobToS3 } from './services/showService';
+import { loadS3Settings } from './services/s3Service';
+import { createTake, appendTake, getSelectedTake, takeMatches, decodeTake } from './utils/takes';
+import { bufferToMp3, createVideo, VideoRenderProgress, getAudioContext, decodeAudioFile, decodeRawPCM, decodeSceneAudio } from './utils/audioUtils';
+import { buildTimeline, getVideoSegments } from './utils/timeline';
+import { generateSubtitles } from './utils/subtitles';
+import { buildChapters, toChaptersJson } from './utils/chapters';
+import { tagMp3, buildEpisodeTags } from './utils/id3';
+import { loadVideoOverlaySettings, toWebmOverlayOptions } from './utils/videoOverlays';
+import { loadVideoMotionSettings } from './utils/videoMotion';
+import { loadShortsSettings, getShortsLines, getShortsRange, renderShortsClip, SHORTS_MIN_SECONDS, SHORTS_MAX_SECONDS } from './utils/shortsCutdown';
+import { renderMasteredTimeline, formatLoudnessReport } from './utils/mastering';
 import { generatePodcastCoverArt } from './services/podcastService';
 import { generateSpeech } from './services/geminiService';
-import { generateElevenLabsSfx, generateElevenLabsSpeech } from './services/elevenLabsService';
+import { generateElevenLabsSpeech } from './services/elevenLabsService';
 
 
 // Import TTS registry for provider-agnostic speech generation
-import { ttsRegistry, TtsConfig } from './lib/tts';
+import { ttsRegistry, assignCastVoices, TtsCacheSettings, loadTtsCacheSettings, saveTtsCacheSettings } from './lib/tts';
+import { LlmConfig, llmRegistry } from './lib/llm';
+import { imageRegistry } from './lib/image';
+import { sfxRegistry, DEFAULT_SFX_DURATION } from './lib/sfx';
 
 
 export default function App() {
@@ -55,8 +73,16 @@ export default function App() {
   // Provider and model state
   const [llmProvider, setLlmProvider] = useState<LlmProvider>(() => (localStorage.getItem('llmProvider') as LlmProvider) || 'gemini');
   const [ttsProvider, setTtsProvider] = useState<TtsProvider>(() => (localStorage.getItem('ttsProvider') as TtsProvider) || 'gemini');
+  const [sfxProvider, setSfxProvider] = useState<SfxProvider>(() => (localStorage.getItem('sfxProvider') as SfxProvider) || 'elevenlabs');
   const [geminiModel, setGeminiModel] = useState<GeminiModel>(() => (localStorage.getItem('geminiModel') as GeminiModel) || 'gemini-2.5-flash');
 
+  // Registry provider settings (base URLs, models, keys declared in each provider's configFields)
+  const [providerSettings, setProviderSettings] = useState<Record<string, string>>(() =>
+    JSON.parse(localStorage.getItem('providerSettings') || '{}')
+  );
+  // Password-type fields are only persisted when opted in, like the Gemini / ElevenLabs keys
+  const [saveProviderKeys, setSaveProviderKeys] = useState(() => localStorage.getItem('saveProviderKeys') === 'true');
+
 
   // Feature toggles
   const [enableSfx, setEnableSfx] = useState(false);
@@ -111,6 +137,32 @@ export default function App() {
     parseInt(localStorage.getItem('veoDuration') || '8') as VideoDuration
   );
 
+  // Episode video style (slideshow / audio visualizer)
+  const [videoMode, setVideoMode] = useState<VideoMode>(() =>
+    (localStorage.getItem('videoMode') as VideoMode) || 'auto'
+  );
+  const [visualizerStyle, setVisualizerStyle] = useState<VisualizerStyle>(() =>
+    (localStorage.getItem('visualizerStyle') as VisualizerStyle) || 'waveform'
+  );
+  const [videoFormat, setVideoFormat] = useState<VideoFormat>(() =>
+    (localStorage.getItem('videoFormat') as VideoFormat) || 'webm'
+  );
+
+  // Mastering / loudness settings
+  const [masteringSettings, setMasteringSettings] = useState<MasteringSettings>(() => {
+    const saved = localStorage.getItem('masteringSettings');
+    return saved ? { ...DEFAULT_MASTERING_SETTINGS, ...JSON.parse(saved) } : DEFAULT_MASTERING_SETTINGS;
+  });
+
+  // Pacing between script items
+  const [pacingSettings, setPacingSettings] = useState<PacingSettings>(() => {
+    const saved = localStorage.getItem('pacingSettings');
+    return saved ? { ...DEFAULT_PACING_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PACING_SETTINGS;
+  });
+
+  // Speech cache eviction policy (read by ttsRegistry on every generation)
+  const [ttsCacheSettings, setTtsCacheSettings] = useState<TtsCacheSettings>(loadTtsCacheSettings);
+
   // Persist API keys
 
   useEffect(() => {
@@ -149,8 +201,40 @@ export default function App() {
   useEffect(() => {
     localStorage.setItem('llmProvider', llmProvider);
     localStorage.setItem('ttsProvider', ttsProvider);
+    localStorage.setItem('sfxProvider', sfxProvider);
     localStorage.setItem('geminiModel', geminiModel);
-  }, [llmProvider, ttsProvider, geminiModel]);
+  }, [llmProvider, ttsProvider, sfxProvider, geminiModel]);
+
+  useEffect(() => {
+    if (saveProviderKeys) {
+      localStorage.setItem('saveProviderKeys', 'true');
+      localStorage.setItem('providerSettings', JSON.stringify(providerSettings));
+    } else {
+      localStorage.removeItem('saveProviderKeys');
+      const secretKeys = new Set(
+        [...llmRegistry.listAll(), ...ttsRegistry.listAll(), ...sfxRegistry.listAll(), ...imageRegistry.listAll()]
+          .flatMap(provider => provider.configFields)
+          .filter(field => field.type === 'password')
+          .map(field => field.key)
+      );
+      localStorage.setItem('providerSettings', JSON.stringify(
+        Object.fromEntries(Object.entries(providerSettings).filter(([key]) => !secretKeys.has(key)))
+      ));
+    }
+  }, [saveProviderKeys, providerSettings]);
+
+  // Values for every registry config field: dedicated key/model state plus stored provider settings
+  const providerConfig: Record<string, string> = { ...providerSettings, geminiApiKey, elevenLabsApiKey, geminiModel, imageModel };
+  const llmConfig: LlmConfig = providerConfig;
+
+  // Config fields with dedicated state go to their own setters
+  const handleProviderSettingChange = (key: string, value: string) => {
+    if (key === 'geminiApiKey') setGeminiApiKey(value);
+    else if (key === 'elevenLabsApiKey') setElevenLabsApiKey(value);
+    else if (key === 'geminiModel') setGeminiModel(value as GeminiModel);
+    else if (key === 'imageModel') setImageModel(value as ImageModel);
+    else setProviderSettings(prev => ({ ...prev, [key]: value }));
+  };
 
   // Save image settings
   useEffect(() => {
@@ -170,6 +254,26 @@ export default function App() {
     localStorage.setItem('veoDuration', veoDuration.toString());
   }, [dialogueVisualMode, veoModel, veoResolution, veoDuration]);
 
+  // Save video style settings
+  useEffect(() => {
+    localStorage.setItem('videoMode', videoMode);
+    localStorage.setItem('visualizerStyle', visualizerStyle);
+    localStorage.setItem('videoFormat', videoFormat);
+  }, [videoMode, visualizerStyle, videoFormat]);
+
+  // Save mastering / pacing settings
+  useEffect(() => {
+    localStorage.setItem('masteringSettings', JSON.stringify(masteringSettings));
+  }, [masteringSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('pacingSettings', JSON.stringify(pacingSettings));
+  }, [pacingSettings]);
+
+  useEffect(() => {
+    saveTtsCacheSettings(ttsCacheSettings);
+  }, [ttsCacheSettings]);
+
   // Check YouTube auth on mount
   useEffect(() => {
     setIsYouTubeLoggedIn(isYouTubeAuthenticated());
@@ -260,24 +364,15 @@ export default function App() {
   // Batch processing handlers
   const handleGenerateScript = async (job: BatchJob, onProgress?: (msg: string) => void): Promise<BatchJob> => {
     onProgress?.('Generating script...');
-    const apiKey = geminiApiKey;
-    const shouldIncludeSfx = enableSfx && !!elevenLabsApiKey;
+    const shouldIncludeSfx = enableSfx && sfxRegistry.isProviderConfigured(sfxProvider, providerConfig);
 
     const result = await generateScriptFromStory(
       job.storyText, shouldIncludeSfx, includeNarrator,
-      elevenLabsVoices, apiKey, geminiModel
+      elevenLabsVoices, llmProvider, llmConfig
     );
 
-    // Set voiceType based on ttsProvider
-    const finalCast = result.cast.map(member => {
-      if (ttsProvider === 'elevenlabs' && member.elevenLabsVoiceId && elevenLabsVoices.length > 0) {
-        const elVoice = elevenLabsVoices.find(v => v.voice_id === member.elevenLabsVoiceId);
-        if (elVoice) {
-          return { ...member, voiceType: 'elevenlabs' as const, voice: elVoice.name };
-        }
-      }
-      return { ...member, voiceType: 'gemini' as const };
-    });
+    // Set voiceType/voice for the selected TTS provider
+    const finalCast = await assignCastVoices(result.cast, ttsProvider, providerConfig, elevenLabsVoices);
 
     const updatedJob = {
       ...job,
@@ -294,7 +389,7 @@ export default function App() {
     return updatedJob;
   };
 
-  const handleGenerateFiles = async (job: BatchJob, onProgress?: (msg: string) => void): Promise<BatchJob> => {
+  const handleGenerateFiles = async (job: BatchJob, onProgress?: (msg: string, video?: VideoRenderProgress) => void): Promise<BatchJob> => {
     if (!job.scriptData) throw new Error('No script data');
 
     onProgress?.('Preparing to generate files...');
@@ -309,11 +404,14 @@ export default function App() {
     // Use podcast info from script generation if available
     const episodeTitle = podcastInfo?.episodeTitle || job.episodeTitle || 'New Episode';
     const podcastDescription = podcastInfo?.description || job.podcastDescription || job.storyText.slice(0, 500);
-    const podcastTitle = podcastInfo?.podcastName || job.podcastTitle || 'Podcast';
+    const show = job.showId ? getShow(job.showId) : null;
+    const podcastTitle = show?.title || podcastInfo?.podcastName || job.podcastTitle || 'Podcast';
 
     // Generate audio for each item and save to IndexedDB
-    const audioBuffers: AudioBuffer[] = [];
+    const timelineItems: ScriptItem[] = [];
     const updatedItems = [...items];
+    // Library clips are reused before any SFX API call
+    const sfxLibrary = items.some(i => i.type === 'sfx') ? await loadSfxLibrary() : [];
 
     for (let idx = 0; idx < items.length; idx++) {
       const item = items[idx];
@@ -321,12 +419,6 @@ export default function App() {
       if (item.type === 'speech' && item.text) {
         const castMember = item.character ? cast.find(c => c.name === item.character) : undefined;
 
-        // Build TTS config
-        const ttsConfig: TtsConfig = {
-          geminiApiKey,
-          elevenLabsApiKey,
-        };
-
         // Determine provider based on character voiceType or default to gemini
         const providerId = castMember?.voiceType || 'gemini';
 
@@ -335,7 +427,25 @@ export default function App() {
           ? castMember.elevenLabsVoiceId
           : castMember?.voice || 'Puck';
 
+        const takeSource = {
+          providerId,
+          voice: voiceId,
+          prompt: [castMember?.voicePrompt, item.expression].filter(Boolean).join(', '),
+          text: item.text,
+        };
+
+        let cachedSpeech = false;
         try {
+          // Keep the take picked in the Studio as long as the line has not changed
+          const selectedTake = getSelectedTake(item);
+          if (takeMatches(selectedTake, takeSource)) {
+            const buffer = await decodeTake(selectedTake!, ctx);
+            if (buffer) {
+              timelineItems.push({ ...item, audioBuffer: buffer });
+              continue;
+            }
+          }
+
           const result = await ttsRegistry.generateSpeech(
             providerId,
             {
@@ -345,85 +455,174 @@ export default function App() {
               voicePrompt: castMember?.voicePrompt,
               expression: item.expression,
             },
-            ttsConfig
+            providerConfig
           );
+          cachedSpeech = !!result.cached;
 
           // Decode based on format
           const buffer = result.format === 'pcm'
             ? await decodeRawPCM(result.audioBase64, ctx)
             : await decodeAudioFile(result.audioBase64, ctx);
-          audioBuffers.push(buffer);
-
-          // Save audio to IndexedDB
-          const audioKey = generateItemAudioKey(job.id, item.id);
-          await saveItemAudioBase64(audioKey, result.audioBase64);
-          updatedItems[idx] = {
-            ...item,
-            audioKey,
-            audioFormat: result.format === 'pcm' ? 'pcm' : 'mp3'
-          };
+
+          // Save audio to IndexedDB as a new (selected) take
+          const take = await createTake(item.id, takeSource, result.audioBase64, result.format);
+          timelineItems.push({ ...item, ...appendTake(item, take), audioBuffer: buffer });
+          updatedItems[idx] = { ...item, ...appendTake(item, take), audioBuffer: undefined };
         } catch (e) {
           console.error(`[Batch] Failed to generate speech for item ${idx}:`, e);
         }
 
-        await new Promise(r => setTimeout(r, 300));
-      } else if (item.type === 'sfx' && item.sfxDescription && elevenLabsApiKey) {
-        const base64 = await generateElevenLabsSfx(item.sfxDescription, 4, elevenLabsApiKey);
-        const buffer = await decodeAudioFile(base64, ctx);
-        audioBuffers.push(buffer);
+        // Cache hits made no API call, so they skip the rate-limit delay
+        if (!cachedSpeech) await new Promise(r => setTimeout(r, 300));
+      } else if (item.type === 'sfx' && item.sfxDescription) {
+        const selectedTake = getSelectedTake(item);
+        if (selectedTake?.text === item.sfxDescription) {
+          const buffer = await decodeTake(selectedTake, ctx).catch(() => null);
+          if (buffer) {
+            timelineItems.push({ ...item, audioBuffer: buffer });
+            continue;
+          }
+        }
 
-        // Save SFX audio
-        const audioKey = generateItemAudioKey(job.id, item.id);
-        await saveItemAudioBase64(audioKey, base64);
-        updatedItems[idx] = { ...item, audioKey, audioFormat: 'mp3' };
+        const libraryHit = findSfxLibraryMatch(sfxLibrary, item.sfxDescription);
+        if (!libraryHit && !sfxRegistry.isProviderConfigured(sfxProvider, providerConfig)) continue;
+        try {
+          const result = libraryHit
+            ? { audioBase64: libraryHit.audioBase64, format: libraryHit.format }
+            : await sfxRegistry.generateSfx(sfxProvider, {
+              description: item.sfxDescription,
+              durationSeconds: item.sfxDuration ?? DEFAULT_SFX_DURATION
+            }, providerConfig);
+          if (libraryHit) console.log(`[Batch] Reusing library clip "${libraryHit.name}" for item ${idx}`);
+          const buffer = await decodeAudioFile(result.audioBase64, ctx);
+
+          // Save SFX audio as a new (selected) take
+          const take = await createTake(item.id, {
+            providerId: libraryHit ? 'sfx-library' : sfxProvider,
+            prompt: libraryHit ? libraryHit.name : item.sfxDescription,
+            text: item.sfxDescription,
+          }, result.audioBase64, result.format);
+          timelineItems.push({ ...item, ...appendTake(item, take), audioBuffer: buffer });
+          updatedItems[idx] = { ...item, ...appendTake(item, take), audioBuffer: undefined };
+        } catch (e) {
+          console.error(`[Batch] Failed to generate SFX for item ${idx}:`, e);
+        }
 
-        await new Promise(r => setTimeout(r, 300));
+        if (!libraryHit) await new Promise(r => setTimeout(r, 300));
       }
     }
 
-    if (audioBuffers.length === 0) {
+    if (timelineItems.length === 0) {
       throw new Error('No audio generated');
     }
 
-    onProgress?.('Merging audio and converting format...');
+    onProgress?.('Mixing and mastering audio...');
 
-    // Merge audio
-    const mergedBuffer = await mergeAudioBuffers(audioBuffers);
-    const wavBlob = bufferToWav(mergedBuffer);
-    const mp3Blob = await bufferToMp3(mergedBuffer);
+    // Mix audio down from the timeline (scene ambience beds underneath), then master it
+    const scenes = await decodeSceneAudio(await loadSceneAudio(job.scriptData.scenes || []), ctx);
+    const timeline = buildTimeline(timelineItems, { scenes, cast, pacing: pacingSettings });
+    const mastering = job.mastering ?? masteringSettings;
+    const { buffer: mergedBuffer, report: loudness } = await renderMasteredTimeline(timeline, mastering);
+    onProgress?.(`Loudness: ${formatLoudnessReport(loudness)}`);
+    const subtitles = generateSubtitles(timeline, timelineItems, { cast });
+    const chapters = buildChapters(timeline, timelineItems);
 
     onProgress?.('Generating cover art...');
 
     // Generate cover art
     let coverBase64: string | undefined;
     const coverPrompt = podcastInfo?.coverPrompt || `Based on story: ${job.storyText.slice(0, 300)}`;
-    if (geminiApiKey) {
+    if (imageRegistry.isProviderConfigured(imageProvider, providerConfig)) {
       try {
-        coverBase64 = await generatePodcastCoverArt(coverPrompt, podcastTitle, geminiApiKey);
+        coverBase64 = await generatePodcastCoverArt(coverPrompt, podcastTitle, imageProvider, providerConfig);
       } catch (e) {
         console.error('[Batch] Cover art error:', e);
       }
     } else {
-      console.log('[Batch] No Gemini API key, skipping cover art');
+      console.log('[Batch] Image provider not configured, skipping cover art');
+    }
+
+    // MP3 with ID3 tags (podcast info, cover, transcript, scene chapters)
+    const mp3Blob = tagMp3(await bufferToMp3(mergedBuffer), buildEpisodeTags(
+      { podcastName: podcastTitle, author: show?.author || podcastInfo?.author, episodeTitle },
+      coverBase64,
+      timeline,
+      timelineItems,
+      show?.language
+    ));
+
+    // Create video if cover exists (the visualizer also works without one); MP4 falls back to WebM
+    let videoBlob: Blob | undefined;
+    if (coverBase64 || videoMode === 'visualizer') {
+      onProgress?.(`Creating video (${videoFormat === 'mp4' ? 'MP4' : 'WebM'})...`);
+      const segments = getVideoSegments(timeline, timelineItems, coverBase64 || '', { scenes, cast });
+      videoBlob = await createVideo(mergedBuffer, segments, coverBase64, videoFormat, {
+        overlays: toWebmOverlayOptions(loadVideoOverlaySettings(), timeline, timelineItems),
+        motion: loadVideoMotionSettings(),
+        mode: videoMode,
+        visualizer: { style: visualizerStyle, title: episodeTitle, portraits: cast },
+        onProgress: (video) => onProgress?.(`Rendering video (${videoFormat === 'mp4' ? 'MP4' : 'WebM'})...`, video),
+      });
     }
 
-    // Create WebM video if cover exists
-    let webmBlob: Blob | undefined;
-    if (coverBase64) {
-      onProgress?.('Creating video (WebM)...');
-      webmBlob = await createWebmVideo(wavBlob, coverBase64, mergedBuffer.duration);
+    // Vertical Shorts cutdown from an LLM-picked highlight (a failure does not fail the episode)
+    let shortBlob: Blob | undefined;
+    let short: ShortsRange | undefined;
+    const shortsSettings = loadShortsSettings();
+    if (shortsSettings.createInBatch) {
+      try {
+        onProgress?.('Picking Shorts highlight...');
+        const highlight = await pickShortsHighlight(
+          getShortsLines(timeline, timelineItems), SHORTS_MIN_SECONDS, SHORTS_MAX_SECONDS, llmProvider, llmConfig
+        );
+        const range = getShortsRange(timeline, timelineItems, highlight.startId, highlight.endId);
+        if (range) {
+          short = { ...range, hookTitle: shortsSettings.hookCard ? highlight.hookTitle : undefined };
+          onProgress?.('Creating Short (9:16)...');
+          shortBlob = await renderShortsClip(mergedBuffer, timeline, timelineItems, short, {
+            format: videoFormat,
+            overlays: loadVideoOverlaySettings(),
+            motion: loadVideoMotionSettings(),
+            mode: videoMode,
+            visualizer: { style: visualizerStyle, title: episodeTitle, portraits: cast },
+            cover: coverBase64,
+            scenes,
+            cast,
+            onProgress: (video) => onProgress?.('Rendering Short (9:16)...', video),
+          });
+        }
+      } catch (e) {
+        console.warn('[Batch] Short cutdown failed:', e);
+        short = undefined;
+      }
     }
 
     onProgress?.('Saving files...');
 
     // Save to IndexedDB
     const mp3Key = generateAudioKey(job.id, 'mp3');
-    const webmKey = webmBlob ? generateAudioKey(job.id, 'webm') : undefined;
+    const isMp4 = videoBlob?.type === 'video/mp4';
+    const webmKey = videoBlob && !isMp4 ? generateAudioKey(job.id, 'webm') : undefined;
+    const mp4Key = videoBlob && isMp4 ? generateAudioKey(job.id, 'mp4') : undefined;
+    const shortKey = shortBlob ? generateAudioKey(job.id, 'short') : undefined;
     const coverKey = coverBase64 ? `${job.id}_cover` : undefined;
+    const srtKey = generateAudioKey(job.id, 'srt');
+    const vttKey = generateAudioKey(job.id, 'vtt');
+    const transcriptKey = generateAudioKey(job.id, 'transcript');
+    const chaptersKey = chapters.length > 0 ? generateAudioKey(job.id, 'chapters') : undefined;
 
     await saveAudioBlob(mp3Key, mp3Blob);
-    if (webmBlob && webmKey) {
-      await saveAudioBlob(webmKey, webmBlob);
+    await saveAudioBlob(srtKey, new Blob([subtitles.srt], { type: 'application/x-subrip' }));
+    await saveAudioBlob(vttKey, new Blob([subtitles.vtt], { type: 'text/vtt' }));
+    await saveAudioBlob(transcriptKey, new Blob([subtitles.json!], { type: 'application/json' }));
+    if (chaptersKey) {
+      await saveAudioBlob(chaptersKey, new Blob([toChaptersJson(chapters, { title: episodeTitle, podcastName: podcastTitle })], { type: 'application/json+chapters' }));
+    }
+    if (videoBlob) {
+      await saveAudioBlob((mp4Key || webmKey)!, videoBlob);
+    }
+    if (shortBlob && shortKey) {
+      await saveAudioBlob(shortKey, shortBlob);
     }
     // Save cover art to IndexedDB
     if (coverBase64 && coverKey) {
@@ -445,37 +644,57 @@ export default function App() {
       files: {
         mp3Key,
         webmKey,
+        mp4Key,
+        shortKey,
         coverKey,
-      }
+        srtKey,
+        vttKey,
+        transcriptKey,
+        chaptersKey,
+      },
+      duration: mergedBuffer.duration,
+      mastering,
+      loudness,
+      short,
     };
 
     updateBatchJob(job.id, updatedJob);
+
+    // Add (or refresh) the episode in its show's feed
+    if (show) {
+      try {
+        await addEpisodeToShow(show.id, updatedJob);
+      } catch (e) {
+        console.warn('[Batch] Could not add episode to show:', e);
+      }
+    }
     return updatedJob;
   };
 
   const handleUploadToYouTube = async (job: BatchJob): Promise<BatchJob> => {
-    if (!job.files?.webmKey) throw new Error('No WebM file');
+    // Upload the preferred format when the job has it, otherwise whichever video exists
+    const videoKey = videoFormat === 'mp4'
+      ? job.files?.mp4Key || job.files?.webmKey
+      : job.files?.webmKey || job.files?.mp4Key;
+    if (!videoKey) throw new Error('No video file');
 
     const token = getYouTubeAccessToken();
     if (!token) throw new Error('Not logged in to YouTube');
 
     updateBatchJob(job.id, { status: 'uploading' });
 
-    const webmBlob = await loadAudioBlob(job.files.webmKey);
-    if (!webmBlob) throw new Error('WebM file not found');
-
-    const result = await uploadToYouTube(
-      webmBlob,
-      {
-        title: job.episodeTitle || job.scriptData?.podcastInfo?.episodeTitle || job.podcastTitle || 'New Episode',
-        description: `${job.podcastDescription || job.storyText.slice(0, 500)}\n\n${job.scriptData?.podcastInfo?.tags?.map(t => `#${t}`).join(' ') || ''}`,
-        tags: job.scriptData?.podcastInfo?.tags || [],
-        categoryId: '22',
-        privacyStatus: 'private',
-        madeForKids: false,
-      },
-      token
-    );
+    const videoBlob = await loadAudioBlob(videoKey);
+    if (!videoBlob) throw new Error('Video file not found');
+
+    const metadata: YouTubeUploadMetadata = {
+      title: job.episodeTitle || job.scriptData?.podcastInfo?.episodeTitle || job.podcastTitle || 'New Episode',
+      description: `${job.podcastDescription || job.storyText.slice(0, 500)}\n\n${job.scriptData?.podcastInfo?.tags?.map(t => `#${t}`).join(' ') || ''}`,
+      tags: job.scriptData?.podcastInfo?.tags || [],
+      categoryId: '22',
+      privacyStatus: 'private',
+      madeForKids: false,
+    };
+    let result = await uploadToYouTube(videoBlob, metadata, token);
 
     // Add to playlist if selected
     if (selectedPlaylistId && result.videoId) {
@@ -486,18 +705,60 @@ export default function App() {
       }
     }
 
+    // Attach subtitles (a failed caption upload does not fail the video upload)
+    if (job.files.vttKey && result.videoId) {
+      try {
+        const vttBlob = await loadAudioBlob(job.files.vttKey);
+        // Episodes of a show use its language; otherwise it is detected from the captions
+        const language = (job.showId && getShow(job.showId)?.language) || undefined;
+        if (vttBlob) await uploadCaptionsToYouTube(result.videoId, await vttBlob.text(), token, language);
+      } catch (e: any) {
+        console.warn('Could not upload captions:', e);
+        result = { ...result, captionsError: e.message };
+      }
+    }
+
+    // Shorts clip next to the episode (a failed upload does not fail the episode upload)
+    let shortResult: YouTubeUploadResult | undefined;
+    if (loadShortsSettings().uploadInBatch && job.files.shortKey && !job.youtubeShortId) {
+      try {
+        const shortBlob = await loadAudioBlob(job.files.shortKey);
+        if (shortBlob) {
+          shortResult = await uploadToYouTube(
+            shortBlob,
+            { ...metadata, title: job.short?.hookTitle || metadata.title, isShort: true },
+            token
+          );
+        }
+      } catch (e) {
+        console.warn('Could not upload Short:', e);
+      }
+    }
+
     const updatedJob = {
       ...job,
       status: 'uploaded' as const,
       youtubeVideoId: result.videoId,
       youtubeUrl: result.url,
       uploadedAt: Date.now(),
+      error: result.captionsError ? `Captions failed: ${result.captionsError}` : undefined,
+      ...(shortResult && { youtubeShortId: shortResult.videoId, youtubeShortUrl: shortResult.url }),
     };
 
     updateBatchJob(job.id, updatedJob);
     return updatedJob;
   };
 
+  // Publish the episode (and its show's feed) to S3-compatible storage
+  const handlePublishToS3 = async (job: BatchJob, onProgress?: (msg: string) => void): Promise<BatchJob> => {
+    const feedUrl = await publishJobToS3(job, loadS3Settings(), (progress) =>
+      onProgress?.(`Publishing ${progress.index}/${progress.total}: ${progress.file}${progress.skipped ? ' (unchanged)' : ''}`)
+    );
+    const updatedJob = { ...job, s3FeedUrl: feedUrl, s3PublishedAt: Date.now(), error: undefined };
+    updateBatchJob(job.id, updatedJob);
+    return updatedJob;
+  };
+
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-200">
       {/* Header */}
@@ -554,10 +815,12 @@ export default function App() {
             geminiApiKey={geminiApiKey}
             elevenLabsApiKey={elevenLabsApiKey}
             isYouTubeLoggedIn={isYouTubeLoggedIn}
-            geminiModel={geminiModel}
+            llmProvider={llmProvider}
+            llmConfig={llmConfig}
             onGenerateScript={handleGenerateScript}
             onGenerateFiles={handleGenerateFiles}
             onUploadToYouTube={handleUploadToYouTube}
+            onPublishToS3={handlePublishToS3}
           />
         )}
 
@@ -569,8 +832,9 @@ export default function App() {
             elevenLabsApiKey={elevenLabsApiKey}
             elevenLabsVoices={elevenLabsVoices}
             llmProvider={llmProvider}
+            providerConfig={providerConfig}
             ttsProvider={ttsProvider}
-            geminiModel={geminiModel}
+            sfxProvider={sfxProvider}
             enableSfx={enableSfx}
             includeNarrator={includeNarrator}
             useElevenLabsForSpeech={useElevenLabsForSpeech}
@@ -582,10 +846,14 @@ export default function App() {
             imageStylePreset={imageStylePreset}
             customImageStyle={customImageStyle}
             enableDialogueImages={enableDialogueImages}
-            imageModel={imageModel}
             imageProvider={imageProvider}
             // Dialogue visual mode
             dialogueVisualMode={dialogueVisualMode}
+            videoMode={videoMode}
+            visualizerStyle={visualizerStyle}
+            videoFormat={videoFormat}
+            masteringSettings={masteringSettings}
+            pacingSettings={pacingSettings}
           />
         )}
 
@@ -607,8 +875,12 @@ export default function App() {
             setLlmProvider={setLlmProvider}
             ttsProvider={ttsProvider}
             setTtsProvider={setTtsProvider}
-            geminiModel={geminiModel}
-            setGeminiModel={setGeminiModel}
+            sfxProvider={sfxProvider}
+            setSfxProvider={setSfxProvider}
+            providerConfig={providerConfig}
+            onProviderSettingChange={handleProviderSettingChange}
+            saveProviderKeys={saveProviderKeys}
+            setSaveProviderKeys={setSaveProviderKeys}
 
             enableSfx={enableSfx}
             setEnableSfx={setEnableSfx}
@@ -639,8 +911,6 @@ export default function App() {
             setCustomImageStyle={setCustomImageStyle}
             enableDialogueImages={enableDialogueImages}
             setEnableDialogueImages={setEnableDialogueImages}
-            imageModel={imageModel}
-            setImageModel={setImageModel}
             imageProvider={imageProvider}
             setImageProvider={setImageProvider}
             // Dialogue visual mode
@@ -652,6 +922,19 @@ export default function App() {
             setVeoResolution={setVeoResolution}
             veoDuration={veoDuration}
             setVeoDuration={setVeoDuration}
+            videoMode={videoMode}
+            setVideoMode={setVideoMode}
+            visualizerStyle={visualizerStyle}
+            setVisualizerStyle={setVisualizerStyle}
+            videoFormat={videoFormat}
+            setVideoFormat={setVideoFormat}
+            // Mastering
+            masteringSettings={masteringSettings}
+            setMasteringSettings={setMasteringSettings}
+            pacingSettings={pacingSettings}
+            setPacingSettings={setPacingSettings}
+            ttsCacheSettings={ttsCacheSettings}
+            setTtsCacheSettings={setTtsCacheSettings}
           />
         )}
 
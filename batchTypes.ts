@@ -3,7 +3,7 @@
  * Types for batch processing jobs
  */
 
-import { CastMember, SceneDefinition, ScriptItem, GeneratedPodcastInfo } from './types';
+import { CastMember, SceneDefinition, ScriptItem, GeneratedPodcastInfo, MasteringSettings, LoudnessReport, ShortsRange, PodcastPerson, TranscriptFormat } from './types';
 
 export type BatchJobStatus =
     | 'pending'        // 等待生成腳本
@@ -24,7 +24,13 @@ export interface BatchJobScriptData {
 export interface BatchJobFiles {
     mp3Key?: string;          // IndexedDB key for MP3 blob
     webmKey?: string;         // IndexedDB key for WebM blob
+    mp4Key?: string;          // IndexedDB key for MP4 (H.264/AAC) blob
+    shortKey?: string;        // IndexedDB key for the vertical Shorts / Reels clip
     coverKey?: string;        // IndexedDB key for cover art base64
+    srtKey?: string;          // IndexedDB key for SRT subtitle blob
+    vttKey?: string;          // IndexedDB key for WebVTT subtitle blob
+    transcriptKey?: string;   // IndexedDB key for the JSON transcript (Podcasting 2.0)
+    chaptersKey?: string;     // IndexedDB key for the JSON chapters from scene changes
 }
 
 export interface BatchJob {
@@ -46,15 +52,69 @@ export interface BatchJob {
 
     // Generated files references
     files?: BatchJobFiles;
+    duration?: number;            // Seconds of the exported episode audio
+
+    // Show this job is an episode of (PodcastShow.id)
+    showId?: string;
+
+    // 母帶處理 (mastering settings used for this job, and the measured result)
+    mastering?: MasteringSettings;
+    loudness?: LoudnessReport;
+
+    // Shorts cutdown (the span the clip in files.shortKey was cut from)
+    short?: ShortsRange;
 
     // YouTube upload status
     youtubeVideoId?: string;
     youtubeUrl?: string;
     uploadedAt?: number;
+    youtubeShortId?: string;      // Shorts clip upload (files.shortKey)
+    youtubeShortUrl?: string;
+
+    // S3 publishing (feed the episode was last published in)
+    s3FeedUrl?: string;
+    s3PublishedAt?: number;
 
     // Error tracking
     error?: string;
 }
 
+// 節目 (a podcast show that owns its episodes and RSS feed)
+export interface PodcastShow {
+    id: string;
+    title: string;
+    description: string;
+    author: string;
+    email?: string;
+    category: string;         // iTunes category, e.g. 'Arts'
+    language: string;         // e.g. 'zh-TW'
+    explicit: boolean;
+    baseUrl: string;          // Where feed.xml, cover.jpg and episodes/ are hosted
+    websiteUrl?: string;
+    artworkKey?: string;      // IndexedDB key for the show artwork base64
+    podcastGuid?: string;     // podcast:guid, assigned once the feed has a real URL
+    episodes: ShowEpisode[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+// One feed item, captured from the job's files when the episode is added (or regenerated)
+export interface ShowEpisode {
+    jobId: string;
+    guid: string;             // Assigned once; never changes so apps don't re-download
+    seasonNumber?: number;
+    episodeNumber: number;
+    title: string;
+    description: string;
+    audioFileName: string;    // Under episodes/, kept stable once assigned
+    fileSize: number;         // MP3 bytes (enclosure length)
+    duration: number;         // Seconds
+    imageFileName?: string;   // Episode artwork under episodes/, when the job has a cover
+    transcripts?: TranscriptFormat[];  // Transcript sidecars the job has
+    chapters?: boolean;
+    persons?: PodcastPerson[];         // From the cast
+    publishedAt: number;
+}
+
 // Page navigation type
 export type AppPage = 'batch' | 'studio' | 'config';
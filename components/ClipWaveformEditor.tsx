@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Scissors, Play, RotateCcw } from 'lucide-react';
+import { ClipEdits, ItemType, ScriptItem } from '../types';
+import { computeWaveformPeaks, detectSilenceTrim, DEFAULT_SILENCE_THRESHOLD_DB } from '../utils/clipEditing';
+import { buildTimeline, getClipRegion, scheduleTimeline } from '../utils/timeline';
+import { getAudioContext } from '../utils/audioUtils';
+
+interface ClipWaveformEditorProps {
+  item: ScriptItem;
+  onUpdate: (id: string, updates: Partial<ScriptItem>) => void;
+}
+
+type Handle = 'in' | 'out' | 'fadeIn' | 'fadeOut';
+
+const WAVEFORM_BINS = 300;
+const MIN_CLIP_LENGTH = 0.05; // Seconds kept between the in and out points
+const THRESHOLD_OPTIONS = [-60, -50, -45, -40, -30];
+
+const round = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Waveform view with non-destructive in/out points, fade handles, auto silence trim and clip gain.
+ * Edits are stored on the ScriptItem and applied by the timeline (player, export, batch).
+ */
+export const ClipWaveformEditor: React.FC<ClipWaveformEditorProps> = ({ item, onUpdate }) => {
+  const buffer = item.audioBuffer!;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<Handle | null>(null);
+  const [thresholdDb, setThresholdDb] = useState(DEFAULT_SILENCE_THRESHOLD_DB);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const duration = buffer.duration;
+  const region = getClipRegion(item, buffer);
+  const inPoint = region.offset;
+  const outPoint = region.offset + region.duration;
+  const fadeIn = Math.min(item.fadeIn ?? 0, region.duration / 2);
+  const fadeOut = Math.min(item.fadeOut ?? 0, region.duration / 2);
+  const gain = item.gain ?? 1;
+
+  // 波形繪製 (redrawn only when the audio changes)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const peaks = computeWaveformPeaks(buffer, WAVEFORM_BINS);
+    const { width, height } = canvas;
+    const barWidth = width / peaks.length;
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = item.type === ItemType.SFX ? '#f59e0b' : '#34d399';
+    peaks.forEach((peak, i) => {
+      const h = Math.max(1, peak * height);
+      ctx.fillRect(i * barWidth, (height - h) / 2, Math.max(1, barWidth - 0.5), h);
+    });
+  }, [buffer, item.type]);
+
+  const pct = (seconds: number) => `${(seconds / duration) * 100}%`;
+
+  const timeAt = (clientX: number) => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return Math.min(duration, Math.max(0, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerDown = (handle: Handle) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(handle);
+  };
+
+  const handlePointerMove = (handle: Handle) => (e: React.PointerEvent) => {
+    if (dragging !== handle) return;
+    const t = timeAt(e.clientX);
+    const updates: Partial<ClipEdits> = {};
+
+    switch (handle) {
+      case 'in':
+        updates.trimStart = round(Math.min(t, outPoint - MIN_CLIP_LENGTH));
+        break;
+      case 'out':
+        updates.trimEnd = round(Math.max(t, inPoint + MIN_CLIP_LENGTH));
+        break;
+      case 'fadeIn':
+        updates.fadeIn = round(Math.min(Math.max(0, t - inPoint), region.duration / 2));
+        break;
+      case 'fadeOut':
+        updates.fadeOut = round(Math.min(Math.max(0, outPoint - t), region.duration / 2));
+        break;
+    }
+    onUpdate(item.id, updates);
+  };
+
+  const handleAutoTrim = () => {
+    const trim = detectSilenceTrim(buffer, thresholdDb);
+    if (!trim) {
+      setNotice(`Everything is below ${thresholdDb} dB`);
+      return;
+    }
+    setNotice(null);
+    onUpdate(item.id, { trimStart: round(trim.trimStart), trimEnd: round(trim.trimEnd) });
+  };
+
+  const handleReset = () => {
+    setNotice(null);
+    onUpdate(item.id, { trimStart: undefined, trimEnd: undefined, fadeIn: undefined, fadeOut: undefined, gain: undefined });
+  };
+
+  // Play the edited clip through the same timeline path as the player and export
+  const handlePreview = () => {
+    const ctx = getAudioContext();
+    const timeline = buildTimeline([{
+      id: item.id,
+      type: item.type,
+      audioBuffer: buffer,
+      trimStart: item.trimStart,
+      trimEnd: item.trimEnd,
+      fadeIn: item.fadeIn,
+      fadeOut: item.fadeOut,
+      gain: item.gain,
+    }]);
+    scheduleTimeline(ctx, timeline, ctx.destination, ctx.currentTime);
+  };
+
+  // Envelope line over the waveform: unity gain sits at half height
+  const level = 100 - Math.min(1, gain / 2) * 100;
+  const envelope = [
+    [inPoint, 100],
+    [inPoint + fadeIn, level],
+    [outPoint - fadeOut, level],
+    [outPoint, 100],
+  ].map(([t, y]) => `${(t / duration) * 100},${y}`).join(' ');
+
+  const handleClass = 'absolute top-0 bottom-0 w-3 -ml-1.5 cursor-ew-resize touch-none flex justify-center group';
+
+  return (
+    <div className="space-y-2 bg-zinc-950/30 p-2 rounded border border-zinc-800/50">
+      <div ref={areaRef} className="relative h-16 select-none">
+        <canvas ref={canvasRef} width={600} height={64} className="absolute inset-0 w-full h-full" />
+
+        {/* Trimmed-away regions */}
+        <div className="absolute top-0 bottom-0 left-0 bg-black/70" style={{ width: pct(inPoint) }} />
+        <div className="absolute top-0 bottom-0 right-0 bg-black/70" style={{ width: pct(duration - outPoint) }} />
+
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+          <polyline points={envelope} fill="none" stroke="#e4e4e7" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        </svg>
+
+        {/* In / out points */}
+        {(['in', 'out'] as const).map(handle => (
+          <div
+            key={handle}
+            className={handleClass}
+            style={{ left: pct(handle === 'in' ? inPoint : outPoint) }}
+            onPointerDown={handlePointerDown(handle)}
+            onPointerMove={handlePointerMove(handle)}
+            onPointerUp={() => setDragging(null)}
+            title={handle === 'in' ? `In: ${inPoint.toFixed(2)}s` : `Out: ${outPoint.toFixed(2)}s`}
+          >
+            <div className="w-0.5 h-full bg-sky-400 group-hover:bg-sky-300" />
+          </div>
+        ))}
+
+        {/* Fade handles ride on the envelope */}
+        {(['fadeIn', 'fadeOut'] as const).map(handle => (
+          <div
+            key={handle}
+            className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-zinc-100 border border-zinc-500 cursor-ew-resize touch-none hover:bg-white"
+            style={{ left: pct(handle === 'fadeIn' ? inPoint + fadeIn : outPoint - fadeOut), top: `${level}%` }}
+            onPointerDown={handlePointerDown(handle)}
+            onPointerMove={handlePointerMove(handle)}
+            onPointerUp={() => setDragging(null)}
+            title={handle === 'fadeIn' ? `Fade in: ${fadeIn.toFixed(2)}s` : `Fade out: ${fadeOut.toFixed(2)}s`}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-zinc-500">
+        <span className="font-mono text-zinc-400">
+          {inPoint.toFixed(2)}s – {outPoint.toFixed(2)}s ({region.duration.toFixed(2)}s of {duration.toFixed(2)}s)
+        </span>
+        <label className="flex items-center gap-1">
+          Gain
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.05}
+            value={gain}
+            onChange={(e) => onUpdate(item.id, { gain: parseFloat(e.target.value) })}
+            className="w-20 accent-zinc-300"
+          />
+          <span className="w-12 font-mono text-zinc-400">
+            {gain > 0 ? `${(20 * Math.log10(gain)).toFixed(1)} dB` : '-∞ dB'}
+          </span>
+        </label>
+        <div className="flex items-center rounded border border-zinc-700 overflow-hidden">
+          <select
+            value={thresholdDb}
+            onChange={(e) => setThresholdDb(parseInt(e.target.value))}
+            className="bg-zinc-900 text-zinc-400 px-1 py-1 focus:outline-none"
+            title="Silence threshold"
+          >
+            {THRESHOLD_OPTIONS.map(db => <option key={db} value={db}>{db} dB</option>)}
+          </select>
+          <button
+            onClick={handleAutoTrim}
+            className="flex items-center gap-1 px-2 py-1 bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 transition-colors"
+            title="Move the in/out points to where sound starts and ends"
+          >
+            <Scissors size={10} />
+            Trim Silence
+          </button>
+        </div>
+        <button
+          onClick={handlePreview}
+          className="flex items-center gap-1 px-2 py-1 rounded border border-zinc-700 bg-zinc-900 text-zinc-400 hover:text-zinc-100"
+        >
+          <Play size={10} fill="currentColor" />
+          Preview Edit
+        </button>
+        <button
+          onClick={handleReset}
+          className="flex items-center gap-1 px-2 py-1 rounded border border-zinc-700 bg-zinc-900 text-zinc-400 hover:text-zinc-100"
+        >
+          <RotateCcw size={10} />
+          Reset
+        </button>
+        {notice && <span className="text-amber-400">{notice}</span>}
+      </div>
+    </div>
+  );
+};
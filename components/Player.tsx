@@ -1,98 +1,76 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { ScriptItem, ItemType } from '../types';
+import React, { useEffect, useRef } from 'react';
+import { ScriptItem, SceneDefinition, CastMember, PacingSettings } from '../types';
 import { getAudioContext } from '../utils/audioUtils';
+import { buildTimeline, scheduleTimeline, MAIN_TRACK } from '../utils/timeline';
 
 interface PlayerProps {
   items: ScriptItem[];
+  scenes?: SceneDefinition[];
+  cast?: CastMember[];
+  pacing?: PacingSettings;
   isPlaying: boolean;
   enableSfx: boolean;
   onPlayStateChange: (isPlaying: boolean, currentId: string | null) => void;
 }
 
-export const Player: React.FC<PlayerProps> = ({ items, isPlaying, enableSfx, onPlayStateChange }) => {
-  const [currentIdx, setCurrentIdx] = useState<number>(-1);
-
+export const Player: React.FC<PlayerProps> = ({ items, scenes = [], cast = [], pacing, isPlaying, enableSfx, onPlayStateChange }) => {
   // Refs to manage active playback state
-  const activeSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const timeoutRef = useRef<number | null>(null);
-  const isPlayingRef = useRef(isPlaying);
+  const activeSourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  const timeoutsRef = useRef<number[]>([]);
+  const isStartedRef = useRef(false);
 
-  // Sync ref
+  // Sync playback with isPlaying
   useEffect(() => {
-    isPlayingRef.current = isPlaying;
     if (!isPlaying) {
       stopAll();
-    } else if (currentIdx === -1 && items.length > 0) {
+    } else if (!isStartedRef.current && items.length > 0) {
       // Start from beginning
-      playItem(0);
+      playTimeline();
     }
   }, [isPlaying, items]);
 
   const stopAll = () => {
     // Stop Web Audio
-    if (activeSourceRef.current) {
+    activeSourcesRef.current.forEach(source => {
       try {
-        activeSourceRef.current.stop();
+        source.stop();
       } catch (e) { /* ignore */ }
-      activeSourceRef.current = null;
-    }
+    });
+    activeSourcesRef.current = [];
     // Clear timeouts
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
-    }
-    setCurrentIdx(-1);
+    timeoutsRef.current.forEach(id => clearTimeout(id));
+    timeoutsRef.current = [];
+    isStartedRef.current = false;
     onPlayStateChange(false, null);
   };
 
-  const playItem = async (index: number) => {
-    if (index >= items.length || !isPlayingRef.current) {
+  const playTimeline = async () => {
+    const timeline = buildTimeline(items, { includeSfx: enableSfx, scenes, cast, pacing });
+    if (timeline.clips.length === 0) {
+      console.warn('Nothing to play: no audio generated');
       stopAll();
       return;
     }
 
-    setCurrentIdx(index);
-    const item = items[index];
-    onPlayStateChange(true, item.id);
+    isStartedRef.current = true;
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') {
+      await ctx.resume();
+    }
 
-    if (item.type === ItemType.SPEECH) {
-      if (item.audioBuffer) {
-        playAudioBuffer(item.audioBuffer, () => playItem(index + 1));
-      } else {
-        // Skip if no audio generated
-        console.warn(`Skipping item ${index}: No audio generated`);
-        playItem(index + 1);
-      }
-    } else if (item.type === ItemType.SFX) {
-      // If SFX is disabled in settings, skip the SFX item entirely
-      if (!enableSfx) {
-        console.log(`Skipping SFX item ${index}: Sound Effects disabled in settings`);
-        playItem(index + 1);
-        return;
-      }
+    // Small lead-in so every clip is scheduled before playback begins
+    const startAt = ctx.currentTime + 0.05;
+    activeSourcesRef.current = scheduleTimeline(ctx, timeline, ctx.destination, startAt);
 
-      // Check for generated audio buffer, otherwise skip
-      if (item.audioBuffer) {
-        playAudioBuffer(item.audioBuffer, () => playItem(index + 1));
-      } else {
-        // Skip SFX without audio - no more YouTube fallback
-        console.warn(`Skipping SFX item ${index}: No audio generated`);
-        playItem(index + 1);
-      }
-    }
-  };
+    // Highlight main-track items as they start
+    timeline.clips
+      .filter(clip => clip.track === MAIN_TRACK)
+      .forEach(clip => {
+        const id = window.setTimeout(() => onPlayStateChange(true, clip.id), clip.start * 1000);
+        timeoutsRef.current.push(id);
+      });
 
-  const playAudioBuffer = (buffer: AudioBuffer, onEnded: () => void) => {
-    const ctx = getAudioContext();
-    const source = ctx.createBufferSource();
-    source.buffer = buffer;
-    source.connect(ctx.destination);
-    source.onended = () => {
-      activeSourceRef.current = null;
-      onEnded();
-    };
-    activeSourceRef.current = source;
-    source.start();
+    timeoutsRef.current.push(window.setTimeout(() => stopAll(), (timeline.duration + 0.05) * 1000));
   };
 
   return (
@@ -100,4 +78,4 @@ export const Player: React.FC<PlayerProps> = ({ items, isPlaying, enableSfx, onP
       {/* No longer need hidden YouTube player */}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -4,25 +4,44 @@
  */
 
 import React, { useState, useEffect, forwardRef, useImperativeHandle } from 'react';
-import { Loader2, Image, Rss, Sparkles, Radio, FileAudio, Wand2, Download, Check, AlertCircle, Film, Save, RefreshCw, Upload, Youtube, ExternalLink } from 'lucide-react';
-import { generatePodcastCoverArt, createPodcastZip, downloadBlob, PodcastMetadata, EpisodeMetadata, compressImageForPodcast } from '../services/podcastService';
-import { bufferToWav, bufferToMp3, createWebmVideo, createDynamicWebmVideo, mergeAudioBuffers, WebmResolution, WebmQuality } from '../utils/audioUtils';
-import { GeneratedPodcastInfo, ImageProvider } from '../types';
+import { Loader2, Image, Rss, Sparkles, Radio, FileAudio, Wand2, Download, Check, AlertCircle, Film, Save, RefreshCw, Upload, Youtube, ExternalLink, Captions, CloudUpload } from 'lucide-react';
+import { generatePodcastCoverArt, createPodcastZip, downloadBlob, PodcastMetadata, EpisodeMetadata, PodcastPackageEpisode, compressImageForPodcast, castToPersons } from '../services/podcastService';
+import { buildEpisodePage } from '../services/podcastSiteService';
+import { loadS3Settings, isS3Configured, publishPodcastToS3, S3PublishProgress } from '../services/s3Service';
+import { bufferToWav, bufferToMp3, createWebmVideo, createVideo, WebmResolution, WebmQuality } from '../utils/audioUtils';
+import { Timeline, buildTimeline, getVideoSegments } from '../utils/timeline';
+import { generateSubtitles } from '../utils/subtitles';
+import { buildChapters, toChaptersJson } from '../utils/chapters';
+import { tagMp3, buildEpisodeTags } from '../utils/id3';
+import { VideoOverlaySettings, loadVideoOverlaySettings, saveVideoOverlaySettings, toWebmOverlayOptions } from '../utils/videoOverlays';
+import { VideoMotionSettings, loadVideoMotionSettings, saveVideoMotionSettings, VIDEO_TRANSITION_LABELS } from '../utils/videoMotion';
+import { renderMasteredTimeline, formatLoudnessReport } from '../utils/mastering';
+import { GeneratedPodcastInfo, ImageProvider, ScriptItem, VideoTransition, VideoMode, VisualizerStyle, VideoFormat, SceneDefinition, CastMember, PacingSettings, MasteringSettings, DEFAULT_MASTERING_SETTINGS, LoudnessReport } from '../types';
 import {
     uploadToYouTube,
     getYouTubeAccessToken,
     addVideoToPlaylist,
+    uploadCaptionsToYouTube,
     YouTubeUploadProgress,
     YouTubeUploadResult,
     YouTubePlaylist
 } from '../services/youtubeService';
+import { imageRegistry, ImageConfig } from '../lib/image';
+import { LlmConfig } from '../lib/llm';
+import { ShortsCutdownPanel } from './ShortsCutdownPanel';
 
 interface PodcastPublishSectionProps {
     storyText: string;
-    items: { audioBuffer?: AudioBuffer | null; imageBase64?: string | null }[];
-    geminiApiKey: string;
+    items: ScriptItem[];
+    scenes?: SceneDefinition[];
+    cast?: CastMember[];
+    pacing?: PacingSettings;
+    masteringSettings?: MasteringSettings;
+    videoMode?: VideoMode;
+    visualizerStyle?: VisualizerStyle;
+    videoFormat?: VideoFormat;
     podcastInfo: GeneratedPodcastInfo | null;
-    onGenerateAllAudio?: () => Promise<AudioBuffer[]>;
+    onGenerateAllAudio?: () => Promise<ScriptItem[]>;
     onGeneratingChange?: (isGenerating: boolean) => void;
     onUploadStateChange?: (state: { isUploading: boolean; progress: YouTubeUploadProgress | null; result: YouTubeUploadResult | null; error: string | null }) => void;
     // Download state props
@@ -30,6 +49,8 @@ interface PodcastPublishSectionProps {
     setMp3Blob: (blob: Blob | null) => void;
     webmBlob: Blob | null;
     setWebmBlob: (blob: Blob | null) => void;
+    mp4Blob: Blob | null;
+    setMp4Blob: (blob: Blob | null) => void;
     rssZipBlob: Blob | null;
     setRssZipBlob: (blob: Blob | null) => void;
     coverArtBase64: string | null;
@@ -40,7 +61,10 @@ interface PodcastPublishSectionProps {
     youtubePlaylists: YouTubePlaylist[];
     // Image settings
     imageProvider: ImageProvider;
-    imageModel: string;
+    imageConfig: ImageConfig;
+    // LLM for picking the Shorts highlight
+    llmProvider: string;
+    llmConfig: LlmConfig;
 }
 
 export interface PodcastPublishSectionRef {
@@ -63,7 +87,13 @@ interface GenerationStep {
 export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, PodcastPublishSectionProps>(({
     storyText,
     items,
-    geminiApiKey,
+    scenes = [],
+    cast = [],
+    pacing,
+    masteringSettings = DEFAULT_MASTERING_SETTINGS,
+    videoMode,
+    visualizerStyle,
+    videoFormat,
     podcastInfo,
     onGenerateAllAudio,
     // YouTube props from Config
@@ -74,11 +104,14 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
     // Download state props
     mp3Blob, setMp3Blob,
     webmBlob, setWebmBlob,
+    mp4Blob, setMp4Blob,
     rssZipBlob, setRssZipBlob,
     coverArtBase64, setCoverArtBase64,
     onUploadStateChange,
     imageProvider,
-    imageModel,
+    imageConfig,
+    llmProvider,
+    llmConfig,
 }, ref) => {
     // Cover art state
     // removed local coverArtBase64 state
@@ -87,6 +120,7 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
     // Generation state
     const [isGenerating, setIsGenerating] = useState(false);
     const [steps, setSteps] = useState<GenerationStep[]>([]);
+    const [loudnessReport, setLoudnessReport] = useState<LoudnessReport | null>(null);
 
     // Sync generation state with parent
     useEffect(() => {
@@ -104,6 +138,31 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
     // Video Settings
     const [videoResolution, setVideoResolution] = useState<WebmResolution>('1080p');
     const [videoQuality, setVideoQuality] = useState<WebmQuality>('high');
+    const [videoOverlays, setVideoOverlays] = useState<VideoOverlaySettings>(loadVideoOverlaySettings);
+
+    const updateVideoOverlays = (updates: Partial<VideoOverlaySettings>) => {
+        const next = { ...videoOverlays, ...updates };
+        setVideoOverlays(next);
+        saveVideoOverlaySettings(next);
+    };
+
+    const [videoMotion, setVideoMotion] = useState<VideoMotionSettings>(loadVideoMotionSettings);
+
+    // YouTube upload artifact: the preferred format if it has been made, else whichever video exists
+    const videoBlob = videoFormat === 'mp4' ? (mp4Blob || webmBlob) : (webmBlob || mp4Blob);
+    const videoExtension = videoBlob?.type === 'video/mp4' ? 'mp4' : 'webm';
+
+    // createVideo returns WebM when MP4 encoding is unavailable
+    const storeVideo = (video: Blob) => {
+        if (video.type === 'video/mp4') setMp4Blob(video);
+        else setWebmBlob(video);
+    };
+
+    const updateVideoMotion = (updates: Partial<VideoMotionSettings>) => {
+        const next = { ...videoMotion, ...updates };
+        setVideoMotion(next);
+        saveVideoMotionSettings(next);
+    };
 
     // Generated outputs
     // removed local blobs state
@@ -145,15 +204,48 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
     // Calculate status
     const hasAudio = items.some(item => item.audioBuffer);
     const allAudioGenerated = items.every(item => item.audioBuffer);
-    const totalDuration = items.reduce((acc, item) => acc + (item.audioBuffer?.duration || 0), 0);
-    const hasGeminiKey = !!geminiApiKey;
-    const hasAnyImageKey = hasGeminiKey;
+    const totalDuration = buildTimeline(items, { scenes, cast, pacing }).duration;
+    const hasImageProvider = imageRegistry.isProviderConfigured(imageProvider, imageConfig);
+    const activeImageProvider = imageRegistry.get(imageProvider);
+
+    const visualizerOptions = { style: visualizerStyle, title: episodeTitle || podcastTitle, portraits: cast };
 
     // Update step status helper
     const updateStep = (id: string, status: StepStatus, error?: string) => {
         setSteps(prev => prev.map(s => s.id === id ? { ...s, status, error } : s));
     };
 
+    // One-episode package (show + episode metadata and files) for the ZIP and S3 publishing
+    const buildPackage = (audioItems: ScriptItem[], timeline: Timeline, duration: number, mp3: Blob) => {
+        const podcastMeta: PodcastMetadata = {
+            title: podcastTitle,
+            description: podcastDescription || storyText.slice(0, 500),
+            author: podcastAuthor,
+            language: 'zh-TW',
+            category: 'Arts',
+            explicit: false,
+        };
+        const episodeMeta: EpisodeMetadata = {
+            title: episodeTitle || `${podcastTitle} - Episode 1`,
+            description: storyText.slice(0, 1000),
+            audioFileName: 'episode_001.mp3',
+            duration,
+            publishDate: new Date(),
+            episodeNumber: 1,
+            fileSize: mp3.size,
+            persons: castToPersons(cast),
+        };
+        const chapters = buildChapters(timeline, audioItems);
+        const episode: PodcastPackageEpisode = {
+            metadata: episodeMeta,
+            audioBlob: mp3,
+            subtitles: generateSubtitles(timeline, audioItems, { cast }),
+            chapters: chapters.length > 0 ? toChaptersJson(chapters, { title: episodeMeta.title, podcastName: podcastTitle }) : undefined,
+            page: buildEpisodePage(audioItems, cast, scenes),
+        };
+        return { podcastMeta, episode };
+    };
+
     // === GENERATE ALL ===
     const handleGenerateAll = async () => {
         if (!podcastTitle || !podcastAuthor) {
@@ -164,6 +256,7 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
         setIsGenerating(true);
         setMp3Blob(null);
         setWebmBlob(null);
+        setMp4Blob(null);
         setRssZipBlob(null);
         setCoverArtBase64(null); // Clear cover art on new generation
 
@@ -171,7 +264,7 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
             { id: 'audio', label: 'Generate Audio', status: allAudioGenerated ? 'done' : 'pending' },
             { id: 'cover', label: 'Generate Cover', status: coverArtBase64 ? 'done' : 'pending' },
             { id: 'mp3', label: 'Create MP3', status: 'pending' },
-            { id: 'webm', label: 'Create WebM Video', status: 'pending' },
+            { id: 'webm', label: `Create ${videoFormat === 'mp4' ? 'MP4' : 'WebM'} Video`, status: 'pending' },
             { id: 'rss', label: 'Package RSS + MP3', status: 'pending' },
             // Auto-upload to YouTube if logged in
             ...(isYouTubeLoggedIn ? [{ id: 'youtube', label: 'Upload to YouTube', status: 'pending' as StepStatus }] : []),
@@ -180,35 +273,35 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
 
         try {
             // Step 1: Generate all audio if not done
-            let buffers: AudioBuffer[] = items
-                .map(i => i.audioBuffer)
-                .filter((b): b is AudioBuffer => !!b);
+            let audioItems: ScriptItem[] = items;
 
             if (!allAudioGenerated && onGenerateAllAudio) {
                 updateStep('audio', 'running');
-                buffers = await onGenerateAllAudio();
+                audioItems = await onGenerateAllAudio();
                 updateStep('audio', 'done');
             } else {
                 updateStep('audio', 'done');
             }
 
-            // If still no buffers after generation, throw error
-            if (buffers.length === 0) {
+            // If still no audio after generation, throw error
+            const timeline = buildTimeline(audioItems, { scenes, cast, pacing });
+            if (timeline.clips.length === 0) {
                 updateStep('audio', 'error', 'No audio available');
                 throw new Error('No audio available. Please generate audio individually first.');
             }
 
-            const mergedBuffer = await mergeAudioBuffers(buffers);
-            const wavBlob = bufferToWav(mergedBuffer);
+            const { buffer: mergedBuffer, report } = await renderMasteredTimeline(timeline, masteringSettings);
+            setLoudnessReport(report);
+            const subtitles = generateSubtitles(timeline, audioItems, { cast });
 
             // Step 2: Generate cover art if not done
             let cover = coverArtBase64;
-            if (!cover && hasGeminiKey) {
+            if (!cover && hasImageProvider) {
                 updateStep('cover', 'running');
                 try {
                     const prompt = coverPrompt || `Based on this story: "${storyText.slice(0, 500)}..."`;
-                    // Gemini compresses in generatePodcastCoverArt
-                    cover = await generatePodcastCoverArt(prompt, podcastTitle, geminiApiKey, imageModel);
+                    // Compressed in generatePodcastCoverArt
+                    cover = await generatePodcastCoverArt(prompt, podcastTitle, imageProvider, imageConfig);
                     setCoverArtBase64(cover);
                     updateStep('cover', 'done');
                 } catch (e: any) {
@@ -219,41 +312,44 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
                 updateStep('cover', cover ? 'done' : 'error');
             }
 
-            // Step 3: Convert to MP3
+            // Step 3: Convert to MP3 with ID3 tags
             updateStep('mp3', 'running');
+            const id3Tags = buildEpisodeTags({ podcastName: podcastTitle, author: podcastAuthor, episodeTitle }, cover, timeline, audioItems);
+            let generatedMp3: Blob | null = null;
             try {
-                const mp3 = await bufferToMp3(mergedBuffer);
-                setMp3Blob(mp3);
+                generatedMp3 = tagMp3(await bufferToMp3(mergedBuffer), id3Tags);
+                setMp3Blob(generatedMp3);
                 updateStep('mp3', 'done');
             } catch (e: any) {
                 console.error('MP3 error:', e);
                 updateStep('mp3', 'error', e.message);
             }
 
-            // Step 4: Create WebM video
-            let generatedWebm: Blob | null = null;
-            if (cover) {
+            // Step 4: Create the video (the visualizer also works without a cover; MP4 falls back to WebM)
+            let generatedVideo: Blob | null = null;
+            if (cover || videoMode === 'visualizer') {
                 updateStep('webm', 'running');
                 try {
-                    // Collect segments for dynamic video
-                    const segments = items
-                        .filter(item => item.audioBuffer) // Only items with audio
-                        .map(item => ({
-                            audioBuffer: item.audioBuffer!,
-                            imageBase64: item.imageBase64 || cover!, // Use item image or fall back to cover
-                            duration: item.audioBuffer!.duration
-                        }));
+                    // Collect timeline segments for dynamic video (item image or fall back to cover)
+                    const segments = getVideoSegments(timeline, audioItems, cover || '', { scenes, cast });
 
                     if (segments.length > 0) {
-                        const webm = await createDynamicWebmVideo(segments, cover, { resolution: videoResolution, quality: videoQuality });
-                        generatedWebm = webm;
-                        setWebmBlob(webm);
+                        const video = await createVideo(mergedBuffer, segments, cover || undefined, videoFormat, {
+                            resolution: videoResolution,
+                            quality: videoQuality,
+                            overlays: toWebmOverlayOptions(videoOverlays, timeline, audioItems),
+                            motion: videoMotion,
+                            mode: videoMode,
+                            visualizer: visualizerOptions,
+                        });
+                        generatedVideo = video;
+                        storeVideo(video);
                         updateStep('webm', 'done');
                     } else {
                         updateStep('webm', 'error', 'No audio segments found');
                     }
                 } catch (e: any) {
-                    console.error('WebM error:', e);
+                    console.error('Video error:', e);
                     updateStep('webm', 'error', e.message);
                 }
             } else {
@@ -263,28 +359,9 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
             // Step 5: Create RSS ZIP package
             updateStep('rss', 'running');
             try {
-                const mp3ForZip = mp3Blob || await bufferToMp3(mergedBuffer);
-                const podcastMeta: PodcastMetadata = {
-                    title: podcastTitle,
-                    description: podcastDescription || storyText.slice(0, 500),
-                    author: podcastAuthor,
-                    language: 'zh-TW',
-                    category: 'Arts',
-                    explicit: false,
-                };
-                const episodeMeta: EpisodeMetadata = {
-                    title: episodeTitle || `${podcastTitle} - Episode 1`,
-                    description: storyText.slice(0, 1000),
-                    audioFileName: 'episode_001.mp3',
-                    duration: mergedBuffer.duration,
-                    publishDate: new Date(),
-                    episodeNumber: 1,
-                };
-                const zip = await createPodcastZip(
-                    podcastMeta,
-                    [{ metadata: episodeMeta, audioBlob: mp3ForZip }],
-                    cover || undefined
-                );
+                const mp3ForZip = generatedMp3 || tagMp3(await bufferToMp3(mergedBuffer), id3Tags);
+                const { podcastMeta, episode } = buildPackage(audioItems, timeline, mergedBuffer.duration, mp3ForZip);
+                const zip = await createPodcastZip(podcastMeta, [episode], cover || undefined);
                 setRssZipBlob(zip);
                 updateStep('rss', 'done');
             } catch (e: any) {
@@ -292,15 +369,15 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
                 updateStep('rss', 'error', e.message);
             }
 
-            // Step 6: Auto upload to YouTube if logged in and WebM is ready
-            if (isYouTubeLoggedIn && generatedWebm) {
+            // Step 6: Auto upload to YouTube if logged in and the video is ready
+            if (isYouTubeLoggedIn && generatedVideo) {
                 updateStep('youtube', 'running');
                 try {
                     const token = getYouTubeAccessToken();
                     if (token) {
                         setIsUploadingToYouTube(true);
-                        const result = await uploadToYouTube(
-                            generatedWebm,
+                        let result = await uploadToYouTube(
+                            generatedVideo,
                             {
                                 title: episodeTitle || `${podcastTitle} - New Episode`,
                                 description: `${podcastDescription || storyText.slice(0, 500)}\n\n${podcastInfo?.tags?.map(t => `#${t}`).join(' ') || ''}`,
@@ -322,6 +399,13 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
                             }
                         }
 
+                        try {
+                            await uploadCaptionsToYouTube(result.videoId, subtitles.vtt, token);
+                        } catch (captionErr: any) {
+                            console.warn('Could not upload captions:', captionErr);
+                            result = { ...result, captionsError: captionErr.message };
+                        }
+
                         setYoutubeUploadResult(result);
                         setIsUploadingToYouTube(false);
                         setYoutubeUploadProgress(null);
@@ -359,16 +443,16 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
             alert('Story content or prompt required to generate cover');
             return;
         }
-        if (!hasGeminiKey) {
-            alert('Gemini API Key required');
+        if (!hasImageProvider) {
+            alert('Please configure the image provider in Settings first');
             return;
         }
 
         setIsRegeneratingCover(true);
         try {
             const prompt = coverPrompt || `Based on this story: "${storyText.slice(0, 500)}..."`;
-            // Gemini compresses in generatePodcastCoverArt
-            const cover = await generatePodcastCoverArt(prompt, podcastTitle, geminiApiKey, imageModel);
+            // Compressed in generatePodcastCoverArt
+            const cover = await generatePodcastCoverArt(prompt, podcastTitle, imageProvider, imageConfig);
             setCoverArtBase64(cover);
         } catch (e: any) {
             console.error('Cover regeneration error:', e);
@@ -381,17 +465,19 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
     // Regenerate MP3 only
     const [isRegeneratingMp3, setIsRegeneratingMp3] = useState(false);
     const handleRegenerateMp3 = async () => {
-        const buffers = items
-            .map(i => i.audioBuffer)
-            .filter((b): b is AudioBuffer => !!b);
-        if (buffers.length === 0) {
+        const timeline = buildTimeline(items, { scenes, cast, pacing });
+        if (timeline.clips.length === 0) {
             alert('No audio available');
             return;
         }
         setIsRegeneratingMp3(true);
         try {
-            const mergedBuffer = await mergeAudioBuffers(buffers);
-            const mp3 = await bufferToMp3(mergedBuffer);
+            const { buffer: mergedBuffer, report } = await renderMasteredTimeline(timeline, masteringSettings);
+            setLoudnessReport(report);
+            const mp3 = tagMp3(
+                await bufferToMp3(mergedBuffer),
+                buildEpisodeTags({ podcastName: podcastTitle, author: podcastAuthor, episodeTitle }, coverArtBase64, timeline, items)
+            );
             setMp3Blob(mp3);
         } catch (e: any) {
             console.error('MP3 regeneration error:', e);
@@ -401,16 +487,16 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
         }
     };
 
-    // Regenerate WebM only
+    // Regenerate the video only
     const [isRegeneratingWebm, setIsRegeneratingWebm] = useState(false);
     const handleRegenerateWebm = async () => {
-        const validItems = items.filter(item => item.audioBuffer);
+        const timeline = buildTimeline(items, { scenes, cast, pacing });
 
-        if (validItems.length === 0) {
+        if (timeline.clips.length === 0) {
             alert('No audio available');
             return;
         }
-        if (!coverArtBase64) {
+        if (!coverArtBase64 && videoMode !== 'visualizer') {
             // Fallback to warning, or continue without cover (if createDynamic handles it)
             // But usually we prefer at least one image.
             alert('Cover art required to generate video (or ensure items have images)');
@@ -421,25 +507,28 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
 
         setIsRegeneratingWebm(true);
         try {
-            console.log('[WebM Debug] Starting regeneration. Valid items:', validItems.length);
-
-            // Collect segments for dynamic video
-            const segments = validItems.map((item, index) => {
-                const hasItemImage = !!item.imageBase64;
-                console.log(`[WebM Debug] Item ${index}: duration=${item.audioBuffer!.duration.toFixed(2)}s, hasImage=${hasItemImage}`);
-                return {
-                    audioBuffer: item.audioBuffer!,
-                    imageBase64: item.imageBase64 || coverArtBase64!, // Use item image or fall back to cover
-                    duration: item.audioBuffer!.duration
-                };
+            console.log('[WebM Debug] Starting regeneration. Timeline clips:', timeline.clips.length);
+
+            // Collect segments for dynamic video (item image or fall back to cover)
+            const segments = getVideoSegments(timeline, items, coverArtBase64 || '', { scenes, cast });
+            segments.forEach((segment, index) => {
+                console.log(`[WebM Debug] Segment ${index}: start=${segment.start.toFixed(2)}s, duration=${segment.duration.toFixed(2)}s`);
             });
 
-            console.log('[WebM Debug] Calling createDynamicWebmVideo with segments:', segments.length);
-            const webm = await createDynamicWebmVideo(segments, coverArtBase64 || undefined, { resolution: videoResolution, quality: videoQuality });
-            setWebmBlob(webm);
+            const { buffer: mixdown } = await renderMasteredTimeline(timeline, masteringSettings);
+            console.log('[WebM Debug] Creating video with segments:', segments.length);
+            const video = await createVideo(mixdown, segments, coverArtBase64 || undefined, videoFormat, {
+                resolution: videoResolution,
+                quality: videoQuality,
+                overlays: toWebmOverlayOptions(videoOverlays, timeline, items),
+                motion: videoMotion,
+                mode: videoMode,
+                visualizer: visualizerOptions,
+            });
+            storeVideo(video);
         } catch (e: any) {
-            console.error('WebM regeneration error:', e);
-            alert('WebM conversion failed: ' + e.message);
+            console.error('Video regeneration error:', e);
+            alert('Video conversion failed: ' + e.message);
         } finally {
             setIsRegeneratingWebm(false);
         }
@@ -447,8 +536,13 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
 
     // Download handlers
     const handleDownloadMp3 = () => mp3Blob && downloadBlob(mp3Blob, `${episodeTitle || 'podcast'}.mp3`);
-    const handleDownloadWebm = () => webmBlob && downloadBlob(webmBlob, `${episodeTitle || 'podcast'}.webm`);
+    const handleDownloadVideo = () => videoBlob && downloadBlob(videoBlob, `${episodeTitle || 'podcast'}.${videoExtension}`);
     const handleDownloadRss = () => rssZipBlob && downloadBlob(rssZipBlob, `${podcastTitle.replace(/\s+/g, '_')}_podcast.zip`);
+    const handleDownloadSubtitles = (format: 'srt' | 'vtt') => {
+        const subtitles = generateSubtitles(buildTimeline(items, { scenes, cast, pacing }), items, { cast });
+        const mimeType = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+        downloadBlob(new Blob([subtitles[format]], { type: mimeType }), `${podcastTitle || 'podcast'}.${format}`);
+    };
     const handleDownloadCover = () => {
         if (coverArtBase64) {
             const blob = base64ToBlob(coverArtBase64, 'image/png');
@@ -456,13 +550,41 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
         }
     };
 
+    // === S3 Publishing ===
+    // Bucket settings live in Settings; the folder is per publish (empty = the prefix itself)
+    const [s3Settings] = useState(loadS3Settings);
+    const [s3Folder, setS3Folder] = useState('');
+    const [isPublishingS3, setIsPublishingS3] = useState(false);
+    const [s3Progress, setS3Progress] = useState<S3PublishProgress | null>(null);
+    const [s3FeedUrl, setS3FeedUrl] = useState<string | null>(null);
+
+    const handlePublishToS3 = async () => {
+        if (!mp3Blob) return;
+        const timeline = buildTimeline(items, { scenes, cast, pacing });
+        setIsPublishingS3(true);
+        setS3FeedUrl(null);
+        try {
+            const { podcastMeta, episode } = buildPackage(items, timeline, timeline.duration, mp3Blob);
+            const feedUrl = await publishPodcastToS3(
+                s3Settings, podcastMeta, [episode], coverArtBase64 || undefined, s3Folder.trim(), setS3Progress
+            );
+            setS3FeedUrl(feedUrl);
+        } catch (e: any) {
+            console.error('S3 publish error:', e);
+            alert('S3 publishing failed: ' + e.message);
+        } finally {
+            setIsPublishingS3(false);
+            setS3Progress(null);
+        }
+    };
+
     // === YouTube Upload ===
     // Note: Login/channel/playlist selection is now handled in App.tsx Config
 
     // Handle Upload to YouTube
     const handleUploadToYouTube = async () => {
-        if (!webmBlob) {
-            alert('Please generate WebM video first');
+        if (!videoBlob) {
+            alert('Please generate the video first');
             return;
         }
 
@@ -478,8 +600,8 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
         setYoutubeUploadError(null);
 
         try {
-            const result = await uploadToYouTube(
-                webmBlob,
+            let result = await uploadToYouTube(
+                videoBlob,
                 {
                     title: episodeTitle || `${podcastTitle} - New Episode`,
                     description: `${podcastDescription || storyText.slice(0, 500)}\n\n${podcastInfo?.tags?.map(t => `#${t}`).join(' ') || ''}`,
@@ -503,6 +625,15 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
                 }
             }
 
+            // Attach subtitles for the current script timing
+            try {
+                const subtitles = generateSubtitles(buildTimeline(items, { scenes, cast, pacing }), items, { cast });
+                await uploadCaptionsToYouTube(result.videoId, subtitles.vtt, token);
+            } catch (e: any) {
+                console.warn('Could not upload captions:', e);
+                result = { ...result, captionsError: e.message };
+            }
+
             setYoutubeUploadResult(result);
         } catch (e: any) {
             console.error('YouTube upload error:', e);
@@ -608,13 +739,11 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
                     <div className="flex gap-2 items-center bg-black/40 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-300">
                         <div className="flex items-center gap-1.5 min-w-0 flex-1">
                             <Sparkles size={14} className="text-purple-400 shrink-0" />
-                            <span className="truncate font-medium">{imageProvider === 'gemini' ? 'Gemini' : 'DALL-E'}</span>
+                            <span className="truncate font-medium">{activeImageProvider?.name ?? imageProvider}</span>
+                        </div>
+                        <div className="text-xs text-zinc-500 truncate max-w-[120px]" title={imageRegistry.getModel(imageProvider, imageConfig)}>
+                            {imageRegistry.getModel(imageProvider, imageConfig)}
                         </div>
-                        {imageProvider === 'gemini' && (
-                            <div className="text-xs text-zinc-500 truncate max-w-[120px]" title={imageModel}>
-                                {imageModel}
-                            </div>
-                        )}
                     </div>
                 </div>
 
@@ -642,6 +771,91 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
                         </select>
                     </div>
                 </div>
+
+                {/* Video Overlays: burned into the video for viewers watching without sound */}
+                <div className="col-span-2 space-y-1">
+                    <label className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">Video Overlays</label>
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-zinc-300">
+                        {([
+                            ['captions', 'Captions'],
+                            ['speakerNames', 'Speaker Names'],
+                            ['sceneTitles', 'Scene Titles'],
+                            ['progressBar', 'Progress Bar'],
+                        ] as const).map(([key, label]) => (
+                            <label key={key} className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={videoOverlays[key]}
+                                    onChange={(e) => updateVideoOverlays({ [key]: e.target.checked })}
+                                    className="accent-purple-500"
+                                />
+                                {label}
+                            </label>
+                        ))}
+                        <select
+                            value={videoOverlays.captionPosition}
+                            onChange={(e) => updateVideoOverlays({ captionPosition: e.target.value as VideoOverlaySettings['captionPosition'] })}
+                            className="bg-black/40 border border-zinc-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:border-purple-500 text-zinc-200"
+                            title="Caption position"
+                        >
+                            <option value="bottom">Captions at bottom</option>
+                            <option value="top">Captions at top</option>
+                        </select>
+                        <select
+                            value={videoOverlays.captionSize}
+                            onChange={(e) => updateVideoOverlays({ captionSize: parseFloat(e.target.value) })}
+                            className="bg-black/40 border border-zinc-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:border-purple-500 text-zinc-200"
+                            title="Caption size"
+                        >
+                            <option value={0.035}>Small text</option>
+                            <option value={0.045}>Medium text</option>
+                            <option value={0.06}>Large text</option>
+                        </select>
+                    </div>
+                </div>
+
+                {/* Video Motion: Ken Burns presets and transitions (per-item choices are set on each script item) */}
+                <div className="col-span-2 space-y-1">
+                    <label className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">Video Motion</label>
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-zinc-300">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={videoMotion.motion}
+                                onChange={(e) => updateVideoMotion({ motion: e.target.checked })}
+                                className="accent-purple-500"
+                            />
+                            Ken Burns Motion
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={videoMotion.transitions}
+                                onChange={(e) => updateVideoMotion({ transitions: e.target.checked })}
+                                className="accent-purple-500"
+                            />
+                            Transitions
+                        </label>
+                        {([
+                            ['sceneTransition', 'Scene change'],
+                            ['lineTransition', 'Between lines'],
+                        ] as const).map(([key, label]) => (
+                            <label key={key} className="flex items-center gap-2 text-xs text-zinc-400">
+                                {label}
+                                <select
+                                    value={videoMotion[key]}
+                                    onChange={(e) => updateVideoMotion({ [key]: e.target.value as VideoTransition })}
+                                    disabled={!videoMotion.transitions}
+                                    className="bg-black/40 border border-zinc-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:border-purple-500 text-zinc-200 disabled:opacity-50"
+                                >
+                                    {(Object.keys(VIDEO_TRANSITION_LABELS) as VideoTransition[]).map(t => (
+                                        <option key={t} value={t}>{VIDEO_TRANSITION_LABELS[t]}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+                </div>
                 <div className="col-span-2 space-y-1">
                     <label className="text-xs font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-1">
                         Podcast Description
@@ -688,7 +902,7 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
 
                 {/* Generate All Button */}
                 <div className="col-span-2 flex items-center justify-center text-xs text-zinc-500 text-center">
-                    Audio → Cover Art → MP3 → WebM Video → RSS Package
+                    Audio → Cover Art → MP3 → Video (WebM / MP4) → RSS Package
                 </div>
             </div>
 
@@ -708,10 +922,24 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
                                 </div>
                             ))}
                         </div>
+                        {loudnessReport && (
+                            <div className="text-xs text-zinc-500 pt-2">
+                                Loudness: <span className="text-emerald-400">{formatLoudnessReport(loudnessReport)}</span>
+                                {Number.isFinite(loudnessReport.inputLufs) && loudnessReport.inputLufs !== loudnessReport.outputLufs && (
+                                    <span> · mix was {loudnessReport.inputLufs.toFixed(1)} LUFS</span>
+                                )}
+                            </div>
+                        )}
                     </div>
                 )
             }
 
+            {youtubeUploadResult?.captionsError && (
+                <p className="text-xs text-amber-400">
+                    ⚠ Video uploaded without captions: {youtubeUploadResult.captionsError}
+                </p>
+            )}
+
             {/* Regenerate Buttons - show when audio exists */}
             {
                 hasAudio && (
@@ -738,15 +966,15 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
                             className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-red-600/20 hover:bg-red-600/30 border border-red-500/30 rounded-lg text-sm text-red-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             {isRegeneratingWebm ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
-                            Regenerate WebM
+                            Regenerate Video
                         </button>
                     </div>
                 )
             }
 
             {/* Download Buttons Section */}
-            {(mp3Blob || webmBlob || rssZipBlob) && (
-                <div className="grid grid-cols-3 gap-4">
+            {(mp3Blob || videoBlob || rssZipBlob) && (
+                <div className="grid grid-cols-4 gap-4">
                     <button
                         onClick={() => mp3Blob && downloadBlob(mp3Blob, `${podcastTitle || 'podcast'}.mp3`)}
                         disabled={!mp3Blob}
@@ -762,16 +990,16 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
                     </button>
 
                     <button
-                        onClick={() => webmBlob && downloadBlob(webmBlob, `${podcastTitle || 'podcast'}.webm`)}
-                        disabled={!webmBlob}
+                        onClick={() => videoBlob && downloadBlob(videoBlob, `${podcastTitle || 'podcast'}.${videoExtension}`)}
+                        disabled={!videoBlob}
                         className="flex flex-col items-center justify-center gap-2 p-4 bg-zinc-800/50 hover:bg-zinc-800 border border-zinc-700 hover:border-zinc-600 rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed group"
                     >
                         <div className="p-3 bg-red-500/10 text-red-400 rounded-full group-hover:bg-red-500/20 transition-colors">
                             <Film size={24} />
                         </div>
                         <div className="text-center">
-                            <div className="text-sm font-medium text-zinc-200">Download Video</div>
-                            <div className="text-xs text-zinc-500">{webmBlob ? `${(webmBlob.size / 1024 / 1024).toFixed(1)} MB` : 'Not ready'}</div>
+                            <div className="text-sm font-medium text-zinc-200">Download {videoBlob ? videoExtension.toUpperCase() : 'Video'}</div>
+                            <div className="text-xs text-zinc-500">{videoBlob ? `${(videoBlob.size / 1024 / 1024).toFixed(1)} MB` : 'Not ready'}</div>
                         </div>
                     </button>
 
@@ -788,9 +1016,97 @@ export const PodcastPublishSection = forwardRef<PodcastPublishSectionRef, Podcas
                             <div className="text-xs text-zinc-500">{rssZipBlob ? 'ZIP Archive' : 'Not ready'}</div>
                         </div>
                     </button>
+
+                    <div className="flex flex-col items-center justify-center gap-2 p-4 bg-zinc-800/50 border border-zinc-700 rounded-xl">
+                        <div className="p-3 bg-sky-500/10 text-sky-400 rounded-full">
+                            <Captions size={24} />
+                        </div>
+                        <div className="text-sm font-medium text-zinc-200">Subtitles</div>
+                        <div className="flex gap-2">
+                            {(['srt', 'vtt'] as const).map(format => (
+                                <button
+                                    key={format}
+                                    onClick={() => handleDownloadSubtitles(format)}
+                                    disabled={!hasAudio}
+                                    className="px-2 py-1 rounded text-xs font-medium bg-zinc-700 text-zinc-300 hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {format.toUpperCase()}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
                 </div>
             )}
 
+            {/* S3 publishing: feed with the bucket's public URLs, audio, transcripts and website */}
+            {mp3Blob && (
+                <div className="bg-black/30 rounded-lg p-4 space-y-3 border border-amber-500/20">
+                    <div className="flex items-center gap-2 text-sm font-semibold text-amber-300">
+                        <CloudUpload size={16} /> Publish to S3
+                    </div>
+                    {isS3Configured(s3Settings) ? (
+                        <>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    value={s3Folder}
+                                    onChange={(e) => setS3Folder(e.target.value)}
+                                    placeholder={`Folder under ${s3Settings.bucket}/${s3Settings.prefix || ''} (optional, e.g. my-show)`}
+                                    className="flex-1 bg-black/40 border border-zinc-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-amber-500"
+                                />
+                                <button
+                                    onClick={handlePublishToS3}
+                                    disabled={isPublishingS3 || isGenerating}
+                                    className="flex items-center gap-2 px-4 py-2 bg-amber-600/20 hover:bg-amber-600/30 border border-amber-500/30 rounded-lg text-sm text-amber-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isPublishingS3 ? <Loader2 size={16} className="animate-spin" /> : <CloudUpload size={16} />}
+                                    {isPublishingS3 && s3Progress ? `${s3Progress.index}/${s3Progress.total}` : 'Publish'}
+                                </button>
+                            </div>
+                            {s3Progress && (
+                                <p className="text-xs text-zinc-500 truncate">
+                                    {s3Progress.skipped ? 'Unchanged' : 'Uploading'}: {s3Progress.file}
+                                </p>
+                            )}
+                            {s3FeedUrl && (
+                                <a
+                                    href={s3FeedUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="flex items-center gap-1 text-xs text-green-400 hover:text-green-300 break-all"
+                                >
+                                    <ExternalLink size={12} /> {s3FeedUrl}
+                                </a>
+                            )}
+                        </>
+                    ) : (
+                        <p className="text-xs text-zinc-500">Set up an S3-compatible bucket (AWS, R2, MinIO) in Settings to publish the feed and files directly.</p>
+                    )}
+                </div>
+            )}
+
+            {/* Shorts / Reels cutdown */}
+            {hasAudio && (
+                <ShortsCutdownPanel
+                    items={items}
+                    scenes={scenes}
+                    cast={cast}
+                    pacing={pacing}
+                    masteringSettings={masteringSettings}
+                    videoFormat={videoFormat}
+                    videoMode={videoMode}
+                    visualizer={visualizerOptions}
+                    overlays={videoOverlays}
+                    motion={videoMotion}
+                    cover={coverArtBase64}
+                    llmProvider={llmProvider}
+                    llmConfig={llmConfig}
+                    isYouTubeLoggedIn={isYouTubeLoggedIn}
+                    title={episodeTitle || podcastTitle}
+                    description={`${podcastDescription || storyText.slice(0, 500)}\n\n${podcastInfo?.tags?.map(t => `#${t}`).join(' ') || ''}`}
+                    tags={podcastInfo?.tags}
+                />
+            )}
+
             {/* YouTube Upload Section MOVED TO FOOTER */}
 
             {/* Platform Info */}
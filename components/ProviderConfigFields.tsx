@@ -0,0 +1,65 @@
+import React from 'react';
+import { Save } from 'lucide-react';
+import { ConfigField } from '../lib/tts';
+
+interface ProviderConfigFieldsProps {
+  fields: ConfigField[];
+  values: Record<string, string>;
+  onChange: (key: string, value: string) => void;
+  // Keys edited elsewhere on the page (e.g. shared API keys)
+  hiddenKeys?: string[];
+  accentClass?: string;
+  // Whether password fields are remembered in localStorage (one toggle for every provider key)
+  saveSecrets?: boolean;
+  onToggleSaveSecrets?: () => void;
+}
+
+/**
+ * Settings inputs generated from a registry provider's configFields
+ */
+export const ProviderConfigFields: React.FC<ProviderConfigFieldsProps> = ({
+  fields, values, onChange, hiddenKeys = [], accentClass = 'focus:border-purple-500', saveSecrets, onToggleSaveSecrets
+}) => {
+  const visibleFields = fields.filter(field => !hiddenKeys.includes(field.key));
+  if (visibleFields.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {visibleFields.map(field => (
+        <div key={field.key} className="flex items-center gap-2">
+          <label className="text-xs text-zinc-400 font-medium min-w-[80px]">
+            {field.label}{field.required && <span className="text-red-400">*</span>}
+          </label>
+          {field.type === 'select' ? (
+            <select
+              value={values[field.key] || ''}
+              onChange={(e) => onChange(field.key, e.target.value)}
+              className={`flex-1 bg-zinc-950 border border-zinc-700 rounded px-2 py-1.5 text-sm focus:outline-none ${accentClass}`}
+            >
+              {(field.options || []).map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type={field.type}
+              value={values[field.key] || ''}
+              placeholder={field.placeholder}
+              onChange={(e) => onChange(field.key, e.target.value)}
+              className={`flex-1 bg-zinc-950 border border-zinc-700 rounded px-2 py-1.5 text-sm focus:outline-none ${accentClass}`}
+            />
+          )}
+          {field.type === 'password' && values[field.key] && onToggleSaveSecrets && (
+            <button
+              onClick={onToggleSaveSecrets}
+              className={`px-2 py-1 rounded text-xs flex items-center gap-1 ${saveSecrets ? 'bg-green-500/20 text-green-400' : 'bg-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+              title={saveSecrets ? 'Keys are saved in this browser' : 'Save keys in this browser'}
+            >
+              <Save size={12} />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
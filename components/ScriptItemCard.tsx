@@ -1,21 +1,26 @@
 
-import React from 'react';
-import { ItemType, ScriptItem } from '../types';
-import { Play, Mic, Music, Trash2, ArrowUp, ArrowDown, Loader2, Volume2, MessageSquare, RotateCw, Wand2, AlertCircle, MapPin, Image, Upload } from 'lucide-react';
+import React, { useState } from 'react';
+import { ItemType, ScriptItem, VoiceType, VideoMotion, VideoTransition } from '../types';
+import { Play, Mic, Music, Trash2, ArrowUp, ArrowDown, Loader2, Volume2, MessageSquare, RotateCw, Wand2, AlertCircle, MapPin, Image, Upload, SlidersHorizontal, Library, Layers, Check, Repeat, Scissors } from 'lucide-react';
+import { ClipWaveformEditor } from './ClipWaveformEditor';
+import { VIDEO_MOTION_LABELS, VIDEO_TRANSITION_LABELS } from '../utils/videoMotion';
 
 interface ScriptItemCardProps {
   item: ScriptItem;
   index: number;
   totalItems: number;
   assignedVoice?: string;
-  voiceType?: 'gemini' | 'elevenlabs';
-  elevenLabsApiKey?: string;
+  voiceType?: VoiceType;
+  canGenerateSfx?: boolean;  // The selected SFX provider is configured
   enableDialogueImages?: boolean;
   onUpdate: (id: string, updates: Partial<ScriptItem>) => void;
   onRemove: (id: string) => void;
   onMove: (index: number, direction: 'up' | 'down') => void;
   onGenerateAudio: (id: string, text: string, voice: string, expression: string) => void;
   onGenerateSfx: (id: string, description: string) => void;
+  onPickSfx?: (id: string) => void;  // Open the SFX library to choose a clip
+  onGenerateTakes?: (id: string, count: number) => void;
+  onSelectTake?: (id: string, takeId: string) => void;
   onGenerateImage?: (id: string) => void;
   onUploadImage?: (id: string, file: File) => void;
   onImageClick?: (imageBase64: string) => void;
@@ -24,19 +29,40 @@ interface ScriptItemCardProps {
   isGeneratingImage?: boolean;
 }
 
+const VOICE_BADGE_CLASSES: Record<string, string> = {
+  gemini: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30',
+  elevenlabs: 'text-blue-400 bg-blue-500/10 border-blue-500/30',
+  local: 'text-amber-400 bg-amber-500/10 border-amber-500/30',
+};
+
+const VOICE_BADGE_ICONS: Record<string, string> = {
+  elevenlabs: '🔊',
+  local: '🖥',
+};
+
+// Empty input clears an override so the default (cast / pacing) applies again
+const parseOverride = (value: string, min: number, max: number): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : Math.min(max, Math.max(min, n));
+};
+
 export const ScriptItemCard: React.FC<ScriptItemCardProps> = ({
   item,
   index,
   totalItems,
   assignedVoice,
   voiceType,
-  elevenLabsApiKey,
+  canGenerateSfx,
   enableDialogueImages = true,
   onUpdate,
   onRemove,
   onMove,
   onGenerateAudio,
   onGenerateSfx,
+  onPickSfx,
+  onGenerateTakes,
+  onSelectTake,
   onGenerateImage,
   onUploadImage,
   onImageClick,
@@ -47,10 +73,24 @@ export const ScriptItemCard: React.FC<ScriptItemCardProps> = ({
 
   const currentVoice = assignedVoice || 'Puck';
 
+  // 錄音版本 (takes): how many to generate at once, and which side of the A/B comparison plays next
+  const [takeCount, setTakeCount] = useState(3);
+  const [abSide, setAbSide] = useState<'A' | 'B'>('A');
+  const [showClipEditor, setShowClipEditor] = useState(false);
+  const isClipEdited = item.trimStart !== undefined || item.trimEnd !== undefined;
+  const takes = item.takes || [];
+  const selectedTake = takes.find(t => t.id === item.selectedTakeId);
+  // B = the most recent take that is not selected
+  const compareTake = [...takes].reverse().find(t => t.id !== item.selectedTakeId);
+
+  const handleAbAudition = () => {
+    const take = abSide === 'A' ? selectedTake : compareTake;
+    if (take?.audioBuffer) onPreviewAudio(take.audioBuffer);
+    setAbSide(abSide === 'A' ? 'B' : 'A');
+  };
+
   // Voice badge color based on type
-  const voiceBadgeClass = voiceType === 'elevenlabs'
-    ? 'text-blue-400 bg-blue-500/10 border-blue-500/30'
-    : 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30';
+  const voiceBadgeClass = VOICE_BADGE_CLASSES[voiceType || 'gemini'] || VOICE_BADGE_CLASSES.gemini;
 
   return (
     <div className={`relative flex flex-col gap-3 p-4 rounded-xl border transition-all duration-300 ${isPlaying
@@ -79,7 +119,7 @@ export const ScriptItemCard: React.FC<ScriptItemCardProps> = ({
                 {item.character}
               </span>
               <span className={`text-[10px] uppercase border-l border-zinc-600 pl-2 px-1 py-0.5 rounded ${voiceBadgeClass}`}>
-                {voiceType === 'elevenlabs' ? '🔊 ' : ''}{currentVoice}
+                {voiceType && voiceType !== 'gemini' ? `${VOICE_BADGE_ICONS[voiceType] || ''} ` : ''}{currentVoice}
               </span>
             </div>
           )}
@@ -147,6 +187,19 @@ export const ScriptItemCard: React.FC<ScriptItemCardProps> = ({
                   onChange={(e) => onUpdate(item.id, { sfxDescription: e.target.value })}
                   className="w-full bg-transparent text-xs text-amber-200 placeholder:text-zinc-700 focus:outline-none"
                 />
+                <label className="flex items-center gap-1 text-[10px] text-zinc-500 whitespace-nowrap" title="Suggested SFX length in seconds">
+                  <input
+                    type="number"
+                    min={0.5}
+                    max={22}
+                    step={0.5}
+                    value={item.sfxDuration ?? ''}
+                    placeholder="4"
+                    onChange={(e) => onUpdate(item.id, { sfxDuration: parseOverride(e.target.value, 0.5, 22) })}
+                    className="w-12 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+                  />
+                  s
+                </label>
               </div>
             </>
           )}
@@ -162,6 +215,19 @@ export const ScriptItemCard: React.FC<ScriptItemCardProps> = ({
                 Play
               </button>
             )}
+            {item.audioBuffer && (
+              <button
+                onClick={() => setShowClipEditor(!showClipEditor)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${showClipEditor || isClipEdited
+                  ? 'bg-sky-500/20 text-sky-300 border border-sky-500/20 hover:bg-sky-500/30'
+                  : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'
+                  }`}
+                title="Trim, fade and gain (non-destructive)"
+              >
+                <Scissors size={14} />
+                Edit Clip
+              </button>
+            )}
 
             {item.type === ItemType.SPEECH ? (
               <button
@@ -173,18 +239,229 @@ export const ScriptItemCard: React.FC<ScriptItemCardProps> = ({
                   }`}
               >
                 {item.isLoadingAudio ? <Loader2 size={14} className="animate-spin" /> : (item.audioBuffer ? <RotateCw size={14} /> : <Volume2 size={14} />)}
-                {item.audioBuffer ? 'Regenerate' : 'Generate Voice'}
-              </button>
-            ) : elevenLabsApiKey ? (
-              <button
-                onClick={() => onGenerateSfx(item.id, item.sfxDescription || 'sound')}
-                disabled={item.isLoadingAudio || !item.sfxDescription}
-                className="flex items-center gap-2 px-3 py-1.5 bg-amber-600 hover:bg-amber-500 text-white rounded-md text-xs font-medium transition-colors disabled:opacity-50"
-              >
-                {item.isLoadingAudio ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
-                {item.audioBuffer ? 'Regenerate SFX' : 'Generate SFX'}
+                {item.audioBuffer ? 'Another Take' : 'Generate Voice'}
               </button>
-            ) : null}
+            ) : (
+              <>
+                {onPickSfx && (
+                  <button
+                    onClick={() => onPickSfx(item.id)}
+                    disabled={item.isLoadingAudio}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 transition-colors disabled:opacity-50"
+                  >
+                    <Library size={14} />
+                    From Library
+                  </button>
+                )}
+                {canGenerateSfx && (
+                  <button
+                    onClick={() => onGenerateSfx(item.id, item.sfxDescription || 'sound')}
+                    disabled={item.isLoadingAudio || !item.sfxDescription}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-amber-600 hover:bg-amber-500 text-white rounded-md text-xs font-medium transition-colors disabled:opacity-50"
+                  >
+                    {item.isLoadingAudio ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
+                    {item.audioBuffer ? 'Another Take' : 'Generate SFX'}
+                  </button>
+                )}
+              </>
+            )}
+
+            {onGenerateTakes && (item.type === ItemType.SPEECH || canGenerateSfx) && (
+              <div className="flex items-center rounded-md border border-zinc-700 overflow-hidden">
+                <select
+                  value={takeCount}
+                  onChange={(e) => setTakeCount(parseInt(e.target.value))}
+                  className="bg-zinc-900 text-xs text-zinc-400 px-1 py-1.5 focus:outline-none"
+                >
+                  {[2, 3, 4, 5].map(n => <option key={n} value={n}>{n}×</option>)}
+                </select>
+                <button
+                  onClick={() => onGenerateTakes(item.id, takeCount)}
+                  disabled={item.isLoadingAudio || !(item.type === ItemType.SPEECH ? item.text : item.sfxDescription)}
+                  className="flex items-center gap-1 px-2 py-1.5 text-xs font-medium bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 transition-colors disabled:opacity-50"
+                  title={`Generate ${takeCount} takes to compare`}
+                >
+                  <Layers size={14} />
+                  Takes
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Takes: audition, A/B compare and pick the one used for playback and export */}
+          {takes.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 text-[10px]">
+              <span className="text-zinc-500 font-bold">Takes:</span>
+              {takes.map((take, n) => {
+                const isSelected = take.id === item.selectedTakeId;
+                return (
+                  <div
+                    key={take.id}
+                    className={`flex items-center rounded border ${isSelected ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-300' : 'border-zinc-700 bg-zinc-900 text-zinc-400'}`}
+                    title={[
+                      `${take.providerId}${take.voice ? ` · ${take.voice}` : ''}`,
+                      take.prompt,
+                      new Date(take.createdAt).toLocaleString(),
+                    ].filter(Boolean).join('\n')}
+                  >
+                    <button
+                      onClick={() => take.audioBuffer && onPreviewAudio(take.audioBuffer)}
+                      disabled={!take.audioBuffer}
+                      className="px-1.5 py-1 hover:text-zinc-100 disabled:opacity-40"
+                    >
+                      <Play size={10} fill="currentColor" />
+                    </button>
+                    <button
+                      onClick={() => onSelectTake?.(item.id, take.id)}
+                      className="flex items-center gap-1 pr-1.5 py-1 hover:text-zinc-100"
+                    >
+                      T{n + 1}
+                      {isSelected && <Check size={10} />}
+                    </button>
+                  </div>
+                );
+              })}
+              {selectedTake && compareTake && (
+                <button
+                  onClick={handleAbAudition}
+                  className="flex items-center gap-1 px-1.5 py-1 rounded border border-zinc-700 bg-zinc-900 text-zinc-400 hover:text-zinc-100"
+                  title={`Play the selected take (A) and T${takes.indexOf(compareTake) + 1} (B) alternately`}
+                >
+                  <Repeat size={10} />
+                  A/B · next {abSide}
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Clip editor: in/out points, fades and gain over the waveform */}
+          {showClipEditor && item.audioBuffer && (
+            <ClipWaveformEditor item={item} onUpdate={onUpdate} />
+          )}
+
+          {/* Timeline / Mix Controls */}
+          <div className="flex flex-wrap items-center gap-3 bg-zinc-950/30 p-2 rounded border border-zinc-800/50 text-[10px] text-zinc-500">
+            <SlidersHorizontal size={12} />
+            <label className="flex items-center gap-1" title="0 = main dialogue track, higher tracks play underneath">
+              Track
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={item.track ?? 0}
+                onChange={(e) => onUpdate(item.id, { track: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-10 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-1" title="Seconds relative to the end of the previous line (negative = overlap)">
+              Offset
+              <input
+                type="number"
+                step={0.1}
+                value={item.startOffset ?? 0}
+                onChange={(e) => onUpdate(item.id, { startOffset: parseFloat(e.target.value) || 0 })}
+                className="w-14 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Gain
+              <input
+                type="number"
+                min={0}
+                max={4}
+                step={0.1}
+                value={item.gain ?? 1}
+                onChange={(e) => onUpdate(item.id, { gain: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-12 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Fade In
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={item.fadeIn ?? 0}
+                onChange={(e) => onUpdate(item.id, { fadeIn: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-12 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Fade Out
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={item.fadeOut ?? 0}
+                onChange={(e) => onUpdate(item.id, { fadeOut: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-12 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+              />
+            </label>
+            {/* Pacing overrides: empty = use the default gap */}
+            <label className="flex items-center gap-1" title="Extra silence before this item in seconds">
+              Pre
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={item.pauseBefore ?? ''}
+                placeholder="–"
+                onChange={(e) => onUpdate(item.id, { pauseBefore: parseOverride(e.target.value, 0, 10) })}
+                className="w-12 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-1" title="Silence after this item in seconds (empty = default gap)">
+              Post
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={item.pauseAfter ?? ''}
+                placeholder="–"
+                onChange={(e) => onUpdate(item.id, { pauseAfter: parseOverride(e.target.value, 0, 10) })}
+                className="w-12 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+              />
+            </label>
+            {/* Spatial overrides: empty = use the cast member's placement */}
+            <label className="flex items-center gap-1" title="-1 = left, 1 = right (empty = cast default)">
+              Pan
+              <input
+                type="number"
+                min={-1}
+                max={1}
+                step={0.1}
+                value={item.pan ?? ''}
+                placeholder="–"
+                onChange={(e) => onUpdate(item.id, { pan: parseOverride(e.target.value, -1, 1) })}
+                className="w-12 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-1" title="0 = close, 1 = far (empty = cast default)">
+              Dist
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.1}
+                value={item.distance ?? ''}
+                placeholder="–"
+                onChange={(e) => onUpdate(item.id, { distance: parseOverride(e.target.value, 0, 1) })}
+                className="w-12 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-1" title="Reverb send 0..1 (empty = cast default)">
+              Verb
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.1}
+                value={item.reverb ?? ''}
+                placeholder="–"
+                onChange={(e) => onUpdate(item.id, { reverb: parseOverride(e.target.value, 0, 1) })}
+                className="w-12 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-300 focus:outline-none"
+              />
+            </label>
           </div>
 
           {item.generationError && (
@@ -243,6 +520,29 @@ export const ScriptItemCard: React.FC<ScriptItemCardProps> = ({
                   className="w-full flex-1 bg-zinc-950/30 border border-zinc-800 rounded px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-pink-500/30 resize-none min-h-[60px]"
                 />
                 <div className="flex justify-end gap-2">
+                  {/* Video motion / transition (empty = automatic) */}
+                  <select
+                    value={item.motion || ''}
+                    onChange={(e) => onUpdate(item.id, { motion: (e.target.value || undefined) as VideoMotion | undefined })}
+                    className="mr-auto bg-zinc-900 border border-zinc-800 rounded px-1 py-1 text-[10px] text-zinc-400 focus:outline-none"
+                    title="Camera motion while this image is on screen"
+                  >
+                    <option value="">Motion: Auto</option>
+                    {(Object.keys(VIDEO_MOTION_LABELS) as VideoMotion[]).map(m => (
+                      <option key={m} value={m}>Motion: {VIDEO_MOTION_LABELS[m]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={item.transition || ''}
+                    onChange={(e) => onUpdate(item.id, { transition: (e.target.value || undefined) as VideoTransition | undefined })}
+                    className="bg-zinc-900 border border-zinc-800 rounded px-1 py-1 text-[10px] text-zinc-400 focus:outline-none"
+                    title="Transition into this image"
+                  >
+                    <option value="">Transition: Auto</option>
+                    {(Object.keys(VIDEO_TRANSITION_LABELS) as VideoTransition[]).map(t => (
+                      <option key={t} value={t}>Transition: {VIDEO_TRANSITION_LABELS[t]}</option>
+                    ))}
+                  </select>
                   <label className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded text-[10px] font-medium flex items-center gap-1 cursor-pointer transition-colors">
                     <Upload size={10} />
                     Upload
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Library, Search, Upload, Play, Trash2, Check, X, Loader2, Tag } from 'lucide-react';
+import { SfxLibraryEntry } from '../types';
+import { loadSfxLibrary, saveSfxLibraryEntry, deleteSfxLibraryEntry } from '../services/batchStorageService';
+import { searchSfxLibrary, importSfxFile, parseTagInput } from '../services/sfxLibraryService';
+import { decodeAudioFile, getAudioContext } from '../utils/audioUtils';
+
+interface SfxLibraryModalProps {
+  onClose: () => void;
+  // When set, each entry gets a "Use" button (pick mode from a script item)
+  onPick?: (entry: SfxLibraryEntry) => void;
+}
+
+/**
+ * Browse, import, tag and audition clips in the local SFX library
+ */
+export const SfxLibraryModal: React.FC<SfxLibraryModalProps> = ({ onClose, onPick }) => {
+  const [entries, setEntries] = useState<SfxLibraryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadSfxLibrary().then(list => {
+      setEntries(list);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const results = searchSfxLibrary(entries, query);
+
+  const handleImport = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsImporting(true);
+    setError(null);
+    const imported: SfxLibraryEntry[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        imported.push(await importSfxFile(file));
+      } catch (e: any) {
+        console.error('[SFX Library] Import failed:', file.name, e);
+        setError(`Could not import ${file.name}: ${e.message || 'unsupported audio'}`);
+      }
+    }
+    setEntries(prev => [...imported, ...prev]);
+    setIsImporting(false);
+  };
+
+  const handleUpdateTags = async (entry: SfxLibraryEntry, input: string) => {
+    const tags = parseTagInput(input);
+    if (tags.join(',') === entry.tags.join(',')) return;
+    const updated = { ...entry, tags };
+    setEntries(prev => prev.map(e => e.id === entry.id ? updated : e));
+    await saveSfxLibraryEntry(updated);
+  };
+
+  const handleDelete = async (entry: SfxLibraryEntry) => {
+    if (!confirm(`Delete "${entry.name}" from the library?`)) return;
+    await deleteSfxLibraryEntry(entry.id);
+    setEntries(prev => prev.filter(e => e.id !== entry.id));
+  };
+
+  const handleAudition = async (entry: SfxLibraryEntry) => {
+    try {
+      const ctx = getAudioContext();
+      const source = ctx.createBufferSource();
+      source.buffer = await decodeAudioFile(entry.audioBase64, ctx);
+      source.connect(ctx.destination);
+      source.start();
+    } catch (e: any) {
+      setError(`Playback failed: ${e.message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <Library size={18} className="text-orange-400" />
+            <h3 className="text-sm font-semibold text-zinc-200">SFX Library</h3>
+            <span className="text-xs text-zinc-500">({entries.length} clips)</span>
+          </div>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-200 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Search + Import */}
+        <div className="flex items-center gap-2 p-4 border-b border-zinc-800">
+          <div className="flex-1 flex items-center gap-2 bg-zinc-950 border border-zinc-700 rounded px-3 py-2">
+            <Search size={14} className="text-zinc-500" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, description or tag..."
+              className="w-full bg-transparent text-sm text-zinc-200 placeholder:text-zinc-600 focus:outline-none"
+              autoFocus
+            />
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-2 px-3 py-2 rounded text-xs font-medium bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-colors disabled:opacity-50"
+          >
+            {isImporting ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {error && (
+          <p className="px-4 pt-3 text-xs text-red-400">{error}</p>
+        )}
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8 text-zinc-500"><Loader2 size={20} className="animate-spin" /></div>
+          ) : results.length === 0 ? (
+            <p className="py-8 text-center text-xs text-zinc-500">
+              {entries.length === 0
+                ? 'The library is empty. Import audio files or generate SFX with ElevenLabs to fill it.'
+                : 'No clips match this search.'}
+            </p>
+          ) : results.map(entry => (
+            <div key={entry.id} className="flex items-center gap-3 p-2 rounded-lg bg-black/20 border border-zinc-800/50">
+              <button
+                onClick={() => handleAudition(entry)}
+                className="p-2 rounded-full bg-orange-500/10 text-orange-400 hover:bg-orange-500/20 transition-colors"
+                title="Audition"
+              >
+                <Play size={12} fill="currentColor" />
+              </button>
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-zinc-200 truncate" title={entry.description || entry.name}>{entry.name}</span>
+                  <span className="text-[10px] text-zinc-500 whitespace-nowrap">
+                    {entry.duration ? `${entry.duration.toFixed(1)}s · ` : ''}{entry.source}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Tag size={10} className="text-zinc-600" />
+                  <input
+                    type="text"
+                    defaultValue={entry.tags.join(', ')}
+                    onBlur={(e) => handleUpdateTags(entry, e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                    placeholder="Add tags, comma separated"
+                    className="w-full bg-transparent text-[11px] text-zinc-400 placeholder:text-zinc-700 focus:outline-none focus:text-zinc-200"
+                  />
+                </div>
+              </div>
+              {onPick && (
+                <button
+                  onClick={() => onPick(entry)}
+                  className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-orange-600 hover:bg-orange-500 text-white transition-colors"
+                >
+                  <Check size={12} />
+                  Use
+                </button>
+              )}
+              <button
+                onClick={() => handleDelete(entry)}
+                className="p-1 text-zinc-600 hover:text-red-400 transition-colors"
+                title="Delete"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { Smartphone, Wand2, Loader2, Download, Youtube, ExternalLink, AlertCircle } from 'lucide-react';
+import { CastMember, MasteringSettings, PacingSettings, SceneDefinition, ScriptItem, VideoFormat, VideoMode } from '../types';
+import { pickShortsHighlight } from '../services/geminiService';
+import { downloadBlob } from '../services/podcastService';
+import { uploadToYouTube, getYouTubeAccessToken, YouTubeUploadResult } from '../services/youtubeService';
+import { buildTimeline } from '../utils/timeline';
+import { renderMasteredTimeline } from '../utils/mastering';
+import { VideoRenderProgress } from '../utils/audioUtils';
+import { VideoOverlaySettings } from '../utils/videoOverlays';
+import { VideoMotionSettings } from '../utils/videoMotion';
+import { VisualizerOptions } from '../utils/videoVisualizer';
+import {
+  ShortsSettings, loadShortsSettings, saveShortsSettings, getShortsLines, getShortsRange, renderShortsClip,
+  SHORTS_MIN_SECONDS, SHORTS_MAX_SECONDS
+} from '../utils/shortsCutdown';
+import { LlmConfig } from '../lib/llm';
+
+interface ShortsCutdownPanelProps {
+  items: ScriptItem[];
+  scenes?: SceneDefinition[];
+  cast?: CastMember[];
+  pacing?: PacingSettings;
+  masteringSettings: MasteringSettings;
+  videoFormat?: VideoFormat;
+  videoMode?: VideoMode;
+  visualizer?: VisualizerOptions;
+  overlays: VideoOverlaySettings;
+  motion: VideoMotionSettings;
+  cover: string | null;
+  llmProvider: string;
+  llmConfig: LlmConfig;
+  isYouTubeLoggedIn: boolean;
+  // Episode metadata reused for the Short's upload
+  title: string;
+  description: string;
+  tags?: string[];
+}
+
+const preview = (text: string) => (text.length > 40 ? `${text.slice(0, 40)}…` : text);
+
+/**
+ * Vertical (9:16) Shorts / Reels cutdown: pick a 30–60s span of lines with the LLM or by hand,
+ * render it with burned-in captions and an optional hook title card, then download or upload it.
+ */
+export const ShortsCutdownPanel: React.FC<ShortsCutdownPanelProps> = ({
+  items,
+  scenes,
+  cast,
+  pacing,
+  masteringSettings,
+  videoFormat,
+  videoMode,
+  visualizer,
+  overlays,
+  motion,
+  cover,
+  llmProvider,
+  llmConfig,
+  isYouTubeLoggedIn,
+  title,
+  description,
+  tags,
+}) => {
+  const [startId, setStartId] = useState('');
+  const [endId, setEndId] = useState('');
+  const [hookTitle, setHookTitle] = useState('');
+  const [settings, setSettings] = useState<ShortsSettings>(loadShortsSettings);
+  const [isPicking, setIsPicking] = useState(false);
+  const [isRendering, setIsRendering] = useState(false);
+  const [renderProgress, setRenderProgress] = useState<VideoRenderProgress | null>(null);
+  const [shortBlob, setShortBlob] = useState<Blob | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadPercent, setUploadPercent] = useState(0);
+  const [uploadResult, setUploadResult] = useState<YouTubeUploadResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const timeline = useMemo(() => buildTimeline(items, { scenes, cast, pacing }), [items, scenes, cast, pacing]);
+  const lines = useMemo(() => getShortsLines(timeline, items), [timeline, items]);
+  const range = startId && endId ? getShortsRange(timeline, items, startId, endId) : null;
+  const length = range ? range.end - range.start : 0;
+
+  const updateSettings = (updates: Partial<ShortsSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    saveShortsSettings(next);
+  };
+
+  const handlePick = async () => {
+    setIsPicking(true);
+    setError(null);
+    try {
+      const highlight = await pickShortsHighlight(lines, SHORTS_MIN_SECONDS, SHORTS_MAX_SECONDS, llmProvider, llmConfig);
+      setStartId(highlight.startId);
+      setEndId(highlight.endId);
+      setHookTitle(highlight.hookTitle);
+    } catch (e: any) {
+      console.error('[Shorts] Highlight error:', e);
+      setError(e.message);
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleRender = async () => {
+    if (!range) return;
+    setIsRendering(true);
+    setShortBlob(null);
+    setUploadResult(null);
+    setError(null);
+    try {
+      const { buffer } = await renderMasteredTimeline(timeline, masteringSettings);
+      const blob = await renderShortsClip(
+        buffer,
+        timeline,
+        items,
+        { ...range, hookTitle: settings.hookCard ? hookTitle.trim() : undefined },
+        {
+          format: videoFormat || 'webm',
+          overlays,
+          motion,
+          mode: videoMode,
+          visualizer,
+          cover: cover || undefined,
+          scenes,
+          cast,
+          onProgress: setRenderProgress,
+        }
+      );
+      setShortBlob(blob);
+    } catch (e: any) {
+      console.error('[Shorts] Render error:', e);
+      setError(e.message);
+    } finally {
+      setIsRendering(false);
+      setRenderProgress(null);
+    }
+  };
+
+  const handleUpload = async () => {
+    const token = getYouTubeAccessToken();
+    if (!shortBlob || !token) return;
+    setIsUploading(true);
+    setUploadPercent(0);
+    setError(null);
+    try {
+      const result = await uploadToYouTube(
+        shortBlob,
+        {
+          title: hookTitle.trim() || title,
+          description,
+          tags,
+          categoryId: '22',
+          privacyStatus: 'private',
+          madeForKids: false,
+          isShort: true,
+        },
+        token,
+        (progress) => setUploadPercent(progress.percentage)
+      );
+      setUploadResult(result);
+    } catch (e: any) {
+      console.error('[Shorts] Upload error:', e);
+      setError(e.message);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (lines.length === 0) return null;
+
+  const extension = shortBlob?.type === 'video/mp4' ? 'mp4' : 'webm';
+  const selectClass = 'flex-1 min-w-0 bg-black/40 border border-zinc-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:border-pink-500 text-zinc-200';
+
+  return (
+    <div className="bg-black/30 rounded-lg p-4 space-y-3 border border-pink-500/20">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-semibold text-pink-300">
+          <Smartphone size={16} /> Shorts / Reels Cutdown (9:16)
+        </div>
+        <button
+          onClick={handlePick}
+          disabled={isPicking || isRendering}
+          className="flex items-center gap-1 px-3 py-1 bg-pink-600/20 hover:bg-pink-600/30 border border-pink-500/30 rounded-lg text-xs text-pink-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPicking ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+          Pick with AI
+        </button>
+      </div>
+
+      {/* 片段範圍 */}
+      <div className="flex items-center gap-2">
+        <select value={startId} onChange={(e) => setStartId(e.target.value)} className={selectClass} title="First line">
+          <option value="">Start line…</option>
+          {lines.map(l => (
+            <option key={l.id} value={l.id}>{l.start.toFixed(1)}s {l.speaker ? `${l.speaker}: ` : ''}{preview(l.text)}</option>
+          ))}
+        </select>
+        <span className="text-zinc-500 text-xs">→</span>
+        <select value={endId} onChange={(e) => setEndId(e.target.value)} className={selectClass} title="Last line">
+          <option value="">End line…</option>
+          {lines.map(l => (
+            <option key={l.id} value={l.id}>{(l.start + l.duration).toFixed(1)}s {l.speaker ? `${l.speaker}: ` : ''}{preview(l.text)}</option>
+          ))}
+        </select>
+        <span className={`text-xs font-mono whitespace-nowrap ${range && length < SHORTS_MIN_SECONDS ? 'text-amber-400' : 'text-zinc-400'}`}>
+          {range ? `${length.toFixed(1)}s` : '--'}
+        </span>
+      </div>
+      {range && length < SHORTS_MIN_SECONDS && (
+        <p className="text-xs text-amber-400">Shorts work best at {SHORTS_MIN_SECONDS}–{SHORTS_MAX_SECONDS}s; extend the range.</p>
+      )}
+      {range && length >= SHORTS_MAX_SECONDS && (
+        <p className="text-xs text-zinc-500">The clip is cut at {SHORTS_MAX_SECONDS}s.</p>
+      )}
+
+      {/* 開場標題 */}
+      <div className="flex items-center gap-3 text-sm text-zinc-300">
+        <label className="flex items-center gap-2 cursor-pointer whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={settings.hookCard}
+            onChange={(e) => updateSettings({ hookCard: e.target.checked })}
+            className="accent-pink-500"
+          />
+          Hook Title Card
+        </label>
+        <input
+          value={hookTitle}
+          onChange={(e) => setHookTitle(e.target.value)}
+          disabled={!settings.hookCard}
+          placeholder="Shown for the first 3 seconds, and used as the Short's title"
+          className="flex-1 bg-black/40 border border-zinc-700 rounded-lg px-3 py-1 text-sm focus:outline-none focus:border-pink-500 disabled:opacity-50"
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleRender}
+          disabled={!range || isRendering || isPicking}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-pink-600/20 hover:bg-pink-600/30 border border-pink-500/30 rounded-lg text-sm text-pink-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRendering ? <Loader2 size={16} className="animate-spin" /> : <Smartphone size={16} />}
+          {isRendering && renderProgress
+            ? `Rendering frame ${renderProgress.frame}/${renderProgress.totalFrames}`
+            : 'Render Short'}
+        </button>
+        <button
+          onClick={() => shortBlob && downloadBlob(shortBlob, `${title || 'podcast'}_short.${extension}`)}
+          disabled={!shortBlob}
+          className="flex items-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg text-sm text-zinc-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download size={16} /> {shortBlob ? `${extension.toUpperCase()} (${(shortBlob.size / 1024 / 1024).toFixed(1)} MB)` : 'Download'}
+        </button>
+        {isYouTubeLoggedIn && (
+          <button
+            onClick={handleUpload}
+            disabled={!shortBlob || isUploading}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600/20 hover:bg-red-600/30 border border-red-500/30 rounded-lg text-sm text-red-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUploading ? <Loader2 size={16} className="animate-spin" /> : <Youtube size={16} />}
+            {isUploading ? `${uploadPercent}%` : 'Upload as Short'}
+          </button>
+        )}
+      </div>
+
+      {uploadResult && (
+        <a
+          href={uploadResult.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-xs text-green-400 hover:text-green-300"
+        >
+          <ExternalLink size={12} /> Short uploaded: {uploadResult.title}
+        </a>
+      )}
+      {error && (
+        <p className="flex items-center gap-1 text-xs text-red-400">
+          <AlertCircle size={12} /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
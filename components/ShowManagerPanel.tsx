@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from 'react';
+import { Radio, Plus, Trash2, Save, Check, Rss, Download, Loader2, Image, AlertCircle } from 'lucide-react';
+import { BatchJob, PodcastShow } from '../batchTypes';
+import { updateBatchJob, loadItemAudioBase64 } from '../services/batchStorageService';
+import {
+  loadShows, createShow, updateShow, deleteShow, setShowArtwork, addEpisodeToShow, removeEpisodeFromShow,
+  renumberEpisode, loadShowFeed, createShowPackage
+} from '../services/showService';
+import { downloadBlob } from '../services/podcastService';
+
+interface ShowManagerPanelProps {
+  jobs: BatchJob[];
+  onJobsChange: (jobs: BatchJob[]) => void;
+  shows: PodcastShow[];
+  onShowsChange: (shows: PodcastShow[]) => void;
+}
+
+type ShowFields = Pick<PodcastShow, 'title' | 'description' | 'author' | 'email' | 'category' | 'language' | 'explicit' | 'baseUrl' | 'websiteUrl'>;
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const inputClass = 'w-full bg-black/40 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-purple-500';
+
+/**
+ * Podcast shows: show details and artwork, the episode list with seasons / numbers,
+ * and the full multi-episode RSS feed and upload package.
+ */
+export const ShowManagerPanel: React.FC<ShowManagerPanelProps> = ({ jobs, onJobsChange, shows, onShowsChange }) => {
+  const [selectedId, setSelectedId] = useState<string>(() => shows[0]?.id || '');
+  const [draft, setDraft] = useState<ShowFields | null>(null);
+  const [artwork, setArtwork] = useState<string | null>(null);
+  const [addJobId, setAddJobId] = useState('');
+  const [addSeason, setAddSeason] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const show = shows.find(s => s.id === selectedId) || null;
+
+  // Load the form and artwork when another show is selected
+  useEffect(() => {
+    setDraft(show ? {
+      title: show.title, description: show.description, author: show.author, email: show.email,
+      category: show.category, language: show.language, explicit: show.explicit,
+      baseUrl: show.baseUrl, websiteUrl: show.websiteUrl,
+    } : null);
+    setArtwork(null);
+    if (show?.artworkKey) loadItemAudioBase64(show.artworkKey).then(setArtwork);
+  }, [selectedId, show?.artworkKey]);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      console.error(`[Shows] ${label} error:`, e);
+      setError(e.message);
+    } finally {
+      onShowsChange(loadShows());
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = () => {
+    const created = createShow(localStorage.getItem('podcastTitle') || 'New Show', {
+      author: localStorage.getItem('podcastAuthor') || '',
+    });
+    onShowsChange(loadShows());
+    setSelectedId(created.id);
+  };
+
+  const handleDelete = () => run('Delete', async () => {
+    if (!show || !confirm(`Delete "${show.title}"? Episodes stay in the job list.`)) return;
+    let updatedJobs = jobs;
+    for (const episode of show.episodes) updatedJobs = updateBatchJob(episode.jobId, { showId: undefined });
+    onJobsChange(updatedJobs);
+    const remaining = await deleteShow(show.id);
+    setSelectedId(remaining[0]?.id || '');
+  });
+
+  const handleSave = () => run('Save', async () => {
+    if (!show || !draft) return;
+    await updateShow(show.id, { ...draft, title: draft.title.trim() || show.title });
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 2000);
+  });
+
+  const handleArtwork = (file: File) => run('Artwork', async () => {
+    if (show) await setShowArtwork(show.id, file);
+  });
+
+  const handleAddEpisode = () => run('Add', async () => {
+    const job = jobs.find(j => j.id === addJobId);
+    if (!show || !job) return;
+    await addEpisodeToShow(show.id, job, addSeason ? parseInt(addSeason, 10) : undefined);
+    onJobsChange(updateBatchJob(job.id, { showId: show.id }));
+    setAddJobId('');
+  });
+
+  const handleRemoveEpisode = (jobId: string) => run('Remove', async () => {
+    if (!show) return;
+    await removeEpisodeFromShow(show.id, jobId);
+    onJobsChange(updateBatchJob(jobId, { showId: undefined }));
+  });
+
+  const handleRenumber = (jobId: string, field: 'seasonNumber' | 'episodeNumber', value: string) => run('Renumber', async () => {
+    const episode = show?.episodes.find(e => e.jobId === jobId);
+    if (!show || !episode) return;
+    const number = parseInt(value, 10);
+    if (field === 'episodeNumber' && !(number > 0)) return;
+    await renumberEpisode(show.id, jobId, {
+      seasonNumber: episode.seasonNumber,
+      episodeNumber: episode.episodeNumber,
+      [field]: number > 0 ? number : undefined,
+    });
+  });
+
+  const handleDownloadFeed = () => run('Feed', async () => {
+    if (show) downloadBlob(await loadShowFeed(show), 'feed.xml');
+  });
+
+  const handleExport = () => run('Export', async () => {
+    if (show) downloadBlob(await createShowPackage(show), `${show.title}_feed_package.zip`);
+  });
+
+  // Jobs with audio that are not already in this show
+  const candidates = jobs.filter(j => j.files?.mp3Key && !show?.episodes.some(e => e.jobId === j.id));
+  const episodes = [...(show?.episodes || [])].sort((a, b) =>
+    (a.seasonNumber || 0) - (b.seasonNumber || 0) || a.episodeNumber - b.episodeNumber);
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Radio size={16} className="text-purple-400" />
+        <h3 className="text-sm font-semibold text-zinc-300">Podcast Shows</h3>
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="ml-2 bg-black/40 border border-zinc-700 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-purple-500"
+        >
+          {shows.length === 0 && <option value="">No shows yet</option>}
+          {shows.map(s => <option key={s.id} value={s.id}>{s.title} ({s.episodes.length})</option>)}
+        </select>
+        <button
+          onClick={handleCreate}
+          className="flex items-center gap-1 px-3 py-1 bg-purple-600/20 hover:bg-purple-600/30 border border-purple-500/30 rounded-lg text-xs text-purple-300 transition-colors"
+        >
+          <Plus size={12} /> New Show
+        </button>
+        {show && (
+          <button
+            onClick={handleDelete}
+            disabled={!!busy}
+            className="ml-auto p-2 hover:bg-red-900/30 rounded transition-colors text-zinc-400 hover:text-red-400 disabled:opacity-50"
+            title="Delete show"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      {show && draft && (
+        <>
+          {/* 節目資訊 */}
+          <div className="flex gap-4">
+            <label className="w-24 h-24 flex-shrink-0 bg-zinc-800 rounded-lg flex items-center justify-center border border-zinc-700 overflow-hidden cursor-pointer" title="Upload show artwork">
+              {artwork ? (
+                <img src={`data:image/jpeg;base64,${artwork}`} alt="Artwork" className="w-full h-full object-cover" />
+              ) : (
+                <Image size={28} className="text-zinc-600" />
+              )}
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleArtwork(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <div className="flex-1 grid grid-cols-3 gap-2">
+              <input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} placeholder="Title" className={inputClass} />
+              <input value={draft.author} onChange={(e) => setDraft({ ...draft, author: e.target.value })} placeholder="Author" className={inputClass} />
+              <input value={draft.email || ''} onChange={(e) => setDraft({ ...draft, email: e.target.value || undefined })} placeholder="Owner email" className={inputClass} />
+              <input value={draft.category} onChange={(e) => setDraft({ ...draft, category: e.target.value })} placeholder="Category (e.g. Arts)" className={inputClass} />
+              <input value={draft.language} onChange={(e) => setDraft({ ...draft, language: e.target.value })} placeholder="Language (e.g. zh-TW)" className={inputClass} />
+              <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.explicit}
+                  onChange={(e) => setDraft({ ...draft, explicit: e.target.checked })}
+                  className="accent-purple-500"
+                />
+                Explicit
+              </label>
+              <input value={draft.baseUrl} onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })} placeholder="Hosting base URL" className={`${inputClass} col-span-2`} title="feed.xml, cover.jpg and episodes/ are hosted here" />
+              <input value={draft.websiteUrl || ''} onChange={(e) => setDraft({ ...draft, websiteUrl: e.target.value || undefined })} placeholder="Website (optional)" className={inputClass} />
+              <textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Show description"
+                className={`${inputClass} col-span-3 resize-none h-14`}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!!busy}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 ${isSaved ? 'bg-green-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-200'}`}
+            >
+              {isSaved ? <Check size={12} /> : <Save size={12} />} {isSaved ? 'Saved' : 'Save Show'}
+            </button>
+            <span className="text-xs text-zinc-500 font-mono truncate">{show.baseUrl.replace(/\/+$/, '')}/feed.xml</span>
+          </div>
+
+          {/* 集數 */}
+          <div className="space-y-1">
+            {episodes.length === 0 ? (
+              <p className="text-xs text-zinc-500">No episodes yet. Add a job with generated files, or assign new jobs to this show.</p>
+            ) : episodes.map(episode => (
+              <div key={episode.guid} className="flex items-center gap-2 px-2 py-1 bg-black/30 rounded text-xs text-zinc-300">
+                <span className="text-zinc-500">S</span>
+                <input
+                  type="number"
+                  min={0}
+                  defaultValue={episode.seasonNumber || ''}
+                  onBlur={(e) => e.target.value !== String(episode.seasonNumber || '') && handleRenumber(episode.jobId, 'seasonNumber', e.target.value)}
+                  className="w-12 bg-black/40 border border-zinc-700 rounded px-1 py-0.5"
+                  title="Season (empty for none)"
+                />
+                <span className="text-zinc-500">E</span>
+                <input
+                  type="number"
+                  min={1}
+                  defaultValue={episode.episodeNumber}
+                  onBlur={(e) => e.target.value !== String(episode.episodeNumber) && handleRenumber(episode.jobId, 'episodeNumber', e.target.value)}
+                  className="w-14 bg-black/40 border border-zinc-700 rounded px-1 py-0.5"
+                  title="Episode number"
+                />
+                <span className="flex-1 truncate" title={episode.audioFileName}>{episode.title}</span>
+                {episode.imageFileName && <Image size={12} className="text-zinc-500" />}
+                <span className="font-mono text-zinc-500">{formatDuration(episode.duration)}</span>
+                <span className="font-mono text-zinc-500 w-16 text-right">{(episode.fileSize / 1024 / 1024).toFixed(1)} MB</span>
+                <span className="text-zinc-600">{new Date(episode.publishedAt).toLocaleDateString('en-US')}</span>
+                <button
+                  onClick={() => handleRemoveEpisode(episode.jobId)}
+                  disabled={!!busy}
+                  className="p-1 hover:bg-red-900/30 rounded text-zinc-500 hover:text-red-400 disabled:opacity-50"
+                  title="Remove from feed"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={addJobId}
+              onChange={(e) => setAddJobId(e.target.value)}
+              className="flex-1 min-w-0 bg-black/40 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:border-purple-500"
+            >
+              <option value="">Add episode from a job with files…</option>
+              {candidates.map(j => (
+                <option key={j.id} value={j.id}>{j.episodeTitle || j.storyText.slice(0, 60)}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={addSeason}
+              onChange={(e) => setAddSeason(e.target.value)}
+              placeholder="Season"
+              className="w-20 bg-black/40 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:border-purple-500"
+            />
+            <button
+              onClick={handleAddEpisode}
+              disabled={!addJobId || !!busy}
+              className="flex items-center gap-1 px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'Add' ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />} Add
+            </button>
+            <button
+              onClick={handleDownloadFeed}
+              disabled={!!busy}
+              className="flex items-center gap-1 px-3 py-1.5 bg-orange-600/20 hover:bg-orange-600/30 border border-orange-500/30 rounded-lg text-sm text-orange-300 transition-colors disabled:opacity-50"
+            >
+              <Rss size={14} /> feed.xml
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={!!busy || show.episodes.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 bg-green-600/20 hover:bg-green-600/30 border border-green-500/30 rounded-lg text-sm text-green-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === 'Export' ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Export Package
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <p className="flex items-center gap-1 text-xs text-red-400">
+          <AlertCircle size={12} /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
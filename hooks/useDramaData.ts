@@ -1,7 +1,8 @@
 import React, { useState, useCallback } from 'react';
 import { CastMember, SceneDefinition, ScriptItem, GeneratedPodcastInfo } from '../types';
 import { BatchJob } from '../batchTypes';
-import { getAudioContext, decodeRawPCM, decodeAudioFile } from '../utils/audioUtils';
+import { getAudioContext, decodeRawPCM, decodeAudioFile, decodeSceneAudio } from '../utils/audioUtils';
+import { loadItemTakes } from '../utils/takes';
 
 export interface DramaData {
     storyText: string;
@@ -35,13 +36,17 @@ export const useDramaData = (): DramaData => {
 
         if (job.scriptData) {
             setCast(job.scriptData.cast);
-            // CRITICAL FIX: Ensure scenes are loaded
-            setScenes(job.scriptData.scenes || []);
+            // CRITICAL FIX: Ensure scenes are loaded (with their ambience beds)
+            const { loadSceneAudio } = await import('../services/batchStorageService');
+            setScenes(await decodeSceneAudio(await loadSceneAudio(job.scriptData.scenes || []), getAudioContext()));
             setPodcastInfo(job.scriptData.podcastInfo);
 
-            // Load audio for each item from IndexedDB
+            // Load audio for each item from IndexedDB (every take, playing the selected one)
             const loadedItems = await Promise.all(
                 job.scriptData.items.map(async (item) => {
+                    if (item.takes?.length) {
+                        return loadItemTakes(item, getAudioContext());
+                    }
                     if (item.audioKey) {
                         try {
                             const { loadItemAudioBase64 } = await import('../services/batchStorageService');
@@ -91,7 +96,7 @@ export const useDramaData = (): DramaData => {
                 // Restore state
                 if (data.storyText) setStoryText(data.storyText);
                 if (data.cast) setCast(data.cast);
-                if (data.scenes) setScenes(data.scenes);
+                if (data.scenes) setScenes(await decodeSceneAudio(data.scenes, getAudioContext()));
                 if (data.podcastInfo) setPodcastInfo(data.podcastInfo);
                 if (data.coverArtBase64) setCoverArtBase64(data.coverArtBase64);
 
@@ -99,6 +104,11 @@ export const useDramaData = (): DramaData => {
                 if (data.items) {
                     const audioContext = getAudioContext();
                     const restoredItems = await Promise.all(data.items.map(async (item: any) => {
+                        // Takes are stored under their own keys
+                        if (item.takes?.length) {
+                            const { draftAudioBlob, ...rest } = item;
+                            return loadItemTakes(rest, audioContext);
+                        }
                         // If we have a saved blob but no buffer, decode it
                         if (item.draftAudioBlob && !item.audioBuffer) {
                             try {
@@ -0,0 +1,40 @@
+/**
+ * Image Module - Public API
+ *
+ * This module provides a unified interface for image generation providers.
+ * To add a new provider, create a file in ./providers/ and register it here.
+ */
+
+// Re-export types
+export * from './types';
+
+// Export registry
+export { imageRegistry } from './registry';
+
+// Import providers
+import { geminiImageProvider } from './providers/gemini';
+import { imagenProvider } from './providers/imagen';
+import { stableDiffusionProvider } from './providers/stable-diffusion';
+
+// Import registry
+import { imageRegistry } from './registry';
+
+// Register built-in providers
+imageRegistry.register(geminiImageProvider);
+imageRegistry.register(imagenProvider);
+imageRegistry.register(stableDiffusionProvider);
+
+// Export individual providers for direct access if needed
+export { geminiImageProvider, imagenProvider, stableDiffusionProvider };
+
+/**
+ * Helper: Get the current image provider type as a union type
+ * This provides type safety when working with provider IDs
+ */
+export type ImageProviderId = 'gemini' | 'imagen' | 'stable-diffusion';
+
+// Note: When adding a new provider:
+// 1. Create lib/image/providers/your-provider.ts
+// 2. Declare its capabilities (text-to-image, reference images, aspect ratios)
+// 3. Import and register it here: imageRegistry.register(yourProvider)
+// 4. Add the ID to ImageProviderId type above
@@ -0,0 +1,99 @@
+/**
+ * Gemini Image Provider
+ * Native image output from Gemini models, with multi-image reference composition
+ */
+
+import { ImageProvider, ImageOptions, ImageResult, ImageConfig } from '../types';
+import { GEMINI_IMAGE_MODELS } from '../../../types';
+
+const DEFAULT_MODEL = 'gemini-2.0-flash-exp';
+
+export const geminiImageProvider: ImageProvider = {
+    id: 'gemini',
+    name: 'Gemini',
+    description: 'Gemini native image generation with character/scene reference images',
+
+    capabilities: {
+        textToImage: true,
+        multiReference: true,
+        maxReferences: 14,
+        aspectRatios: ['1:1', '16:9', '9:16', '4:3', '3:4'],
+    },
+
+    configFields: [
+        {
+            key: 'geminiApiKey',
+            label: 'Gemini API Key',
+            type: 'password',
+            required: true,
+            placeholder: '輸入 Gemini API Key...'
+        },
+        {
+            key: 'imageModel',
+            label: 'Model',
+            type: 'select',
+            required: true,
+            options: GEMINI_IMAGE_MODELS.map(model => ({ value: model, label: model }))
+        }
+    ],
+
+    isConfigured(config: ImageConfig): boolean {
+        return !!config.geminiApiKey;
+    },
+
+    getModel(config: ImageConfig): string {
+        return config.imageModel || DEFAULT_MODEL;
+    },
+
+    async generateImage(options: ImageOptions, config: ImageConfig): Promise<ImageResult> {
+        const key = config.geminiApiKey || process.env.API_KEY || '';
+        if (!key) {
+            throw new Error("Gemini API Key is required for image generation.");
+        }
+        const model = this.getModel(config);
+
+        // Text prompt first, then reference images in the order the prompt refers to them
+        const parts: any[] = [{ text: options.prompt }];
+        for (const ref of options.references || []) {
+            parts.push({
+                inlineData: {
+                    mimeType: ref.mimeType || "image/png",
+                    data: ref.imageBase64
+                }
+            });
+        }
+
+        // Gemini 2.0 / 2.5 / 3.0 使用 :generateContent 端點
+        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${key}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                contents: [{ parts }],
+                generationConfig: {
+                    responseModalities: ["IMAGE"],
+                    // Support imageConfig for aspect ratio (Gemini 2.5+, 3.0+)
+                    imageConfig: { aspectRatio: options.aspectRatio },
+                },
+            }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error("[Gemini] Image generation error:", errorText);
+            throw new Error(`Failed to generate image: ${response.statusText} - ${errorText}`);
+        }
+
+        const data = await response.json();
+        const imagePart = data.candidates?.[0]?.content?.parts?.find((p: any) => p.inlineData);
+        if (!imagePart?.inlineData?.data) {
+            throw new Error('No image generated (Gemini).');
+        }
+
+        return {
+            imageBase64: imagePart.inlineData.data,
+            mimeType: imagePart.inlineData.mimeType || 'image/png'
+        };
+    }
+};
@@ -0,0 +1,91 @@
+/**
+ * Imagen Image Provider
+ * Text-to-image only (no reference images) via the Gemini API :predict endpoint
+ */
+
+import { ImageProvider, ImageOptions, ImageResult, ImageConfig } from '../types';
+
+const IMAGEN_MODELS = [
+    'imagen-4.0-generate-001',
+    'imagen-4.0-fast-generate-001',
+    'imagen-4.0-ultra-generate-001',
+    'imagen-3.0-generate-002',
+];
+
+export const imagenProvider: ImageProvider = {
+    id: 'imagen',
+    name: 'Imagen',
+    description: 'Google Imagen text-to-image models',
+
+    capabilities: {
+        textToImage: true,
+        multiReference: false,
+        aspectRatios: ['1:1', '16:9', '9:16', '4:3', '3:4'],
+    },
+
+    configFields: [
+        {
+            key: 'geminiApiKey',
+            label: 'Gemini API Key',
+            type: 'password',
+            required: true,
+            placeholder: '輸入 Gemini API Key...'
+        },
+        {
+            key: 'imagenModel',
+            label: 'Model',
+            type: 'select',
+            required: true,
+            options: IMAGEN_MODELS.map(model => ({ value: model, label: model }))
+        }
+    ],
+
+    isConfigured(config: ImageConfig): boolean {
+        return !!config.geminiApiKey;
+    },
+
+    getModel(config: ImageConfig): string {
+        return config.imagenModel || IMAGEN_MODELS[0];
+    },
+
+    async generateImage(options: ImageOptions, config: ImageConfig): Promise<ImageResult> {
+        const key = config.geminiApiKey || process.env.API_KEY || '';
+        if (!key) {
+            throw new Error("Gemini API Key is required for image generation.");
+        }
+        const model = this.getModel(config);
+
+        // Imagen 使用 :predict 端點
+        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:predict?key=${key}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                instances: [{ prompt: options.prompt }],
+                parameters: {
+                    sampleCount: 1,
+                    aspectRatio: options.aspectRatio
+                }
+            }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error("[Imagen] Image generation error:", errorText);
+            throw new Error(`Failed to generate image: ${response.statusText} - ${errorText}`);
+        }
+
+        // Imagen Response: { predictions: [ { bytesBase64Encoded: "...", mimeType: "image/png" } ] }
+        const data = await response.json();
+        const prediction = data.predictions?.[0];
+        if (!prediction?.bytesBase64Encoded) {
+            throw new Error('No image generated (Imagen).');
+        }
+
+        return {
+            imageBase64: prediction.bytesBase64Encoded,
+            mimeType: prediction.mimeType || 'image/png'
+        };
+    }
+};
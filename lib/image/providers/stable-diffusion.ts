@@ -0,0 +1,112 @@
+/**
+ * Local Stable Diffusion Image Provider
+ * Uses the Automatic1111 web UI API (/sdapi/v1/txt2img), also served by Forge and SD.Next.
+ * Start the web UI with --api (and --cors-allow-origins for the app's origin).
+ */
+
+import { ImageProvider, ImageOptions, ImageResult, ImageConfig } from '../types';
+
+// Long edge in pixels; SD 1.5 checkpoints want 512-768, SDXL/Flux 1024
+const SIZE_OPTIONS = ['1024', '768', '512'];
+
+// Width/height for an aspect ratio, snapped to multiples of 64
+const sizeForAspectRatio = (aspectRatio: string, longEdge: number) => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const snap = (v: number) => Math.max(64, Math.round(v / 64) * 64);
+    return w >= h
+        ? { width: snap(longEdge), height: snap(longEdge * h / w) }
+        : { width: snap(longEdge * w / h), height: snap(longEdge) };
+};
+
+export const stableDiffusionProvider: ImageProvider = {
+    id: 'stable-diffusion',
+    name: 'Stable Diffusion (Local)',
+    description: 'Self-hosted Automatic1111 / Forge / SD.Next API',
+
+    capabilities: {
+        textToImage: true,
+        multiReference: false,
+        aspectRatios: ['1:1', '16:9', '9:16', '4:3', '3:4'],
+    },
+
+    configFields: [
+        {
+            key: 'sdBaseUrl',
+            label: 'Base URL',
+            type: 'text',
+            required: true,
+            placeholder: 'http://127.0.0.1:7860'
+        },
+        {
+            key: 'sdCheckpoint',
+            label: 'Checkpoint',
+            type: 'text',
+            required: false,
+            placeholder: '留空則使用目前載入的模型'
+        },
+        {
+            key: 'sdSize',
+            label: 'Long Edge',
+            type: 'select',
+            required: false,
+            options: SIZE_OPTIONS.map(size => ({ value: size, label: `${size}px` }))
+        },
+        {
+            key: 'sdNegativePrompt',
+            label: 'Negative Prompt',
+            type: 'text',
+            required: false,
+            placeholder: 'text, watermark, blurry...'
+        }
+    ],
+
+    isConfigured(config: ImageConfig): boolean {
+        return !!config.sdBaseUrl;
+    },
+
+    getModel(config: ImageConfig): string {
+        return config.sdCheckpoint || 'current checkpoint';
+    },
+
+    async generateImage(options: ImageOptions, config: ImageConfig): Promise<ImageResult> {
+        const { width, height } = sizeForAspectRatio(options.aspectRatio, parseInt(config.sdSize || '1024'));
+
+        const body: Record<string, unknown> = {
+            prompt: options.prompt,
+            negative_prompt: config.sdNegativePrompt || '',
+            width,
+            height,
+            steps: 25,
+            cfg_scale: 7,
+            batch_size: 1,
+        };
+        if (config.sdCheckpoint) {
+            body.override_settings = { sd_model_checkpoint: config.sdCheckpoint };
+        }
+
+        const response = await fetch(`${config.sdBaseUrl.replace(/\/+$/, '')}/sdapi/v1/txt2img`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error("[Stable Diffusion] Image generation error:", errorText);
+            throw new Error(`Failed to generate image: ${response.statusText} - ${errorText}`);
+        }
+
+        const data = await response.json();
+        const base64: string | undefined = data.images?.[0];
+        if (!base64) {
+            throw new Error('No image generated (Stable Diffusion).');
+        }
+
+        return {
+            imageBase64: base64.replace(/^data:image\/\w+;base64,/, ''),
+            mimeType: 'image/png'
+        };
+    }
+};
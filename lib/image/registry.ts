@@ -0,0 +1,127 @@
+/**
+ * Image Provider Registry
+ * Centralized management for all image generation providers
+ */
+
+import { ImageProvider, ImageOptions, ImageResult, ImageConfig } from './types';
+
+class ImageRegistry {
+    private providers: Map<string, ImageProvider> = new Map();
+
+    /**
+     * Register an image provider
+     */
+    register(provider: ImageProvider): void {
+        if (this.providers.has(provider.id)) {
+            console.warn(`[Image Registry] Provider "${provider.id}" already registered, overwriting.`);
+        }
+        this.providers.set(provider.id, provider);
+        console.log(`[Image Registry] Registered provider: ${provider.id} (${provider.name})`);
+    }
+
+    /**
+     * Unregister a provider (for dynamic loading scenarios)
+     */
+    unregister(id: string): boolean {
+        return this.providers.delete(id);
+    }
+
+    /**
+     * Get provider by ID
+     */
+    get(id: string): ImageProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    /**
+     * Get all registered providers
+     */
+    listAll(): ImageProvider[] {
+        return Array.from(this.providers.values());
+    }
+
+    /**
+     * Get all provider IDs
+     */
+    getProviderIds(): string[] {
+        return Array.from(this.providers.keys());
+    }
+
+    /**
+     * Check if a provider exists
+     */
+    has(id: string): boolean {
+        return this.providers.has(id);
+    }
+
+    /**
+     * Check if a provider is configured
+     */
+    isProviderConfigured(id: string, config: ImageConfig): boolean {
+        const provider = this.get(id);
+        return provider?.isConfigured(config) ?? false;
+    }
+
+    /**
+     * Check if a provider can compose an image from reference images
+     */
+    supportsReferences(id: string): boolean {
+        return this.get(id)?.capabilities.multiReference ?? false;
+    }
+
+    /**
+     * Model name a provider will use, or empty string if the provider is unknown
+     */
+    getModel(id: string, config: ImageConfig): string {
+        return this.get(id)?.getModel(config) ?? '';
+    }
+
+    /**
+     * Generate an image using specified provider.
+     * Unsupported aspect ratios fall back to the provider's first ratio, and
+     * reference images are dropped (prompt-only) for providers that cannot use them.
+     */
+    async generateImage(
+        providerId: string,
+        options: ImageOptions,
+        config: ImageConfig
+    ): Promise<ImageResult> {
+        const provider = this.get(providerId);
+        if (!provider) {
+            throw new Error(`[Image Registry] Provider not found: ${providerId}`);
+        }
+        if (!provider.isConfigured(config)) {
+            throw new Error(`[Image Registry] Provider "${provider.name}" is not configured. Please check its settings.`);
+        }
+
+        const { capabilities } = provider;
+        let { aspectRatio, references } = options;
+
+        if (!capabilities.aspectRatios.includes(aspectRatio)) {
+            console.warn(`[Image Registry] ${provider.name} does not support ${aspectRatio}, using ${capabilities.aspectRatios[0]}`);
+            aspectRatio = capabilities.aspectRatios[0];
+        }
+        if (references?.length) {
+            if (!capabilities.multiReference) {
+                console.warn(`[Image Registry] ${provider.name} does not accept reference images, generating from prompt only`);
+                references = undefined;
+            } else if (capabilities.maxReferences && references.length > capabilities.maxReferences) {
+                references = references.slice(0, capabilities.maxReferences);
+            }
+        } else if (!capabilities.textToImage) {
+            throw new Error(`[Image Registry] Provider "${provider.name}" requires reference images`);
+        }
+
+        return provider.generateImage({ ...options, aspectRatio, references }, config);
+    }
+
+    /**
+     * Get configured providers only
+     */
+    getConfiguredProviders(config: ImageConfig): ImageProvider[] {
+        return this.listAll().filter(p => p.isConfigured(config));
+    }
+}
+
+// Singleton instance
+export const imageRegistry = new ImageRegistry();
@@ -0,0 +1,77 @@
+/**
+ * Image Provider Types
+ * Defines the interface for all image generation providers
+ */
+
+import type { ConfigField } from '../tts/types';
+
+export type { ConfigField };
+
+/**
+ * What a provider can do, so callers can pick a strategy (e.g. compose vs. prompt-only)
+ */
+export interface ImageCapabilities {
+    textToImage: boolean;
+    multiReference: boolean;     // Accepts reference images to compose characters + scene
+    maxReferences?: number;
+    aspectRatios: string[];      // e.g. '1:1', '16:9'
+}
+
+/**
+ * Reference image passed along with the prompt
+ */
+export interface ReferenceImage {
+    imageBase64: string;
+    mimeType?: string;           // Defaults to image/png
+}
+
+/**
+ * Image generation options
+ */
+export interface ImageOptions {
+    prompt: string;
+    aspectRatio: string;
+    references?: ReferenceImage[];
+}
+
+/**
+ * Image generation result
+ */
+export interface ImageResult {
+    imageBase64: string;
+    mimeType: string;
+}
+
+/**
+ * Image Provider interface - all providers must implement this
+ */
+export interface ImageProvider {
+    /** Unique provider ID */
+    readonly id: string;
+
+    /** Display name */
+    readonly name: string;
+
+    /** Provider description */
+    readonly description?: string;
+
+    /** Supported features */
+    readonly capabilities: ImageCapabilities;
+
+    /** Configuration fields for settings UI */
+    readonly configFields: ConfigField[];
+
+    /** Check if provider is configured and ready */
+    isConfigured(config: Record<string, string>): boolean;
+
+    /** Model that will be used with the given config (for display and logging) */
+    getModel(config: Record<string, string>): string;
+
+    /** Generate an image */
+    generateImage(options: ImageOptions, config: Record<string, string>): Promise<ImageResult>;
+}
+
+/**
+ * Configuration store type - maps config keys to values
+ */
+export type ImageConfig = Record<string, string>;
@@ -0,0 +1,38 @@
+/**
+ * LLM Module - Public API
+ *
+ * This module provides a unified interface for script/story generation providers.
+ * To add a new provider, create a file in ./providers/ and register it here.
+ */
+
+// Re-export types
+export * from './types';
+
+// Export registry
+export { llmRegistry } from './registry';
+
+// Import providers
+import { geminiLlmProvider } from './providers/gemini';
+import { openAiCompatibleProvider } from './providers/openai-compatible';
+
+// Import registry
+import { llmRegistry } from './registry';
+
+// Register built-in providers
+llmRegistry.register(geminiLlmProvider);
+llmRegistry.register(openAiCompatibleProvider);
+
+// Export individual providers for direct access if needed
+export { geminiLlmProvider, openAiCompatibleProvider };
+
+/**
+ * Helper: Get the current LLM provider type as a union type
+ * This provides type safety when working with provider IDs
+ */
+export type LlmProviderId = 'gemini' | 'openai-compatible';
+
+// Note: When adding a new provider:
+// 1. Create lib/llm/providers/your-provider.ts
+// 2. Import and register it here: llmRegistry.register(yourProvider)
+// 3. Add the ID to LlmProviderId type above
+// The Config page renders the provider's configFields automatically.
@@ -0,0 +1,62 @@
+/**
+ * Gemini LLM Provider
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { LlmProvider, JsonGenerationOptions, LlmConfig } from '../types';
+import { GEMINI_MODELS } from '../../../types';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export const geminiLlmProvider: LlmProvider = {
+    id: 'gemini',
+    name: 'Gemini',
+    description: 'Google Gemini models with native structured output',
+
+    configFields: [
+        {
+            key: 'geminiApiKey',
+            label: 'Gemini API Key',
+            type: 'password',
+            required: true,
+            placeholder: '輸入 Gemini API Key...'
+        },
+        {
+            key: 'geminiModel',
+            label: 'Model',
+            type: 'select',
+            required: true,
+            options: GEMINI_MODELS.map(model => ({ value: model, label: model }))
+        }
+    ],
+
+    isConfigured(config: LlmConfig): boolean {
+        return !!config.geminiApiKey;
+    },
+
+    getModel(config: LlmConfig): string {
+        return config.geminiModel || DEFAULT_MODEL;
+    },
+
+    async generateJson<T>(options: JsonGenerationOptions, config: LlmConfig): Promise<T> {
+        const key = config.geminiApiKey || process.env.API_KEY || '';
+        if (!key) {
+            throw new Error("Gemini API Key is required. Please enter it in Settings or set API_KEY environment variable.");
+        }
+        const ai = new GoogleGenAI({ apiKey: key });
+
+        const response = await ai.models.generateContent({
+            model: this.getModel(config),
+            contents: options.prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseJsonSchema: options.schema,
+                temperature: options.temperature,
+            },
+        });
+
+        const jsonText = response.text;
+        if (!jsonText) throw new Error("No response text from Gemini");
+        return JSON.parse(jsonText) as T;
+    }
+};
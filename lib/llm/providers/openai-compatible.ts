@@ -0,0 +1,97 @@
+/**
+ * OpenAI-compatible LLM Provider
+ * Works with any /v1/chat/completions server (OpenAI, llama.cpp server, Ollama, LM Studio, vLLM)
+ */
+
+import { LlmProvider, JsonGenerationOptions, LlmConfig } from '../types';
+
+// Reasoning models may wrap the answer in <think> blocks or markdown fences
+const extractJson = (text: string): string => {
+    const withoutThinking = text.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+    const fenced = withoutThinking.match(/```(?:json)?\s*([\s\S]*?)```/);
+    return (fenced ? fenced[1] : withoutThinking).trim();
+};
+
+export const openAiCompatibleProvider: LlmProvider = {
+    id: 'openai-compatible',
+    name: 'OpenAI Compatible',
+    description: 'Any OpenAI-style chat completions API, e.g. a local llama.cpp or Ollama server',
+
+    configFields: [
+        {
+            key: 'openaiBaseUrl',
+            label: 'Base URL',
+            type: 'text',
+            required: true,
+            placeholder: 'http://localhost:11434/v1'
+        },
+        {
+            key: 'openaiModel',
+            label: 'Model',
+            type: 'text',
+            required: false,
+            placeholder: '例如 llama3.1、qwen2.5:14b...'
+        },
+        {
+            key: 'openaiApiKey',
+            label: 'API Key',
+            type: 'password',
+            required: false,
+            placeholder: '本機伺服器可留空'
+        }
+    ],
+
+    isConfigured(config: LlmConfig): boolean {
+        return !!config.openaiBaseUrl;
+    },
+
+    getModel(config: LlmConfig): string {
+        return config.openaiModel || 'default';
+    },
+
+    async generateJson<T>(options: JsonGenerationOptions, config: LlmConfig): Promise<T> {
+        const url = `${config.openaiBaseUrl.replace(/\/+$/, '')}/chat/completions`;
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.openaiApiKey) {
+            headers['Authorization'] = `Bearer ${config.openaiApiKey}`;
+        }
+
+        // Not every server enforces response_format, so the schema is also spelled out in the prompt
+        const response = await fetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: this.getModel(config),
+                messages: [
+                    {
+                        role: 'system',
+                        content: `Respond with a single JSON value only, no commentary. It must match this JSON Schema:\n${JSON.stringify(options.schema)}`
+                    },
+                    { role: 'user', content: options.prompt }
+                ],
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'response', schema: options.schema }
+                },
+                temperature: options.temperature,
+                stream: false,
+            }),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`OpenAI-compatible API error (${response.status}): ${errorText}`);
+        }
+
+        const data = await response.json();
+        const content: string | undefined = data.choices?.[0]?.message?.content;
+        if (!content) throw new Error("No response text from OpenAI-compatible API");
+
+        try {
+            return JSON.parse(extractJson(content)) as T;
+        } catch (e) {
+            console.error('[OpenAI Compatible Provider] Invalid JSON response:', content);
+            throw new Error('The model did not return valid JSON. Try a larger model or a lower temperature.');
+        }
+    }
+};
@@ -0,0 +1,99 @@
+/**
+ * LLM Provider Registry
+ * Centralized management for all script/story generation providers
+ */
+
+import { LlmProvider, JsonGenerationOptions, LlmConfig } from './types';
+
+class LlmRegistry {
+    private providers: Map<string, LlmProvider> = new Map();
+
+    /**
+     * Register an LLM provider
+     */
+    register(provider: LlmProvider): void {
+        if (this.providers.has(provider.id)) {
+            console.warn(`[LLM Registry] Provider "${provider.id}" already registered, overwriting.`);
+        }
+        this.providers.set(provider.id, provider);
+        console.log(`[LLM Registry] Registered provider: ${provider.id} (${provider.name})`);
+    }
+
+    /**
+     * Unregister a provider (for dynamic loading scenarios)
+     */
+    unregister(id: string): boolean {
+        return this.providers.delete(id);
+    }
+
+    /**
+     * Get provider by ID
+     */
+    get(id: string): LlmProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    /**
+     * Get all registered providers
+     */
+    listAll(): LlmProvider[] {
+        return Array.from(this.providers.values());
+    }
+
+    /**
+     * Get all provider IDs
+     */
+    getProviderIds(): string[] {
+        return Array.from(this.providers.keys());
+    }
+
+    /**
+     * Check if a provider exists
+     */
+    has(id: string): boolean {
+        return this.providers.has(id);
+    }
+
+    /**
+     * Check if a provider is configured
+     */
+    isProviderConfigured(id: string, config: LlmConfig): boolean {
+        const provider = this.get(id);
+        return provider?.isConfigured(config) ?? false;
+    }
+
+    /**
+     * Model name a provider will use, or empty string if the provider is unknown
+     */
+    getModel(id: string, config: LlmConfig): string {
+        return this.get(id)?.getModel(config) ?? '';
+    }
+
+    /**
+     * Generate structured JSON using specified provider
+     */
+    async generateJson<T>(
+        providerId: string,
+        options: JsonGenerationOptions,
+        config: LlmConfig
+    ): Promise<T> {
+        const provider = this.get(providerId);
+        if (!provider) {
+            throw new Error(`[LLM Registry] Provider not found: ${providerId}`);
+        }
+        if (!provider.isConfigured(config)) {
+            throw new Error(`[LLM Registry] Provider "${provider.name}" is not configured. Please check its settings.`);
+        }
+        return provider.generateJson<T>(options, config);
+    }
+
+    /**
+     * Get configured providers only
+     */
+    getConfiguredProviders(config: LlmConfig): LlmProvider[] {
+        return this.listAll().filter(p => p.isConfigured(config));
+    }
+}
+
+// Singleton instance
+export const llmRegistry = new LlmRegistry();
@@ -0,0 +1,60 @@
+/**
+ * LLM Provider Types
+ * Defines the interface for all script/story generation providers
+ */
+
+import type { ConfigField } from '../tts/types';
+
+export type { ConfigField };
+
+/**
+ * JSON Schema subset used to describe structured responses
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    enum?: string[];
+}
+
+/**
+ * Structured generation options
+ */
+export interface JsonGenerationOptions {
+    prompt: string;
+    schema: JsonSchema;
+    temperature?: number;
+}
+
+/**
+ * LLM Provider interface - all providers must implement this
+ */
+export interface LlmProvider {
+    /** Unique provider ID */
+    readonly id: string;
+
+    /** Display name */
+    readonly name: string;
+
+    /** Provider description */
+    readonly description?: string;
+
+    /** Configuration fields for settings UI */
+    readonly configFields: ConfigField[];
+
+    /** Check if provider is configured and ready */
+    isConfigured(config: Record<string, string>): boolean;
+
+    /** Model that will be used with the given config (for display and logging) */
+    getModel(config: Record<string, string>): string;
+
+    /** Generate a JSON response matching the schema */
+    generateJson<T>(options: JsonGenerationOptions, config: Record<string, string>): Promise<T>;
+}
+
+/**
+ * Configuration store type - maps config keys to values
+ */
+export type LlmConfig = Record<string, string>;
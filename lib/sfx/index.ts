@@ -0,0 +1,39 @@
+/**
+ * SFX Module - Public API
+ *
+ * This module provides a unified interface for sound effect providers.
+ * To add a new provider, create a file in ./providers/ and register it here.
+ */
+
+// Re-export types
+export * from './types';
+
+// Export registry
+export { sfxRegistry, DEFAULT_SFX_DURATION } from './registry';
+
+// Import providers
+import { elevenLabsSfxProvider } from './providers/elevenlabs';
+import { libraryProvider } from './providers/library';
+import { silenceProvider } from './providers/silence';
+
+// Import registry
+import { sfxRegistry } from './registry';
+
+// Register built-in providers
+sfxRegistry.register(elevenLabsSfxProvider);
+sfxRegistry.register(libraryProvider);
+sfxRegistry.register(silenceProvider);
+
+// Export individual providers for direct access if needed
+export { elevenLabsSfxProvider, libraryProvider, silenceProvider };
+
+/**
+ * Helper: Get the current SFX provider type as a union type
+ * This provides type safety when working with provider IDs
+ */
+export type SfxProviderId = 'elevenlabs' | 'library' | 'silence';
+
+// Note: When adding a new provider:
+// 1. Create lib/sfx/providers/your-provider.ts
+// 2. Import and register it here: sfxRegistry.register(yourProvider)
+// 3. Add the ID to SfxProviderId type above
@@ -0,0 +1,46 @@
+/**
+ * ElevenLabs SFX Provider
+ * Generates sound effects from the description with the sound-generation API.
+ * Each generated clip is also added to the local SFX library.
+ */
+
+import { SfxProvider, SfxOptions, SfxResult, SfxConfig } from '../types';
+
+export const elevenLabsSfxProvider: SfxProvider = {
+    id: 'elevenlabs',
+    name: 'ElevenLabs',
+    description: 'AI-generated sound effects (0.5-22 seconds)',
+
+    configFields: [
+        {
+            key: 'elevenLabsApiKey',
+            label: 'ElevenLabs API Key',
+            type: 'password',
+            required: true,
+            placeholder: '輸入 ElevenLabs API Key...'
+        }
+    ],
+
+    isConfigured(config: SfxConfig): boolean {
+        return !!config.elevenLabsApiKey;
+    },
+
+    async generateSfx(options: SfxOptions, config: SfxConfig): Promise<SfxResult> {
+        const { generateElevenLabsSfx } = await import('../../../services/elevenLabsService');
+
+        const base64 = await generateElevenLabsSfx(options.description, options.durationSeconds, config.elevenLabsApiKey);
+
+        // Keep every paid generation in the local SFX library so it can be reused
+        try {
+            const { addGeneratedSfxToLibrary } = await import('../../../services/sfxLibraryService');
+            await addGeneratedSfxToLibrary(options.description, base64, 'mp3', options.durationSeconds);
+        } catch (e) {
+            console.warn('[ElevenLabs SFX] Failed to save clip to the SFX library:', e);
+        }
+
+        return {
+            audioBase64: base64,
+            format: 'mp3'
+        };
+    }
+};
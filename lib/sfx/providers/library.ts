@@ -0,0 +1,114 @@
+/**
+ * Sound Library SFX Provider
+ * Picks the best-matching file from a tagged local sound library instead of generating audio.
+ *
+ * The library is any folder served over HTTP with an index.json manifest:
+ *   [{ "file": "door/creak.mp3", "tags": ["door", "creak", "開門"] }, ...]
+ * File paths are relative to the library URL.
+ */
+
+import { SfxProvider, SfxOptions, SfxResult, SfxConfig } from '../types';
+import { TagMatcher, compileTagMatcher } from '../../../utils/tagMatch';
+
+interface LibrarySound {
+    file: string;
+    tags: { tag: string; matches: TagMatcher }[];  // Compiled once per manifest load
+}
+
+const trimUrl = (url: string) => url.replace(/\/+$/, '');
+
+// Manifest cache per library URL
+const manifestCache = new Map<string, Promise<LibrarySound[]>>();
+
+const loadManifest = (baseUrl: string): Promise<LibrarySound[]> => {
+    let manifest = manifestCache.get(baseUrl);
+    if (!manifest) {
+        manifest = fetch(`${baseUrl}/index.json`)
+            .then(async response => {
+                if (!response.ok) {
+                    throw new Error(`Failed to load sound library index: ${response.status} ${response.statusText}`);
+                }
+                const data = await response.json();
+                const list: any[] = Array.isArray(data) ? data : data.sounds || [];
+                const sounds = list
+                    .filter(s => s && typeof s.file === 'string' && Array.isArray(s.tags))
+                    .map(s => ({
+                        file: s.file,
+                        tags: s.tags
+                            .map((t: unknown) => String(t).toLowerCase())
+                            .filter(Boolean)
+                            .map((tag: string) => ({ tag, matches: compileTagMatcher(tag) })),
+                    }));
+                console.log(`[SFX Library] Loaded ${sounds.length} sounds from ${baseUrl}`);
+                return sounds;
+            })
+            .catch(e => {
+                manifestCache.delete(baseUrl);  // Allow a retry after fixing the library
+                throw e;
+            });
+        manifestCache.set(baseUrl, manifest);
+    }
+    return manifest;
+};
+
+/**
+ * Score a sound by how many of its tags appear in the description (as whole words for Latin tags).
+ * Longer tags count more so "door creak" beats a generic "door".
+ */
+const scoreSound = (sound: LibrarySound, description: string): number =>
+    sound.tags.reduce((score, { tag, matches }) => matches(description) ? score + tag.length : score, 0);
+
+export const libraryProvider: SfxProvider = {
+    id: 'library',
+    name: 'Sound Library',
+    description: 'Match SFX descriptions against a tagged local sound library',
+
+    configFields: [
+        {
+            key: 'sfxLibraryUrl',
+            label: 'Library URL',
+            type: 'text',
+            required: true,
+            placeholder: 'http://localhost:8000/sfx (需含 index.json)'
+        }
+    ],
+
+    isConfigured(config: SfxConfig): boolean {
+        return !!config.sfxLibraryUrl;
+    },
+
+    async generateSfx(options: SfxOptions, config: SfxConfig): Promise<SfxResult> {
+        const baseUrl = trimUrl(config.sfxLibraryUrl);
+        const sounds = await loadManifest(baseUrl);
+        const description = options.description.toLowerCase();
+
+        let best: LibrarySound | null = null;
+        let bestScore = 0;
+        for (const sound of sounds) {
+            const score = scoreSound(sound, description);
+            if (score > bestScore) {
+                best = sound;
+                bestScore = score;
+            }
+        }
+        if (!best) {
+            throw new Error(`No sound in the library matches "${options.description}"`);
+        }
+        console.log(`[SFX Library] "${options.description}" -> ${best.file}`);
+
+        const response = await fetch(`${baseUrl}/${best.file.replace(/^\/+/, '')}`);
+        if (!response.ok) {
+            throw new Error(`Failed to load ${best.file}: ${response.status} ${response.statusText}`);
+        }
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        let binary = '';
+        for (let i = 0; i < bytes.byteLength; i++) {
+            binary += String.fromCharCode(bytes[i]);
+        }
+
+        return {
+            audioBase64: btoa(binary),
+            format: best.file.toLowerCase().endsWith('.wav') ? 'wav' : 'mp3'
+        };
+    }
+};
@@ -0,0 +1,58 @@
+/**
+ * Silence Placeholder SFX Provider
+ * Inserts silence of the suggested length so the timeline keeps its shape
+ * until real sound effects are added. Needs no configuration.
+ */
+
+import { SfxProvider, SfxOptions, SfxResult } from '../types';
+
+const SAMPLE_RATE = 24000;
+
+// 16-bit mono PCM WAV filled with zeros
+const buildSilentWav = (durationSeconds: number): string => {
+    const dataLength = Math.round(durationSeconds * SAMPLE_RATE) * 2;
+    const bytes = new Uint8Array(44 + dataLength);
+    const view = new DataView(bytes.buffer);
+    const writeString = (offset: number, s: string) => {
+        for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataLength, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);               // fmt chunk length
+    view.setUint16(20, 1, true);                // PCM
+    view.setUint16(22, 1, true);                // mono
+    view.setUint32(24, SAMPLE_RATE, true);
+    view.setUint32(28, SAMPLE_RATE * 2, true);  // bytes/sec
+    view.setUint16(32, 2, true);                // block-align
+    view.setUint16(34, 16, true);               // bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, dataLength, true);
+
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+export const silenceProvider: SfxProvider = {
+    id: 'silence',
+    name: 'Silence Placeholder',
+    description: 'Silent gap of the suggested length, no API needed',
+
+    configFields: [],
+
+    isConfigured(): boolean {
+        return true;
+    },
+
+    async generateSfx(options: SfxOptions): Promise<SfxResult> {
+        return {
+            audioBase64: buildSilentWav(options.durationSeconds),
+            format: 'wav'
+        };
+    }
+};
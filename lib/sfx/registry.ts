@@ -0,0 +1,98 @@
+/**
+ * SFX Provider Registry
+ * Centralized management for all sound effect providers
+ */
+
+import { SfxProvider, SfxOptions, SfxResult, SfxConfig } from './types';
+
+// Used when the script does not suggest a length
+export const DEFAULT_SFX_DURATION = 4;
+
+class SfxRegistry {
+    private providers: Map<string, SfxProvider> = new Map();
+
+    /**
+     * Register an SFX provider
+     */
+    register(provider: SfxProvider): void {
+        if (this.providers.has(provider.id)) {
+            console.warn(`[SFX Registry] Provider "${provider.id}" already registered, overwriting.`);
+        }
+        this.providers.set(provider.id, provider);
+        console.log(`[SFX Registry] Registered provider: ${provider.id} (${provider.name})`);
+    }
+
+    /**
+     * Unregister a provider (for dynamic loading scenarios)
+     */
+    unregister(id: string): boolean {
+        return this.providers.delete(id);
+    }
+
+    /**
+     * Get provider by ID
+     */
+    get(id: string): SfxProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    /**
+     * Get all registered providers
+     */
+    listAll(): SfxProvider[] {
+        return Array.from(this.providers.values());
+    }
+
+    /**
+     * Get all provider IDs
+     */
+    getProviderIds(): string[] {
+        return Array.from(this.providers.keys());
+    }
+
+    /**
+     * Check if a provider exists
+     */
+    has(id: string): boolean {
+        return this.providers.has(id);
+    }
+
+    /**
+     * Check if a provider is configured
+     */
+    isProviderConfigured(id: string, config: SfxConfig): boolean {
+        const provider = this.get(id);
+        return provider?.isConfigured(config) ?? false;
+    }
+
+    /**
+     * Generate a sound effect using specified provider.
+     * Missing or invalid durations fall back to DEFAULT_SFX_DURATION.
+     */
+    async generateSfx(
+        providerId: string,
+        options: SfxOptions,
+        config: SfxConfig
+    ): Promise<SfxResult> {
+        const provider = this.get(providerId);
+        if (!provider) {
+            throw new Error(`[SFX Registry] Provider not found: ${providerId}`);
+        }
+        if (!provider.isConfigured(config)) {
+            throw new Error(`[SFX Registry] Provider "${provider.name}" is not configured. Please check its settings.`);
+        }
+
+        const durationSeconds = options.durationSeconds > 0 ? options.durationSeconds : DEFAULT_SFX_DURATION;
+        return provider.generateSfx({ ...options, durationSeconds }, config);
+    }
+
+    /**
+     * Get configured providers only
+     */
+    getConfiguredProviders(config: SfxConfig): SfxProvider[] {
+        return this.listAll().filter(p => p.isConfigured(config));
+    }
+}
+
+// Singleton instance
+export const sfxRegistry = new SfxRegistry();
@@ -0,0 +1,52 @@
+/**
+ * SFX Provider Types
+ * Defines the interface for all sound effect providers
+ */
+
+import type { ConfigField } from '../tts/types';
+
+export type { ConfigField };
+
+/**
+ * Sound effect request
+ */
+export interface SfxOptions {
+    description: string;         // ScriptItem.sfxDescription
+    durationSeconds: number;     // Suggested length (providers may return a different length)
+}
+
+/**
+ * Sound effect result
+ */
+export interface SfxResult {
+    audioBase64: string;
+    format: 'mp3' | 'wav';
+}
+
+/**
+ * SFX Provider interface - all providers must implement this
+ */
+export interface SfxProvider {
+    /** Unique provider ID */
+    readonly id: string;
+
+    /** Display name */
+    readonly name: string;
+
+    /** Provider description */
+    readonly description?: string;
+
+    /** Configuration fields for settings UI */
+    readonly configFields: ConfigField[];
+
+    /** Check if provider is configured and ready */
+    isConfigured(config: Record<string, string>): boolean;
+
+    /** Produce a sound effect for the description */
+    generateSfx(options: SfxOptions, config: Record<string, string>): Promise<SfxResult>;
+}
+
+/**
+ * Configuration store type - maps config keys to values
+ */
+export type SfxConfig = Record<string, string>;
@@ -0,0 +1,118 @@
+/**
+ * TTS Cache
+ * Content-addressed speech cache in IndexedDB, so unchanged lines are not re-synthesized
+ */
+
+import { SpeechOptions, SpeechResult, TtsCacheEntry, TtsCacheSettings } from './types';
+import {
+    loadTtsCacheEntry, saveTtsCacheEntry, listTtsCacheUsage, deleteTtsCacheEntries, clearTtsCache as clearTtsCacheStore
+} from '../../services/batchStorageService';
+
+const SETTINGS_KEY = 'ttsCacheSettings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TTS_CACHE_SETTINGS: TtsCacheSettings = {
+    enabled: true,
+    maxSizeMb: 500,
+    maxAgeDays: 30,
+};
+
+export function loadTtsCacheSettings(): TtsCacheSettings {
+    try {
+        const saved = localStorage.getItem(SETTINGS_KEY);
+        return saved ? { ...DEFAULT_TTS_CACHE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_TTS_CACHE_SETTINGS;
+    } catch {
+        return DEFAULT_TTS_CACHE_SETTINGS;
+    }
+}
+
+export function saveTtsCacheSettings(settings: TtsCacheSettings): void {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Hash of everything that changes the synthesized audio
+ */
+export async function computeTtsCacheKey(providerId: string, options: SpeechOptions, model: string): Promise<string> {
+    const material = JSON.stringify([
+        providerId,
+        options.voiceId,
+        options.text,
+        options.voicePrompt || '',
+        options.expression || '',
+        model,
+    ]);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Look up cached speech and mark it as recently used
+ */
+export async function getCachedSpeech(key: string): Promise<SpeechResult | null> {
+    const entry = await loadTtsCacheEntry(key);
+    if (!entry) return null;
+
+    const maxAgeDays = loadTtsCacheSettings().maxAgeDays;
+    if (maxAgeDays > 0 && Date.now() - entry.lastUsedAt > maxAgeDays * DAY_MS) {
+        await deleteTtsCacheEntries([key]);
+        return null;
+    }
+
+    await saveTtsCacheEntry({ ...entry, lastUsedAt: Date.now() });
+    return { audioBase64: entry.audioBase64, format: entry.format };
+}
+
+/**
+ * Store speech and apply the eviction policy
+ */
+export async function putCachedSpeech(key: string, providerId: string, result: SpeechResult): Promise<void> {
+    const now = Date.now();
+    const entry: TtsCacheEntry = {
+        key,
+        providerId,
+        audioBase64: result.audioBase64,
+        format: result.format,
+        size: result.audioBase64.length,
+        createdAt: now,
+        lastUsedAt: now,
+    };
+    await saveTtsCacheEntry(entry);
+    await enforceTtsCachePolicy();
+}
+
+/**
+ * Drop expired entries, then least recently used entries until the cache fits the size limit
+ */
+export async function enforceTtsCachePolicy(settings: TtsCacheSettings = loadTtsCacheSettings()): Promise<void> {
+    const usage = await listTtsCacheUsage();  // Least recently used first
+    const now = Date.now();
+    const maxBytes = settings.maxSizeMb * 1024 * 1024;
+
+    let total = usage.reduce((sum, u) => sum + u.size, 0);
+    const evict: string[] = [];
+    for (const u of usage) {
+        const expired = settings.maxAgeDays > 0 && now - u.lastUsedAt > settings.maxAgeDays * DAY_MS;
+        if (!expired && total <= maxBytes) break;
+        evict.push(u.key);
+        total -= u.size;
+    }
+
+    if (evict.length > 0) {
+        await deleteTtsCacheEntries(evict);
+        console.log(`[TTS Cache] Evicted ${evict.length} entries`);
+    }
+}
+
+/**
+ * Entry count and total size for the settings page
+ */
+export async function getTtsCacheStats(): Promise<{ entries: number; bytes: number }> {
+    const usage = await listTtsCacheUsage();
+    return { entries: usage.length, bytes: usage.reduce((sum, u) => sum + u.size, 0) };
+}
+
+export async function clearTtsCache(): Promise<void> {
+    await clearTtsCacheStore();
+    console.log('[TTS Cache] Cleared');
+}
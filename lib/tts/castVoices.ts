@@ -0,0 +1,49 @@
+/**
+ * Cast Voice Assignment
+ * Maps the voices picked by the script LLM onto the selected TTS provider
+ */
+
+import type { CastMember, ElevenLabsVoice, VoiceType } from '../../types';
+import { ttsRegistry } from './registry';
+import { TtsConfig } from './types';
+
+/**
+ * Set voiceType/voice on every cast member for the given provider.
+ * ElevenLabs uses the LLM's elevenLabsVoiceId suggestion; other non-Gemini providers
+ * keep a matching voice name or are assigned their voices in turn.
+ * Members that cannot be mapped stay on Gemini.
+ */
+export async function assignCastVoices(
+    cast: CastMember[],
+    providerId: string,
+    config: TtsConfig,
+    elevenLabsVoices: ElevenLabsVoice[] = []
+): Promise<CastMember[]> {
+    const useGemini = (member: CastMember): CastMember => ({ ...member, voiceType: 'gemini' });
+
+    if (providerId === 'elevenlabs') {
+        return cast.map(member => {
+            const elVoice = member.elevenLabsVoiceId && elevenLabsVoices.find(v => v.voice_id === member.elevenLabsVoiceId);
+            return elVoice ? { ...member, voiceType: 'elevenlabs', voice: elVoice.name } : useGemini(member);
+        });
+    }
+
+    if (providerId === 'gemini' || !ttsRegistry.isProviderConfigured(providerId, config)) {
+        return cast.map(useGemini);
+    }
+
+    const voices = await ttsRegistry.getVoices(providerId, config);
+    if (voices.length === 0) {
+        console.warn(`[TTS] No voices from provider ${providerId}, keeping Gemini voices`);
+        return cast.map(useGemini);
+    }
+
+    return cast.map((member, index) => {
+        const match = voices.find(v => v.id === member.voice || v.name === member.voice);
+        return {
+            ...member,
+            voiceType: providerId as VoiceType,
+            voice: (match || voices[index % voices.length]).id,
+        };
+    });
+}
@@ -11,9 +11,19 @@ export * from './types';
 // Export registry
 export { ttsRegistry } from './registry';
 
+// Cast voice assignment for the selected provider
+export { assignCastVoices } from './castVoices';
+
+// Speech cache management (lookups happen inside ttsRegistry.generateSpeech)
+export {
+    DEFAULT_TTS_CACHE_SETTINGS, loadTtsCacheSettings, saveTtsCacheSettings,
+    getTtsCacheStats, clearTtsCache, enforceTtsCachePolicy
+} from './cache';
+
 // Import providers
 import { geminiProvider, GEMINI_VOICE_LIST } from './providers/gemini';
 import { elevenLabsProvider } from './providers/elevenlabs';
+import { localTtsProvider } from './providers/local';
 
 // Import registry
 import { ttsRegistry } from './registry';
@@ -21,18 +31,19 @@ import { ttsRegistry } from './registry';
 // Register built-in providers
 ttsRegistry.register(geminiProvider);
 ttsRegistry.register(elevenLabsProvider);
+ttsRegistry.register(localTtsProvider);
 
 // Export voice lists for backward compatibility
 export { GEMINI_VOICE_LIST };
 
 // Export individual providers for direct access if needed
-export { geminiProvider, elevenLabsProvider };
+export { geminiProvider, elevenLabsProvider, localTtsProvider };
 
 /**
  * Helper: Get the current TTS provider type as a union type
  * This provides type safety when working with provider IDs
  */
-export type TtsProviderId = 'gemini' | 'elevenlabs';
+export type TtsProviderId = 'gemini' | 'elevenlabs' | 'local';
 
 // Note: When adding a new provider:
 // 1. Create lib/tts/providers/your-provider.ts
@@ -24,6 +24,10 @@ export const elevenLabsProvider: TtsProvider = {
         return !!config.elevenLabsApiKey;
     },
 
+    getModel(): string {
+        return 'eleven_v3';
+    },
+
     async getVoices(config: TtsConfig): Promise<TtsVoice[]> {
         const { fetchElevenLabsVoices } = await import('../../../services/elevenLabsService');
 
@@ -42,6 +42,10 @@ export const geminiProvider: TtsProvider = {
         }));
     },
 
+    getModel(): string {
+        return 'gemini-2.5-flash-preview-tts';
+    },
+
     async generateSpeech(options: SpeechOptions, config: TtsConfig): Promise<SpeechResult> {
         // Dynamic import to avoid circular dependencies
         const { generateSpeech } = await import('../../../services/geminiService');
@@ -0,0 +1,94 @@
+/**
+ * Local TTS Provider
+ * Self-hosted server for iterating on scripts without spending API quota
+ */
+
+import { TtsProvider, TtsVoice, SpeechOptions, SpeechResult, TtsConfig } from '../types';
+import type { LocalTtsSettings, LocalTtsApiStyle } from '../../../services/localTtsService';
+
+const toSettings = (config: TtsConfig): LocalTtsSettings => ({
+    baseUrl: config.localTtsBaseUrl,
+    apiStyle: (config.localTtsApiStyle as LocalTtsApiStyle) || 'openai',
+    model: config.localTtsModel,
+    apiKey: config.localTtsApiKey,
+});
+
+export const localTtsProvider: TtsProvider = {
+    id: 'local',
+    name: 'Local',
+    description: 'Self-hosted TTS server (OpenAI /v1/audio/speech compatible or Piper HTTP)',
+    languages: ['multi'],
+
+    configFields: [
+        {
+            key: 'localTtsBaseUrl',
+            label: 'Base URL',
+            type: 'text',
+            required: true,
+            placeholder: 'http://localhost:8880/v1'
+        },
+        {
+            key: 'localTtsApiStyle',
+            label: 'API Style',
+            type: 'select',
+            required: true,
+            options: [
+                { value: 'openai', label: 'OpenAI /audio/speech' },
+                { value: 'piper', label: 'Piper HTTP' },
+            ]
+        },
+        {
+            key: 'localTtsModel',
+            label: 'Model',
+            type: 'text',
+            required: false,
+            placeholder: '例如 tts-1、kokoro (僅 OpenAI 格式)'
+        },
+        {
+            key: 'localTtsApiKey',
+            label: 'API Key',
+            type: 'password',
+            required: false,
+            placeholder: '本機伺服器可留空'
+        }
+    ],
+
+    isConfigured(config: TtsConfig): boolean {
+        return !!config.localTtsBaseUrl;
+    },
+
+    getModel(config: TtsConfig): string {
+        const settings = toSettings(config);
+        // Different servers can serve the same voice names, so the URL is part of the model
+        return settings.apiStyle === 'piper'
+            ? `piper@${settings.baseUrl}`
+            : `${settings.model || 'tts-1'}@${settings.baseUrl}`;
+    },
+
+    async getVoices(config: TtsConfig): Promise<TtsVoice[]> {
+        const { fetchLocalTtsVoices } = await import('../../../services/localTtsService');
+
+        const voices = await fetchLocalTtsVoices(toSettings(config));
+        return voices.map(name => ({
+            id: name,
+            name,
+            language: 'multi',
+        }));
+    },
+
+    async generateSpeech(options: SpeechOptions, config: TtsConfig): Promise<SpeechResult> {
+        const { generateLocalSpeech } = await import('../../../services/localTtsService');
+
+        const base64 = await generateLocalSpeech(
+            options.text,
+            options.voiceId,
+            [options.voicePrompt, options.expression].filter(Boolean).join(', '),
+            toSettings(config)
+        );
+
+        return {
+            audioBase64: base64,
+            format: 'wav'  // Both API styles are asked for WAV
+        };
+    }
+};
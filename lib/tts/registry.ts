@@ -3,7 +3,8 @@
  * Centralized management for all TTS providers
  */
 
-import { TtsProvider, TtsVoice, SpeechOptions, SpeechResult, TtsConfig } from './types';
+import { TtsProvider, TtsVoice, SpeechOptions, SpeechResult, TtsConfig, SpeechRequestOptions } from './types';
+import { computeTtsCacheKey, getCachedSpeech, putCachedSpeech, loadTtsCacheSettings } from './cache';
 
 class TtsRegistry {
     private providers: Map<string, TtsProvider> = new Map();
@@ -86,12 +87,15 @@ class TtsRegistry {
     }
 
     /**
-     * Generate speech using specified provider
+     * Generate speech using specified provider.
+     * Results are cached by provider, voice, text, voicePrompt, expression and model;
+     * pass forceRegenerate to skip the lookup. Cache errors never fail generation.
      */
     async generateSpeech(
         providerId: string,
         options: SpeechOptions,
-        config: TtsConfig
+        config: TtsConfig,
+        requestOptions: SpeechRequestOptions = {}
     ): Promise<SpeechResult> {
         const provider = this.get(providerId);
         if (!provider) {
@@ -100,7 +104,30 @@ class TtsRegistry {
         if (!provider.isConfigured(config)) {
             throw new Error(`[TTS Registry] Provider "${provider.name}" is not configured. Please add required API keys.`);
         }
-        return provider.generateSpeech(options, config);
+
+        if (!loadTtsCacheSettings().enabled) {
+            return provider.generateSpeech(options, config);
+        }
+
+        let cacheKey: string | null = null;
+        try {
+            cacheKey = await computeTtsCacheKey(providerId, options, provider.getModel(config));
+            if (!requestOptions.forceRegenerate) {
+                const cached = await getCachedSpeech(cacheKey);
+                if (cached) {
+                    console.log(`[TTS Registry] Cache hit (${provider.name}): ${options.text.slice(0, 40)}`);
+                    return { ...cached, cached: true };
+                }
+            }
+        } catch (e) {
+            console.warn('[TTS Registry] Cache lookup failed:', e);
+        }
+
+        const result = await provider.generateSpeech(options, config);
+        if (cacheKey) {
+            putCachedSpeech(cacheKey, providerId, result).catch(e => console.warn('[TTS Registry] Cache write failed:', e));
+        }
+        return result;
     }
 
     /**
@@ -32,6 +32,7 @@ export interface SpeechOptions {
 export interface SpeechResult {
     audioBase64: string;
     format: 'mp3' | 'pcm' | 'wav';  // For correct decoding
+    cached?: boolean;               // Served from the speech cache (no provider call, no rate limit)
 }
 
 /**
@@ -68,6 +69,9 @@ export interface TtsProvider {
     /** Check if provider is configured and ready */
     isConfigured(config: Record<string, string>): boolean;
 
+    /** Model that will be used with the given config (part of the speech cache key) */
+    getModel(config: Record<string, string>): string;
+
     /** Fetch available voices (can be async for API-based providers) */
     getVoices(config: Record<string, string>): Promise<TtsVoice[]>;
 
@@ -79,3 +83,32 @@ export interface TtsProvider {
  * Configuration store type - maps config keys to values
  */
 export type TtsConfig = Record<string, string>;
+
+/**
+ * Cached speech, keyed by a hash of everything that affects the audio
+ */
+export interface TtsCacheEntry {
+    key: string;            // SHA-256 of provider, voice, text, voicePrompt, expression and model
+    providerId: string;
+    audioBase64: string;
+    format: SpeechResult['format'];
+    size: number;           // Bytes of audioBase64, for the size limit
+    createdAt: number;
+    lastUsedAt: number;     // For least-recently-used eviction
+}
+
+/**
+ * Eviction policy for the speech cache
+ */
+export interface TtsCacheSettings {
+    enabled: boolean;
+    maxSizeMb: number;      // Evict least recently used entries above this size
+    maxAgeDays: number;     // Drop entries unused for this long (0 = keep forever)
+}
+
+/**
+ * Options for a single generateSpeech call
+ */
+export interface SpeechRequestOptions {
+    forceRegenerate?: boolean;  // Skip the cache lookup (the fresh result still replaces the cached one)
+}
@@ -7,24 +7,34 @@ import React, { useState, useEffect } from 'react';
 import {
     Plus, Trash2, Edit3, Loader2, CheckCircle, AlertCircle,
     FileText, Wand2, Film, Youtube, Clock, Download, Music, Video,
-    Sparkles, X, Check, ChevronDown, ChevronUp, Rocket
+    Sparkles, X, Check, ChevronDown, ChevronUp, Rocket, Captions, Smartphone, CloudUpload
 } from 'lucide-react';
-import { BatchJob, BatchJobStatus, AppPage } from '../batchTypes';
+import { BatchJob, BatchJobStatus, AppPage, PodcastShow } from '../batchTypes';
 import {
     loadBatchJobs, addBatchJob, deleteBatchJob, updateBatchJob,
     loadAudioBlob
 } from '../services/batchStorageService';
 import { generateStoriesFromTopic, StoryPreset, GeneratedStory } from '../services/geminiService';
+import { formatLoudnessReport } from '../utils/mastering';
+import { VideoRenderProgress } from '../utils/audioUtils';
+import { ShortsSettings, loadShortsSettings, saveShortsSettings } from '../utils/shortsCutdown';
+import { loadShows, removeJobFromShows } from '../services/showService';
+import { ShowManagerPanel } from '../components/ShowManagerPanel';
+import { S3Settings, loadS3Settings, saveS3Settings, isS3Configured } from '../services/s3Service';
+import { LlmProvider } from '../types';
+import { llmRegistry, LlmConfig } from '../lib/llm';
 
 interface BatchPageProps {
     onNavigate: (page: AppPage, jobId?: string) => void;
     geminiApiKey: string;
     elevenLabsApiKey: string;
     isYouTubeLoggedIn: boolean;
-    geminiModel: string;
+    llmProvider: LlmProvider;
+    llmConfig: LlmConfig;
     onGenerateScript: (job: BatchJob, onProgress?: (msg: string) => void) => Promise<BatchJob>;
-    onGenerateFiles: (job: BatchJob, onProgress?: (msg: string) => void) => Promise<BatchJob>;
+    onGenerateFiles: (job: BatchJob, onProgress?: (msg: string, video?: VideoRenderProgress) => void) => Promise<BatchJob>;
     onUploadToYouTube: (job: BatchJob, onProgress?: (msg: string) => void) => Promise<BatchJob>;
+    onPublishToS3: (job: BatchJob, onProgress?: (msg: string) => void) => Promise<BatchJob>;
 }
 
 const STATUS_CONFIG: Record<BatchJobStatus, { label: string; color: string; icon: React.ReactNode }> = {
@@ -41,18 +51,40 @@ export const BatchPage: React.FC<BatchPageProps> = ({
     onNavigate,
     geminiApiKey,
     isYouTubeLoggedIn,
-    geminiModel,
+    llmProvider,
+    llmConfig,
     onGenerateScript,
     onGenerateFiles,
     onUploadToYouTube,
+    onPublishToS3,
 }) => {
     const [jobs, setJobs] = useState<BatchJob[]>([]);
     const [newStory, setNewStory] = useState('');
     const [isProcessing, setIsProcessing] = useState(false);
     const [processingType, setProcessingType] = useState<'scripts' | 'files' | 'upload' | 'auto' | null>(null);
     const [progressMessage, setProgressMessage] = useState<string>('');
+    const [videoProgress, setVideoProgress] = useState<VideoRenderProgress | null>(null);
     const [currentJobIndex, setCurrentJobIndex] = useState<number>(0);
     const [totalJobs, setTotalJobs] = useState<number>(0);
+    const [shortsSettings, setShortsSettings] = useState<ShortsSettings>(loadShortsSettings);
+    const [s3Settings, setS3Settings] = useState<S3Settings>(loadS3Settings);
+    const isS3Ready = isS3Configured(s3Settings);
+
+    // Podcast shows (new jobs can be assigned to one; their episodes join its feed when files are generated)
+    const [shows, setShows] = useState<PodcastShow[]>(loadShows);
+    const [targetShowId, setTargetShowId] = useState('');
+
+    const updateShortsSettings = (updates: Partial<ShortsSettings>) => {
+        const next = { ...shortsSettings, ...updates };
+        setShortsSettings(next);
+        saveShortsSettings(next);
+    };
+
+    const updateS3Settings = (updates: Partial<S3Settings>) => {
+        const next = { ...s3Settings, ...updates };
+        setS3Settings(next);
+        saveS3Settings(next);
+    };
 
     // Topic Generator State
     const [showTopicGenerator, setShowTopicGenerator] = useState(false);
@@ -87,9 +119,9 @@ export const BatchPage: React.FC<BatchPageProps> = ({
             return;
         }
 
-        // Check API key
-        if (!geminiApiKey) {
-            alert('Please set Gemini API Key first');
+        // Check LLM provider settings
+        if (!llmRegistry.isProviderConfigured(llmProvider, llmConfig)) {
+            alert('Please configure the script generation (LLM) provider in Settings first');
             return;
         }
 
@@ -104,8 +136,8 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                 selectedPreset,
                 customStyle,
                 exampleReference,
-                geminiApiKey,
-                geminiModel
+                llmProvider,
+                llmConfig
             );
 
             setGeneratedStories(stories);
@@ -156,6 +188,7 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                 id: crypto.randomUUID(),
                 storyText: `${story.title}\n\n${story.content}`,
                 episodeTitle: story.title,
+                showId: targetShowId || undefined,
                 status: 'pending',
                 createdAt: Date.now(),
                 updatedAt: Date.now(),
@@ -176,6 +209,7 @@ export const BatchPage: React.FC<BatchPageProps> = ({
         const job: BatchJob = {
             id: crypto.randomUUID(),
             storyText: newStory.trim(),
+            showId: targetShowId || undefined,
             status: 'pending',
             createdAt: Date.now(),
             updatedAt: Date.now(),
@@ -188,6 +222,8 @@ export const BatchPage: React.FC<BatchPageProps> = ({
 
     const handleDeleteJob = async (id: string) => {
         if (!confirm('Are you sure you want to delete this job? (Associated audio files will also be deleted)')) return;
+        await removeJobFromShows(id);
+        setShows(loadShows());
         const updatedJobs = await deleteBatchJob(id);
         setJobs(updatedJobs);
     };
@@ -212,17 +248,49 @@ export const BatchPage: React.FC<BatchPageProps> = ({
         URL.revokeObjectURL(url);
     };
 
-    const handleDownloadWebm = async (job: BatchJob) => {
-        if (!job.files?.webmKey) return;
-        const blob = await loadAudioBlob(job.files.webmKey);
+    const handleDownloadVideo = async (job: BatchJob, format: 'webm' | 'mp4') => {
+        const key = format === 'mp4' ? job.files?.mp4Key : job.files?.webmKey;
+        if (!key) return;
+        const blob = await loadAudioBlob(key);
+        if (!blob) {
+            alert(`${format.toUpperCase()} file not found`);
+            return;
+        }
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${job.episodeTitle || 'episode'}.${format}`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleDownloadShort = async (job: BatchJob) => {
+        if (!job.files?.shortKey) return;
+        const blob = await loadAudioBlob(job.files.shortKey);
         if (!blob) {
-            alert('WebM file not found');
+            alert('Short file not found');
             return;
         }
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `${job.episodeTitle || 'episode'}.webm`;
+        a.download = `${job.episodeTitle || 'episode'}_short.${blob.type === 'video/mp4' ? 'mp4' : 'webm'}`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleDownloadSubtitles = async (job: BatchJob, format: 'srt' | 'vtt') => {
+        const key = format === 'srt' ? job.files?.srtKey : job.files?.vttKey;
+        if (!key) return;
+        const blob = await loadAudioBlob(key);
+        if (!blob) {
+            alert('Subtitle file not found');
+            return;
+        }
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${job.episodeTitle || 'episode'}.${format}`;
         a.click();
         URL.revokeObjectURL(url);
     };
@@ -259,6 +327,12 @@ export const BatchPage: React.FC<BatchPageProps> = ({
         setProgressMessage('');
     };
 
+    // File generation messages; video rendering also reports frames
+    const filesProgress = (prefix: string) => (msg: string, video?: VideoRenderProgress) => {
+        setProgressMessage(`${prefix}${msg}`);
+        setVideoProgress(video ?? null);
+    };
+
     // Batch generate all files
     const handleGenerateAllFiles = async () => {
         const readyJobs = jobs.filter(j => j.status === 'script_ready');
@@ -277,7 +351,7 @@ export const BatchPage: React.FC<BatchPageProps> = ({
             setProgressMessage(`Generating files ${i + 1}/${readyJobs.length}...`);
 
             try {
-                const updatedJob = await onGenerateFiles(job, (msg) => setProgressMessage(`[${i + 1}/${readyJobs.length}] Files: ${msg}`));
+                const updatedJob = await onGenerateFiles(job, filesProgress(`[${i + 1}/${readyJobs.length}] Files: `));
                 setJobs(prev => prev.map(j => j.id === job.id ? updatedJob : j));
             } catch (e: any) {
                 console.error('File generation error:', e);
@@ -289,6 +363,8 @@ export const BatchPage: React.FC<BatchPageProps> = ({
         setIsProcessing(false);
         setProcessingType(null);
         setProgressMessage('');
+        setVideoProgress(null);
+        setShows(loadShows()); // Episodes joined their shows
     };
 
     // Batch upload to YouTube
@@ -359,7 +435,7 @@ export const BatchPage: React.FC<BatchPageProps> = ({
 
                 // 2. Generate Files
                 setProgressMessage(`Processing ${i + 1}/${pendingJobs.length}: Generating files...`);
-                job = await onGenerateFiles(job, (msg) => setProgressMessage(`[${i + 1}/${pendingJobs.length}] Files: ${msg}`));
+                job = await onGenerateFiles(job, filesProgress(`[${i + 1}/${pendingJobs.length}] Files: `));
 
                 // Update state after file generation
                 setJobs(prev => prev.map(j => j.id === job.id ? job : j));
@@ -368,6 +444,18 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                 setProgressMessage(`Processing ${i + 1}/${pendingJobs.length}: Uploading to YouTube...`);
                 job = await onUploadToYouTube(job, (msg) => setProgressMessage(`[${i + 1}/${pendingJobs.length}] Upload: ${msg}`));
 
+                // 4. Publish to S3 (optional; a failure is noted on the job but does not undo the upload)
+                if (s3Settings.publishInBatch && isS3Ready) {
+                    setProgressMessage(`Processing ${i + 1}/${pendingJobs.length}: Publishing to S3...`);
+                    try {
+                        job = await onPublishToS3(job, (msg) => setProgressMessage(`[${i + 1}/${pendingJobs.length}] S3: ${msg}`));
+                    } catch (e: any) {
+                        console.error('S3 publish error:', e);
+                        job = { ...job, error: `S3 publish failed: ${e.message}` };
+                        updateBatchJob(job.id, { error: job.error });
+                    }
+                }
+
                 // Final update
                 setJobs(prev => prev.map(j => j.id === job.id ? job : j));
 
@@ -382,6 +470,8 @@ export const BatchPage: React.FC<BatchPageProps> = ({
         setIsProcessing(false);
         setProcessingType(null);
         setProgressMessage('');
+        setVideoProgress(null);
+        setShows(loadShows()); // Episodes joined their shows
     };
 
     const pendingCount = jobs.filter(j => j.status === 'pending').length;
@@ -389,6 +479,8 @@ export const BatchPage: React.FC<BatchPageProps> = ({
     const filesReadyCount = jobs.filter(j => j.status === 'files_ready').length;
     const uploadedCount = jobs.filter(j => j.status === 'uploaded').length;
     const hasApiKey = !!geminiApiKey;
+    const isLlmConfigured = llmRegistry.isProviderConfigured(llmProvider, llmConfig);
+    const llmModel = llmRegistry.getModel(llmProvider, llmConfig);
 
     return (
         <div className="space-y-6">
@@ -417,6 +509,19 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                                     style={{ width: `${(currentJobIndex / totalJobs) * 100}%` }}
                                 />
                             </div>
+                            {videoProgress && (
+                                <div className="mt-2 flex items-center gap-2">
+                                    <div className="flex-1 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                                        <div
+                                            className="h-full bg-purple-400"
+                                            style={{ width: `${(videoProgress.frame / videoProgress.totalFrames) * 100}%` }}
+                                        />
+                                    </div>
+                                    <span className="text-[10px] text-zinc-500 font-mono">
+                                        frame {videoProgress.frame}/{videoProgress.totalFrames}
+                                    </span>
+                                </div>
+                            )}
                         </div>
                         <span className="text-sm text-zinc-400">{currentJobIndex}/{totalJobs}</span>
                     </div>
@@ -445,6 +550,17 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                     >
                         <Sparkles size={16} /> Topic Generator
                     </button>
+                    {shows.length > 0 && (
+                        <select
+                            value={targetShowId}
+                            onChange={(e) => setTargetShowId(e.target.value)}
+                            className="ml-auto bg-black/40 border border-zinc-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500"
+                            title="New jobs become episodes of this show"
+                        >
+                            <option value="">No show</option>
+                            {shows.map(show => <option key={show.id} value={show.id}>Show: {show.title}</option>)}
+                        </select>
+                    )}
                 </div>
 
                 {/* Manual Input Mode */}
@@ -545,18 +661,18 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                         {/* Generate Button */}
                         <button
                             onClick={handleGenerateFromTopic}
-                            disabled={isGeneratingStories || !topicInput.trim() || !hasApiKey}
+                            disabled={isGeneratingStories || !topicInput.trim() || !isLlmConfigured}
                             className="w-full py-3 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white rounded-lg font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                         >
                             {isGeneratingStories ? (
                                 <>
                                     <Loader2 className="animate-spin" size={18} />
-                                    Generating with {geminiModel}...
+                                    Generating with {llmModel}...
                                 </>
                             ) : (
                                 <>
                                     <Sparkles size={18} />
-                                    Generate {storyCount} stories with {geminiModel}
+                                    Generate {storyCount} stories with {llmModel}
                                 </>
                             )}
                         </button>
@@ -686,8 +802,64 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                         Upload All ({filesReadyCount})
                     </button>
                 </div>
+
+                {/* Shorts / Reels cutdown: a 9:16 highlight clip per job */}
+                <div className="flex flex-wrap items-center gap-4 px-4 py-3 bg-zinc-900/50 border border-zinc-800 rounded-lg text-sm text-zinc-300">
+                    <span className="flex items-center gap-2 text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+                        <Smartphone size={14} /> Shorts Cutdown
+                    </span>
+                    <label className="flex items-center gap-2 cursor-pointer" title="The LLM picks a 30–60s highlight and a 9:16 clip is rendered with the files">
+                        <input
+                            type="checkbox"
+                            checked={shortsSettings.createInBatch}
+                            onChange={(e) => updateShortsSettings({ createInBatch: e.target.checked })}
+                            className="accent-purple-500"
+                        />
+                        Create Short
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={shortsSettings.hookCard}
+                            onChange={(e) => updateShortsSettings({ hookCard: e.target.checked })}
+                            disabled={!shortsSettings.createInBatch}
+                            className="accent-purple-500"
+                        />
+                        Hook Title Card
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={shortsSettings.uploadInBatch}
+                            onChange={(e) => updateShortsSettings({ uploadInBatch: e.target.checked })}
+                            className="accent-purple-500"
+                        />
+                        Upload Short to YouTube
+                    </label>
+                </div>
+
+                {/* S3 publishing: feed, audio, transcripts and website to an S3-compatible bucket */}
+                <div className="flex flex-wrap items-center gap-4 px-4 py-3 bg-zinc-900/50 border border-zinc-800 rounded-lg text-sm text-zinc-300">
+                    <span className="flex items-center gap-2 text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+                        <CloudUpload size={14} /> S3 Publishing
+                    </span>
+                    <label className={`flex items-center gap-2 ${isS3Ready ? 'cursor-pointer' : 'opacity-50'}`} title="After the YouTube upload in Auto Process, publish the episode's show feed (or a feed of its own) to the bucket">
+                        <input
+                            type="checkbox"
+                            checked={s3Settings.publishInBatch && isS3Ready}
+                            onChange={(e) => updateS3Settings({ publishInBatch: e.target.checked })}
+                            disabled={!isS3Ready}
+                            className="accent-purple-500"
+                        />
+                        Publish in Auto Process
+                    </label>
+                    {!isS3Ready && <span className="text-xs text-zinc-500">Set up the bucket in Settings first</span>}
+                </div>
             </div>
 
+            {/* Podcast Shows */}
+            <ShowManagerPanel jobs={jobs} onJobsChange={setJobs} shows={shows} onShowsChange={setShows} />
+
             {/* Job List */}
             <div className="space-y-2">
                 <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Job List</h3>
@@ -700,7 +872,9 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                     <div className="space-y-2">
                         {jobs.map((job) => {
                             const statusConfig = STATUS_CONFIG[job.status];
-                            const hasFiles = job.files?.mp3Key || job.files?.webmKey;
+                            const hasFiles = job.files?.mp3Key || job.files?.webmKey || job.files?.mp4Key || job.files?.shortKey;
+                            const show = job.showId ? shows.find(s => s.id === job.showId) : undefined;
+                            const showEpisode = show?.episodes.find(e => e.jobId === job.id);
                             return (
                                 <div
                                     key={job.id}
@@ -719,6 +893,17 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                                         </p>
                                         <p className="text-xs text-zinc-600">
                                             {new Date(job.createdAt).toLocaleString('en-US')}
+                                            {show && (
+                                                <span className="ml-2 text-purple-400/80" title={showEpisode ? 'In the show feed' : 'Joins the show feed when files are generated'}>
+                                                    {show.title}
+                                                    {showEpisode && ` · ${showEpisode.seasonNumber ? `S${showEpisode.seasonNumber}` : ''}E${showEpisode.episodeNumber}`}
+                                                </span>
+                                            )}
+                                            {job.loudness && (
+                                                <span className="ml-2 text-emerald-500/80" title="Measured loudness of the exported audio">
+                                                    {formatLoudnessReport(job.loudness)}
+                                                </span>
+                                            )}
                                         </p>
                                     </div>
 
@@ -736,13 +921,52 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                                             )}
                                             {job.files?.webmKey && (
                                                 <button
-                                                    onClick={() => handleDownloadWebm(job)}
+                                                    onClick={() => handleDownloadVideo(job, 'webm')}
                                                     className="p-2 hover:bg-purple-900/30 rounded transition-colors text-purple-400"
                                                     title="Download WebM"
                                                 >
                                                     <Video size={14} />
                                                 </button>
                                             )}
+                                            {job.files?.mp4Key && (
+                                                <button
+                                                    onClick={() => handleDownloadVideo(job, 'mp4')}
+                                                    className="flex items-center gap-1 p-2 hover:bg-purple-900/30 rounded transition-colors text-purple-400 text-[10px] font-bold"
+                                                    title="Download MP4"
+                                                >
+                                                    <Video size={14} />
+                                                    MP4
+                                                </button>
+                                            )}
+                                            {job.files?.shortKey && (
+                                                <button
+                                                    onClick={() => handleDownloadShort(job)}
+                                                    className="flex items-center gap-1 p-2 hover:bg-pink-900/30 rounded transition-colors text-pink-400 text-[10px] font-bold"
+                                                    title={job.short?.hookTitle ? `Download Short: ${job.short.hookTitle}` : 'Download Short (9:16)'}
+                                                >
+                                                    <Smartphone size={14} />
+                                                    SHORT
+                                                </button>
+                                            )}
+                                            {job.files?.srtKey && (
+                                                <button
+                                                    onClick={() => handleDownloadSubtitles(job, 'srt')}
+                                                    className="flex items-center gap-1 p-2 hover:bg-sky-900/30 rounded transition-colors text-sky-400 text-[10px] font-bold"
+                                                    title="Download Subtitles (SRT)"
+                                                >
+                                                    <Captions size={14} />
+                                                    SRT
+                                                </button>
+                                            )}
+                                            {job.files?.vttKey && (
+                                                <button
+                                                    onClick={() => handleDownloadSubtitles(job, 'vtt')}
+                                                    className="p-2 hover:bg-sky-900/30 rounded transition-colors text-sky-400 text-[10px] font-bold"
+                                                    title="Download Subtitles (WebVTT)"
+                                                >
+                                                    VTT
+                                                </button>
+                                            )}
                                         </div>
                                     )}
 
@@ -757,6 +981,27 @@ export const BatchPage: React.FC<BatchPageProps> = ({
                                             YouTube ↗
                                         </a>
                                     )}
+                                    {job.s3FeedUrl && (
+                                        <a
+                                            href={job.s3FeedUrl}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="px-2 py-1 bg-amber-600/20 text-amber-400 rounded text-xs hover:bg-amber-600/30 transition-colors"
+                                            title={job.s3PublishedAt ? `Published ${new Date(job.s3PublishedAt).toLocaleString()}` : undefined}
+                                        >
+                                            Feed ↗
+                                        </a>
+                                    )}
+                                    {job.youtubeShortUrl && (
+                                        <a
+                                            href={job.youtubeShortUrl}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="px-2 py-1 bg-pink-600/20 text-pink-400 rounded text-xs hover:bg-pink-600/30 transition-colors"
+                                        >
+                                            Short ↗
+                                        </a>
+                                    )}
 
                                     {/* Error message */}
                                     {job.error && (
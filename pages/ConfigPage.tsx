@@ -3,24 +3,33 @@
  * API Keys and settings management
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
     Key, Save, RefreshCw, ToggleRight, ToggleLeft,
     Mic2, Speaker, Volume2, Wand2, Loader2, Youtube,
-    LogIn, LogOut, Image, Palette, Cpu, Sparkles
+    LogIn, LogOut, Image, Palette, Sparkles, Gauge, Library, Database, Trash2, Film, CloudUpload
 } from 'lucide-react';
 import {
-    LlmProvider, TtsProvider, GeminiModel,
-    GEMINI_MODELS, ElevenLabsVoice,
-    ImageAspectRatio, ImageStylePreset, ImageModel, ImageProvider,
+    LlmProvider, TtsProvider, SfxProvider, ElevenLabsVoice,
+    ImageAspectRatio, ImageStylePreset, ImageProvider,
     IMAGE_ASPECT_RATIOS, IMAGE_STYLE_PRESETS, IMAGE_MODELS,
-    GEMINI_IMAGE_MODELS,
-    DialogueVisualMode, VeoModel, VideoResolution, VideoDuration, VEO_MODELS
+    DialogueVisualMode, VeoModel, VideoResolution, VideoDuration, VEO_MODELS, VideoMode, VisualizerStyle, VideoFormat,
+    MasteringSettings, LoudnessPreset, LOUDNESS_PRESETS, PacingSettings
 } from '../types';
 import { YouTubeChannel, YouTubePlaylist } from '../services/youtubeService';
+import { S3Settings, loadS3Settings, saveS3Settings, isS3Configured, s3PublicUrl } from '../services/s3Service';
 
-// Import TTS registry for dynamic provider list
-import { ttsRegistry } from '../lib/tts';
+// Import provider registries for dynamic provider lists
+import { ttsRegistry, TtsCacheSettings, getTtsCacheStats, clearTtsCache, enforceTtsCachePolicy } from '../lib/tts';
+import { llmRegistry } from '../lib/llm';
+import { imageRegistry } from '../lib/image';
+import { sfxRegistry } from '../lib/sfx';
+import { ProviderConfigFields } from '../components/ProviderConfigFields';
+import { SfxLibraryModal } from '../components/SfxLibraryModal';
+import { VIDEO_MODE_LABELS } from '../utils/videoVisualizer';
+
+// API keys that have their own inputs below, so provider sections don't repeat them
+const SHARED_KEY_FIELDS = ['geminiApiKey', 'elevenLabsApiKey'];
 
 
 interface ConfigPageProps {
@@ -46,10 +55,14 @@ interface ConfigPageProps {
     setLlmProvider: (provider: LlmProvider) => void;
     ttsProvider: TtsProvider;
     setTtsProvider: (provider: TtsProvider) => void;
+    sfxProvider: SfxProvider;
+    setSfxProvider: (provider: SfxProvider) => void;
 
-    // Model selection
-    geminiModel: GeminiModel;
-    setGeminiModel: (model: GeminiModel) => void;
+    // Registry provider settings (values for every configField key)
+    providerConfig: Record<string, string>;
+    onProviderSettingChange: (key: string, value: string) => void;
+    saveProviderKeys: boolean;
+    setSaveProviderKeys: (save: boolean) => void;
 
     // Feature toggles
     enableSfx: boolean;
@@ -84,8 +97,6 @@ interface ConfigPageProps {
     setCustomImageStyle: (style: string) => void;
     enableDialogueImages: boolean;
     setEnableDialogueImages: (enable: boolean) => void;
-    imageModel: ImageModel;
-    setImageModel: (model: ImageModel) => void;
     imageProvider: ImageProvider;
     setImageProvider: (provider: ImageProvider) => void;
 
@@ -98,6 +109,24 @@ interface ConfigPageProps {
     setVeoResolution: (res: VideoResolution) => void;
     veoDuration: VideoDuration;
     setVeoDuration: (dur: VideoDuration) => void;
+
+    // 影片呈現模式
+    videoMode: VideoMode;
+    setVideoMode: (mode: VideoMode) => void;
+    visualizerStyle: VisualizerStyle;
+    setVisualizerStyle: (style: VisualizerStyle) => void;
+    videoFormat: VideoFormat;
+    setVideoFormat: (format: VideoFormat) => void;
+
+    // 響度 / 母帶處理設定
+    masteringSettings: MasteringSettings;
+    setMasteringSettings: (settings: MasteringSettings) => void;
+    pacingSettings: PacingSettings;
+    setPacingSettings: (settings: PacingSettings) => void;
+
+    // 語音快取
+    ttsCacheSettings: TtsCacheSettings;
+    setTtsCacheSettings: (settings: TtsCacheSettings) => void;
 }
 
 
@@ -105,8 +134,8 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
     geminiApiKey, setGeminiApiKey, saveGeminiKey, setSaveGeminiKey,
     elevenLabsApiKey, setElevenLabsApiKey, saveElevenLabsKey, setSaveElevenLabsKey,
     elevenLabsVoices, isLoadingVoices, onFetchVoices,
-    llmProvider, setLlmProvider, ttsProvider, setTtsProvider,
-    geminiModel, setGeminiModel,
+    llmProvider, setLlmProvider, ttsProvider, setTtsProvider, sfxProvider, setSfxProvider,
+    providerConfig, onProviderSettingChange, saveProviderKeys, setSaveProviderKeys,
     enableSfx, setEnableSfx, includeNarrator, setIncludeNarrator,
     useElevenLabsForSpeech, setUseElevenLabsForSpeech,
     youtubeClientId, setYoutubeClientId, saveYoutubeClientId, setSaveYoutubeClientId,
@@ -118,15 +147,65 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
     imageStylePreset, setImageStylePreset,
     customImageStyle, setCustomImageStyle,
     enableDialogueImages, setEnableDialogueImages,
-    imageModel, setImageModel,
     imageProvider, setImageProvider,
     // 對話視覺模式
     dialogueVisualMode, setDialogueVisualMode,
     veoModel, setVeoModel,
     veoResolution, setVeoResolution,
     veoDuration, setVeoDuration,
+    // 影片呈現模式
+    videoMode, setVideoMode,
+    visualizerStyle, setVisualizerStyle,
+    videoFormat, setVideoFormat,
+    // 母帶處理
+    masteringSettings, setMasteringSettings,
+    ttsCacheSettings, setTtsCacheSettings,
+    pacingSettings, setPacingSettings,
 }) => {
 
+    const activeLlm = llmRegistry.get(llmProvider);
+    const activeImage = imageRegistry.get(imageProvider);
+    const activeTts = ttsRegistry.get(ttsProvider);
+    const activeSfx = sfxRegistry.get(sfxProvider);
+    const isSfxConfigured = activeSfx?.isConfigured(providerConfig) ?? false;
+    const [showSfxLibrary, setShowSfxLibrary] = useState(false);
+
+    // 語音快取 (TTS cache) usage, refreshed after the policy changes
+    const [ttsCacheStats, setTtsCacheStats] = useState<{ entries: number; bytes: number } | null>(null);
+
+    useEffect(() => {
+        enforceTtsCachePolicy(ttsCacheSettings)
+            .catch(e => console.warn('[Config] Failed to apply TTS cache policy:', e))
+            .then(() => getTtsCacheStats())
+            .then(setTtsCacheStats);
+    }, [ttsCacheSettings.maxSizeMb, ttsCacheSettings.maxAgeDays]);
+
+    const handleClearTtsCache = async () => {
+        if (!confirm('Delete all cached speech? Lines will be synthesized again on next generation.')) return;
+        await clearTtsCache();
+        setTtsCacheStats(await getTtsCacheStats());
+    };
+
+    // S3 publishing target (stored on its own, like the batch Shorts settings)
+    const [s3Settings, setS3Settings] = useState<S3Settings>(loadS3Settings);
+    const updateS3Settings = (updates: Partial<S3Settings>) => {
+        const next = { ...s3Settings, ...updates };
+        setS3Settings(next);
+        saveS3Settings(next);
+    };
+
+    const updateMastering = (updates: Partial<MasteringSettings>) => {
+        setMasteringSettings({ ...masteringSettings, ...updates });
+    };
+
+    const handleLoudnessPreset = (preset: LoudnessPreset) => {
+        const target = LOUDNESS_PRESETS.find(p => p.value === preset);
+        updateMastering({
+            preset,
+            targetLufs: preset === 'custom' ? masteringSettings.targetLufs : target?.targetLufs ?? masteringSettings.targetLufs,
+        });
+    };
+
 
     return (
         <div className="space-y-6 max-w-3xl">
@@ -189,26 +268,44 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
                         </div>
                     </div>
                     <div className="flex gap-1 bg-zinc-950 rounded p-1">
-                        <button
-                            onClick={() => setLlmProvider('gemini')}
-                            className={`flex-1 py-2 px-3 rounded text-sm font-medium transition-colors bg-emerald-600 text-white`}
-                        >
-                            Gemini
-                        </button>
-                    </div>
-                    {/* Model Selection */}
-                    <div className="flex items-center gap-2">
-                        <label className="text-xs text-zinc-400 font-medium min-w-[50px]">Model:</label>
-                        <select
-                            value={geminiModel}
-                            onChange={(e) => setGeminiModel(e.target.value as GeminiModel)}
-                            className="flex-1 bg-zinc-950 border border-emerald-500/30 rounded px-2 py-1.5 text-sm focus:outline-none focus:border-emerald-500"
-                        >
-                            {GEMINI_MODELS.map(model => (
-                                <option key={model} value={model}>{model}</option>
-                            ))}
-                        </select>
+                        {llmRegistry.listAll().map(provider => {
+                            const isActive = llmProvider === provider.id;
+                            const activeColor = provider.id === 'gemini' ? 'bg-emerald-600' : 'bg-purple-600';
+
+                            return (
+                                <button
+                                    key={provider.id}
+                                    onClick={() => setLlmProvider(provider.id as LlmProvider)}
+                                    className={`flex-1 py-2 px-3 rounded text-sm font-medium transition-colors ${isActive
+                                        ? `${activeColor} text-white`
+                                        : 'text-zinc-500 hover:text-zinc-300'
+                                        }`}
+                                    title={provider.description}
+                                >
+                                    {provider.name}
+                                </button>
+                            );
+                        })}
                     </div>
+                    {/* Settings for the selected provider */}
+                    {activeLlm && (
+                        <>
+                            <ProviderConfigFields
+                                fields={activeLlm.configFields}
+                                values={providerConfig}
+                                onChange={onProviderSettingChange}
+                                saveSecrets={saveProviderKeys}
+                                onToggleSaveSecrets={() => setSaveProviderKeys(!saveProviderKeys)}
+                                hiddenKeys={SHARED_KEY_FIELDS}
+                            />
+                            {!activeLlm.isConfigured(providerConfig) && (
+                                <p className="text-xs text-amber-400">⚠ {activeLlm.name} is not configured yet</p>
+                            )}
+                        </>
+                    )}
+                    <p className="text-[10px] text-zinc-500">
+                        💡 To add a new LLM API (e.g. a local llama.cpp / Ollama server), add a file in lib/llm/providers/ and register it
+                    </p>
                 </div>
 
                 {/* TTS Provider Selection */}
@@ -224,18 +321,16 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
                     </div>
                     <div className="flex gap-1 bg-zinc-950 rounded p-1">
                         {ttsRegistry.listAll().map(provider => {
-                            // Build config to check if provider is configured
-                            const config = {
-                                geminiApiKey,
-                                elevenLabsApiKey,
-                            };
-                            const isConfigured = provider.isConfigured(config);
+                            const isConfigured = provider.isConfigured(providerConfig);
                             const isActive = ttsProvider === provider.id;
+                            // Providers configured on this card (not by a shared API key) stay selectable
+                            const hasOwnSettings = provider.configFields.some(f => !SHARED_KEY_FIELDS.includes(f.key));
 
                             // Dynamic color based on provider id
                             const activeColors: Record<string, string> = {
                                 'gemini': 'bg-emerald-600',
                                 'elevenlabs': 'bg-blue-600',
+                                'local': 'bg-amber-600',
                             };
                             const activeColor = activeColors[provider.id] || 'bg-purple-600';
 
@@ -243,7 +338,7 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
                                 <button
                                     key={provider.id}
                                     onClick={() => setTtsProvider(provider.id as TtsProvider)}
-                                    disabled={!isConfigured}
+                                    disabled={!isConfigured && !hasOwnSettings}
                                     className={`flex-1 py-2 px-3 rounded text-sm font-medium transition-colors ${isActive
                                         ? `${activeColor} text-white`
                                         : 'text-zinc-500 hover:text-zinc-300'
@@ -255,11 +350,89 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
                             );
                         })}
                     </div>
+                    {/* Settings for the selected provider */}
+                    {activeTts && (
+                        <>
+                            <ProviderConfigFields
+                                fields={activeTts.configFields}
+                                values={providerConfig}
+                                onChange={onProviderSettingChange}
+                                saveSecrets={saveProviderKeys}
+                                onToggleSaveSecrets={() => setSaveProviderKeys(!saveProviderKeys)}
+                                hiddenKeys={SHARED_KEY_FIELDS}
+                                accentClass="focus:border-amber-500"
+                            />
+                            {!activeTts.isConfigured(providerConfig) && (
+                                <p className="text-xs text-amber-400">⚠ {activeTts.name} is not configured yet</p>
+                            )}
+                        </>
+                    )}
                     <p className="text-[10px] text-zinc-500">
                         💡 To add a new voice API, simply add a file in lib/tts/providers/ to automatically register it
                     </p>
                 </div>
 
+                {/* SFX Provider Selection */}
+                <div className="p-4 bg-orange-500/5 rounded-lg border border-orange-500/20 space-y-3">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-orange-500/10 text-orange-400 rounded-md">
+                            <Speaker size={18} />
+                        </div>
+                        <div>
+                            <p className="text-sm font-medium text-orange-300">Sound Effects (SFX)</p>
+                            <p className="text-xs text-zinc-500">Where sound effects come from ({sfxRegistry.listAll().length} available)</p>
+                        </div>
+                    </div>
+                    <div className="flex gap-1 bg-zinc-950 rounded p-1">
+                        {sfxRegistry.listAll().map(provider => {
+                            const isConfigured = provider.isConfigured(providerConfig);
+                            const isActive = sfxProvider === provider.id;
+                            const hasOwnSettings = provider.configFields.some(f => !SHARED_KEY_FIELDS.includes(f.key));
+
+                            return (
+                                <button
+                                    key={provider.id}
+                                    onClick={() => setSfxProvider(provider.id as SfxProvider)}
+                                    disabled={!isConfigured && !hasOwnSettings}
+                                    className={`flex-1 py-2 px-3 rounded text-sm font-medium transition-colors ${isActive
+                                        ? 'bg-orange-600 text-white'
+                                        : 'text-zinc-500 hover:text-zinc-300'
+                                        } disabled:opacity-30 disabled:cursor-not-allowed`}
+                                    title={!isConfigured ? `Please set ${provider.name} API Key first` : provider.description}
+                                >
+                                    {provider.name}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    {activeSfx && (
+                        <>
+                            <ProviderConfigFields
+                                fields={activeSfx.configFields}
+                                values={providerConfig}
+                                onChange={onProviderSettingChange}
+                                saveSecrets={saveProviderKeys}
+                                onToggleSaveSecrets={() => setSaveProviderKeys(!saveProviderKeys)}
+                                hiddenKeys={SHARED_KEY_FIELDS}
+                                accentClass="focus:border-orange-500"
+                            />
+                            {!isSfxConfigured && (
+                                <p className="text-xs text-amber-400">⚠ {activeSfx.name} is not configured yet</p>
+                            )}
+                        </>
+                    )}
+                    <button
+                        onClick={() => setShowSfxLibrary(true)}
+                        className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-colors"
+                    >
+                        <Library size={14} />
+                        Manage Local SFX Library
+                    </button>
+                    <p className="text-[10px] text-zinc-500">
+                        💡 Generated ElevenLabs SFX are saved to the local library and reused by batch generation. Sound Library reads an index.json of {'{ file, tags }'} entries and picks the file whose tags best match the SFX description
+                    </p>
+                </div>
+
                 {/* Gemini API Key */}
                 <div className="p-4 bg-black/20 rounded-lg border border-zinc-800/50 space-y-3">
                     <div className="flex items-center gap-3">
@@ -306,13 +479,13 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
                     </div>
 
                     {/* SFX Toggle */}
-                    <div className={`flex items-center justify-between p-3 rounded-lg border ${elevenLabsApiKey ? 'bg-black/20 border-zinc-800/50' : 'bg-zinc-900/30 border-zinc-800/30 opacity-50'}`}>
+                    <div className={`flex items-center justify-between p-3 rounded-lg border ${isSfxConfigured ? 'bg-black/20 border-zinc-800/50' : 'bg-zinc-900/30 border-zinc-800/30 opacity-50'}`}>
                         <div className="flex items-center gap-2">
                             <Speaker size={16} className="text-amber-400" />
                             <span className="text-sm">Sound Effects</span>
                         </div>
-                        <button onClick={() => setEnableSfx(!enableSfx)} disabled={!elevenLabsApiKey}>
-                            {enableSfx && elevenLabsApiKey ? <ToggleRight size={24} className="text-blue-400" /> : <ToggleLeft size={24} className="text-zinc-600" />}
+                        <button onClick={() => setEnableSfx(!enableSfx)} disabled={!isSfxConfigured}>
+                            {enableSfx && isSfxConfigured ? <ToggleRight size={24} className="text-blue-400" /> : <ToggleLeft size={24} className="text-zinc-600" />}
                         </button>
                     </div>
                 </div>
@@ -335,36 +508,48 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
                             <Sparkles size={14} />
                             Image Service
                         </label>
-                        <div className="grid grid-cols-1 gap-2">
-                            <button
-                                onClick={() => {
-                                    setImageProvider('gemini');
-                                }}
-                                className={`flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-colors border bg-pink-600 border-pink-500 text-white`}
-                            >
-                                Gemini
-                            </button>
+                        <div className="grid grid-cols-3 gap-2">
+                            {imageRegistry.listAll().map(provider => (
+                                <button
+                                    key={provider.id}
+                                    onClick={() => setImageProvider(provider.id as ImageProvider)}
+                                    className={`flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-colors border ${imageProvider === provider.id
+                                        ? 'bg-pink-600 border-pink-500 text-white'
+                                        : 'bg-zinc-950 border-zinc-800 text-zinc-500 hover:text-zinc-300'
+                                        }`}
+                                    title={provider.description}
+                                >
+                                    {provider.name}
+                                </button>
+                            ))}
                         </div>
                     </div>
 
-                    {/* 模型選擇 */}
-                    <div className="space-y-2">
-                        <label className="text-xs text-zinc-400 font-medium flex items-center gap-2">
-                            <Cpu size={14} />
-                            Generation Model
-                        </label>
-                        <select
-                            value={imageModel}
-                            onChange={(e) => setImageModel(e.target.value as ImageModel)}
-                            className="w-full bg-zinc-950 border border-pink-500/30 rounded px-3 py-2 text-sm focus:outline-none focus:border-pink-500"
-                        >
-                            {GEMINI_IMAGE_MODELS.map(model => (
-                                <option key={model} value={model}>
-                                    {model}
-                                </option>
-                            ))}
-                        </select>
-                    </div>
+                    {/* 服務設定 (configFields) */}
+                    {activeImage && (
+                        <div className="space-y-2">
+                            <ProviderConfigFields
+                                fields={activeImage.configFields}
+                                values={providerConfig}
+                                onChange={onProviderSettingChange}
+                                saveSecrets={saveProviderKeys}
+                                onToggleSaveSecrets={() => setSaveProviderKeys(!saveProviderKeys)}
+                                hiddenKeys={SHARED_KEY_FIELDS}
+                                accentClass="focus:border-pink-500"
+                            />
+                            <div className="flex flex-wrap gap-1 text-[10px]">
+                                {activeImage.capabilities.textToImage && (
+                                    <span className="px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400">Text → Image</span>
+                                )}
+                                <span className={`px-1.5 py-0.5 rounded ${activeImage.capabilities.multiReference ? 'bg-pink-500/20 text-pink-300' : 'bg-zinc-800 text-zinc-600 line-through'}`}>
+                                    Reference Compose
+                                </span>
+                            </div>
+                            {!activeImage.isConfigured(providerConfig) && (
+                                <p className="text-xs text-amber-400">⚠ {activeImage.name} is not configured yet</p>
+                            )}
+                        </div>
+                    )}
 
                     {/* Aspect Ratio 選擇 */}
                     <div className="space-y-2">
@@ -377,7 +562,7 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
                             onChange={(e) => setImageAspectRatio(e.target.value as ImageAspectRatio)}
                             className="w-full bg-zinc-950 border border-pink-500/30 rounded px-3 py-2 text-sm focus:outline-none focus:border-pink-500"
                         >
-                            {IMAGE_ASPECT_RATIOS.map(ratio => (
+                            {IMAGE_ASPECT_RATIOS.filter(ratio => !activeImage || activeImage.capabilities.aspectRatios.includes(ratio.value)).map(ratio => (
                                 <option key={ratio.value} value={ratio.value}>
                                     {ratio.label} - {ratio.useCase}
                                 </option>
@@ -471,6 +656,252 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
                     )}
                 </div>
 
+                {/* 影片呈現模式 */}
+                <div className="p-4 bg-purple-500/5 rounded-lg border border-purple-500/20 space-y-3">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-purple-500/10 text-purple-400 rounded-md">
+                            <Film size={18} />
+                        </div>
+                        <div>
+                            <p className="text-sm font-medium text-purple-300">Episode Video Style</p>
+                            <p className="text-xs text-zinc-500">Auto uses the visualizer when no dialogue has its own image</p>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        {(Object.keys(VIDEO_MODE_LABELS) as VideoMode[]).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => setVideoMode(mode)}
+                                className={`px-3 py-2 rounded text-sm font-medium transition-colors ${videoMode === mode
+                                    ? 'bg-purple-600 text-white'
+                                    : 'bg-zinc-800 text-zinc-400 hover:text-zinc-200'
+                                    }`}
+                            >
+                                {VIDEO_MODE_LABELS[mode]}
+                            </button>
+                        ))}
+                    </div>
+                    {videoMode !== 'slideshow' && (
+                        <div className="space-y-1">
+                            <label className="text-xs text-zinc-400 font-medium">Visualizer</label>
+                            <div className="grid grid-cols-2 gap-2">
+                                {(['waveform', 'spectrum'] as const).map(style => (
+                                    <button
+                                        key={style}
+                                        onClick={() => setVisualizerStyle(style)}
+                                        className={`px-3 py-2 rounded text-sm font-medium capitalize transition-colors ${visualizerStyle === style
+                                            ? 'bg-purple-600 text-white'
+                                            : 'bg-zinc-800 text-zinc-400 hover:text-zinc-200'
+                                            }`}
+                                    >
+                                        {style}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-[10px] text-zinc-500">
+                                Shows the episode title and cast portraits, highlighting whoever is speaking
+                            </p>
+                        </div>
+                    )}
+                    <div className="space-y-1">
+                        <label className="text-xs text-zinc-400 font-medium">Video File (YouTube upload)</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {([['webm', 'WebM'], ['mp4', 'MP4 (H.264/AAC)']] as const).map(([format, label]) => (
+                                <button
+                                    key={format}
+                                    onClick={() => setVideoFormat(format)}
+                                    className={`px-3 py-2 rounded text-sm font-medium transition-colors ${videoFormat === format
+                                        ? 'bg-purple-600 text-white'
+                                        : 'bg-zinc-800 text-zinc-400 hover:text-zinc-200'
+                                        }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-zinc-500">
+                            MP4 plays in Apple Podcasts, Instagram and most editors; it falls back to WebM in browsers without WebCodecs
+                        </p>
+                    </div>
+                </div>
+
+                {/* 響度 / 母帶處理設定 */}
+                <div className="p-4 bg-emerald-500/5 rounded-lg border border-emerald-500/20 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 bg-emerald-500/10 text-emerald-400 rounded-md">
+                                <Gauge size={18} />
+                            </div>
+                            <div>
+                                <p className="text-sm font-medium text-emerald-300">Pacing, Loudness & Mastering</p>
+                                <p className="text-xs text-zinc-500">Gaps between lines; normalize exports to a LUFS target with a peak limiter</p>
+                            </div>
+                        </div>
+                        <button onClick={() => updateMastering({ enabled: !masteringSettings.enabled })}>
+                            {masteringSettings.enabled
+                                ? <ToggleRight size={24} className="text-emerald-400" />
+                                : <ToggleLeft size={24} className="text-zinc-600" />
+                            }
+                        </button>
+                    </div>
+
+                    {/* 節奏設定 (pacing) */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                            <label className="text-xs text-zinc-400 font-medium">Gap Between Lines (s)</label>
+                            <input
+                                type="number"
+                                step={0.05}
+                                min={0}
+                                max={5}
+                                value={pacingSettings.lineGap}
+                                onChange={(e) => setPacingSettings({ ...pacingSettings, lineGap: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                className="w-full bg-zinc-950 border border-emerald-500/30 rounded px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-xs text-zinc-400 font-medium">Gap On Scene Change (s)</label>
+                            <input
+                                type="number"
+                                step={0.1}
+                                min={0}
+                                max={10}
+                                value={pacingSettings.sceneChangeGap}
+                                onChange={(e) => setPacingSettings({ ...pacingSettings, sceneChangeGap: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                className="w-full bg-zinc-950 border border-emerald-500/30 rounded px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
+                            />
+                        </div>
+                    </div>
+
+                    {masteringSettings.enabled && (
+                        <>
+                            {/* 響度目標預設 */}
+                            <div className="space-y-2">
+                                <label className="text-xs text-zinc-400 font-medium">Loudness Target</label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {LOUDNESS_PRESETS.map(preset => (
+                                        <button
+                                            key={preset.value}
+                                            onClick={() => handleLoudnessPreset(preset.value)}
+                                            className={`flex flex-col items-center gap-0.5 px-3 py-2 rounded text-sm font-medium transition-colors ${masteringSettings.preset === preset.value
+                                                ? 'bg-emerald-600 text-white'
+                                                : 'bg-zinc-800 text-zinc-400 hover:text-zinc-200'
+                                                }`}
+                                        >
+                                            {preset.label}
+                                            <span className="text-[10px] opacity-70">{preset.useCase}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1">
+                                    <label className="text-xs text-zinc-400 font-medium">Target (LUFS)</label>
+                                    <input
+                                        type="number"
+                                        step={0.5}
+                                        min={-36}
+                                        max={-6}
+                                        value={masteringSettings.targetLufs}
+                                        disabled={masteringSettings.preset !== 'custom'}
+                                        onChange={(e) => updateMastering({ targetLufs: parseFloat(e.target.value) || -16 })}
+                                        className="w-full bg-zinc-950 border border-emerald-500/30 rounded px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 disabled:opacity-50"
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <label className="text-xs text-zinc-400 font-medium">Limiter Ceiling (dBFS)</label>
+                                    <input
+                                        type="number"
+                                        step={0.1}
+                                        min={-6}
+                                        max={0}
+                                        value={masteringSettings.ceilingDb}
+                                        onChange={(e) => updateMastering({ ceilingDb: Math.min(0, parseFloat(e.target.value) || 0) })}
+                                        className="w-full bg-zinc-950 border border-emerald-500/30 rounded px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
+                                    />
+                                </div>
+                            </div>
+
+                            {/* 逐句響度匹配 */}
+                            <div className="flex items-center justify-between p-3 bg-black/20 rounded-lg border border-zinc-800/50">
+                                <div>
+                                    <span className="text-sm">Match Clip Loudness</span>
+                                    <p className="text-xs text-zinc-500">Level each line and effect before mixing</p>
+                                </div>
+                                <button onClick={() => updateMastering({ matchClips: !masteringSettings.matchClips })}>
+                                    {masteringSettings.matchClips
+                                        ? <ToggleRight size={24} className="text-emerald-400" />
+                                        : <ToggleLeft size={24} className="text-zinc-600" />
+                                    }
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                {/* 語音快取 (TTS cache) */}
+                <div className="p-4 bg-cyan-500/5 rounded-lg border border-cyan-500/20 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 bg-cyan-500/10 text-cyan-400 rounded-md">
+                                <Database size={18} />
+                            </div>
+                            <div>
+                                <p className="text-sm font-medium text-cyan-300">Speech Cache</p>
+                                <p className="text-xs text-zinc-500">
+                                    Reuse audio for unchanged lines
+                                    {ttsCacheStats && ` · ${ttsCacheStats.entries} lines, ${(ttsCacheStats.bytes / 1024 / 1024).toFixed(1)} MB`}
+                                </p>
+                            </div>
+                        </div>
+                        <button onClick={() => setTtsCacheSettings({ ...ttsCacheSettings, enabled: !ttsCacheSettings.enabled })}>
+                            {ttsCacheSettings.enabled
+                                ? <ToggleRight size={24} className="text-cyan-400" />
+                                : <ToggleLeft size={24} className="text-zinc-600" />
+                            }
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                            <label className="text-xs text-zinc-400 font-medium">Max Size</label>
+                            <select
+                                value={ttsCacheSettings.maxSizeMb}
+                                onChange={(e) => setTtsCacheSettings({ ...ttsCacheSettings, maxSizeMb: parseInt(e.target.value) })}
+                                className="w-full bg-zinc-950 border border-cyan-500/30 rounded px-3 py-2 text-sm focus:outline-none focus:border-cyan-500"
+                            >
+                                {[100, 250, 500, 1000, 2000].map(mb => (
+                                    <option key={mb} value={mb}>{mb >= 1000 ? `${mb / 1000} GB` : `${mb} MB`}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-xs text-zinc-400 font-medium">Evict Unused After</label>
+                            <select
+                                value={ttsCacheSettings.maxAgeDays}
+                                onChange={(e) => setTtsCacheSettings({ ...ttsCacheSettings, maxAgeDays: parseInt(e.target.value) })}
+                                className="w-full bg-zinc-950 border border-cyan-500/30 rounded px-3 py-2 text-sm focus:outline-none focus:border-cyan-500"
+                            >
+                                <option value={7}>7 days</option>
+                                <option value={30}>30 days</option>
+                                <option value={90}>90 days</option>
+                                <option value={0}>Never</option>
+                            </select>
+                        </div>
+                    </div>
+                    <button
+                        onClick={handleClearTtsCache}
+                        disabled={!ttsCacheStats?.entries}
+                        className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                    >
+                        <Trash2 size={14} />
+                        Clear Speech Cache
+                    </button>
+                    <p className="text-[10px] text-zinc-500">
+                        💡 Lines are keyed by provider, voice, text, voice prompt, expression and model. Least recently used lines are evicted first when the cache is full.
+                    </p>
+                </div>
+
                 {/* YouTube Configuration */}
 
                 <div className="p-4 bg-red-500/5 rounded-lg border border-red-500/20 space-y-3">
@@ -554,7 +985,68 @@ export const ConfigPage: React.FC<ConfigPageProps> = ({
                         </button>
                     )}
                 </div>
+
+                {/* S3 Publishing */}
+
+                <div className="p-4 bg-amber-500/5 rounded-lg border border-amber-500/20 space-y-3">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-amber-500/10 text-amber-400 rounded-md">
+                            <CloudUpload size={18} />
+                        </div>
+                        <div>
+                            <p className="text-sm font-medium text-amber-300">S3 Publishing</p>
+                            <p className="text-xs text-zinc-500">AWS S3, Cloudflare R2, MinIO or any S3-compatible storage</p>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        {([
+                            ['endpoint', 'Endpoint URL (https://s3.us-east-1.amazonaws.com, http://localhost:9000 …)', 'text'],
+                            ['region', "Region (us-east-1, 'auto' for R2)", 'text'],
+                            ['bucket', 'Bucket', 'text'],
+                            ['prefix', 'Folder prefix (optional)', 'text'],
+                            ['accessKeyId', 'Access key ID', 'password'],
+                            ['secretAccessKey', 'Secret access key', 'password'],
+                            ['publicBaseUrl', 'Public URL (CDN or R2 custom domain; empty = endpoint URL)', 'text'],
+                        ] as [keyof S3Settings, string, string][]).map(([key, placeholder, type]) => (
+                            <input
+                                key={key}
+                                type={type}
+                                placeholder={placeholder}
+                                value={s3Settings[key] as string}
+                                onChange={(e) => updateS3Settings({ [key]: e.target.value.trim() })}
+                                className={`bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm focus:outline-none focus:border-amber-500 ${key === 'endpoint' || key === 'publicBaseUrl' ? 'col-span-2' : ''}`}
+                            />
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={s3Settings.pathStyle}
+                            onChange={(e) => updateS3Settings({ pathStyle: e.target.checked })}
+                            className="accent-amber-500"
+                        />
+                        Path-style URLs (endpoint/bucket/key; needed for MinIO)
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={s3Settings.rememberCredentials}
+                            onChange={(e) => updateS3Settings({ rememberCredentials: e.target.checked })}
+                            className="accent-amber-500"
+                        />
+                        Remember access keys in this browser
+                    </label>
+                    {isS3Configured(s3Settings) && (
+                        <p className="text-xs text-zinc-400 break-all">Feeds are published under {s3PublicUrl(s3Settings)}/…</p>
+                    )}
+                    <p className="text-[10px] text-zinc-500">
+                        💡 Uploads go straight from the browser: the bucket needs a CORS rule allowing PUT and HEAD from this site (with ExposeHeaders: ETag), and public read access for listeners. Access keys are kept for this session only unless remembered.
+                    </p>
+                </div>
             </div>
+
+            {showSfxLibrary && <SfxLibraryModal onClose={() => setShowSfxLibrary(false)} />}
         </div>
     );
 };
@@ -8,23 +8,28 @@ import React, { useState, useRef, useEffect } from 'react';
 import {
     Wand2, Play, Square, Sparkles, AlertCircle, FileText, Users,
     Volume2, Loader2, Speaker, Key, Download, Save, FolderOpen,
-    Mic, Mic2, RefreshCw, ArrowLeft, Image, Upload, Palette, X, FilePlus
+    Mic, Mic2, RefreshCw, ArrowLeft, Image, Upload, Palette, X, FilePlus, Music, Trash2
 } from 'lucide-react';
 import {
-    ItemType, ScriptItem, CastMember, SceneDefinition, GeneratedPodcastInfo, ElevenLabsVoice,
-    LlmProvider, TtsProvider, GeminiModel,
-    ImageAspectRatio, ImageStylePreset, ImageModel, ImageProvider, IMAGE_STYLE_PRESETS,
-    DialogueVisualMode, CharacterRef
+    ItemType, ScriptItem, CastMember, VoiceType, SceneDefinition, GeneratedPodcastInfo, ElevenLabsVoice,
+    LlmProvider, TtsProvider, SfxProvider,
+    ImageAspectRatio, ImageStylePreset, ImageProvider, IMAGE_STYLE_PRESETS,
+    DialogueVisualMode, VideoMode, VisualizerStyle, VideoFormat, CharacterRef, MasteringSettings, PacingSettings, SfxLibraryEntry, AudioTake
 } from '../types';
 import { BatchJob, AppPage } from '../batchTypes';
 import { generateScriptFromStory, generateSpeech, generateCharacterImage, generateSceneImage, generateDialogueImageForItem, generateImage, generateImageDescription, generateCompositeDialogueImage, CharacterRef as GeminiCharacterRef } from '../services/geminiService';
 import { getCharacterImagePrompt, getSceneImagePrompt, getDialogueImagePrompt } from '../services/promptTemplates';
 import { generateElevenLabsSfx, generateElevenLabsSpeech } from '../services/elevenLabsService';
-import { decodeRawPCM, decodeAudioFile, getAudioContext, mergeAudioBuffers, bufferToWav, blobToBase64, bufferToMp3, createWebmVideo } from '../utils/audioUtils';
+import { decodeRawPCM, decodeAudioFile, getAudioContext, bufferToWav, blobToBase64, bufferToMp3, createWebmVideo } from '../utils/audioUtils';
+import { buildTimeline, DEFAULT_BED_GAIN } from '../utils/timeline';
+import { renderMasteredTimeline } from '../utils/mastering';
 import { ScriptItemCard } from '../components/ScriptItemCard';
+import { SfxLibraryModal } from '../components/SfxLibraryModal';
 import { Player } from '../components/Player';
 import { PodcastPublishSection, PodcastPublishSectionRef } from '../components/PodcastPublishSection';
-import { getBatchJob, updateBatchJob, addBatchJob, saveAudioBlob, generateAudioKey, saveItemAudioBase64, generateItemAudioKey } from '../services/batchStorageService';
+import { getBatchJob, updateBatchJob, addBatchJob, saveAudioBlob, generateAudioKey, saveItemAudioBase64, generateItemAudioKey, saveSceneAudio, loadSfxLibrary } from '../services/batchStorageService';
+import { findSfxLibraryMatch } from '../services/sfxLibraryService';
+import { createTake, appendTake, selectTake, stripTakeBuffers } from '../utils/takes';
 import {
     getYouTubeAccessToken,
     YouTubePlaylist,
@@ -33,6 +38,15 @@ import {
 } from '../services/youtubeService';
 import { downloadBlob, generatePodcastCoverArt } from '../services/podcastService';
 
+// ElevenLabs sound generation caps out at 22 seconds; beds loop to fill the scene
+const SCENE_BED_DURATION = 22;
+
+// Stereo position label, e.g. "L40", "C", "R25"
+const formatPan = (pan: number) => {
+    if (Math.abs(pan) < 0.025) return 'C';
+    return `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+};
+
 const GEMINI_VOICES = [
     "Zephyr", "Puck", "Charon", "Kore", "Fenrir",
     "Leda", "Orus", "Aoede", "Callirrhoe", "Autonoe",
@@ -46,7 +60,10 @@ const GEMINI_VOICES = [
 import { useDramaData } from '../hooks/useDramaData';
 
 // Import TTS registry for provider-agnostic speech generation
-import { ttsRegistry, TtsConfig } from '../lib/tts';
+import { ttsRegistry, TtsVoice, assignCastVoices } from '../lib/tts';
+import { llmRegistry } from '../lib/llm';
+import { imageRegistry } from '../lib/image';
+import { sfxRegistry, DEFAULT_SFX_DURATION } from '../lib/sfx';
 
 const isNarrator = (name: string) => {
     const n = name.trim().toLowerCase();
@@ -62,8 +79,9 @@ interface StudioPageProps {
     elevenLabsApiKey: string;
     elevenLabsVoices: ElevenLabsVoice[];
     llmProvider: LlmProvider;
+    providerConfig: Record<string, string>;  // Values for registry provider configFields
     ttsProvider: TtsProvider;
-    geminiModel: GeminiModel;
+    sfxProvider: SfxProvider;
     enableSfx: boolean;
     includeNarrator: boolean;
     useElevenLabsForSpeech: boolean;
@@ -75,10 +93,16 @@ interface StudioPageProps {
     imageStylePreset: ImageStylePreset;
     customImageStyle: string;
     enableDialogueImages: boolean;
-    imageModel: ImageModel;
     imageProvider: ImageProvider;
     // 對話視覺模式
     dialogueVisualMode: DialogueVisualMode;
+    // 影片呈現模式
+    videoMode: VideoMode;
+    visualizerStyle: VisualizerStyle;
+    videoFormat: VideoFormat;
+    // 母帶處理 / 節奏
+    masteringSettings: MasteringSettings;
+    pacingSettings: PacingSettings;
 }
 
 export const StudioPage: React.FC<StudioPageProps> = ({
@@ -89,8 +113,9 @@ export const StudioPage: React.FC<StudioPageProps> = ({
     elevenLabsApiKey,
     elevenLabsVoices,
     llmProvider,
+    providerConfig,
     ttsProvider,
-    geminiModel,
+    sfxProvider,
     enableSfx,
     includeNarrator,
     useElevenLabsForSpeech,
@@ -102,10 +127,16 @@ export const StudioPage: React.FC<StudioPageProps> = ({
     imageStylePreset,
     customImageStyle,
     enableDialogueImages,
-    imageModel,
     imageProvider,
     // 對話視覺模式
     dialogueVisualMode,
+    // 影片呈現模式
+    videoMode,
+    visualizerStyle,
+    videoFormat,
+    // 母帶處理 / 節奏
+    masteringSettings,
+    pacingSettings,
 }) => {
 
     // Core state
@@ -125,16 +156,24 @@ export const StudioPage: React.FC<StudioPageProps> = ({
     const [isPlaying, setIsPlaying] = useState(false);
     const [currentPlayingId, setCurrentPlayingId] = useState<string | null>(null);
     const [isGeneratingAll, setIsGeneratingAll] = useState(false);
+    const [forceRegenerate, setForceRegenerate] = useState(false); // Bypass the speech cache
     const [error, setError] = useState<string | null>(null);
 
     // 影像生成狀態
     const [generatingImageFor, setGeneratingImageFor] = useState<string | null>(null); // 'cast:name' or 'scene:id' or 'item:id'
+    const isImageConfigured = imageRegistry.isProviderConfigured(imageProvider, providerConfig);
+    const isSfxConfigured = sfxRegistry.isProviderConfigured(sfxProvider, providerConfig);
     const [zoomedImage, setZoomedImage] = useState<string | null>(null);
+    const [sfxPickerFor, setSfxPickerFor] = useState<string | null>(null); // Script item choosing a library clip
     const [previewingVoiceFor, setPreviewingVoiceFor] = useState<string | null>(null);
 
+    // Voices of registry providers other than Gemini/ElevenLabs, loaded on demand
+    const [providerVoices, setProviderVoices] = useState<Record<string, TtsVoice[]>>({});
+
     // Podcast generated files state
     const [mp3Blob, setMp3Blob] = useState<Blob | null>(null);
     const [webmBlob, setWebmBlob] = useState<Blob | null>(null);
+    const [mp4Blob, setMp4Blob] = useState<Blob | null>(null);
     const [rssZipBlob, setRssZipBlob] = useState<Blob | null>(null);
     // coverArtBase64 managed by useDramaData
 
@@ -176,6 +215,11 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                 const { bufferToWav } = await import('../utils/audioUtils');
 
                 const itemsToSave = items.map(item => {
+                    // Takes are already in IndexedDB under their own keys
+                    if (item.takes?.length) {
+                        const { audioBuffer, ...rest } = item;
+                        return { ...rest, takes: stripTakeBuffers(item.takes) };
+                    }
                     if (item.audioBuffer) {
                         // Create a fresh object
                         const { audioBuffer, ...rest } = item;
@@ -192,7 +236,7 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                 const draftData = {
                     storyText,
                     cast,
-                    scenes,
+                    scenes: scenes.map(s => ({ ...s, audioBuffer: undefined })), // Beds are restored from audioBase64
                     items: itemsToSave,
                     podcastInfo,
                     coverArtBase64,
@@ -210,6 +254,16 @@ export const StudioPage: React.FC<StudioPageProps> = ({
         return () => clearTimeout(saveHandler);
     }, [storyText, cast, scenes, items, podcastInfo, coverArtBase64, jobId]);
 
+    // Load voice lists for providers used by the cast (e.g. after loading a job)
+    useEffect(() => {
+        const providerIds = new Set(cast.map(c => c.voiceType as string));
+        providerIds.forEach(id => {
+            if (id === 'gemini' || id === 'elevenlabs' || providerVoices[id]) return;
+            if (!ttsRegistry.isProviderConfigured(id, providerConfig)) return;
+            loadProviderVoices(id).catch(e => console.warn('[Studio] Failed to load voices for', id, e));
+        });
+    }, [cast]);
+
     // Handle upload state change callback
     const handleUploadStateChange = (state: { isUploading: boolean; progress: YouTubeUploadProgress | null; result: YouTubeUploadResult | null; error: string | null }) => {
         setIsUploadingToYouTube(state.isUploading);
@@ -221,8 +275,8 @@ export const StudioPage: React.FC<StudioPageProps> = ({
     const handleGenerateScript = async () => {
         if (!storyText.trim()) return;
 
-        if (!geminiApiKey) {
-            setError('Please enter Gemini API key first.');
+        if (!llmRegistry.isProviderConfigured(llmProvider, providerConfig)) {
+            setError('Please configure the script generation (LLM) provider in Settings first.');
             return;
         }
 
@@ -234,22 +288,14 @@ export const StudioPage: React.FC<StudioPageProps> = ({
         setPodcastInfo(null);
 
         try {
-            const shouldIncludeSfx = enableSfx && !!elevenLabsApiKey;
+            const shouldIncludeSfx = enableSfx && isSfxConfigured;
             const result = await generateScriptFromStory(
                 storyText, shouldIncludeSfx, includeNarrator,
-                elevenLabsVoices, geminiApiKey, geminiModel, enableDialogueImages
+                elevenLabsVoices, llmProvider, providerConfig, enableDialogueImages
             );
 
-            // Set voiceType based on ttsProvider
-            const finalCast = result.cast.map(member => {
-                if (ttsProvider === 'elevenlabs' && member.elevenLabsVoiceId && elevenLabsVoices.length > 0) {
-                    const elVoice = elevenLabsVoices.find(v => v.voice_id === member.elevenLabsVoiceId);
-                    if (elVoice) {
-                        return { ...member, voiceType: 'elevenlabs' as const, voice: elVoice.name };
-                    }
-                }
-                return { ...member, voiceType: 'gemini' as const };
-            });
+            // Set voiceType/voice for the selected TTS provider
+            const finalCast = await assignCastVoices(result.cast, ttsProvider, providerConfig, elevenLabsVoices);
 
             setCast(finalCast);
             setScenes(result.scenes || []);
@@ -297,14 +343,47 @@ export const StudioPage: React.FC<StudioPageProps> = ({
         setCast(prev => prev.map(c => c.name === characterName ? { ...c, ...updates } : c));
     };
 
+    const loadProviderVoices = async (providerId: string): Promise<TtsVoice[]> => {
+        if (providerVoices[providerId]) return providerVoices[providerId];
+        const voices = await ttsRegistry.getVoices(providerId, providerConfig);
+        setProviderVoices(prev => ({ ...prev, [providerId]: voices }));
+        return voices;
+    };
+
+    // Voice choices for a cast member's provider (value is what CastMember.voice stores)
+    const getVoiceOptions = (voiceType: string): { value: string; label: string }[] => {
+        if (voiceType === 'elevenlabs') return elevenLabsVoices.map(v => ({ value: v.name, label: v.name }));
+        if (voiceType === 'gemini') return GEMINI_VOICES.map(v => ({ value: v, label: v }));
+        return (providerVoices[voiceType] || []).map(v => ({ value: v.id, label: v.name }));
+    };
+
+    const handleChangeVoice = (member: CastMember, voice: string) => {
+        const elVoice = member.voiceType === 'elevenlabs' ? elevenLabsVoices.find(v => v.name === voice) : undefined;
+        handleUpdateCast(member.name, elVoice ? { voice, elevenLabsVoiceId: elVoice.voice_id } : { voice });
+    };
+
+    const handleChangeVoiceProvider = async (member: CastMember, providerId: string) => {
+        const voiceType = providerId as VoiceType;
+        if (voiceType === 'elevenlabs') {
+            const elVoice = elevenLabsVoices.find(v => v.voice_id === member.elevenLabsVoiceId) || elevenLabsVoices[0];
+            handleUpdateCast(member.name, { voiceType, voice: elVoice?.name || member.voice, elevenLabsVoiceId: elVoice?.voice_id });
+        } else if (voiceType === 'gemini') {
+            handleUpdateCast(member.name, { voiceType, voice: GEMINI_VOICES.includes(member.voice) ? member.voice : 'Puck' });
+        } else {
+            const voices = await loadProviderVoices(providerId);
+            const match = voices.find(v => v.id === member.voice);
+            handleUpdateCast(member.name, { voiceType, voice: (match || voices[0])?.id || member.voice });
+        }
+    };
+
     const handleUpdateScene = (sceneId: string, updates: Partial<SceneDefinition>) => {
         setScenes(prev => prev.map(s => s.id === sceneId ? { ...s, ...updates } : s));
     };
 
     // 生成角色圖片
     const handleGenerateCharacterImage = async (characterName: string) => {
-        if (!geminiApiKey) {
-            setError('Please set Gemini API Key first');
+        if (!isImageConfigured) {
+            setError('Please configure the image provider in Settings first');
             return;
         }
         const character = cast.find(c => c.name === characterName);
@@ -317,8 +396,8 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                 imageStylePreset,
                 customImageStyle,
                 imageAspectRatio,
-                imageModel,
-                geminiApiKey
+                imageProvider,
+                providerConfig
             );
 
             handleUpdateCast(characterName, {
@@ -336,8 +415,8 @@ export const StudioPage: React.FC<StudioPageProps> = ({
 
     // 生成場景圖片
     const handleGenerateSceneImage = async (sceneId: string) => {
-        if (!geminiApiKey) {
-            setError('Please set Gemini API Key first');
+        if (!isImageConfigured) {
+            setError('Please configure the image provider in Settings first');
             return;
         }
 
@@ -351,8 +430,8 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                 imageStylePreset,
                 customImageStyle,
                 imageAspectRatio,
-                imageModel,
-                geminiApiKey
+                imageProvider,
+                providerConfig
             );
 
             handleUpdateScene(sceneId, {
@@ -367,6 +446,48 @@ export const StudioPage: React.FC<StudioPageProps> = ({
         }
     };
 
+    // 生成場景音效床 (ElevenLabs SFX, looped under the scene)
+    const [generatingBedFor, setGeneratingBedFor] = useState<string | null>(null);
+
+    const handleGenerateSceneAudio = async (sceneId: string) => {
+        if (!elevenLabsApiKey) {
+            setError('Please set ElevenLabs API Key first');
+            return;
+        }
+
+        const scene = scenes.find(s => s.id === sceneId);
+        if (!scene) return;
+
+        setGeneratingBedFor(sceneId);
+        try {
+            const prompt = scene.audioPrompt || `Seamless ambient background sound: ${scene.visualDescription}`;
+            const audioBase64 = await generateElevenLabsSfx(prompt, SCENE_BED_DURATION, elevenLabsApiKey);
+            const audioBuffer = await decodeAudioFile(audioBase64, getAudioContext());
+            handleUpdateScene(sceneId, { audioBase64, audioBuffer, isCustomAudio: false });
+        } catch (error: any) {
+            console.error('Failed to generate scene audio:', error);
+            setError(`Generation failed: ${error.message}`);
+        } finally {
+            setGeneratingBedFor(null);
+        }
+    };
+
+    // 場景音效床上傳處理
+    const handleSceneAudioUpload = (sceneId: string, file: File) => {
+        const reader = new FileReader();
+        reader.onload = async (e) => {
+            const audioBase64 = (e.target?.result as string)?.split(',')[1];
+            if (!audioBase64) return;
+            try {
+                const audioBuffer = await decodeAudioFile(audioBase64, getAudioContext());
+                handleUpdateScene(sceneId, { audioBase64, audioBuffer, isCustomAudio: true });
+            } catch (error: any) {
+                setError(`Upload failed: ${error.message}`);
+            }
+        };
+        reader.readAsDataURL(file);
+    };
+
     // 圖片上傳處理
     const handleImageUpload = async (
         type: 'cast' | 'scene' | 'item',
@@ -414,11 +535,6 @@ export const StudioPage: React.FC<StudioPageProps> = ({
         if (!member.voice) return;
         setPreviewingVoiceFor(member.name);
         try {
-            const ttsConfig: TtsConfig = {
-                geminiApiKey,
-                elevenLabsApiKey,
-            };
-
             // Determine provider logic
             let providerId = member.voiceType || ttsProvider;
             if (useElevenLabsForSpeech && elevenLabsApiKey && !member.voiceType) {
@@ -441,7 +557,7 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                     voicePrompt: member.voicePrompt,
                     expression: 'neutral',
                 },
-                ttsConfig
+                providerConfig
             );
 
             const ctx = getAudioContext();
@@ -458,7 +574,22 @@ export const StudioPage: React.FC<StudioPageProps> = ({
         }
     };
 
-    const handleGenerateAudio = async (id: string, text: string, voice: string, expression: string): Promise<AudioBuffer | null> => {
+    // Append a take to an item and select it
+    const handleAddTake = (id: string, take: AudioTake) => {
+        setItems(prev => prev.map(item => item.id === id
+            ? { ...item, ...appendTake(item, take), isLoadingAudio: false, generationError: undefined }
+            : item));
+    };
+
+    const handleSelectTake = (id: string, takeId: string) => {
+        setItems(prev => prev.map(item => {
+            // Re-selecting the current take keeps its trim points
+            const take = item.id === id && item.selectedTakeId !== takeId ? item.takes?.find(t => t.id === takeId) : undefined;
+            return take ? { ...item, ...selectTake(take) } : item;
+        }));
+    };
+
+    const handleGenerateAudio = async (id: string, text: string, voice: string, expression: string, newTake = false): Promise<AudioBuffer | null> => {
         handleUpdateItem(id, { isLoadingAudio: true, generationError: undefined });
         try {
             const ctx = getAudioContext();
@@ -467,12 +598,6 @@ export const StudioPage: React.FC<StudioPageProps> = ({
             const item = items.find(i => i.id === id);
             const castMember = item?.character ? cast.find(c => c.name === item.character) : undefined;
 
-            // Build config for TTS registry
-            const ttsConfig: TtsConfig = {
-                geminiApiKey,
-                elevenLabsApiKey,
-            };
-
             // Determine which provider to use:
             // 1. Character-specific voiceType takes priority
             // 2. Fall back to global ttsProvider setting
@@ -500,7 +625,9 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                     voicePrompt: castMember?.voicePrompt,
                     expression,
                 },
-                ttsConfig
+                providerConfig,
+                // Regenerating a line that already has audio asks for a new take, not the cached one
+                { forceRegenerate: forceRegenerate || newTake || !!item?.audioBuffer }
             );
 
             // Decode based on format
@@ -508,7 +635,13 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                 ? await decodeRawPCM(result.audioBase64, ctx)
                 : await decodeAudioFile(result.audioBase64, ctx);
 
-            handleUpdateItem(id, { audioBuffer: buffer, isLoadingAudio: false, generationError: undefined });
+            const take = await createTake(id, {
+                providerId,
+                voice: voiceId,
+                prompt: [castMember?.voicePrompt, expression].filter(Boolean).join(', '),
+                text,
+            }, result.audioBase64, result.format);
+            handleAddTake(id, { ...take, audioBuffer: buffer });
             return buffer;
         } catch (e: any) {
             console.error(e);
@@ -518,16 +651,18 @@ export const StudioPage: React.FC<StudioPageProps> = ({
     };
 
     const handleGenerateSfx = async (id: string, description: string): Promise<AudioBuffer | null> => {
-        if (!elevenLabsApiKey) {
-            alert("Please enter ElevenLabs API Key first");
+        if (!isSfxConfigured) {
+            alert("Please configure the SFX provider in Settings first");
             return null;
         }
+        const durationSeconds = items.find(i => i.id === id)?.sfxDuration ?? DEFAULT_SFX_DURATION;
         handleUpdateItem(id, { isLoadingAudio: true, generationError: undefined });
         try {
-            const base64 = await generateElevenLabsSfx(description, 4, elevenLabsApiKey);
+            const result = await sfxRegistry.generateSfx(sfxProvider, { description, durationSeconds }, providerConfig);
             const ctx = getAudioContext();
-            const buffer = await decodeAudioFile(base64, ctx);
-            handleUpdateItem(id, { audioBuffer: buffer, isLoadingAudio: false, generationError: undefined });
+            const buffer = await decodeAudioFile(result.audioBase64, ctx);
+            const take = await createTake(id, { providerId: sfxProvider, prompt: description, text: description }, result.audioBase64, result.format);
+            handleAddTake(id, { ...take, audioBuffer: buffer });
             return buffer;
         } catch (e: any) {
             console.error(e);
@@ -536,13 +671,44 @@ export const StudioPage: React.FC<StudioPageProps> = ({
         }
     };
 
+    // Generate several takes of a line in a row (each one skips the speech cache)
+    const handleGenerateTakes = async (id: string, count: number) => {
+        const item = items.find(i => i.id === id);
+        if (!item) return;
+        for (let n = 0; n < count; n++) {
+            if (item.type === ItemType.SPEECH && item.text) {
+                const castMember = cast.find(c => c.name === item.character);
+                await handleGenerateAudio(id, item.text, castMember?.voice || 'Puck', item.expression || '', true);
+            } else if (item.type === ItemType.SFX && item.sfxDescription) {
+                await handleGenerateSfx(id, item.sfxDescription);
+            }
+            await new Promise(r => setTimeout(r, 300));
+        }
+    };
+
+    // Use a clip from the SFX library for an item
+    const handlePickLibrarySfx = async (id: string, entry: SfxLibraryEntry): Promise<AudioBuffer | null> => {
+        try {
+            const buffer = await decodeAudioFile(entry.audioBase64, getAudioContext());
+            const description = items.find(i => i.id === id)?.sfxDescription || entry.name;
+            const take = await createTake(id, { providerId: 'sfx-library', prompt: entry.name, text: description }, entry.audioBase64, entry.format);
+            handleAddTake(id, { ...take, audioBuffer: buffer });
+            handleUpdateItem(id, { sfxDuration: entry.duration });
+            return buffer;
+        } catch (e: any) {
+            console.error(e);
+            handleUpdateItem(id, { generationError: e.message || "Failed to load library clip" });
+            return null;
+        }
+    };
+
     // Dialogue Image Generation
     const handleGenerateItemImage = async (itemId: string) => {
         const item = items.find(i => i.id === itemId);
         if (!item) return;
 
-        if (!geminiApiKey) {
-            alert('Please set Gemini API Key first');
+        if (!isImageConfigured) {
+            alert('Please configure the image provider in Settings first');
             return;
         }
 
@@ -555,9 +721,8 @@ export const StudioPage: React.FC<StudioPageProps> = ({
 
             let imageBase64;
 
-            // Check if compose mode and using Gemini
-            // Check if compose mode and using Gemini
-            if (dialogueVisualMode === 'compose' && imageProvider === 'gemini') {
+            // Compose mode needs a provider that accepts reference images
+            if (dialogueVisualMode === 'compose' && imageRegistry.supportsReferences(imageProvider)) {
                 // Collect character references
                 // Strategy: Use item.sceneCharacters if available, otherwise fallback to item.character + scene.characterNames
                 const characterRefs: GeminiCharacterRef[] = [];
@@ -675,14 +840,14 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                     imageStylePreset,
                     customImageStyle,
                     imageAspectRatio,
-                    imageModel,
-                    geminiApiKey
+                    imageProvider,
+                    providerConfig
                 );
             } else {
                 // Gemini fallback (non-compose mode)
                 const prompt = getDialogueImagePrompt(item, scene, cast, suffix);
                 console.log('[Studio] Generating Item Image Prompt:', prompt);
-                imageBase64 = await generateImage(prompt, imageAspectRatio, imageModel, geminiApiKey);
+                imageBase64 = await generateImage(prompt, imageAspectRatio, imageProvider, providerConfig);
             }
 
             handleUpdateItem(itemId, { imageBase64, isCustomImage: false });
@@ -694,31 +859,40 @@ export const StudioPage: React.FC<StudioPageProps> = ({
         }
     };
     // Fill missing audio - only generate for items without audio
-    const handleFillMissingAudio = async (): Promise<AudioBuffer[]> => {
+    const handleFillMissingAudio = async (): Promise<ScriptItem[]> => {
         const itemsWithoutAudio = items.filter(i => !i.audioBuffer);
         if (itemsWithoutAudio.length === 0) {
             alert('All items already have audio!');
-            return items.map(i => i.audioBuffer).filter((b): b is AudioBuffer => !!b);
+            return items;
         }
 
         setIsGeneratingAll(true);
-        const resultBuffers: (AudioBuffer | null)[] = [];
+        const generated = new Map<string, AudioBuffer>();
+        // Library clips are reused before any SFX API call
+        const sfxLibrary = itemsWithoutAudio.some(i => i.type === ItemType.SFX) ? await loadSfxLibrary() : [];
 
         for (const item of itemsWithoutAudio) {
+            let buffer: AudioBuffer | null = null;
             if (item.type === ItemType.SPEECH && item.text) {
                 const char = cast.find(c => c.name === item.character);
-                const buffer = await handleGenerateAudio(item.id, item.text, char?.voice || 'Puck', item.expression || '');
-                resultBuffers.push(buffer);
-                await new Promise(r => setTimeout(r, 300));
-            } else if (item.type === ItemType.SFX && item.sfxDescription && elevenLabsApiKey) {
-                const buffer = await handleGenerateSfx(item.id, item.sfxDescription);
-                resultBuffers.push(buffer);
+                buffer = await handleGenerateAudio(item.id, item.text, char?.voice || 'Puck', item.expression || '');
                 await new Promise(r => setTimeout(r, 300));
+            } else if (item.type === ItemType.SFX && item.sfxDescription) {
+                const libraryHit = findSfxLibraryMatch(sfxLibrary, item.sfxDescription);
+                if (libraryHit) {
+                    buffer = await handlePickLibrarySfx(item.id, libraryHit);
+                } else if (isSfxConfigured) {
+                    buffer = await handleGenerateSfx(item.id, item.sfxDescription);
+                    await new Promise(r => setTimeout(r, 300));
+                }
             }
+            if (buffer) generated.set(item.id, buffer);
         }
 
         setIsGeneratingAll(false);
-        return resultBuffers.filter((b): b is AudioBuffer => !!b);
+        // Return the items with freshly generated audio so callers can build the timeline immediately
+        // (trim points belonged to the old audio, as in selectTake)
+        return items.map(i => generated.has(i.id) ? { ...i, audioBuffer: generated.get(i.id), trimStart: undefined, trimEnd: undefined } : i);
     };
 
     // Fill missing images - only generate for items without images
@@ -731,8 +905,8 @@ export const StudioPage: React.FC<StudioPageProps> = ({
             return;
         }
 
-        if (!geminiApiKey) {
-            alert('Please set Gemini API Key first');
+        if (!isImageConfigured) {
+            alert('Please configure the image provider in Settings first');
             return;
         }
 
@@ -778,13 +952,13 @@ export const StudioPage: React.FC<StudioPageProps> = ({
     };
 
     const handleExportWav = async () => {
-        const buffers = items.map(i => i.audioBuffer).filter((b): b is AudioBuffer => !!b);
-        if (buffers.length === 0) {
+        const timeline = buildTimeline(items, { scenes, cast, pacing: pacingSettings });
+        if (timeline.clips.length === 0) {
             alert("No audio to export.");
             return;
         }
 
-        const merged = await mergeAudioBuffers(buffers);
+        const { buffer: merged } = await renderMasteredTimeline(timeline, masteringSettings);
         const wavBlob = bufferToWav(merged);
         const url = URL.createObjectURL(wavBlob);
 
@@ -810,8 +984,8 @@ export const StudioPage: React.FC<StudioPageProps> = ({
         updateBatchJob(jobId, {
             scriptData: {
                 cast,
-                scenes: [],
-                items: items.map(i => ({ ...i, audioBuffer: undefined })), // Don't save audio buffers directly
+                scenes: await saveSceneAudio(jobId, scenes), // Beds go to IndexedDB, not the job JSON
+                items: items.map(i => ({ ...i, audioBuffer: undefined, takes: stripTakeBuffers(i.takes) })), // Don't save audio buffers directly (takes keep their own audioKey)
                 podcastInfo,
             },
             files: {
@@ -834,6 +1008,10 @@ export const StudioPage: React.FC<StudioPageProps> = ({
 
         // Save audio buffers to IndexedDB
         const itemsToSave = await Promise.all(items.map(async (item) => {
+            // The selected take is already stored under item.audioKey
+            if (item.takes?.length) {
+                return { ...item, audioBuffer: undefined, takes: stripTakeBuffers(item.takes) };
+            }
             if (item.audioBuffer) {
                 // Convert AudioBuffer to WAV base64 for storage
                 const { bufferToWav, blobToBase64 } = await import('../utils/audioUtils');
@@ -872,7 +1050,7 @@ export const StudioPage: React.FC<StudioPageProps> = ({
             coverPrompt: podcastInfo?.coverPrompt,
             scriptData: {
                 cast,
-                scenes,
+                scenes: await saveSceneAudio(newJobId, scenes),
                 items: itemsToSave,
                 podcastInfo,
             },
@@ -979,11 +1157,11 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                 />
                 <button
                     onClick={handleGenerateScript}
-                    disabled={isGeneratingScript || !storyText.trim() || !geminiApiKey}
+                    disabled={isGeneratingScript || !storyText.trim() || !llmRegistry.isProviderConfigured(llmProvider, providerConfig)}
                     className="w-full py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                     {isGeneratingScript ? <Loader2 className="animate-spin" size={18} /> : <Wand2 size={18} />}
-                    Generate Script & Cast ({geminiModel})
+                    Generate Script & Cast ({llmRegistry.getModel(llmProvider, providerConfig)})
                 </button>
                 {error && <p className="text-red-400 text-xs text-center">{error}</p>}
             </section>
@@ -1057,15 +1235,28 @@ export const StudioPage: React.FC<StudioPageProps> = ({
 
                                 {/* Voice 選擇 */}
                                 <div className="flex gap-2 mb-2">
+                                    <select
+                                        value={member.voiceType}
+                                        onChange={(e) => handleChangeVoiceProvider(member, e.target.value)}
+                                        className="w-24 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs"
+                                        title="Voice provider"
+                                    >
+                                        {ttsRegistry.listAll().map(provider => (
+                                            <option
+                                                key={provider.id}
+                                                value={provider.id}
+                                                disabled={!provider.isConfigured(providerConfig)}
+                                            >
+                                                {provider.name}
+                                            </option>
+                                        ))}
+                                    </select>
                                     <select
                                         value={member.voice}
-                                        onChange={(e) => handleUpdateCast(member.name, { voice: e.target.value })}
-                                        className="flex-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs"
+                                        onChange={(e) => handleChangeVoice(member, e.target.value)}
+                                        className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs"
                                     >
-                                        {member.voiceType === 'elevenlabs'
-                                            ? elevenLabsVoices.map(v => <option key={v.voice_id} value={v.name}>{v.name}</option>)
-                                            : GEMINI_VOICES.map(v => <option key={v} value={v}>{v}</option>)
-                                        }
+                                        {getVoiceOptions(member.voiceType).map(v => <option key={v.value} value={v.value}>{v.label}</option>)}
                                     </select>
                                     <button
                                         onClick={() => handlePreviewVoice(member)}
@@ -1077,12 +1268,55 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                                     </button>
                                 </div>
 
+                                {/* 空間定位 (stereo placement) */}
+                                <div className="mb-2 space-y-1 text-[10px] text-zinc-500">
+                                    <div className="flex items-center gap-2">
+                                        <span className="w-14 uppercase tracking-widest">Pan</span>
+                                        <input
+                                            type="range"
+                                            min={-1}
+                                            max={1}
+                                            step={0.05}
+                                            value={member.pan ?? 0}
+                                            onChange={(e) => handleUpdateCast(member.name, { pan: parseFloat(e.target.value) })}
+                                            className="flex-1 accent-blue-500"
+                                        />
+                                        <span className="w-8 text-right">{formatPan(member.pan ?? 0)}</span>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className="w-14 uppercase tracking-widest">Distance</span>
+                                        <input
+                                            type="range"
+                                            min={0}
+                                            max={1}
+                                            step={0.05}
+                                            value={member.distance ?? 0}
+                                            onChange={(e) => handleUpdateCast(member.name, { distance: parseFloat(e.target.value) })}
+                                            className="flex-1 accent-blue-500"
+                                        />
+                                        <span className="w-8 text-right">{Math.round((member.distance ?? 0) * 100)}%</span>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className="w-14 uppercase tracking-widest">Reverb</span>
+                                        <input
+                                            type="range"
+                                            min={0}
+                                            max={1}
+                                            step={0.05}
+                                            value={member.reverb ?? 0}
+                                            onChange={(e) => handleUpdateCast(member.name, { reverb: parseFloat(e.target.value) })}
+                                            className="flex-1 accent-blue-500"
+                                        />
+                                        <span className="w-8 text-right">{Math.round((member.reverb ?? 0) * 100)}%</span>
+                                    </div>
+                                </div>
+
                                 {/* 圖片生成/上傳按鈕 */}
                                 {enableDialogueImages && (
                                     <div className="flex gap-2">
                                         <button
                                             onClick={() => handleGenerateCharacterImage(member.name)}
-                                            disabled={!geminiApiKey || generatingImageFor !== null}
+                                            disabled={!isImageConfigured || generatingImageFor !== null}
                                             className="flex-1 px-2 py-1.5 bg-pink-600 hover:bg-pink-500 text-white rounded text-xs font-medium flex items-center justify-center gap-1 disabled:opacity-50"
                                         >
                                             <Image size={12} />
@@ -1175,7 +1409,7 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                                     <div className="flex gap-2">
                                         <button
                                             onClick={() => handleGenerateSceneImage(scene.id)}
-                                            disabled={!geminiApiKey || generatingImageFor !== null}
+                                            disabled={!isImageConfigured || generatingImageFor !== null}
                                             className="flex-1 px-2 py-1.5 bg-pink-600 hover:bg-pink-500 text-white rounded text-xs font-medium flex items-center justify-center gap-1 disabled:opacity-50"
                                         >
                                             <Image size={12} />
@@ -1196,6 +1430,76 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                                         </label>
                                     </div>
                                 )}
+
+                                {/* 場景音效床 (ambience / music bed) */}
+                                <div className="mt-3 pt-3 border-t border-zinc-800/50">
+                                    <label className="text-[10px] text-zinc-500 uppercase tracking-widest mb-1 flex items-center gap-1">
+                                        <Music size={10} /> Ambience / Music Bed
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={scene.audioPrompt || ''}
+                                        onChange={(e) => handleUpdateScene(scene.id, { audioPrompt: e.target.value })}
+                                        placeholder="e.g. rain on a window, distant thunder"
+                                        className="w-full bg-black/20 border border-zinc-800 rounded px-2 py-1 text-xs text-zinc-300 mb-2 focus:outline-none focus:border-amber-500/50"
+                                    />
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => handleGenerateSceneAudio(scene.id)}
+                                            disabled={!elevenLabsApiKey || generatingBedFor !== null}
+                                            className="flex-1 px-2 py-1.5 bg-amber-600 hover:bg-amber-500 text-white rounded text-xs font-medium flex items-center justify-center gap-1 disabled:opacity-50"
+                                        >
+                                            {generatingBedFor === scene.id ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+                                            {scene.audioBase64 ? 'Regenerate Bed' : 'Generate Bed'}
+                                        </button>
+                                        <label className="px-2 py-1.5 bg-zinc-700 hover:bg-zinc-600 text-white rounded text-xs font-medium flex items-center justify-center gap-1 cursor-pointer">
+                                            <Upload size={12} />
+                                            Upload
+                                            <input
+                                                type="file"
+                                                accept="audio/*"
+                                                className="hidden"
+                                                onChange={(e) => {
+                                                    const file = e.target.files?.[0];
+                                                    if (file) handleSceneAudioUpload(scene.id, file);
+                                                }}
+                                            />
+                                        </label>
+                                        {scene.audioBuffer && (
+                                            <>
+                                                <button
+                                                    onClick={() => handlePreviewAudio(scene.audioBuffer!)}
+                                                    className="p-1.5 bg-emerald-500/20 text-emerald-400 rounded hover:bg-emerald-500/30"
+                                                    title="Preview bed"
+                                                >
+                                                    <Play size={12} fill="currentColor" />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleUpdateScene(scene.id, { audioBase64: undefined, audioKey: undefined, audioBuffer: undefined, isCustomAudio: undefined })}
+                                                    className="p-1.5 text-zinc-500 hover:text-red-400 hover:bg-red-900/20 rounded"
+                                                    title="Remove bed"
+                                                >
+                                                    <Trash2 size={12} />
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                    {scene.audioBuffer && (
+                                        <div className="flex items-center gap-2 mt-2 text-[10px] text-zinc-500">
+                                            <span>Level</span>
+                                            <input
+                                                type="range"
+                                                min={0}
+                                                max={1}
+                                                step={0.05}
+                                                value={scene.audioGain ?? DEFAULT_BED_GAIN}
+                                                onChange={(e) => handleUpdateScene(scene.id, { audioGain: parseFloat(e.target.value) })}
+                                                className="flex-1 accent-amber-500"
+                                            />
+                                            <span className="w-8 text-right">{Math.round((scene.audioGain ?? DEFAULT_BED_GAIN) * 100)}%</span>
+                                        </div>
+                                    )}
+                                </div>
                             </div>
                         ))}
                     </div>
@@ -1211,6 +1515,17 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                             <FileText size={16} /> Script Items ({items.length})
                         </h3>
                         <div className="flex gap-2">
+                            <button
+                                onClick={() => setForceRegenerate(!forceRegenerate)}
+                                className={`px-3 py-1.5 rounded text-sm font-medium flex items-center gap-1.5 border transition-colors ${forceRegenerate
+                                    ? 'bg-cyan-500/20 text-cyan-300 border-cyan-500/40'
+                                    : 'bg-zinc-900 text-zinc-500 border-zinc-800 hover:text-zinc-300'
+                                    }`}
+                                title="Skip the speech cache and synthesize every line again"
+                            >
+                                <RefreshCw size={14} />
+                                Force Regenerate
+                            </button>
                             <button
                                 onClick={handleFillAllMissing}
                                 disabled={isFillingAll || isGeneratingAll || isGeneratingAllImages}
@@ -1258,14 +1573,17 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                                     index={index}
                                     totalItems={items.length}
                                     assignedVoice={castMember?.voice}
-                                    voiceType={castMember?.voiceType === 'elevenlabs' ? 'elevenlabs' : 'gemini'}
-                                    elevenLabsApiKey={elevenLabsApiKey}
+                                    voiceType={castMember?.voiceType}
+                                    canGenerateSfx={isSfxConfigured}
                                     enableDialogueImages={enableDialogueImages}
                                     onUpdate={(id, updates) => handleUpdateItem(id, updates)}
                                     onRemove={(id) => handleRemoveItem(id)}
                                     onMove={(idx, direction) => handleMoveItem(idx, direction)}
                                     onGenerateAudio={handleGenerateAudio}
                                     onGenerateSfx={handleGenerateSfx}
+                                    onPickSfx={setSfxPickerFor}
+                                    onGenerateTakes={handleGenerateTakes}
+                                    onSelectTake={handleSelectTake}
                                     onGenerateImage={() => handleGenerateItemImage(item.id)}
                                     onUploadImage={(id, file) => handleImageUpload('item', id, file)}
                                     onImageClick={(img) => setZoomedImage(img)}
@@ -1316,6 +1634,9 @@ export const StudioPage: React.FC<StudioPageProps> = ({
             {hasAudio && (
                 <Player
                     items={items}
+                    scenes={scenes}
+                    cast={cast}
+                    pacing={pacingSettings}
                     isPlaying={isPlaying}
                     enableSfx={enableSfx}
                     onPlayStateChange={(playing, currentId) => {
@@ -1331,19 +1652,29 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                     ref={podcastPublishRef}
                     storyText={storyText}
                     items={items}
-                    geminiApiKey={geminiApiKey}
+                    scenes={scenes}
+                    cast={cast}
+                    pacing={pacingSettings}
+                    masteringSettings={masteringSettings}
+                    videoMode={videoMode}
+                    visualizerStyle={visualizerStyle}
+                    videoFormat={videoFormat}
                     podcastInfo={podcastInfo}
                     onGenerateAllAudio={handleFillMissingAudio}
                     onGeneratingChange={(isGen) => setIsGeneratingAll(isGen)}
                     isYouTubeLoggedIn={isYouTubeLoggedIn}
                     selectedPlaylistId={selectedPlaylistId}
                     youtubePlaylists={youtubePlaylists}
-                    imageModel={imageModel}
                     imageProvider={imageProvider}
+                    imageConfig={providerConfig}
+                    llmProvider={llmProvider}
+                    llmConfig={providerConfig}
                     mp3Blob={mp3Blob}
                     setMp3Blob={setMp3Blob}
                     webmBlob={webmBlob}
                     setWebmBlob={setWebmBlob}
+                    mp4Blob={mp4Blob}
+                    setMp4Blob={setMp4Blob}
                     rssZipBlob={rssZipBlob}
                     setRssZipBlob={setRssZipBlob}
                     coverArtBase64={coverArtBase64}
@@ -1352,6 +1683,17 @@ export const StudioPage: React.FC<StudioPageProps> = ({
                 />
             )}
 
+            {/* SFX Library Picker */}
+            {sfxPickerFor && (
+                <SfxLibraryModal
+                    onClose={() => setSfxPickerFor(null)}
+                    onPick={(entry) => {
+                        handlePickLibrarySfx(sfxPickerFor, entry);
+                        setSfxPickerFor(null);
+                    }}
+                />
+            )}
+
             {/* Image Lightbox */}
             {zoomedImage && (
                 <div
@@ -4,11 +4,16 @@
  */
 
 import { BatchJob } from '../batchTypes';
+import { SceneDefinition, SfxLibraryEntry } from '../types';
+import type { TtsCacheEntry } from '../lib/tts/types';
 
 const BATCH_JOBS_KEY = 'batchJobs';
 const DB_NAME = 'VoiceDramaDB';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 const AUDIO_STORE = 'audioFiles';
+const SFX_LIBRARY_STORE = 'sfxLibrary';
+const TTS_CACHE_STORE = 'ttsCache';
+const TTS_CACHE_META_STORE = 'ttsCacheMeta';  // key / size / lastUsedAt only, so eviction never reads audio
 
 // ==================== localStorage (Job Metadata) ====================
 
@@ -67,20 +72,34 @@ export async function deleteBatchJob(id: string): Promise<BatchJob[]> {
 export async function deleteJobAudioFiles(job: BatchJob): Promise<void> {
     const keysToDelete: string[] = [];
 
-    // Collect MP3, WebM, and cover keys
+    // Collect MP3, WebM, MP4, Short, cover, subtitle, transcript and chapter keys
     if (job.files?.mp3Key) keysToDelete.push(job.files.mp3Key);
     if (job.files?.webmKey) keysToDelete.push(job.files.webmKey);
+    if (job.files?.mp4Key) keysToDelete.push(job.files.mp4Key);
+    if (job.files?.shortKey) keysToDelete.push(job.files.shortKey);
     if (job.files?.coverKey) keysToDelete.push(job.files.coverKey);
+    if (job.files?.srtKey) keysToDelete.push(job.files.srtKey);
+    if (job.files?.vttKey) keysToDelete.push(job.files.vttKey);
+    if (job.files?.transcriptKey) keysToDelete.push(job.files.transcriptKey);
+    if (job.files?.chaptersKey) keysToDelete.push(job.files.chaptersKey);
 
-    // Collect individual item audio keys
+    // Collect individual item audio keys (including every take)
     if (job.scriptData?.items) {
         for (const item of job.scriptData.items) {
             if (item.audioKey) {
                 keysToDelete.push(item.audioKey);
             }
+            for (const take of item.takes || []) {
+                if (take.audioKey !== item.audioKey) keysToDelete.push(take.audioKey);
+            }
         }
     }
 
+    // Collect scene bed keys (a removed bed keeps its deterministic key until the job is deleted)
+    for (const scene of job.scriptData?.scenes || []) {
+        keysToDelete.push(scene.audioKey || generateSceneAudioKey(job.id, scene.id));
+    }
+
     // Delete all audio files
     for (const key of keysToDelete) {
         try {
@@ -110,6 +129,28 @@ function openDatabase(): Promise<IDBDatabase> {
             if (!db.objectStoreNames.contains(AUDIO_STORE)) {
                 db.createObjectStore(AUDIO_STORE);
             }
+            if (!db.objectStoreNames.contains(SFX_LIBRARY_STORE)) {
+                db.createObjectStore(SFX_LIBRARY_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(TTS_CACHE_STORE)) {
+                const cacheStore = db.createObjectStore(TTS_CACHE_STORE, { keyPath: 'key' });
+                cacheStore.createIndex('lastUsedAt', 'lastUsedAt');
+            }
+            if (!db.objectStoreNames.contains(TTS_CACHE_META_STORE)) {
+                const metaStore = db.createObjectStore(TTS_CACHE_META_STORE, { keyPath: 'key' });
+                metaStore.createIndex('lastUsedAt', 'lastUsedAt');
+
+                // Index the entries cached before the metadata store existed (one-time read)
+                const upgradeTx = (event.target as IDBOpenDBRequest).transaction!;
+                const cursorRequest = upgradeTx.objectStore(TTS_CACHE_STORE).openCursor();
+                cursorRequest.onsuccess = () => {
+                    const cursor = cursorRequest.result;
+                    if (!cursor) return;
+                    const { key, size, lastUsedAt } = cursor.value as TtsCacheEntry;
+                    metaStore.put({ key, size, lastUsedAt });
+                    cursor.continue();
+                };
+            }
         };
     });
 }
@@ -166,7 +207,7 @@ export async function deleteAudioBlob(key: string): Promise<void> {
 }
 
 // Helper to generate unique keys for audio files
-export function generateAudioKey(jobId: string, type: 'mp3' | 'webm'): string {
+export function generateAudioKey(jobId: string, type: 'mp3' | 'webm' | 'mp4' | 'short' | 'srt' | 'vtt' | 'transcript' | 'chapters'): string {
     return `${jobId}_${type}_${Date.now()}`;
 }
 
@@ -175,6 +216,35 @@ export function generateItemAudioKey(jobId: string, itemId: string): string {
     return `${jobId}_item_${itemId}`;
 }
 
+// Generate key for one take of a script item
+export function generateTakeAudioKey(itemId: string, takeId: string): string {
+    return `take_${itemId}_${takeId}`;
+}
+
+// Generate key for a scene's ambience/music bed
+export function generateSceneAudioKey(jobId: string, sceneId: string): string {
+    return `${jobId}_scene_${sceneId}`;
+}
+
+// Move scene beds into IndexedDB, returning the scenes as they should be stored in the job
+export async function saveSceneAudio(jobId: string, scenes: SceneDefinition[]): Promise<SceneDefinition[]> {
+    return Promise.all(scenes.map(async ({ audioBuffer, audioBase64, ...scene }) => {
+        if (!audioBase64) return { ...scene, audioKey: undefined };
+        const audioKey = generateSceneAudioKey(jobId, scene.id);
+        await saveItemAudioBase64(audioKey, audioBase64);
+        return { ...scene, audioKey };
+    }));
+}
+
+// Fill in each scene's bed from IndexedDB (scenes saved by saveSceneAudio only carry an audioKey)
+export async function loadSceneAudio(scenes: SceneDefinition[]): Promise<SceneDefinition[]> {
+    return Promise.all(scenes.map(async (scene) => {
+        if (scene.audioBase64 || !scene.audioKey) return scene;
+        const audioBase64 = await loadItemAudioBase64(scene.audioKey);
+        return audioBase64 ? { ...scene, audioBase64 } : scene;
+    }));
+}
+
 // Save audio base64 for a script item (uses string storage, not blob)
 export async function saveItemAudioBase64(key: string, base64: string): Promise<void> {
     const db = await openDatabase();
@@ -249,3 +319,159 @@ export async function loadDraft(): Promise<any | null> {
         return null;
     }
 }
+
+// ==================== SFX Library (IndexedDB) ====================
+
+// Load every library entry, newest first
+export async function loadSfxLibrary(): Promise<SfxLibraryEntry[]> {
+    try {
+        const db = await openDatabase();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(SFX_LIBRARY_STORE, 'readonly');
+            const store = tx.objectStore(SFX_LIBRARY_STORE);
+            const request = store.getAll();
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve((request.result as SfxLibraryEntry[]).sort((a, b) => b.createdAt - a.createdAt));
+
+            tx.oncomplete = () => db.close();
+        });
+    } catch (e) {
+        console.error('Failed to load SFX library:', e);
+        return [];
+    }
+}
+
+// Add or update a library entry (keyed by entry.id)
+export async function saveSfxLibraryEntry(entry: SfxLibraryEntry): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(SFX_LIBRARY_STORE, 'readwrite');
+        const store = tx.objectStore(SFX_LIBRARY_STORE);
+        const request = store.put(entry);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve();
+
+        tx.oncomplete = () => db.close();
+    });
+}
+
+export async function deleteSfxLibraryEntry(id: string): Promise<void> {
+    try {
+        const db = await openDatabase();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(SFX_LIBRARY_STORE, 'readwrite');
+            const store = tx.objectStore(SFX_LIBRARY_STORE);
+            const request = store.delete(id);
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve();
+
+            tx.oncomplete = () => db.close();
+        });
+    } catch (e) {
+        console.error('Failed to delete SFX library entry:', e);
+    }
+}
+
+// ==================== TTS Cache (IndexedDB) ====================
+
+export async function loadTtsCacheEntry(key: string): Promise<TtsCacheEntry | null> {
+    try {
+        const db = await openDatabase();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(TTS_CACHE_STORE, 'readonly');
+            const store = tx.objectStore(TTS_CACHE_STORE);
+            const request = store.get(key);
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => resolve(request.result || null);
+
+            tx.oncomplete = () => db.close();
+        });
+    } catch (e) {
+        console.error('Failed to load TTS cache entry:', e);
+        return null;
+    }
+}
+
+// Entry and its metadata row are written together
+export async function saveTtsCacheEntry(entry: TtsCacheEntry): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([TTS_CACHE_STORE, TTS_CACHE_META_STORE], 'readwrite');
+        tx.objectStore(TTS_CACHE_STORE).put(entry);
+        tx.objectStore(TTS_CACHE_META_STORE).put({ key: entry.key, size: entry.size, lastUsedAt: entry.lastUsedAt });
+
+        tx.onerror = () => reject(tx.error);
+        tx.oncomplete = () => {
+            db.close();
+            resolve();
+        };
+    });
+}
+
+// Size and last use of every entry, least recently used first (read from the metadata store, never the audio)
+export async function listTtsCacheUsage(): Promise<{ key: string; size: number; lastUsedAt: number }[]> {
+    try {
+        const db = await openDatabase();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(TTS_CACHE_META_STORE, 'readonly');
+            const request = tx.objectStore(TTS_CACHE_META_STORE).index('lastUsedAt').openCursor();
+            const usage: { key: string; size: number; lastUsedAt: number }[] = [];
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor) {
+                    const { key, size, lastUsedAt } = cursor.value;
+                    usage.push({ key, size, lastUsedAt });
+                    cursor.continue();
+                } else {
+                    resolve(usage);
+                }
+            };
+
+            tx.oncomplete = () => db.close();
+        });
+    } catch (e) {
+        console.error('Failed to read TTS cache usage:', e);
+        return [];
+    }
+}
+
+export async function deleteTtsCacheEntries(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([TTS_CACHE_STORE, TTS_CACHE_META_STORE], 'readwrite');
+        const store = tx.objectStore(TTS_CACHE_STORE);
+        const metaStore = tx.objectStore(TTS_CACHE_META_STORE);
+        keys.forEach(key => {
+            store.delete(key);
+            metaStore.delete(key);
+        });
+
+        tx.onerror = () => reject(tx.error);
+        tx.oncomplete = () => {
+            db.close();
+            resolve();
+        };
+    });
+}
+
+export async function clearTtsCache(): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([TTS_CACHE_STORE, TTS_CACHE_META_STORE], 'readwrite');
+        tx.objectStore(TTS_CACHE_STORE).clear();
+        tx.objectStore(TTS_CACHE_META_STORE).clear();
+
+        tx.onerror = () => reject(tx.error);
+        tx.oncomplete = () => {
+            db.close();
+            resolve();
+        };
+    });
+}
@@ -1,5 +1,5 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI } from "@google/genai";
 import {
   ItemType, ScriptItem, CastMember, SceneDefinition, ElevenLabsVoice, GeneratedPodcastInfo,
   ImageAspectRatio, ImageStylePreset, IMAGE_STYLE_PRESETS
@@ -20,6 +20,8 @@ import {
   getDialogueImagePrompt,
   getImageStyleSuffix,
 } from "./promptTemplates";
+import { llmRegistry, LlmConfig } from "../lib/llm";
+import { imageRegistry, ImageConfig, ReferenceImage } from "../lib/image";
 
 // Helper to get or create Gemini client
 // Priority: provided apiKey > environment variable
@@ -59,12 +61,11 @@ export const generateScriptFromStory = async (
   includeSfx: boolean = true,
   includeNarrator: boolean = true,
   elevenLabsVoices: ElevenLabsVoice[] = [],
-  apiKey?: string,
-  model: string = 'gemini-2.5-flash',
+  llmProviderId: string = 'gemini',
+  llmConfig: LlmConfig = {},
   enableDialogueImages: boolean = true
 ): Promise<{ cast: CastMember[], scenes: SceneDefinition[], items: ScriptItem[], podcastInfo: GeneratedPodcastInfo | null }> => {
   if (!story.trim()) return { cast: [], scenes: [], items: [], podcastInfo: null };
-  const ai = getAI(apiKey);
 
   const sfxInstructions = getSfxInstructions(includeSfx);
   const narratorInstructions = getNarratorInstructions(includeNarrator, includeSfx);
@@ -88,100 +89,95 @@ export const generateScriptFromStory = async (
     "${story}"
   `;
 
-  console.log("--- [Gemini] Generate Script Prompt ---");
+  console.log(`--- [LLM] Generate Script Prompt (${llmProviderId}: ${llmRegistry.getModel(llmProviderId, llmConfig)}) ---`);
   console.log(prompt);
   console.log("---------------------------------------");
 
   try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            cast: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  voice: { type: Type.STRING, enum: ALL_VOICES },
-                  description: { type: Type.STRING },
-                  voicePrompt: { type: Type.STRING, description: "TTS accent/style prompt in English" },
-                  elevenLabsVoiceId: { type: Type.STRING, description: "ElevenLabs voice ID if available" },
-                },
-                required: ["name", "voice", "voicePrompt"]
-              }
-            },
-            scenes: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  visualDescription: { type: Type.STRING, description: "Detailed environment description" },
-                  characterNames: { type: Type.ARRAY, items: { type: Type.STRING }, description: "List of characters present in this scene" }
-                },
-                required: ["name", "visualDescription"]
-              }
-            },
-            script: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: enableDialogueImages ? {
-                  type: { type: Type.STRING, enum: [ItemType.SPEECH, ItemType.SFX] },
-                  location: { type: Type.STRING },
-                  character: { type: Type.STRING },
-                  text: { type: Type.STRING },
-                  expression: { type: Type.STRING },
-                  sfxDescription: { type: Type.STRING },
-                  imagePrompt: {
-                    type: Type.STRING,
-                    description: "Visual scene description. Refer to the FIRST character in 'sceneCharacters' as 'Character A', the SECOND as 'Character B', and so on. Refer to the location as 'The Scene'. Do NOT use real character names or location names."
-                  },
-                  sceneCharacters: {
-                    type: Type.ARRAY,
-                    items: { type: Type.STRING },
-                    description: "Names of all characters present in this scene moment (excluding Narrator). ORDER MATTERS: The first name is Character A, second is Character B."
-                  }
-                } : {
-                  type: { type: Type.STRING, enum: [ItemType.SPEECH, ItemType.SFX] },
-                  location: { type: Type.STRING },
-                  character: { type: Type.STRING },
-                  text: { type: Type.STRING },
-                  expression: { type: Type.STRING },
-                  sfxDescription: { type: Type.STRING }
-                },
-                required: enableDialogueImages
-                  ? ["type", "location", "imagePrompt", "sceneCharacters"]
-                  : ["type", "location"],
+    const data = await llmRegistry.generateJson<GeneratedScriptResponse>(llmProviderId, {
+      prompt,
+      schema: {
+        type: 'object',
+        properties: {
+          cast: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                voice: { type: 'string', enum: ALL_VOICES },
+                description: { type: 'string' },
+                voicePrompt: { type: 'string', description: "TTS accent/style prompt in English" },
+                elevenLabsVoiceId: { type: 'string', description: "ElevenLabs voice ID if available" },
               },
-            },
-            podcastInfo: {
-              type: Type.OBJECT,
+              required: ["name", "voice", "voicePrompt"]
+            }
+          },
+          scenes: {
+            type: 'array',
+            items: {
+              type: 'object',
               properties: {
-                podcastName: { type: Type.STRING, description: "Podcast series name" },
-                author: { type: Type.STRING, description: "Author/creator name" },
-                episodeTitle: { type: Type.STRING, description: "Episode title" },
-                description: { type: Type.STRING, description: "Episode description" },
-                coverPrompt: { type: Type.STRING, description: "AI image generation prompt for cover art" },
-                tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Tags for discoverability" },
+                name: { type: 'string' },
+                visualDescription: { type: 'string', description: "Detailed environment description" },
+                characterNames: { type: 'array', items: { type: 'string' }, description: "List of characters present in this scene" }
               },
-              required: ["podcastName", "author", "episodeTitle", "description", "coverPrompt"]
+              required: ["name", "visualDescription"]
             }
           },
-          required: ["cast", "scenes", "script", "podcastInfo"]
+          script: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: enableDialogueImages ? {
+                type: { type: 'string', enum: [ItemType.SPEECH, ItemType.SFX] },
+                location: { type: 'string' },
+                character: { type: 'string' },
+                text: { type: 'string' },
+                expression: { type: 'string' },
+                sfxDescription: { type: 'string' },
+                sfxDuration: { type: 'number', description: "Suggested length of the sound effect in seconds" },
+                pauseAfter: { type: 'number', description: "Optional seconds of silence after this cue for a dramatic beat" },
+                imagePrompt: {
+                  type: 'string',
+                  description: "Visual scene description. Refer to the FIRST character in 'sceneCharacters' as 'Character A', the SECOND as 'Character B', and so on. Refer to the location as 'The Scene'. Do NOT use real character names or location names."
+                },
+                sceneCharacters: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: "Names of all characters present in this scene moment (excluding Narrator). ORDER MATTERS: The first name is Character A, second is Character B."
+                }
+              } : {
+                type: { type: 'string', enum: [ItemType.SPEECH, ItemType.SFX] },
+                location: { type: 'string' },
+                character: { type: 'string' },
+                text: { type: 'string' },
+                expression: { type: 'string' },
+                sfxDescription: { type: 'string' },
+                sfxDuration: { type: 'number', description: "Suggested length of the sound effect in seconds" },
+                pauseAfter: { type: 'number', description: "Optional seconds of silence after this cue for a dramatic beat" }
+              },
+              required: enableDialogueImages
+                ? ["type", "location", "imagePrompt", "sceneCharacters"]
+                : ["type", "location"],
+            },
+          },
+          podcastInfo: {
+            type: 'object',
+            properties: {
+              podcastName: { type: 'string', description: "Podcast series name" },
+              author: { type: 'string', description: "Author/creator name" },
+              episodeTitle: { type: 'string', description: "Episode title" },
+              description: { type: 'string', description: "Episode description" },
+              coverPrompt: { type: 'string', description: "AI image generation prompt for cover art" },
+              tags: { type: 'array', items: { type: 'string' }, description: "Tags for discoverability" },
+            },
+            required: ["podcastName", "author", "episodeTitle", "description", "coverPrompt"]
+          }
         },
+        required: ["cast", "scenes", "script", "podcastInfo"]
       },
-    });
-
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response text from Gemini");
-
-    const data = JSON.parse(jsonText) as GeneratedScriptResponse;
+    }, llmConfig);
 
     // Process Cast - add default voiceType
     const cast: CastMember[] = (data.cast || []).map(c => ({
@@ -284,14 +280,14 @@ export interface GeneratedStory {
 }
 
 /**
- * Generate multiple stories from a topic using Gemini
+ * Generate multiple stories from a topic using the selected LLM provider
  * @param topic - The topic/theme for story generation
  * @param count - Number of stories to generate
  * @param preset - Story preset type
  * @param customStyle - Custom style instructions (used when preset is 'custom')
  * @param exampleReference - Optional example stories for style/format reference
- * @param apiKey - Gemini API key
- * @param model - Gemini model to use
+ * @param llmProviderId - LLM provider from lib/llm
+ * @param llmConfig - Provider settings (API keys, model, base URL)
  * @returns Array of generated stories
  */
 export const generateStoriesFromTopic = async (
@@ -300,11 +296,9 @@ export const generateStoriesFromTopic = async (
   preset: StoryPreset = 'jokes',
   customStyle: string = '',
   exampleReference: string = '',
-  apiKey?: string,
-  model: string = 'gemini-2.5-flash'
+  llmProviderId: string = 'gemini',
+  llmConfig: LlmConfig = {}
 ): Promise<GeneratedStory[]> => {
-  const ai = getAI(apiKey);
-
   // Preset configurations with Chinese prompts
   const presetConfigs: Record<StoryPreset, { style: string; instructions: string }> = {
     jokes: {
@@ -394,41 +388,33 @@ export const generateStoriesFromTopic = async (
     請生成 ${count} 個故事。
   `;
 
-  console.log("--- [Gemini] Generate Stories From Topic ---");
+  console.log(`--- [LLM] Generate Stories From Topic (${llmProviderId}: ${llmRegistry.getModel(llmProviderId, llmConfig)}) ---`);
   console.log(`Topic: ${topic}, Count: ${count}, Preset: ${preset}`);
   console.log("-------------------------------------------");
 
   try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            stories: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  title: { type: Type.STRING, description: "故事標題" },
-                  content: { type: Type.STRING, description: "故事完整內容" },
-                },
-                required: ["title", "content"]
-              }
+    const data = await llmRegistry.generateJson<{ stories: GeneratedStory[] }>(llmProviderId, {
+      prompt,
+      schema: {
+        type: 'object',
+        properties: {
+          stories: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                title: { type: 'string', description: "故事標題" },
+                content: { type: 'string', description: "故事完整內容" },
+              },
+              required: ["title", "content"]
             }
-          },
-          required: ["stories"]
+          }
         },
+        required: ["stories"]
       },
-    });
+    }, llmConfig);
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response text from Gemini");
-
-    const data = JSON.parse(jsonText) as { stories: GeneratedStory[] };
-    console.log(`[Gemini] Generated ${data.stories.length} stories`);
+    console.log(`[LLM] Generated ${data.stories.length} stories`);
 
     return data.stories;
 
@@ -439,105 +425,114 @@ export const generateStoriesFromTopic = async (
 };
 
 /**
- * Generate image using Gemini's image generation model
+ * One script line offered to the LLM when picking a Shorts highlight
+ */
+export interface ShortsHighlightLine {
+  id: string;
+  speaker?: string;
+  text: string;
+  start: number;     // Seconds on the episode timeline
+  duration: number;
+}
+
+export interface ShortsHighlight {
+  startId: string;   // First ScriptItem of the span
+  endId: string;     // Last ScriptItem of the span
+  hookTitle: string;
+  reason?: string;
+}
+
+/**
+ * Ask the LLM for the most engaging contiguous span of lines for a vertical Short / Reel
+ * @param lines - Script lines in timeline order, with their timing
+ * @param minSeconds / maxSeconds - Target clip length
+ * @param llmProviderId - LLM provider from lib/llm
+ * @param llmConfig - Provider settings (API keys, model, base URL)
+ */
+export const pickShortsHighlight = async (
+  lines: ShortsHighlightLine[],
+  minSeconds: number,
+  maxSeconds: number,
+  llmProviderId: string = 'gemini',
+  llmConfig: LlmConfig = {}
+): Promise<ShortsHighlight> => {
+  const transcript = lines
+    .map(l => `[${l.id}] (${l.start.toFixed(1)}s, ${l.duration.toFixed(1)}s) ${l.speaker ? `${l.speaker}：` : ''}${l.text}`)
+    .join('\n');
+
+  const prompt = `
+    你是一位短影音剪輯師，負責從廣播劇中剪出 YouTube Shorts / Instagram Reels。
+
+    **任務**：從以下腳本中選出最吸引人的一段「連續」台詞，總長度在 ${minSeconds}–${maxSeconds} 秒之間。
+
+    **選擇標準**：
+    - 開頭三秒就要抓住注意力（衝突、懸念、笑點或驚喜）
+    - 這一段單獨觀看也要看得懂，最好有完整的鋪陳和高潮
+    - 避免以說明性旁白開頭
+
+    **另外**：寫一個簡短有力的開場標題（hookTitle，15 字以內，使用繁體中文），放在影片開頭吸引觀眾。
+
+    每一行的格式為：[ID] (開始秒數, 長度秒數) 角色：台詞
+    ---
+    ${transcript}
+    ---
+
+    請回傳第一行與最後一行的 ID（startId、endId）。
+  `;
+
+  console.log(`--- [LLM] Pick Shorts Highlight (${llmProviderId}: ${llmRegistry.getModel(llmProviderId, llmConfig)}) ---`);
+  console.log(`Lines: ${lines.length}, Target: ${minSeconds}-${maxSeconds}s`);
+  console.log("-------------------------------------------");
+
+  try {
+    const data = await llmRegistry.generateJson<ShortsHighlight>(llmProviderId, {
+      prompt,
+      schema: {
+        type: 'object',
+        properties: {
+          startId: { type: 'string', description: "第一行台詞的 ID" },
+          endId: { type: 'string', description: "最後一行台詞的 ID" },
+          hookTitle: { type: 'string', description: "開場標題" },
+          reason: { type: 'string', description: "選擇這段的理由" },
+        },
+        required: ["startId", "endId", "hookTitle"]
+      },
+    }, llmConfig);
+
+    console.log(`[LLM] Shorts highlight: ${data.startId} → ${data.endId} (${data.hookTitle})`);
+    return data;
+
+  } catch (error) {
+    console.error("Error picking Shorts highlight:", error);
+    throw error;
+  }
+};
+
+/**
+ * Generate an image with the selected image provider
  * @param prompt - Description of the desired image
  * @param aspectRatio - Output aspect ratio (default: '1:1')
- * @param apiKey - Gemini API key
+ * @param imageProviderId - Image provider from lib/image
+ * @param imageConfig - Provider settings (API keys, model, base URL)
  * @returns Base64 encoded image data
  */
 export const generateImage = async (
   prompt: string,
   aspectRatio: ImageAspectRatio = '1:1',
-  model: string = 'gemini-2.0-flash-exp',
-  apiKey?: string
+  imageProviderId: string = 'gemini',
+  imageConfig: ImageConfig = {}
 ): Promise<string> => {
-  const key = apiKey || process.env.API_KEY || '';
-  if (!key) {
-    throw new Error("Gemini API Key is required for image generation.");
-  }
-
-  console.log("--- [Gemini] Generate Image ---");
+  console.log(`--- [Image] Generate Image (${imageProviderId}: ${imageRegistry.getModel(imageProviderId, imageConfig)}) ---`);
   console.log("Prompt:", prompt);
   console.log("Aspect Ratio:", aspectRatio);
-  console.log("Model:", model);
   console.log("-------------------------------");
 
   try {
-    // 根據模型選擇不同的 API 端點與格式
-    let url = '';
-    let body = {};
-
-    if (model.includes('imagen')) {
-      // Imagen 3.0 使用 :predict 端點
-      url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:predict?key=${key}`;
-      body = {
-        instances: [
-          { prompt: prompt }
-        ],
-        parameters: {
-          sampleCount: 1,
-          aspectRatio: aspectRatio || '1:1'
-        }
-      };
-    } else {
-      // Gemini 2.0 / 2.5 / 3.0 使用 :generateContent 端點
-      url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${key}`;
-
-      const generationConfig: any = {
-        responseModalities: ["IMAGE"],
-      };
-
-      // Support imageConfig for aspect ratio (Gemini 2.5+, 3.0+)
-      if (aspectRatio) {
-        generationConfig.imageConfig = {
-          aspectRatio: aspectRatio
-        };
-      }
-
-      body = {
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: generationConfig
-      };
-    }
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("[Gemini] Image generation error:", errorText);
-      throw new Error(`Failed to generate image: ${response.statusText} - ${errorText}`);
-    }
-
-    const data = await response.json();
-
-    // Parse response based on model
-    if (model.includes('imagen')) {
-      // Imagen Response: { predictions: [ { bytesBase64Encoded: "..." } ] }
-      const base64 = data.predictions?.[0]?.bytesBase64Encoded;
-      if (!base64) throw new Error('No image generated (Imagen).');
-      console.log("[Gemini] Imagen generated successfully.");
-      return base64;
-    } else {
-      // Gemini Response
-      const imagePart = data.candidates?.[0]?.content?.parts?.find((p: any) => p.inlineData);
-      if (!imagePart?.inlineData?.data) {
-        throw new Error('No image generated (Gemini).');
-      }
-      console.log("[Gemini] Gemini generated successfully.");
-      return imagePart.inlineData.data;
-    }
+    const result = await imageRegistry.generateImage(imageProviderId, { prompt, aspectRatio }, imageConfig);
+    console.log("[Image] Generated successfully.");
+    return result.imageBase64;
   } catch (error) {
-    console.error("[Gemini] Image generation error:", error);
+    console.error("[Image] Image generation error:", error);
     throw error;
   }
 };
@@ -551,14 +546,14 @@ export const generateCharacterImage = async (
   stylePreset: ImageStylePreset,
   customStyle: string,
   aspectRatio: ImageAspectRatio,
-  imageModel: string,
-  apiKey?: string
+  imageProviderId: string,
+  imageConfig: ImageConfig
 ): Promise<string> => {
   const styleSuffix = getImageStyleSuffix(stylePreset, customStyle);
   const prompt = getCharacterImagePrompt(character, styleSuffix);
 
-  console.log("[Gemini] Generating character image for:", character.name);
-  return generateImage(prompt, aspectRatio, imageModel, apiKey);
+  console.log("[Image] Generating character image for:", character.name);
+  return generateImage(prompt, aspectRatio, imageProviderId, imageConfig);
 };
 
 /**
@@ -569,14 +564,14 @@ export const generateSceneImage = async (
   stylePreset: ImageStylePreset,
   customStyle: string,
   aspectRatio: ImageAspectRatio,
-  imageModel: string,
-  apiKey?: string
+  imageProviderId: string,
+  imageConfig: ImageConfig
 ): Promise<string> => {
   const styleSuffix = getImageStyleSuffix(stylePreset, customStyle);
   const prompt = getSceneImagePrompt(scene, styleSuffix);
 
-  console.log("[Gemini] Generating scene image for:", scene.name);
-  return generateImage(prompt, aspectRatio, imageModel, apiKey);
+  console.log("[Image] Generating scene image for:", scene.name);
+  return generateImage(prompt, aspectRatio, imageProviderId, imageConfig);
 };
 
 /**
@@ -589,14 +584,14 @@ export const generateDialogueImageForItem = async (
   stylePreset: ImageStylePreset,
   customStyle: string,
   aspectRatio: ImageAspectRatio,
-  imageModel: string,
-  apiKey?: string
+  imageProviderId: string,
+  imageConfig: ImageConfig
 ): Promise<string> => {
   const styleSuffix = getImageStyleSuffix(stylePreset, customStyle);
   const prompt = getDialogueImagePrompt(item, scene, cast, styleSuffix);
 
-  console.log("[Gemini] Generating dialogue image for item:", item.id);
-  return generateImage(prompt, aspectRatio, imageModel, apiKey);
+  console.log("[Image] Generating dialogue image for item:", item.id);
+  return generateImage(prompt, aspectRatio, imageProviderId, imageConfig);
 };
 
 /**
@@ -651,7 +646,7 @@ export interface CharacterRef {
 /**
  * Generate composite dialogue image using multiple reference images
  * Combines character images + scene image + action prompt
- * Uses Gemini's multi-image reference capability
+ * Providers without reference support get a prompt-only request
  */
 export const generateCompositeDialogueImage = async (
   actionPrompt: string,           // 動作/表情/對話描述
@@ -660,23 +655,17 @@ export const generateCompositeDialogueImage = async (
   stylePreset: ImageStylePreset,
   customStyle: string,
   aspectRatio: ImageAspectRatio,
-  model: string = 'gemini-2.5-flash-image',
-  apiKey?: string
+  imageProviderId: string = 'gemini',
+  imageConfig: ImageConfig = {}
 ): Promise<string> => {
-  const key = apiKey || process.env.API_KEY || '';
-  if (!key) {
-    throw new Error("Gemini API Key is required for image generation.");
-  }
-
   const styleSuffix = getImageStyleSuffix(stylePreset, customStyle);
-
-  // Build parts array with text prompt and reference images
-  const parts: any[] = [];
+  const useReferences = imageRegistry.supportsReferences(imageProviderId) && (characterRefs.length > 0 || !!sceneImage);
 
   // Build the text prompt based on available references
   let textPrompt = '';
+  const references: ReferenceImage[] = [];
 
-  if (characterRefs.length > 0 || sceneImage) {
+  if (useReferences) {
     textPrompt = `Generate a dialogue scene image based on the following:\n\n`;
 
     // Add character reference instructions
@@ -703,85 +692,36 @@ export const generateCompositeDialogueImage = async (
     textPrompt += `- Match the visual style consistently across the image\n`;
     textPrompt += `- The generated image should be a single cohesive scene depicting the action described\n`;
     textPrompt += `- DO NOT render any text, dialogue, speech bubbles, or captions in the image`;
+
+    // Character references first, then the scene, matching the numbering above
+    for (const ref of characterRefs) {
+      references.push({ imageBase64: ref.imageBase64, mimeType: "image/png" });
+    }
+    if (sceneImage) {
+      references.push({ imageBase64: sceneImage, mimeType: "image/png" });
+    }
   } else {
     // No reference images, pure text generation
     textPrompt = `${actionPrompt}\n\nStyle: ${styleSuffix}`;
   }
 
-  parts.push({ text: textPrompt });
-
-  // Add character reference images
-  for (const ref of characterRefs) {
-    parts.push({
-      inlineData: {
-        mimeType: "image/png",
-        data: ref.imageBase64
-      }
-    });
-  }
-
-  // Add scene reference image
-  if (sceneImage) {
-    parts.push({
-      inlineData: {
-        mimeType: "image/png",
-        data: sceneImage
-      }
-    });
-  }
-
-  console.log("--- [Gemini] Generate Composite Image ---");
-  console.log("Character refs:", characterRefs.length);
-  console.log("Scene ref:", sceneImage ? "yes" : "no");
+  console.log(`--- [Image] Generate Composite Image (${imageProviderId}: ${imageRegistry.getModel(imageProviderId, imageConfig)}) ---`);
+  console.log("Character refs:", useReferences ? characterRefs.length : 0);
+  console.log("Scene ref:", useReferences && sceneImage ? "yes" : "no");
   console.log("Action prompt:", actionPrompt);
-  console.log("Model:", model);
   console.log("-----------------------------------------");
 
   try {
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${key}`;
-
-    const generationConfig: any = {
-      responseModalities: ["IMAGE"],
-    };
-
-    if (aspectRatio) {
-      generationConfig.imageConfig = {
-        aspectRatio: aspectRatio
-      };
-    }
-
-    const body = {
-      contents: [{
-        parts: parts
-      }],
-      generationConfig: generationConfig
-    };
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("[Gemini] Composite image generation error:", errorText);
-      throw new Error(`Failed to generate composite image: ${response.statusText} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    const imagePart = data.candidates?.[0]?.content?.parts?.find((p: any) => p.inlineData);
-
-    if (!imagePart?.inlineData?.data) {
-      throw new Error('No composite image generated.');
-    }
-
-    console.log("[Gemini] Composite image generated successfully.");
-    return imagePart.inlineData.data;
+    const result = await imageRegistry.generateImage(imageProviderId, {
+      prompt: textPrompt,
+      aspectRatio,
+      references,
+    }, imageConfig);
+
+    console.log("[Image] Composite image generated successfully.");
+    return result.imageBase64;
   } catch (error) {
-    console.error("[Gemini] Composite image generation error:", error);
+    console.error("[Image] Composite image generation error:", error);
     throw error;
   }
 };
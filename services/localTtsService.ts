@@ -0,0 +1,104 @@
+// Service for a self-hosted TTS server
+// Supports two API styles:
+//  - 'openai': OpenAI /v1/audio/speech compatible (Kokoro-FastAPI, openedai-speech, LocalAI, ...)
+//  - 'piper':  Piper HTTP server (POST / with { text, voice }, GET /voices)
+
+export type LocalTtsApiStyle = 'openai' | 'piper';
+
+export interface LocalTtsSettings {
+  baseUrl: string;
+  apiStyle: LocalTtsApiStyle;
+  model?: string;      // OpenAI style only, e.g. 'tts-1' or 'kokoro'
+  apiKey?: string;     // Sent as a bearer token when set
+}
+
+// The OpenAI speech API has no voice listing endpoint, so these are the fallback
+const OPENAI_DEFAULT_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+
+const trimUrl = (url: string) => url.replace(/\/+$/, '');
+
+const buildHeaders = (settings: LocalTtsSettings): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  return headers;
+};
+
+/**
+ * List the voices the server offers.
+ * Servers return either an array (of names or { id, name }) or an object keyed by voice id.
+ */
+export async function fetchLocalTtsVoices(settings: LocalTtsSettings): Promise<string[]> {
+  const url = settings.apiStyle === 'piper'
+    ? `${trimUrl(settings.baseUrl)}/voices`
+    : `${trimUrl(settings.baseUrl)}/audio/voices`;  // Kokoro-FastAPI and LocalAI extension
+
+  try {
+    const response = await fetch(url, { headers: buildHeaders(settings) });
+    if (!response.ok) throw new Error(response.statusText);
+
+    const data = await response.json();
+    const list = Array.isArray(data) ? data : Array.isArray(data.voices) ? data.voices : Object.keys(data);
+    const voices = list
+      .map((v: any) => typeof v === 'string' ? v : v.id || v.name || v.voice_id)
+      .filter(Boolean);
+
+    console.log(`[Local TTS] Found ${voices.length} voices`);
+    if (voices.length > 0) return voices;
+  } catch (e) {
+    console.warn('[Local TTS] Voice listing not available:', e);
+  }
+
+  return settings.apiStyle === 'openai' ? OPENAI_DEFAULT_VOICES : [];
+}
+
+/**
+ * Generate speech and return it as base64 WAV
+ */
+export async function generateLocalSpeech(
+  text: string,
+  voice: string,
+  instructions: string,
+  settings: LocalTtsSettings
+): Promise<string> {
+  console.log("--- [Local TTS] Generate Speech ---");
+  console.log(`Voice: ${voice}`);
+  console.log(`Text: ${text}`);
+  console.log("-----------------------------------");
+
+  const response = settings.apiStyle === 'piper'
+    ? await fetch(trimUrl(settings.baseUrl), {
+      method: 'POST',
+      headers: buildHeaders(settings),
+      body: JSON.stringify({ text, voice: voice || undefined }),
+    })
+    : await fetch(`${trimUrl(settings.baseUrl)}/audio/speech`, {
+      method: 'POST',
+      headers: buildHeaders(settings),
+      body: JSON.stringify({
+        model: settings.model || 'tts-1',
+        input: text,
+        voice,
+        response_format: 'wav',
+        // Style hint for models that accept it; others ignore unknown fields
+        instructions: instructions || undefined,
+      }),
+    });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Local TTS Error (${response.status}): ${errorText || response.statusText}`);
+  }
+
+  const arrayBuffer = await response.arrayBuffer();
+  return arrayBufferToBase64(arrayBuffer);
+}
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
@@ -4,26 +4,31 @@
  */
 
 import { generateImage } from './geminiService';
+import { ImageConfig } from '../lib/image';
+import { SubtitleFiles } from '../utils/subtitles';
+import { CastMember, PodcastPerson, TranscriptFormat } from '../types';
+import { createVideo } from '../utils/audioUtils';
+import { buildPodcastSite, EpisodePageContent } from './podcastSiteService';
 
 // === Cover Art Generation ===
 
 /**
- * Generate podcast cover art using Gemini's image generation
+ * Generate podcast cover art with the selected image provider
  * @param prompt - Description of the desired cover art
  * @param title - Podcast episode title (for text overlay)
- * @param apiKey - Gemini API key
- * @param imageModel - Image generation model (default: 'gemini-2.0-flash-exp')
+ * @param imageProviderId - Image provider from lib/image (default: 'gemini')
+ * @param imageConfig - Provider settings (API keys, model, base URL)
  */
 export async function generatePodcastCoverArt(
     prompt: string,
     title: string,
-    apiKey: string,
-    imageModel: string = 'gemini-2.0-flash-exp'
+    imageProviderId: string = 'gemini',
+    imageConfig: ImageConfig = {}
 ): Promise<string> {
     console.log('[PodcastService] Generating cover art...');
     console.log('[PodcastService] Title:', title);
     console.log('[PodcastService] Prompt:', prompt);
-    console.log('[PodcastService] Model:', imageModel);
+    console.log('[PodcastService] Provider:', imageProviderId);
 
     // Build the full prompt for cover art generation
     const fullPrompt = `Create a professional podcast cover art image (square format, 1400x1400 pixels ideal for podcast platforms).
@@ -40,8 +45,8 @@ Additional context: ${prompt}
 
 Generate a high-quality cover art that would look great on Spotify, Apple Podcasts, and YouTube Music.`;
 
-    // Use Gemini - podcast covers should be square (1:1)
-    const rawBase64 = await generateImage(fullPrompt, '1:1', imageModel, apiKey);
+    // Podcast covers should be square (1:1)
+    const rawBase64 = await generateImage(fullPrompt, '1:1', imageProviderId, imageConfig);
 
     // Compress and resize the image to meet iTunes requirements (<500KB, 1400x1400)
     const compressedBase64 = await compressImageForPodcast(rawBase64);
@@ -114,6 +119,7 @@ export interface PodcastMetadata {
     explicit: boolean;
     websiteUrl?: string;
     coverArtBase64?: string;
+    podcastGuid?: string;    // podcast:guid (see podcastGuidForFeed)
 }
 
 export interface EpisodeMetadata {
@@ -124,6 +130,63 @@ export interface EpisodeMetadata {
     publishDate: Date;
     episodeNumber?: number;
     seasonNumber?: number;
+    guid?: string;           // Defaults to the enclosure URL
+    fileSize?: number;       // Enclosure length in bytes
+    imageFileName?: string;  // Episode artwork under episodes/
+    // Podcasting 2.0 sidecars under episodes/ (names from episodeSidecarFiles)
+    transcripts?: TranscriptFormat[];
+    chapters?: boolean;
+    persons?: PodcastPerson[];
+}
+
+export const PLACEHOLDER_BASE_URL = 'https://YOUR_HOSTING_URL';
+
+const TRANSCRIPT_TYPES: Record<TranscriptFormat, string> = {
+    vtt: 'text/vtt',
+    srt: 'application/srt',
+    json: 'application/json',
+};
+
+// Podcasting 2.0 namespace UUID for podcast:guid (UUIDv5 of the feed URL)
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6';
+
+/**
+ * Sidecar file names next to an episode's audio: episode_001.mp3 → episode_001.vtt, episode_001.chapters.json, ...
+ */
+export function episodeSidecarFiles(audioFileName: string) {
+    const base = audioFileName.replace(/\.[^.]+$/, '');
+    return {
+        srt: `${base}.srt`,
+        vtt: `${base}.vtt`,
+        json: `${base}.transcript.json`,
+        chapters: `${base}.chapters.json`,
+    };
+}
+
+/**
+ * Cast as podcast:person entries; the narrator is tagged as such, every other voice as a guest
+ */
+export function castToPersons(cast: CastMember[]): PodcastPerson[] {
+    return cast.map(member => {
+        const name = member.name.trim().toLowerCase();
+        const isNarrator = name.includes('narrator') || name.includes('旁白');
+        return { name: member.name, role: isNarrator ? 'narrator' : 'guest' };
+    });
+}
+
+/**
+ * podcast:guid for a feed: UUIDv5 of the feed URL without the scheme and trailing slashes.
+ * Store it with the show once assigned; it must not change when the feed moves.
+ */
+export async function podcastGuidForFeed(feedUrl: string): Promise<string> {
+    const name = feedUrl.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, '');
+    const namespace = PODCAST_GUID_NAMESPACE.replace(/-/g, '').match(/../g)!.map(h => parseInt(h, 16));
+    const data = new Uint8Array([...namespace, ...new TextEncoder().encode(name)]);
+    const hash = new Uint8Array(await crypto.subtle.digest('SHA-1', data)).slice(0, 16);
+    hash[6] = (hash[6] & 0x0f) | 0x50; // Version 5
+    hash[8] = (hash[8] & 0x3f) | 0x80; // RFC 4122 variant
+    const hex = Array.from(hash, b => b.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
 }
 
 /**
@@ -134,6 +197,7 @@ export function generateRSSFeed(
     episodes: EpisodeMetadata[],
     baseUrl: string = 'https://example.com/podcast'
 ): string {
+    baseUrl = baseUrl.replace(/\/+$/, '');
     const escapeXml = (str: string) => str
         .replace(/&/g, '&amp;')
         .replace(/</g, '&lt;')
@@ -148,24 +212,38 @@ export function generateRSSFeed(
         return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}` : `${m}:${s.toString().padStart(2, '0')}`;
     };
 
+    // Podcasting 2.0 tags for an episode's transcripts, chapters and cast
+    const podcastTags = (ep: EpisodeMetadata) => {
+        const files = episodeSidecarFiles(ep.audioFileName);
+        return [
+            ...(ep.transcripts || []).map(format =>
+                `<podcast:transcript url="${baseUrl}/episodes/${files[format]}" type="${TRANSCRIPT_TYPES[format]}" language="${podcast.language}"${format === 'vtt' || format === 'srt' ? ' rel="captions"' : ''}/>`),
+            ...(ep.chapters ? [`<podcast:chapters url="${baseUrl}/episodes/${files.chapters}" type="application/json+chapters"/>`] : []),
+            ...(ep.persons || []).map(p =>
+                `<podcast:person group="cast" role="${p.role}">${escapeXml(p.name)}</podcast:person>`),
+        ].map(tag => `\n      ${tag}`).join('');
+    };
+
     const episodesXml = episodes.map((ep, idx) => `
     <item>
       <title>${escapeXml(ep.title)}</title>
       <description><![CDATA[${ep.description}]]></description>
-      <enclosure url="${baseUrl}/episodes/${ep.audioFileName}" type="audio/mpeg" length="0"/>
-      <guid isPermaLink="false">${baseUrl}/episodes/${ep.audioFileName}</guid>
+      <enclosure url="${baseUrl}/episodes/${ep.audioFileName}" type="audio/mpeg" length="${ep.fileSize || 0}"/>
+      <guid isPermaLink="false">${escapeXml(ep.guid || `${baseUrl}/episodes/${ep.audioFileName}`)}</guid>
       <pubDate>${ep.publishDate.toUTCString()}</pubDate>
       <itunes:duration>${formatDuration(ep.duration)}</itunes:duration>
       <itunes:episode>${ep.episodeNumber || idx + 1}</itunes:episode>
       ${ep.seasonNumber ? `<itunes:season>${ep.seasonNumber}</itunes:season>` : ''}
-      <itunes:explicit>${podcast.explicit ? 'yes' : 'no'}</itunes:explicit>
+      ${ep.imageFileName ? `<itunes:image href="${baseUrl}/episodes/${ep.imageFileName}"/>` : ''}
+      <itunes:explicit>${podcast.explicit ? 'yes' : 'no'}</itunes:explicit>${podcastTags(ep)}
     </item>`).join('\n');
 
     return `<?xml version="1.0" encoding="UTF-8"?>
 <rss version="2.0" 
   xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
   xmlns:content="http://purl.org/rss/1.0/modules/content/"
-  xmlns:atom="http://www.w3.org/2005/Atom">
+  xmlns:atom="http://www.w3.org/2005/Atom"
+  xmlns:podcast="https://podcastindex.org/namespace/1.0">
   <channel>
     <title>${escapeXml(podcast.title)}</title>
     <description><![CDATA[${podcast.description}]]></description>
@@ -181,6 +259,7 @@ export function generateRSSFeed(
     <itunes:category text="${escapeXml(podcast.category)}"/>
     <itunes:explicit>${podcast.explicit ? 'yes' : 'no'}</itunes:explicit>
     <itunes:image href="${baseUrl}/cover.jpg"/>
+    ${podcast.podcastGuid ? `<podcast:guid>${podcast.podcastGuid}</podcast:guid>` : ''}
     
     ${episodesXml}
   </channel>
@@ -190,130 +269,139 @@ export function generateRSSFeed(
 // === MP4 Video Generation (for YouTube Music) ===
 
 /**
- * Create a simple MP4 video with static image and audio
- * Uses browser canvas and MediaRecorder for encoding
+ * Create an MP4 (H.264/AAC) video with a static image and audio.
+ * Encodes with WebCodecs; falls back to WebM where WebCodecs is unavailable (check blob.type).
  */
 export async function createVideoFromAudioAndImage(
     audioBlob: Blob,
     imageBase64: string,
     duration: number
 ): Promise<Blob> {
-    return new Promise(async (resolve, reject) => {
-        try {
-            // Create offscreen canvas for the video frame
-            const canvas = document.createElement('canvas');
-            canvas.width = 1920;
-            canvas.height = 1080;
-            const ctx = canvas.getContext('2d')!;
+    const audioContext = new AudioContext();
+    try {
+        const audioBuffer = await audioContext.decodeAudioData(await audioBlob.arrayBuffer());
+        return await createVideo(audioBuffer, [{ imageBase64, start: 0, duration }], imageBase64, 'mp4', {
+            resolution: '1080p',
+            quality: 'draft',
+        });
+    } finally {
+        audioContext.close();
+    }
+}
 
-            // Load cover image
-            const img = new Image();
-            img.onload = async () => {
-                // Draw centered image on canvas
-                ctx.fillStyle = '#000000';
-                ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-                // Calculate dimensions to maintain aspect ratio and center
-                const scale = Math.min(
-                    canvas.width / img.width,
-                    canvas.height / img.height
-                );
-                const x = (canvas.width - img.width * scale) / 2;
-                const y = (canvas.height - img.height * scale) / 2;
-                ctx.drawImage(img, x, y, img.width * scale, img.height * scale);
-
-                // Create video stream from canvas
-                const videoStream = canvas.captureStream(1); // 1 FPS for static image
-
-                // Create audio context for mixing
-                const audioContext = new AudioContext();
-                const audioBuffer = await audioContext.decodeAudioData(await audioBlob.arrayBuffer());
-
-                // Create audio source and destination
-                const audioSource = audioContext.createBufferSource();
-                audioSource.buffer = audioBuffer;
-
-                const audioDestination = audioContext.createMediaStreamDestination();
-                audioSource.connect(audioDestination);
-
-                // Combine video and audio streams
-                const combinedStream = new MediaStream([
-                    ...videoStream.getVideoTracks(),
-                    ...audioDestination.stream.getAudioTracks()
-                ]);
-
-                // Create MediaRecorder
-                const mediaRecorder = new MediaRecorder(combinedStream, {
-                    mimeType: 'video/webm;codecs=vp9,opus',
-                    videoBitsPerSecond: 2500000,
-                    audioBitsPerSecond: 128000
-                });
-
-                const chunks: Blob[] = [];
-                mediaRecorder.ondataavailable = (e) => {
-                    if (e.data.size > 0) chunks.push(e.data);
-                };
-
-                mediaRecorder.onstop = () => {
-                    const videoBlob = new Blob(chunks, { type: 'video/webm' });
-                    resolve(videoBlob);
-                };
-
-                mediaRecorder.onerror = (e) => reject(e);
-
-                // Start recording and audio playback
-                mediaRecorder.start();
-                audioSource.start();
-
-                // Stop after audio duration
-                setTimeout(() => {
-                    mediaRecorder.stop();
-                    audioSource.stop();
-                    audioContext.close();
-                }, duration * 1000 + 500); // Add small buffer
-            };
-
-            img.onerror = () => reject(new Error('Failed to load cover image'));
-            img.src = `data:image/png;base64,${imageBase64}`;
-        } catch (error) {
-            reject(error);
-        }
-    });
+// === Package Files ===
+
+export interface PodcastPackageEpisode {
+    metadata: EpisodeMetadata;
+    audioBlob: Blob;
+    subtitles?: SubtitleFiles;
+    chapters?: string;
+    imageBase64?: string;
+    page?: EpisodePageContent;   // Cast and transcript for the episode's web page
 }
 
-// === ZIP Export ===
+// A file of the upload package, with the Content-Type it should be served with
+export interface PodcastPackageFile {
+    path: string;
+    data: Blob | string;
+    contentType: string;
+}
+
+const imageType = (base64: string) => (base64.startsWith('iVBOR') ? 'image/png' : 'image/jpeg');
 
 /**
- * Create a ZIP file containing RSS feed and audio files
- * Uses JSZip library (needs to be loaded)
+ * Every file of the upload package: feed.xml, cover.jpg, the static website, and episodes/ with each
+ * episode's audio, artwork and sidecars. Shared by the ZIP export and direct publishing.
+ * @param baseUrl - Hosting URL written into the feed
  */
-export async function createPodcastZip(
+export function buildPodcastPackageFiles(
     podcast: PodcastMetadata,
-    episodes: { metadata: EpisodeMetadata; audioBlob: Blob }[],
-    coverImageBase64?: string
-): Promise<Blob> {
-    // Dynamic import JSZip (we'll add this as a dependency)
-    const JSZip = (await import('jszip')).default;
-    const zip = new JSZip();
+    episodes: PodcastPackageEpisode[],
+    coverImageBase64?: string,
+    baseUrl: string = PLACEHOLDER_BASE_URL
+): PodcastPackageFile[] {
+    const files: PodcastPackageFile[] = [];
 
-    // Add RSS feed
+    // RSS feed (transcript / chapters tags for the sidecar files written below)
     const rssFeed = generateRSSFeed(
         podcast,
-        episodes.map(e => e.metadata),
-        'https://YOUR_HOSTING_URL' // Placeholder for user to replace
+        episodes.map(e => ({
+            ...e.metadata,
+            transcripts: e.subtitles
+                ? (['vtt', 'srt', 'json'] as const).filter(format => !!e.subtitles![format])
+                : e.metadata.transcripts,
+            chapters: !!e.chapters || e.metadata.chapters,
+        })),
+        baseUrl
     );
-    zip.file('feed.xml', rssFeed);
+    files.push({ path: 'feed.xml', data: rssFeed, contentType: 'application/rss+xml; charset=utf-8' });
 
-    // Add cover image if provided
+    // Cover image (compressImageForPodcast output is JPEG; the feed points at cover.jpg)
     if (coverImageBase64) {
-        const coverBlob = base64ToBlob(coverImageBase64, 'image/png');
-        zip.file('cover.png', coverBlob);
+        files.push({ path: 'cover.jpg', data: base64ToBlob(coverImageBase64, 'image/jpeg'), contentType: 'image/jpeg' });
     }
 
-    // Add audio files in episodes folder
-    const episodesFolder = zip.folder('episodes')!;
+    // Audio, artwork and sidecars in the episodes folder
     for (const episode of episodes) {
-        episodesFolder.file(episode.metadata.audioFileName, episode.audioBlob);
+        const episodeFile = (name: string, data: Blob | string, contentType: string) =>
+            files.push({ path: `episodes/${name}`, data, contentType });
+
+        episodeFile(episode.metadata.audioFileName, episode.audioBlob, 'audio/mpeg');
+        if (episode.imageBase64 && episode.metadata.imageFileName) {
+            episodeFile(episode.metadata.imageFileName, base64ToBlob(episode.imageBase64, 'image/jpeg'), 'image/jpeg');
+        }
+        const sidecars = episodeSidecarFiles(episode.metadata.audioFileName);
+        if (episode.subtitles) {
+            episodeFile(sidecars.srt, episode.subtitles.srt, TRANSCRIPT_TYPES.srt);
+            episodeFile(sidecars.vtt, episode.subtitles.vtt, TRANSCRIPT_TYPES.vtt);
+            if (episode.subtitles.json) episodeFile(sidecars.json, episode.subtitles.json, TRANSCRIPT_TYPES.json);
+        }
+        if (episode.chapters) {
+            episodeFile(sidecars.chapters, episode.chapters, 'application/json+chapters');
+        }
+    }
+
+    // Static website (relative links, so it works from any host next to feed.xml)
+    const siteFiles = buildPodcastSite(
+        podcast,
+        episodes.map(e => ({
+            metadata: e.metadata,
+            page: e.page,
+            captionsFileName: e.subtitles ? episodeSidecarFiles(e.metadata.audioFileName).vtt : undefined,
+        })),
+        !!coverImageBase64
+    );
+    for (const file of siteFiles) {
+        if (file.base64) {
+            files.push({ path: file.path, data: base64ToBlob(file.base64, imageType(file.base64)), contentType: imageType(file.base64) });
+        } else {
+            const contentType = file.path.endsWith('.css') ? 'text/css; charset=utf-8' : 'text/html; charset=utf-8';
+            files.push({ path: file.path, data: file.text || '', contentType });
+        }
+    }
+
+    return files;
+}
+
+// === ZIP Export ===
+
+/**
+ * Create a ZIP file containing RSS feed and audio files, plus a static website (index.html and episode pages)
+ * Uses JSZip library (needs to be loaded)
+ * @param baseUrl - Hosting URL written into the feed (placeholder for the user to replace if omitted)
+ */
+export async function createPodcastZip(
+    podcast: PodcastMetadata,
+    episodes: PodcastPackageEpisode[],
+    coverImageBase64?: string,
+    baseUrl: string = PLACEHOLDER_BASE_URL
+): Promise<Blob> {
+    // Dynamic import JSZip (we'll add this as a dependency)
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+
+    for (const file of buildPodcastPackageFiles(podcast, episodes, coverImageBase64, baseUrl)) {
+        zip.file(file.path, file.data);
     }
 
     // Add README with instructions
@@ -321,15 +409,18 @@ export async function createPodcastZip(
 
 ## Contents
 - feed.xml: RSS feed for podcast platforms
-- cover.png: Podcast cover art (${podcast.title})
-- episodes/: Audio files for each episode
+- index.html, style.css: Show website; each episode has a page under episodes/ with a player, cast and transcript
+- cover.jpg: Podcast cover art (${podcast.title})
+- episodes/: Audio files for each episode, with artwork, .srt / .vtt subtitles, a .transcript.json
+  transcript and .chapters.json chapters when available (linked from feed.xml with Podcasting 2.0 tags)
 
 ## How to Use
 
 ### For Spotify / Apple Podcasts / Podbean:
-1. Upload all files to a web hosting service (e.g., AWS S3, GitHub Pages, Netlify)
-2. Update the URLs in feed.xml to point to your hosted files
+1. Upload all files to a web hosting service (e.g., AWS S3, GitHub Pages, Netlify), or use Publish to S3 in the app to upload them with the right URLs
+2. ${baseUrl === PLACEHOLDER_BASE_URL ? 'Update the URLs in feed.xml to point to your hosted files' : `Upload them so feed.xml is reachable at ${baseUrl.replace(/\/+$/, '')}/feed.xml`}
 3. Submit your RSS feed URL to your preferred podcast platform
+4. The website works as-is from the same folder: open index.html on your host
 
 ### For YouTube Music:
 1. Go to YouTube Studio → Content → Podcasts
@@ -0,0 +1,243 @@
+/**
+ * Podcast Site Service
+ * Static website for the upload package: a show index page and one page per episode with an audio
+ * player, cast portraits and the script transcript (with scene images). Every link is relative,
+ * so the package can be dropped onto any static host next to feed.xml.
+ */
+
+import { CastMember, ItemType, SceneDefinition, ScriptItem } from '../types';
+import { spokenText } from '../utils/subtitles';
+import { EpisodeMetadata, PodcastMetadata } from './podcastService';
+
+// 逐字稿段落 (one per scene run)
+export interface TranscriptSection {
+    scene?: string;
+    imageBase64?: string;
+    lines: { speaker?: string; text: string }[];
+}
+
+export interface EpisodePageContent {
+    cast: { name: string; description?: string; imageBase64?: string }[];
+    sections: TranscriptSection[];
+}
+
+export interface SiteEpisode {
+    metadata: EpisodeMetadata;
+    page?: EpisodePageContent;
+    captionsFileName?: string;   // WebVTT next to the audio, used as the player's captions track
+}
+
+// Text files, or images as base64
+export interface SiteFile {
+    path: string;
+    text?: string;
+    base64?: string;
+}
+
+/**
+ * Episode page content from the script: speech lines grouped by scene, and the cast that speaks
+ */
+export function buildEpisodePage(items: ScriptItem[], cast: CastMember[] = [], scenes: SceneDefinition[] = []): EpisodePageContent {
+    const sections: TranscriptSection[] = [];
+    const speakers = new Set<string>();
+    let location: string | undefined;
+
+    for (const item of items) {
+        // Items without a location stay in the current scene
+        location = item.location || location;
+        const text = item.type === ItemType.SPEECH ? spokenText(item) : '';
+        if (!text) continue;
+
+        let section = sections[sections.length - 1];
+        if (!section || section.scene !== location) {
+            section = { scene: location, imageBase64: scenes.find(s => s.name === location)?.imageBase64, lines: [] };
+            sections.push(section);
+        }
+        section.lines.push({ speaker: item.character || undefined, text });
+        if (item.character) speakers.add(item.character);
+    }
+
+    return {
+        cast: cast
+            .filter(member => speakers.has(member.name))
+            .map(member => ({ name: member.name, description: member.description, imageBase64: member.imageBase64 })),
+        sections,
+    };
+}
+
+// ==================== HTML ====================
+
+const escapeHtml = (str: string) => str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Paragraphs from plain text with blank-line breaks
+const paragraphs = (text: string) => text
+    .split(/\n{2,}/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+function formatDuration(seconds: number): string {
+    const total = Math.round(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}` : `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const imageExtension = (base64: string) => (base64.startsWith('iVBOR') ? 'png' : 'jpg');
+
+const episodeLabel = (episode: EpisodeMetadata) => episode.episodeNumber
+    ? `${episode.seasonNumber ? `S${episode.seasonNumber} ` : ''}E${episode.episodeNumber}`
+    : '';
+
+function layout(podcast: PodcastMetadata, title: string, root: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(podcast.language)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${root}style.css">
+<link rel="alternate" type="application/rss+xml" title="${escapeHtml(podcast.title)}" href="${root}feed.xml">
+</head>
+<body>
+<main>
+${body}
+</main>
+<footer><a href="${root}feed.xml">RSS Feed</a> · ${escapeHtml(podcast.author)}</footer>
+</body>
+</html>
+`;
+}
+
+const STYLE = `*{box-sizing:border-box}
+body{margin:0;background:#0f0f12;color:#e4e4e7;font:16px/1.7 system-ui,-apple-system,"Noto Sans TC",sans-serif}
+main{max-width:760px;margin:0 auto;padding:32px 20px}
+a{color:#a78bfa}
+header{display:flex;gap:24px;align-items:center;margin-bottom:32px}
+header img{width:180px;height:180px;border-radius:12px;object-fit:cover;flex-shrink:0}
+h1{margin:0 0 8px;font-size:1.8em;line-height:1.3}
+h2{margin:40px 0 16px;font-size:1.2em;color:#c4b5fd}
+.meta{color:#a1a1aa;font-size:.9em}
+.episodes{list-style:none;padding:0}
+.episodes li{display:flex;gap:16px;padding:16px 0;border-bottom:1px solid #27272a}
+.episodes img{width:96px;height:96px;border-radius:8px;object-fit:cover;flex-shrink:0}
+.episodes h3{margin:0 0 4px}
+audio{width:100%;margin:16px 0}
+.cast{display:grid;grid-template-columns:repeat(auto-fill,minmax(140px,1fr));gap:16px}
+.cast figure{margin:0;text-align:center}
+.cast img{width:100%;aspect-ratio:1;border-radius:50%;object-fit:cover}
+.cast figcaption{font-weight:600}
+.cast small{display:block;color:#a1a1aa;font-weight:400}
+.scene img{width:100%;border-radius:12px;margin:8px 0 16px}
+.scene h3{margin:24px 0 4px;color:#a1a1aa;font-size:1em}
+.line{margin:0 0 12px}
+.speaker{font-weight:600;color:#fde68a}
+footer{max-width:760px;margin:0 auto;padding:24px 20px;color:#71717a;font-size:.9em;border-top:1px solid #27272a}
+@media (max-width:600px){header{flex-direction:column;align-items:flex-start}}
+`;
+
+function indexPage(podcast: PodcastMetadata, episodes: SiteEpisode[], hasCover: boolean): string {
+    const list = episodes.map(({ metadata }) => {
+        const page = `episodes/${metadata.audioFileName.replace(/\.[^.]+$/, '')}.html`;
+        const image = metadata.imageFileName ? `episodes/${metadata.imageFileName}` : hasCover ? 'cover.jpg' : '';
+        return `<li>
+${image ? `<img src="${image}" alt="" loading="lazy">` : ''}
+<div>
+<h3><a href="${page}">${escapeHtml(metadata.title)}</a></h3>
+<div class="meta">${[episodeLabel(metadata), formatDate(metadata.publishDate), formatDuration(metadata.duration)].filter(Boolean).join(' · ')}</div>
+<p>${escapeHtml(metadata.description.slice(0, 200))}${metadata.description.length > 200 ? '…' : ''}</p>
+</div>
+</li>`;
+    }).join('\n');
+
+    return layout(podcast, podcast.title, '', `<header>
+${hasCover ? `<img src="cover.jpg" alt="${escapeHtml(podcast.title)}">` : ''}
+<div>
+<h1>${escapeHtml(podcast.title)}</h1>
+<div class="meta">${escapeHtml(podcast.author)}</div>
+${paragraphs(podcast.description)}
+<p><a href="feed.xml">Subscribe (RSS)</a>${podcast.websiteUrl ? ` · <a href="${escapeHtml(podcast.websiteUrl)}">Website</a>` : ''}</p>
+</div>
+</header>
+<h2>Episodes</h2>
+<ul class="episodes">
+${list}
+</ul>`);
+}
+
+function episodePage(podcast: PodcastMetadata, episode: SiteEpisode, hasCover: boolean, images: Map<string, string>): string {
+    const { metadata, page } = episode;
+    const image = metadata.imageFileName || (hasCover ? '../cover.jpg' : '');
+
+    const cast = page?.cast.length ? `<h2>Cast</h2>
+<div class="cast">
+${page.cast.map((member, i) => `<figure>
+${images.has(`cast_${i}`) ? `<img src="${images.get(`cast_${i}`)}" alt="${escapeHtml(member.name)}" loading="lazy">` : ''}
+<figcaption>${escapeHtml(member.name)}${member.description ? `<small>${escapeHtml(member.description)}</small>` : ''}</figcaption>
+</figure>`).join('\n')}
+</div>` : '';
+
+    const transcript = page?.sections.length ? `<h2>Transcript</h2>
+${page.sections.map((section, i) => `<section class="scene">
+${section.scene ? `<h3>${escapeHtml(section.scene)}</h3>` : ''}
+${images.has(`scene_${i}`) ? `<img src="${images.get(`scene_${i}`)}" alt="${escapeHtml(section.scene || '')}" loading="lazy">` : ''}
+${section.lines.map(line => `<p class="line">${line.speaker ? `<span class="speaker">${escapeHtml(line.speaker)}:</span> ` : ''}${escapeHtml(line.text)}</p>`).join('\n')}
+</section>`).join('\n')}` : '';
+
+    return layout(podcast, `${metadata.title} - ${podcast.title}`, '../', `<p><a href="../index.html">← ${escapeHtml(podcast.title)}</a></p>
+<header>
+${image ? `<img src="${image}" alt="">` : ''}
+<div>
+<h1>${escapeHtml(metadata.title)}</h1>
+<div class="meta">${[episodeLabel(metadata), formatDate(metadata.publishDate), formatDuration(metadata.duration)].filter(Boolean).join(' · ')}</div>
+</div>
+</header>
+<audio controls preload="metadata" src="${metadata.audioFileName}">
+${episode.captionsFileName ? `<track kind="captions" src="${episode.captionsFileName}" srclang="${escapeHtml(podcast.language)}" label="Captions" default>` : ''}
+</audio>
+<p class="meta"><a href="${metadata.audioFileName}" download>Download MP3</a></p>
+${paragraphs(metadata.description)}
+${cast}
+${transcript}`);
+}
+
+/**
+ * Site files for the package root: index.html, style.css, and episodes/<episode>.html
+ * with its images under episodes/<episode>_files/. Episodes are listed in the given order.
+ */
+export function buildPodcastSite(podcast: PodcastMetadata, episodes: SiteEpisode[], hasCover: boolean): SiteFile[] {
+    const files: SiteFile[] = [
+        { path: 'index.html', text: indexPage(podcast, episodes, hasCover) },
+        { path: 'style.css', text: STYLE },
+    ];
+
+    for (const episode of episodes) {
+        const base = episode.metadata.audioFileName.replace(/\.[^.]+$/, '');
+
+        // Portraits and scene images, keyed for the page template (a revisited scene reuses its file)
+        const images = new Map<string, string>();
+        const written = new Map<string, string>();
+        const addImage = (key: string, base64?: string) => {
+            if (!base64) return;
+            if (!written.has(base64)) {
+                const fileName = `${base}_files/${key}.${imageExtension(base64)}`;
+                written.set(base64, fileName);
+                files.push({ path: `episodes/${fileName}`, base64 });
+            }
+            images.set(key, written.get(base64)!);
+        };
+        episode.page?.cast.forEach((member, i) => addImage(`cast_${i}`, member.imageBase64));
+        episode.page?.sections.forEach((section, i) => addImage(`scene_${i}`, section.imageBase64));
+
+        files.push({ path: `episodes/${base}.html`, text: episodePage(podcast, episode, hasCover, images) });
+    }
+    return files;
+}
@@ -13,6 +13,7 @@ export const getSfxInstructions = (includeSfx: boolean): string => {
     return `
        - For 'sfx' (Sound Effects):
          - 'sfxDescription': A short, descriptive prompt for a sound effect generator.
+         - 'sfxDuration': Suggested length in seconds (0.5-22), e.g. 1 for a door slam, 8 for passing rain.
     `;
   }
   return `
@@ -143,6 +144,7 @@ export const buildScriptInstructionsGemini = (sfxInstructions: string): string =
      - 'character': Name from the cast list.
      - 'text': The dialogue (IN THE STORY'S LANGUAGE).
      - 'expression': A direction for HOW it should be spoken (IN ENGLISH).
+   - 'pauseAfter' (optional): Seconds of silence after the cue (e.g. 1.5 after a revelation, 2-3 before a time skip). Only set it for dramatic beats; omit it for normal conversational pacing.
    ${sfxInstructions}
 
 Return a JSON object with keys "cast", "scenes", "script", and "podcastInfo".`;
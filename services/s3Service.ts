@@ -0,0 +1,292 @@
+/**
+ * S3 Publishing Service
+ * Uploads the podcast package (feed.xml, audio, artwork, transcripts, website) to any S3-compatible
+ * bucket: AWS S3, Cloudflare R2, MinIO, ... Requests are signed in the browser with AWS Signature V4,
+ * so the bucket needs a CORS rule allowing PUT and HEAD from this app's origin and exposing the ETag
+ * header (used to skip media files that are already uploaded).
+ */
+
+import {
+    buildPodcastPackageFiles, PodcastMetadata, PodcastPackageEpisode, PodcastPackageFile
+} from './podcastService';
+
+export interface S3Settings {
+    endpoint: string;          // e.g. https://s3.us-east-1.amazonaws.com, https://<account>.r2.cloudflarestorage.com, http://localhost:9000
+    region: string;            // 'auto' for R2, 'us-east-1' for MinIO
+    bucket: string;
+    prefix: string;            // Folder inside the bucket ('' = bucket root)
+    accessKeyId: string;
+    secretAccessKey: string;
+    publicBaseUrl: string;     // Public URL of the bucket (CDN, R2 custom domain); empty = the endpoint URL
+    pathStyle: boolean;        // endpoint/bucket/key instead of bucket.endpoint/key (MinIO, most self-hosted)
+    publishInBatch: boolean;   // Publish after each job in batch Auto Process
+    rememberCredentials: boolean; // Keep the access key pair in localStorage (otherwise only for this session)
+}
+
+export const DEFAULT_S3_SETTINGS: S3Settings = {
+    endpoint: '',
+    region: 'us-east-1',
+    bucket: '',
+    prefix: 'podcast',
+    accessKeyId: '',
+    secretAccessKey: '',
+    publicBaseUrl: '',
+    pathStyle: true,
+    publishInBatch: false,
+    rememberCredentials: false,
+};
+
+const SETTINGS_KEY = 's3Publish';
+
+type S3Credentials = Pick<S3Settings, 'accessKeyId' | 'secretAccessKey'>;
+
+// Credentials entered this session when they are not remembered
+let sessionCredentials: S3Credentials | null = null;
+
+export function loadS3Settings(): S3Settings {
+    try {
+        const saved = localStorage.getItem(SETTINGS_KEY);
+        const settings: S3Settings = saved ? { ...DEFAULT_S3_SETTINGS, ...JSON.parse(saved) } : DEFAULT_S3_SETTINGS;
+        return sessionCredentials ? { ...settings, ...sessionCredentials } : settings;
+    } catch {
+        return DEFAULT_S3_SETTINGS;
+    }
+}
+
+/**
+ * Save the settings. The access key pair only goes to localStorage with rememberCredentials;
+ * otherwise it is kept in memory until the page is closed.
+ */
+export function saveS3Settings(settings: S3Settings): void {
+    const { accessKeyId, secretAccessKey, ...rest } = settings;
+    sessionCredentials = { accessKeyId, secretAccessKey };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings.rememberCredentials ? settings : rest));
+}
+
+export function isS3Configured(settings: S3Settings): boolean {
+    return /^https?:\/\/[^/]+/.test(settings.endpoint)
+        && !!(settings.region && settings.bucket && settings.accessKeyId && settings.secretAccessKey);
+}
+
+export interface S3PublishProgress {
+    file: string;
+    index: number;     // 1-based
+    total: number;
+    skipped: boolean;  // Already in the bucket with the same content (ETag matches the MD5)
+}
+
+// ==================== URLs ====================
+
+const trimSlashes = (str: string) => str.replace(/^\/+|\/+$/g, '');
+
+const joinKey = (...parts: string[]) => parts.map(trimSlashes).filter(Boolean).join('/');
+
+// RFC 3986 encoding per path segment, as SigV4 expects (encodeURIComponent leaves !'()* alone)
+const encodeKey = (key: string) => key
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+
+function objectUrl(settings: S3Settings, key: string): URL {
+    const endpoint = new URL(settings.endpoint);
+    const basePath = trimSlashes(endpoint.pathname);
+    if (settings.pathStyle) {
+        return new URL(`${endpoint.origin}/${joinKey(basePath, encodeURIComponent(settings.bucket), encodeKey(key))}`);
+    }
+    return new URL(`${endpoint.protocol}//${settings.bucket}.${endpoint.host}/${joinKey(basePath, encodeKey(key))}`);
+}
+
+/**
+ * Public URL of a folder under the prefix; this is the base URL written into the feed
+ */
+export function s3PublicUrl(settings: S3Settings, folder = ''): string {
+    const path = encodeKey(joinKey(settings.prefix, folder));
+    if (settings.publicBaseUrl) {
+        return [settings.publicBaseUrl.replace(/\/+$/, ''), path].filter(Boolean).join('/');
+    }
+    return objectUrl(settings, joinKey(settings.prefix, folder)).href.replace(/\/+$/, '');
+}
+
+// ==================== Signature V4 ====================
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (data: ArrayBuffer | Uint8Array) => toHex(await crypto.subtle.digest('SHA-256', data));
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+    const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/**
+ * Signed headers for one request (host, x-amz-date, x-amz-content-sha256 and any extra headers)
+ */
+async function signRequest(
+    settings: S3Settings,
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    body: Uint8Array
+): Promise<Record<string, string>> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = await sha256Hex(body);
+
+    const allHeaders: Record<string, string> = {
+        ...Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v.trim()])),
+        host: url.host,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+    };
+    const names = Object.keys(allHeaders).sort();
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+        method,
+        url.pathname,
+        '', // No query string
+        ...names.map(name => `${name}:${allHeaders[name]}`),
+        '',
+        signedHeaders,
+        payloadHash,
+    ].join('\n');
+
+    const scope = `${date}/${settings.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(encoder.encode(canonicalRequest))].join('\n');
+
+    let key: ArrayBuffer = await hmac(encoder.encode(`AWS4${settings.secretAccessKey}`), date);
+    for (const part of [settings.region, 's3', 'aws4_request']) key = await hmac(key, part);
+    const signature = toHex(await hmac(key, stringToSign));
+
+    // The browser sets Host itself
+    const { host: _host, ...requestHeaders } = allHeaders;
+    return {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${settings.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+}
+
+// ==================== MD5 ====================
+
+// Per-round shift amounts and sine-derived constants (RFC 1321)
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+/**
+ * MD5 digest as hex; Web Crypto has no MD5, and S3 ETags of single-part uploads are the MD5 of the body
+ */
+function md5Hex(data: Uint8Array): string {
+    const length = data.length;
+    const padded = new Uint8Array(((length + 8) >>> 6 << 6) + 64);
+    padded.set(data);
+    padded[length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(padded.length - 8, (length * 8) >>> 0, true);
+    view.setUint32(padded.length - 4, Math.floor(length / 0x20000000), true);
+
+    const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+    const words = new Uint32Array(16);
+    for (let offset = 0; offset < padded.length; offset += 64) {
+        for (let j = 0; j < 16; j++) words[j] = view.getUint32(offset + j * 4, true);
+        let [a, b, c, d] = state;
+        for (let i = 0; i < 64; i++) {
+            let f: number;
+            let g: number;
+            if (i < 16) { f = (b & c) | (~b & d); g = i; }
+            else if (i < 32) { f = (d & b) | (~d & c); g = (5 * i + 1) % 16; }
+            else if (i < 48) { f = b ^ c ^ d; g = (3 * i + 5) % 16; }
+            else { f = c ^ (b | ~d); g = (7 * i) % 16; }
+            const shift = MD5_SHIFTS[(i >> 4) * 4 + (i % 4)];
+            const sum = (a + f + MD5_K[i] + words[g]) | 0;
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+        }
+        state[0] = (state[0] + a) | 0;
+        state[1] = (state[1] + b) | 0;
+        state[2] = (state[2] + c) | 0;
+        state[3] = (state[3] + d) | 0;
+    }
+
+    const digest = new DataView(new ArrayBuffer(16));
+    state.forEach((word, i) => digest.setUint32(i * 4, word, true));
+    return toHex(digest.buffer);
+}
+
+// ==================== Objects ====================
+
+async function s3Error(response: Response, action: string): Promise<Error> {
+    const text = await response.text().catch(() => '');
+    const message = text.match(/<Message>([^<]*)<\/Message>/)?.[1] || text.slice(0, 200) || response.statusText;
+    return new Error(`S3 ${action} failed (${response.status}): ${message}`);
+}
+
+export async function putS3Object(settings: S3Settings, key: string, data: Blob | string, contentType: string): Promise<void> {
+    const url = objectUrl(settings, key);
+    const body = typeof data === 'string' ? encoder.encode(data) : new Uint8Array(await data.arrayBuffer());
+    const headers = await signRequest(settings, 'PUT', url, { 'content-type': contentType }, body);
+    const response = await fetch(url, { method: 'PUT', headers, body });
+    if (!response.ok) throw await s3Error(response, `upload of ${key}`);
+}
+
+// ETag of an existing object without quotes, or null if it is not there (or CORS does not expose it)
+async function headS3Object(settings: S3Settings, key: string): Promise<string | null> {
+    const url = objectUrl(settings, key);
+    const headers = await signRequest(settings, 'HEAD', url, {}, new Uint8Array());
+    const response = await fetch(url, { method: 'HEAD', headers });
+    if (response.status === 404 || response.status === 403) return null;
+    if (!response.ok) throw await s3Error(response, `lookup of ${key}`);
+    return response.headers.get('etag')?.replace(/"/g, '').toLowerCase() || null;
+}
+
+/**
+ * Upload package files under prefix/folder. Audio and images whose ETag in the bucket matches their MD5
+ * are skipped (republishing a show only sends new or changed episodes); text files are always replaced.
+ */
+export async function uploadPackageToS3(
+    settings: S3Settings,
+    files: PodcastPackageFile[],
+    folder = '',
+    onProgress?: (progress: S3PublishProgress) => void
+): Promise<{ uploaded: number; skipped: number }> {
+    if (!isS3Configured(settings)) throw new Error('S3 publishing is not configured');
+
+    let uploaded = 0;
+    let skipped = 0;
+    for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        const key = joinKey(settings.prefix, folder, file.path);
+        const isMedia = typeof file.data !== 'string' && /^(audio|image)\//.test(file.contentType);
+
+        const etag = isMedia ? await headS3Object(settings, key) : null;
+        const exists = !!etag && etag === md5Hex(new Uint8Array(await (file.data as Blob).arrayBuffer()));
+        onProgress?.({ file: file.path, index: i + 1, total: files.length, skipped: exists });
+        if (exists) {
+            skipped++;
+            continue;
+        }
+        await putS3Object(settings, key, file.data, file.contentType);
+        uploaded++;
+    }
+    console.log(`[S3] Published ${uploaded} file(s), ${skipped} unchanged, to ${s3PublicUrl(settings, folder)}`);
+    return { uploaded, skipped };
+}
+
+/**
+ * Publish a podcast package with the bucket's public URLs in its feed. Returns the feed URL.
+ */
+export async function publishPodcastToS3(
+    settings: S3Settings,
+    podcast: PodcastMetadata,
+    episodes: PodcastPackageEpisode[],
+    coverImageBase64: string | undefined,
+    folder = '',
+    onProgress?: (progress: S3PublishProgress) => void
+): Promise<string> {
+    const baseUrl = s3PublicUrl(settings, folder);
+    const files = buildPodcastPackageFiles(podcast, episodes, coverImageBase64, baseUrl);
+    await uploadPackageToS3(settings, files, folder, onProgress);
+    return `${baseUrl}/feed.xml`;
+}
@@ -0,0 +1,136 @@
+/**
+ * SFX Library Service
+ * Tagging, search and matching for the local sound effect library
+ * (entries are stored in IndexedDB by batchStorageService)
+ */
+
+import { SfxLibraryEntry } from '../types';
+import { saveSfxLibraryEntry } from './batchStorageService';
+import { decodeAudioFile, getAudioContext } from '../utils/audioUtils';
+import { containsTag } from '../utils/tagMatch';
+
+// Words that say nothing about the sound itself
+const STOP_WORDS = new Set([
+    'the', 'and', 'with', 'from', 'into', 'onto', 'over', 'under', 'sound', 'sounds', 'effect', 'sfx',
+    'of', 'on', 'in', 'at', 'to', 'a', 'an', 'is', 'are', 'some', 'very', 'then',
+]);
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Derive tags from an SFX description or file name.
+ * Latin words shorter than 3 letters and stop words are dropped; CJK runs are kept whole.
+ */
+export function extractSfxTags(text: string): string[] {
+    const words = normalize(text.replace(/[_\-.]+/g, ' ')).split(/[^\p{L}\p{N}]+/u);
+    const tags = words.filter(word => {
+        if (!word || STOP_WORDS.has(word) || /^\d+$/.test(word)) return false;
+        return /[^\x00-\x7F]/.test(word) || word.length >= 3;
+    });
+    return Array.from(new Set(tags));
+}
+
+/**
+ * Parse comma-separated tags typed by the user
+ */
+export function parseTagInput(input: string): string[] {
+    return Array.from(new Set(input.split(/[,，]/).map(t => normalize(t)).filter(Boolean)));
+}
+
+/**
+ * Filter entries by a search query: every query word must appear in the name, description or tags
+ */
+export function searchSfxLibrary(entries: SfxLibraryEntry[], query: string): SfxLibraryEntry[] {
+    const terms = normalize(query).split(' ').filter(Boolean);
+    if (terms.length === 0) return entries;
+
+    return entries
+        .map(entry => {
+            const haystack = [entry.name, entry.description || '', ...entry.tags].join(' ').toLowerCase();
+            if (!terms.every(term => haystack.includes(term))) return null;
+            // Exact tag hits rank first
+            return { entry, rank: terms.filter(term => entry.tags.includes(term)).length };
+        })
+        .filter((r): r is { entry: SfxLibraryEntry; rank: number } => r !== null)
+        .sort((a, b) => b.rank - a.rank)
+        .map(r => r.entry);
+}
+
+/**
+ * Find a library clip to reuse for an SFX description.
+ * An entry generated from the same description wins; otherwise the entry whose tags
+ * all appear in the description as whole words, preferring the most specific (longest) tag set.
+ */
+export function findSfxLibraryMatch(entries: SfxLibraryEntry[], description: string): SfxLibraryEntry | null {
+    const target = normalize(description);
+    if (!target) return null;
+
+    const exact = entries.find(e => e.description && normalize(e.description) === target);
+    if (exact) return exact;
+
+    let best: SfxLibraryEntry | null = null;
+    let bestScore = 0;
+    for (const entry of entries) {
+        if (entry.tags.length === 0 || !entry.tags.every(tag => containsTag(target, tag))) continue;
+        const score = entry.tags.reduce((sum, tag) => sum + tag.length, 0);
+        if (score > bestScore) {
+            best = entry;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+/**
+ * Save a freshly generated clip under its description
+ */
+export async function addGeneratedSfxToLibrary(
+    description: string,
+    audioBase64: string,
+    format: 'mp3' | 'wav',
+    duration?: number
+): Promise<SfxLibraryEntry> {
+    const entry: SfxLibraryEntry = {
+        id: crypto.randomUUID(),
+        name: description.trim(),
+        description: description.trim(),
+        tags: extractSfxTags(description),
+        audioBase64,
+        format,
+        duration,
+        source: 'generated',
+        createdAt: Date.now(),
+    };
+    await saveSfxLibraryEntry(entry);
+    console.log(`[SFX Library] Saved generated clip: ${entry.name}`);
+    return entry;
+}
+
+/**
+ * Import an audio file into the library. The file is decoded once to validate it and read its length.
+ */
+export async function importSfxFile(file: File): Promise<SfxLibraryEntry> {
+    const audioBase64 = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+
+    const buffer = await decodeAudioFile(audioBase64, getAudioContext());
+    const name = file.name.replace(/\.[^.]+$/, '');
+
+    const entry: SfxLibraryEntry = {
+        id: crypto.randomUUID(),
+        name,
+        tags: extractSfxTags(name),
+        audioBase64,
+        format: /\.wav$/i.test(file.name) ? 'wav' : 'mp3',
+        duration: buffer.duration,
+        source: 'imported',
+        createdAt: Date.now(),
+    };
+    await saveSfxLibraryEntry(entry);
+    console.log(`[SFX Library] Imported ${file.name} (${buffer.duration.toFixed(1)}s)`);
+    return entry;
+}
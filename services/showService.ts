@@ -0,0 +1,361 @@
+/**
+ * Show Service
+ * Persistent podcast shows (localStorage) that own their episodes, and the show's full RSS feed
+ * and upload package. Episode files stay in IndexedDB under their batch job's keys.
+ */
+
+import { BatchJob, PodcastShow, ShowEpisode } from '../batchTypes';
+import {
+    getBatchJob, loadAudioBlob, saveAudioBlob, deleteAudioBlob, loadItemAudioBase64, saveItemAudioBase64
+} from './batchStorageService';
+import {
+    generateRSSFeed, createPodcastZip, compressImageForPodcast, castToPersons, podcastGuidForFeed,
+    EpisodeMetadata, PodcastMetadata, PodcastPackageEpisode, PLACEHOLDER_BASE_URL
+} from './podcastService';
+import { buildEpisodePage } from './podcastSiteService';
+import { S3Settings, S3PublishProgress, s3PublicUrl, publishPodcastToS3 } from './s3Service';
+import { TranscriptFormat } from '../types';
+import { getAudioContext } from '../utils/audioUtils';
+
+const SHOWS_KEY = 'podcastShows';
+
+const DEFAULT_SHOW_FIELDS = {
+    description: '',
+    author: '',
+    category: 'Arts',
+    language: 'zh-TW',
+    explicit: false,
+    baseUrl: PLACEHOLDER_BASE_URL,
+};
+
+// ==================== localStorage (Show Metadata) ====================
+
+export function loadShows(): PodcastShow[] {
+    try {
+        const data = localStorage.getItem(SHOWS_KEY);
+        if (!data) return [];
+        return JSON.parse(data) as PodcastShow[];
+    } catch (e) {
+        console.error('Failed to load shows:', e);
+        return [];
+    }
+}
+
+export function saveShows(shows: PodcastShow[]): void {
+    try {
+        localStorage.setItem(SHOWS_KEY, JSON.stringify(shows));
+    } catch (e) {
+        console.error('Failed to save shows:', e);
+    }
+}
+
+export function getShow(id: string): PodcastShow | null {
+    return loadShows().find(s => s.id === id) || null;
+}
+
+export function createShow(title: string, fields: Partial<PodcastShow> = {}): PodcastShow {
+    const show: PodcastShow = {
+        ...DEFAULT_SHOW_FIELDS,
+        ...fields,
+        id: crypto.randomUUID(),
+        title,
+        episodes: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+    };
+    saveShows([...loadShows(), show]);
+    return show;
+}
+
+/**
+ * Update show fields and regenerate its feed
+ */
+export async function updateShow(id: string, updates: Partial<PodcastShow>): Promise<PodcastShow | null> {
+    const shows = loadShows();
+    const index = shows.findIndex(s => s.id === id);
+    if (index === -1) return null;
+    const show = { ...shows[index], ...updates, updatedAt: Date.now() };
+
+    // podcast:guid comes from the first real feed URL and then stays, even if the feed moves
+    if (!show.podcastGuid && show.baseUrl && show.baseUrl !== PLACEHOLDER_BASE_URL) {
+        show.podcastGuid = await podcastGuidForFeed(`${show.baseUrl.replace(/\/+$/, '')}/feed.xml`);
+    }
+
+    shows[index] = show;
+    saveShows(shows);
+    await refreshShowFeed(shows[index]);
+    return shows[index];
+}
+
+export async function deleteShow(id: string): Promise<PodcastShow[]> {
+    const show = getShow(id);
+    if (show) {
+        for (const key of [show.artworkKey, feedKey(show.id)]) {
+            if (!key) continue;
+            try {
+                await deleteAudioBlob(key);
+            } catch (e) {
+                console.error('Failed to delete show file:', key, e);
+            }
+        }
+    }
+    const shows = loadShows().filter(s => s.id !== id);
+    saveShows(shows);
+    return shows;
+}
+
+/**
+ * Store show artwork from an image file (resized to the iTunes 1400×1400 JPEG)
+ */
+export async function setShowArtwork(id: string, file: File): Promise<PodcastShow | null> {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+    const artwork = await compressImageForPodcast(dataUrl.split(',')[1]);
+    const artworkKey = `${id}_artwork`;
+    await saveItemAudioBase64(artworkKey, artwork);
+    return updateShow(id, { artworkKey });
+}
+
+// ==================== Episodes ====================
+
+const pad = (n: number) => n.toString().padStart(3, '0');
+
+function episodeFileBase(seasonNumber: number | undefined, episodeNumber: number): string {
+    return seasonNumber ? `s${pad(seasonNumber)}_episode_${pad(episodeNumber)}` : `episode_${pad(episodeNumber)}`;
+}
+
+async function measureDuration(blob: Blob): Promise<number> {
+    const buffer = await getAudioContext().decodeAudioData(await blob.arrayBuffer());
+    return buffer.duration;
+}
+
+/**
+ * Add a job's exported episode to a show, or refresh it if it is already there.
+ * The GUID, numbers, file name and publish date are kept; size, duration, title and artwork are re-read.
+ */
+export async function addEpisodeToShow(showId: string, job: BatchJob, seasonNumber?: number): Promise<PodcastShow | null> {
+    const show = getShow(showId);
+    if (!show) return null;
+    if (!job.files?.mp3Key) throw new Error('Episode has no MP3 yet');
+
+    const mp3 = await loadAudioBlob(job.files.mp3Key);
+    if (!mp3) throw new Error('MP3 file not found');
+
+    const existing = show.episodes.find(e => e.jobId === job.id);
+    const season = existing ? existing.seasonNumber : seasonNumber;
+    const episodeNumber = existing?.episodeNumber ?? show.episodes
+        .filter(e => e.seasonNumber === season)
+        .reduce((max, e) => Math.max(max, e.episodeNumber), 0) + 1;
+    const base = existing ? existing.audioFileName.replace(/\.[^.]+$/, '') : episodeFileBase(season, episodeNumber);
+
+    const episode: ShowEpisode = {
+        jobId: job.id,
+        guid: existing?.guid || crypto.randomUUID(),
+        seasonNumber: season,
+        episodeNumber,
+        title: job.episodeTitle || job.scriptData?.podcastInfo?.episodeTitle || `${show.title} - Episode ${episodeNumber}`,
+        description: job.podcastDescription || job.storyText.slice(0, 1000),
+        audioFileName: `${base}.mp3`,
+        fileSize: mp3.size,
+        duration: job.duration ?? await measureDuration(mp3),
+        imageFileName: job.files.coverKey ? `${base}.jpg` : undefined,
+        transcripts: ([
+            ['vtt', job.files.vttKey], ['srt', job.files.srtKey], ['json', job.files.transcriptKey],
+        ] as [TranscriptFormat, string | undefined][]).filter(([, key]) => !!key).map(([format]) => format),
+        chapters: !!job.files.chaptersKey,
+        persons: castToPersons(job.scriptData?.cast || []),
+        publishedAt: existing?.publishedAt ?? Date.now(),
+    };
+
+    const episodes = existing
+        ? show.episodes.map(e => e.jobId === job.id ? episode : e)
+        : [...show.episodes, episode];
+    console.log(`[Shows] ${existing ? 'Updated' : 'Added'} "${episode.title}" in ${show.title} (${episode.audioFileName})`);
+    return updateShow(showId, { episodes });
+}
+
+export async function removeEpisodeFromShow(showId: string, jobId: string): Promise<PodcastShow | null> {
+    const show = getShow(showId);
+    if (!show) return null;
+    return updateShow(showId, { episodes: show.episodes.filter(e => e.jobId !== jobId) });
+}
+
+// Called when a batch job is deleted (its files are gone)
+export async function removeJobFromShows(jobId: string): Promise<void> {
+    for (const show of loadShows()) {
+        if (show.episodes.some(e => e.jobId === jobId)) await removeEpisodeFromShow(show.id, jobId);
+    }
+}
+
+/**
+ * Change an episode's season / number. The GUID and file name stay, so published links keep working.
+ */
+export async function renumberEpisode(
+    showId: string,
+    jobId: string,
+    updates: Pick<ShowEpisode, 'seasonNumber' | 'episodeNumber'>
+): Promise<PodcastShow | null> {
+    const show = getShow(showId);
+    if (!show) return null;
+    return updateShow(showId, { episodes: show.episodes.map(e => e.jobId === jobId ? { ...e, ...updates } : e) });
+}
+
+// ==================== Feed ====================
+
+const feedKey = (showId: string) => `${showId}_feed`;
+
+function toPodcastMetadata(show: PodcastShow): PodcastMetadata {
+    return {
+        title: show.title,
+        description: show.description,
+        author: show.author,
+        email: show.email,
+        language: show.language,
+        category: show.category,
+        explicit: show.explicit,
+        websiteUrl: show.websiteUrl,
+        podcastGuid: show.podcastGuid,
+    };
+}
+
+function toEpisodeMetadata(episode: ShowEpisode): EpisodeMetadata {
+    return {
+        title: episode.title,
+        description: episode.description,
+        audioFileName: episode.audioFileName,
+        duration: episode.duration,
+        publishDate: new Date(episode.publishedAt),
+        episodeNumber: episode.episodeNumber,
+        seasonNumber: episode.seasonNumber,
+        guid: episode.guid,
+        fileSize: episode.fileSize,
+        imageFileName: episode.imageFileName,
+        transcripts: episode.transcripts,
+        chapters: episode.chapters,
+        persons: episode.persons,
+    };
+}
+
+// Newest first, as podcast apps list them
+const sortedEpisodes = (show: PodcastShow) => [...show.episodes].sort((a, b) => b.publishedAt - a.publishedAt);
+
+export function buildShowFeed(show: PodcastShow): string {
+    return generateRSSFeed(toPodcastMetadata(show), sortedEpisodes(show).map(toEpisodeMetadata), show.baseUrl);
+}
+
+// Store the current feed.xml so it can be downloaded without rebuilding
+async function refreshShowFeed(show: PodcastShow): Promise<void> {
+    await saveAudioBlob(feedKey(show.id), new Blob([buildShowFeed(show)], { type: 'application/rss+xml' }));
+}
+
+export async function loadShowFeed(show: PodcastShow): Promise<Blob> {
+    return await loadAudioBlob(feedKey(show.id)) || new Blob([buildShowFeed(show)], { type: 'application/rss+xml' });
+}
+
+// Files of a job's episode for the package
+async function loadPackageEpisode(job: BatchJob, metadata: EpisodeMetadata): Promise<PodcastPackageEpisode> {
+    const audioBlob = job.files?.mp3Key ? await loadAudioBlob(job.files.mp3Key) : null;
+    if (!audioBlob) throw new Error(`Audio for "${metadata.title}" not found`);
+
+    const text = async (key?: string) => {
+        const blob = key ? await loadAudioBlob(key) : null;
+        return blob ? await blob.text() : undefined;
+    };
+    const [srt, vtt, json, chapters] = await Promise.all([
+        text(job.files?.srtKey), text(job.files?.vttKey), text(job.files?.transcriptKey), text(job.files?.chaptersKey),
+    ]);
+    return {
+        metadata,
+        audioBlob,
+        subtitles: srt && vtt ? { srt, vtt, json } : undefined,
+        chapters,
+        imageBase64: job.files?.coverKey ? await loadItemAudioBase64(job.files.coverKey) || undefined : undefined,
+        page: job.scriptData ? buildEpisodePage(job.scriptData.items, job.scriptData.cast, job.scriptData.scenes) : undefined,
+    };
+}
+
+// Every episode of the show (newest first) and its artwork
+async function loadShowPackage(show: PodcastShow): Promise<{ episodes: PodcastPackageEpisode[]; artwork?: string }> {
+    const episodes: PodcastPackageEpisode[] = [];
+    for (const episode of sortedEpisodes(show)) {
+        const job = getBatchJob(episode.jobId);
+        if (!job) throw new Error(`Audio for "${episode.title}" not found`);
+        episodes.push(await loadPackageEpisode(job, toEpisodeMetadata(episode)));
+    }
+
+    // Without show artwork, the newest episode's cover stands in
+    const artwork = (show.artworkKey && await loadItemAudioBase64(show.artworkKey))
+        || episodes.find(e => e.imageBase64)?.imageBase64;
+    return { episodes, artwork: artwork || undefined };
+}
+
+/**
+ * Full upload package: feed.xml, cover.jpg, the show website and every episode's MP3, artwork and subtitles
+ */
+export async function createShowPackage(show: PodcastShow): Promise<Blob> {
+    const { episodes, artwork } = await loadShowPackage(show);
+    return createPodcastZip(toPodcastMetadata(show), episodes, artwork, show.baseUrl);
+}
+
+// ==================== S3 Publishing ====================
+
+/**
+ * Publish the whole show to S3 under prefix/<show id>. The show's base URL becomes the bucket's
+ * public URL, so its stored feed (and podcast:guid) match the published one. Returns the feed URL.
+ */
+export async function publishShowToS3(
+    show: PodcastShow,
+    settings: S3Settings,
+    onProgress?: (progress: S3PublishProgress) => void
+): Promise<string> {
+    const baseUrl = s3PublicUrl(settings, show.id);
+    if (show.baseUrl !== baseUrl) show = await updateShow(show.id, { baseUrl }) || show;
+
+    const { episodes, artwork } = await loadShowPackage(show);
+    return publishPodcastToS3(settings, toPodcastMetadata(show), episodes, artwork, show.id, onProgress);
+}
+
+/**
+ * Publish a batch job: its show's feed, or a one-episode feed under prefix/<job id> when it has no show
+ */
+export async function publishJobToS3(
+    job: BatchJob,
+    settings: S3Settings,
+    onProgress?: (progress: S3PublishProgress) => void
+): Promise<string> {
+    const show = job.showId ? getShow(job.showId) : null;
+    if (show) {
+        if (!show.episodes.some(e => e.jobId === job.id)) await addEpisodeToShow(show.id, job);
+        return publishShowToS3(getShow(show.id) || show, settings, onProgress);
+    }
+
+    const info = job.scriptData?.podcastInfo;
+    const title = job.episodeTitle || info?.episodeTitle || 'Episode 1';
+    const episode = await loadPackageEpisode(job, {
+        title,
+        description: job.podcastDescription || job.storyText.slice(0, 1000),
+        audioFileName: 'episode_001.mp3',
+        duration: job.duration ?? 0,
+        publishDate: new Date(job.updatedAt),
+        episodeNumber: 1,
+        guid: job.id,
+        imageFileName: job.files?.coverKey ? 'episode_001.jpg' : undefined,
+        persons: castToPersons(job.scriptData?.cast || []),
+    });
+    episode.metadata.fileSize = episode.audioBlob.size;
+    if (!job.duration) episode.metadata.duration = await measureDuration(episode.audioBlob);
+
+    const podcast: PodcastMetadata = {
+        title: job.podcastTitle || info?.podcastName || title,
+        description: job.podcastDescription || info?.description || job.storyText.slice(0, 500),
+        author: info?.author || '',
+        language: DEFAULT_SHOW_FIELDS.language,
+        category: DEFAULT_SHOW_FIELDS.category,
+        explicit: DEFAULT_SHOW_FIELDS.explicit,
+    };
+    return publishPodcastToS3(settings, podcast, [episode], episode.imageBase64, job.id, onProgress);
+}
@@ -3,14 +3,18 @@
  * Handles OAuth 2.0 authentication and video upload for YouTube Music Podcast
  */
 
+import { detectLanguage } from '../utils/language';
+
 // YouTube API Configuration
 const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
 const YOUTUBE_UPLOAD_URL = 'https://www.googleapis.com/upload/youtube/v3/videos';
+const YOUTUBE_CAPTIONS_UPLOAD_URL = 'https://www.googleapis.com/upload/youtube/v3/captions';
 
-// Scopes required for video upload
+// Scopes required for video upload (captions.insert needs youtube.force-ssl)
 const YOUTUBE_SCOPES = [
     'https://www.googleapis.com/auth/youtube.upload',
     'https://www.googleapis.com/auth/youtube',
+    'https://www.googleapis.com/auth/youtube.force-ssl',
 ];
 
 export interface YouTubeUploadMetadata {
@@ -21,6 +25,22 @@ export interface YouTubeUploadMetadata {
     privacyStatus?: 'public' | 'private' | 'unlisted';
     madeForKids?: boolean;
     playlistId?: string; // For podcast playlist
+    isShort?: boolean;   // Vertical clip under 60s: tagged #Shorts in the title and description
+}
+
+const YOUTUBE_TITLE_MAX = 100;
+
+/**
+ * Title / description with the #Shorts tag (YouTube also needs the video to be vertical and ≤ 60s)
+ */
+function withShortsTag(metadata: YouTubeUploadMetadata): YouTubeUploadMetadata {
+    if (!metadata.isShort) return metadata;
+    const tag = '#Shorts';
+    const title = metadata.title.includes(tag)
+        ? metadata.title
+        : `${metadata.title.slice(0, YOUTUBE_TITLE_MAX - tag.length - 1)} ${tag}`;
+    const description = metadata.description.includes(tag) ? metadata.description : `${metadata.description}\n\n${tag}`;
+    return { ...metadata, title, description, tags: [...(metadata.tags || []), 'Shorts'] };
 }
 
 export interface YouTubeUploadProgress {
@@ -33,6 +53,7 @@ export interface YouTubeUploadResult {
     videoId: string;
     title: string;
     url: string;
+    captionsError?: string;  // The video is up but its caption track could not be attached
 }
 
 // Store auth state
@@ -153,6 +174,8 @@ export async function uploadToYouTube(
     token: string,
     onProgress?: (progress: YouTubeUploadProgress) => void
 ): Promise<YouTubeUploadResult> {
+    metadata = withShortsTag(metadata);
+
     // Step 1: Initialize resumable upload
     const initResponse = await fetch(
         `${YOUTUBE_UPLOAD_URL}?uploadType=resumable&part=snippet,status`,
@@ -274,7 +297,7 @@ export async function simpleUploadToYouTube(
     })], { type: 'application/json' });
 
     formData.append('metadata', metadataBlob);
-    formData.append('video', videoBlob, 'podcast.webm');
+    formData.append('video', videoBlob, videoBlob.type === 'video/mp4' ? 'podcast.mp4' : 'podcast.webm');
 
     const response = await fetch(
         `${YOUTUBE_UPLOAD_URL}?uploadType=multipart&part=snippet,status`,
@@ -300,6 +323,52 @@ export async function simpleUploadToYouTube(
     };
 }
 
+/**
+ * Attach a caption track (SRT or WebVTT text) to an uploaded video.
+ * The language defaults to the one the captions are written in.
+ */
+export async function uploadCaptionsToYouTube(
+    videoId: string,
+    captions: string,
+    token: string,
+    language: string = detectLanguage(captions),
+    name: string = ''
+): Promise<void> {
+    const boundary = `caption_${Date.now()}`;
+    const metadata = JSON.stringify({
+        snippet: { videoId, language, name, isDraft: false },
+    });
+    const body = [
+        `--${boundary}`,
+        'Content-Type: application/json; charset=UTF-8',
+        '',
+        metadata,
+        `--${boundary}`,
+        'Content-Type: text/plain; charset=UTF-8',
+        '',
+        captions,
+        `--${boundary}--`,
+        '',
+    ].join('\r\n');
+
+    const response = await fetch(
+        `${YOUTUBE_CAPTIONS_UPLOAD_URL}?uploadType=multipart&part=snippet`,
+        {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': `multipart/related; boundary=${boundary}`,
+            },
+            body,
+        }
+    );
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error?.message || `字幕上傳失敗: ${response.status}`);
+    }
+}
+
 /**
  * Add video to a playlist (for podcast series)
  */
@@ -4,7 +4,9 @@ export enum ItemType {
   SFX = 'sfx',
 }
 
-export type LlmProvider = 'gemini';
+// LLM Provider types - managed by lib/llm registry
+import type { LlmProviderId } from './lib/llm';
+export type LlmProvider = LlmProviderId;
 
 // TTS Provider types - now managed by lib/tts registry
 // Import the dynamic type from the registry module
@@ -12,7 +14,13 @@ import { TtsProviderId } from './lib/tts';
 export type TtsProvider = TtsProviderId;
 export type VoiceType = TtsProviderId;
 
-export type ImageProvider = 'gemini';
+// Image Provider types - managed by lib/image registry
+import type { ImageProviderId } from './lib/image';
+export type ImageProvider = ImageProviderId;
+
+// SFX Provider types - managed by lib/sfx registry
+import type { SfxProviderId } from './lib/sfx';
+export type SfxProvider = SfxProviderId;
 
 
 // Available Gemini models for script generation
@@ -66,11 +74,83 @@ export const IMAGE_MODELS = [
 ] as const;
 export type ImageModel = typeof IMAGE_MODELS[number];
 
+// ============ 節奏設定 (pacing) ============
+
+export interface PacingSettings {
+  lineGap: number;         // Silence between consecutive lines (seconds)
+  sceneChangeGap: number;  // Silence when the location changes (seconds)
+}
+
+export const DEFAULT_PACING_SETTINGS: PacingSettings = {
+  lineGap: 0.35,
+  sceneChangeGap: 1.5,
+};
+
+// ============ 響度 / 母帶處理設定 ============
+
+// 響度目標預設 (integrated loudness, EBU R128 / ITU-R BS.1770)
+export type LoudnessPreset = 'podcast' | 'youtube' | 'broadcast' | 'custom';
+
+export const LOUDNESS_PRESETS: { value: LoudnessPreset; label: string; targetLufs: number; useCase: string }[] = [
+  { value: 'podcast', label: 'Podcast (-16 LUFS)', targetLufs: -16, useCase: 'Apple Podcasts, Spotify' },
+  { value: 'youtube', label: 'YouTube (-14 LUFS)', targetLufs: -14, useCase: 'YouTube, streaming video' },
+  { value: 'broadcast', label: 'Broadcast (-23 LUFS)', targetLufs: -23, useCase: 'EBU R128 broadcast' },
+  { value: 'custom', label: 'Custom', targetLufs: -16, useCase: 'Manual target' },
+];
+
+export interface MasteringSettings {
+  enabled: boolean;
+  preset: LoudnessPreset;
+  targetLufs: number;   // Integrated loudness target
+  ceilingDb: number;    // Limiter ceiling in dBFS
+  matchClips: boolean;  // Gain-match every clip to the target before mixing
+}
+
+export const DEFAULT_MASTERING_SETTINGS: MasteringSettings = {
+  enabled: true,
+  preset: 'podcast',
+  targetLufs: -16,
+  ceilingDb: -1,
+  matchClips: true,
+};
+
+// 響度量測結果
+export interface LoudnessReport {
+  inputLufs: number;    // Mix before mastering
+  outputLufs: number;   // Final export
+  peakDb: number;       // Final sample peak (dBFS)
+  targetLufs: number;
+}
+
 // ============ 對話視覺生成設定 ============
 
 // 對話視覺生成模式
 export type DialogueVisualMode = 'compose' | 'veo';
 
+// 影片呈現模式 (auto = visualizer when no script item has its own image)
+export type VideoMode = 'auto' | 'slideshow' | 'visualizer';
+export type VisualizerStyle = 'waveform' | 'spectrum';
+
+// 影片檔案格式: MediaRecorder WebM, or H.264/AAC MP4 via WebCodecs
+export type VideoFormat = 'webm' | 'mp4';
+
+// Shorts / Reels 剪輯片段: a contiguous span of script items cut from the episode
+export interface ShortsRange {
+  startId: string;    // First ScriptItem in the clip
+  endId: string;      // Last ScriptItem in the clip
+  start: number;      // Seconds on the episode timeline
+  end: number;
+  hookTitle?: string;
+}
+
+// Podcasting 2.0: podcast:person (taxonomy roles, group "cast") and podcast:transcript formats
+export interface PodcastPerson {
+  name: string;
+  role: 'host' | 'narrator' | 'guest';
+}
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'json';
+
 // Veo 影片模型 (預留)
 export const VEO_MODELS = [
   'veo-3.1-generate-preview',
@@ -102,7 +182,7 @@ export interface ElevenLabsVoice {
 
 export interface CastMember {
   name: string;
-  voice: string; // Gemini voice name OR ElevenLabs display name
+  voice: string; // Gemini voice name, ElevenLabs display name, or the provider's voice id
   voiceType: VoiceType; // Source of the voice
   elevenLabsVoiceId?: string; // ElevenLabs Voice ID (when voiceType is 'elevenlabs')
   description?: string;
@@ -111,6 +191,10 @@ export interface CastMember {
   imagePrompt?: string;      // AI 生成用 prompt (角色外觀描述)
   imageBase64?: string;      // 生成或上傳的圖片 (base64)
   isCustomImage?: boolean;   // 是否為使用者上傳的自訂圖片
+  // 空間定位 (stereo placement)
+  pan?: number;              // -1 (left) .. 1 (right), default 0
+  distance?: number;         // 0 (close) .. 1 (far): quieter, duller, more room
+  reverb?: number;           // 0 .. 1 reverb send
 }
 
 export interface SceneDefinition {
@@ -123,6 +207,26 @@ export interface SceneDefinition {
   isCustomImage?: boolean;     // 是否為使用者上傳
   // 場景中出現的角色 (參照 CastMember.name)
   characterNames?: string[];
+  // 場景音效床 (ambience / music bed, loops under every item at this location)
+  audioPrompt?: string;        // ElevenLabs SFX 生成用 prompt
+  audioBase64?: string;        // 生成或上傳的音訊 (mp3/wav base64)
+  audioKey?: string;           // IndexedDB key of the bed in saved jobs (audioBase64 stays out of localStorage)
+  isCustomAudio?: boolean;     // 是否為使用者上傳
+  audioGain?: number;          // Bed level (linear, default 0.4)
+  audioBuffer?: AudioBuffer | null; // Decoded bed, runtime only (not persisted)
+}
+
+// 錄音版本 (one synthesis result for a script item)
+export interface AudioTake {
+  id: string;
+  providerId: string;           // TTS / SFX provider (or 'sfx-library' for a local library clip)
+  voice?: string;               // Voice id used (speech only)
+  prompt?: string;              // voicePrompt + expression for speech, description for SFX
+  text: string;                 // Line text or SFX description at generation time
+  createdAt: number;
+  audioKey: string;             // IndexedDB key for audio base64
+  audioFormat: 'mp3' | 'pcm' | 'wav';
+  audioBuffer?: AudioBuffer | null; // Decoded audio, runtime only (not persisted)
 }
 
 export interface ScriptItem {
@@ -133,28 +237,72 @@ export interface ScriptItem {
   expression?: string; // e.g., "excited", "whispering"
   location?: string; // 參照 SceneDefinition.name
   sfxDescription?: string;
+  sfxDuration?: number; // Suggested SFX length in seconds
   sceneCharacters?: string[]; // 該時刻場景中的角色（不含旁白）
 
-  // Audio state
+  // Audio state (mirrors the selected take when the item has takes)
   audioBuffer?: AudioBuffer | null;
   isLoadingAudio?: boolean;
   generationError?: string; // Capture API errors here
 
   // For batch mode: reference to stored audio in IndexedDB
   audioKey?: string;  // IndexedDB key for audio base64
-  audioFormat?: 'mp3' | 'pcm';  // Format for decoding
+  audioFormat?: 'mp3' | 'pcm' | 'wav';  // Format for decoding
+
+  // 多重錄音 (takes)
+  takes?: AudioTake[];
+  selectedTakeId?: string;
+
+  // 時間軸 / 混音 (multitrack timeline)
+  startOffset?: number;  // Seconds relative to the end of the previous main-track clip (negative = overlap)
+  track?: number;        // Lane index: 0 = main dialogue track, >0 = layered under the main track
+  gain?: number;         // Linear gain (1 = unity)
+  fadeIn?: number;       // Fade-in length in seconds
+  fadeOut?: number;      // Fade-out length in seconds
+  trimStart?: number;    // Non-destructive in point in seconds into the audio
+  trimEnd?: number;      // Non-destructive out point in seconds (empty = end of the audio)
+  pauseBefore?: number;  // Extra silence before this item in seconds
+  pauseAfter?: number;   // Silence after this item in seconds (overrides the default gap)
+  // 空間定位覆寫 (overrides the cast member's placement, e.g. walking across the scene)
+  pan?: number;
+  distance?: number;
+  reverb?: number;
 
   // 對話影像 (每個對話/音效都可以有專屬畫面)
   imagePrompt?: string;       // 此刻畫面的 prompt (動作/情緒描述)
   imageBase64?: string;       // 生成或上傳的圖片
   isCustomImage?: boolean;    // 是否為使用者上傳
   isLoadingImage?: boolean;   // 圖片生成中
+  // 影片動態 (empty = automatic)
+  motion?: VideoMotion;          // Ken Burns preset while this item's image is on screen
+  transition?: VideoTransition;  // Transition into this item's image
 
   // AI 影片 (預留 Veo)
   videoBase64?: string;       // AI 生成的影片
   isLoadingVideo?: boolean;   // 影片生成中
 }
 
+// 影片動態與轉場
+export type VideoMotion = 'none' | 'pan-left' | 'pan-right' | 'zoom-in' | 'zoom-out' | 'parallax';
+export type VideoTransition = 'cut' | 'crossfade' | 'dip-to-black' | 'slide';
+
+// Non-destructive clip edits applied wherever the item's audio is rendered
+export type ClipEdits = Pick<ScriptItem, 'trimStart' | 'trimEnd' | 'gain' | 'fadeIn' | 'fadeOut'>;
+
+// ============ 音效庫 (SFX library) ============
+
+export interface SfxLibraryEntry {
+  id: string;
+  name: string;                // Display name (file name or sfxDescription)
+  description?: string;        // sfxDescription the clip was generated from
+  tags: string[];              // Lowercase search / matching tags
+  audioBase64: string;
+  format: 'mp3' | 'wav';
+  duration?: number;           // Seconds
+  source: 'generated' | 'imported';
+  createdAt: number;
+}
+
 export interface CharacterVoice {
   name: string;
   voiceName: string;
@@ -188,6 +336,7 @@ export interface DramaState {
 
   llmProvider: LlmProvider;
   ttsProvider: TtsProvider;
+  sfxProvider: SfxProvider;
 
   // Model selection
   geminiModel: GeminiModel;
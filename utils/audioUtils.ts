@@ -1,3 +1,11 @@
+import { ClipEdits, ItemType, SceneDefinition, VideoFormat, VideoMode, VideoMotion, VideoTransition } from '../types';
+import { buildTimeline, renderTimeline } from './timeline';
+import { WebmOverlayOptions, drawVideoOverlays, hasOverlays } from './videoOverlays';
+import { VideoMotionSettings, pickMotion, pickTransition, drawMotionFrame, drawTransitionFrame } from './videoMotion';
+import { VisualizerOptions, VisualizerSource, BufferAnalyser, resolveVideoMode, createVisualizerAnalyser, drawVisualizerFrame } from './videoVisualizer';
+import { Mp4Muxer } from './mp4Muxer';
+import { WebmMuxer } from './webmMuxer';
+
 // Base64 decoding
 function decodeBase64(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -42,6 +50,22 @@ export async function decodeAudioFile(
   return await ctx.decodeAudioData(arrayBuffer);
 }
 
+// Decode scene ambience/music beds so the timeline can loop them
+export async function decodeSceneAudio(
+  scenes: SceneDefinition[],
+  ctx: AudioContext
+): Promise<SceneDefinition[]> {
+  return Promise.all(scenes.map(async (scene) => {
+    if (!scene.audioBase64 || scene.audioBuffer) return scene;
+    try {
+      return { ...scene, audioBuffer: await decodeAudioFile(scene.audioBase64, ctx) };
+    } catch (e) {
+      console.error('[Audio] Failed to decode scene bed:', scene.name, e);
+      return scene;
+    }
+  }));
+}
+
 // Shared AudioContext (created on user interaction usually, but we can init lazily)
 let audioContext: AudioContext | null = null;
 
@@ -58,31 +82,35 @@ export const getAudioContext = () => {
 
 /**
  * Merges multiple AudioBuffers into a single AudioBuffer sequentially.
+ * Legacy wrapper: lays the buffers end to end on the main track of a timeline.
+ * @param edits - Optional per-buffer clip edits (trim, fades, gain), matched by index
  */
-export async function mergeAudioBuffers(buffers: AudioBuffer[]): Promise<AudioBuffer> {
-  const ctx = new (window.OfflineAudioContext || (window as any).webkitOfflineAudioContext)(
-    1, // Output channels (mono is safer for mixed sources)
-    1, // Temporary length, will be ignored by constructor but needed
-    44100 // Standard export sample rate
-  );
-
-  // Calculate total duration
-  const totalDuration = buffers.reduce((acc, b) => acc + b.duration, 0);
-  const totalLength = Math.ceil(totalDuration * 44100);
-
-  // Create the actual context with correct length
-  const offlineCtx = new OfflineAudioContext(1, totalLength, 44100);
-
-  let currentOffset = 0;
-  for (const buffer of buffers) {
-    const source = offlineCtx.createBufferSource();
-    source.buffer = buffer;
-    source.connect(offlineCtx.destination);
-    source.start(currentOffset);
-    currentOffset += buffer.duration;
-  }
+export async function mergeAudioBuffers(buffers: AudioBuffer[], edits: ClipEdits[] = []): Promise<AudioBuffer> {
+  const clips = buffers.map((buffer, idx) => ({ ...edits[idx], id: `clip_${idx}`, type: ItemType.SPEECH, audioBuffer: buffer }));
+  return renderTimeline(buildTimeline(clips, { pacing: { lineGap: 0, sceneChangeGap: 0 } }));
+}
 
-  return await offlineCtx.startRendering();
+/**
+ * Copies a time range out of a buffer, with short fades so the cut points don't click
+ * @param fade - Fade-in / fade-out length in seconds
+ */
+export function sliceAudioBuffer(buffer: AudioBuffer, start: number, end: number, fade = 0.05): AudioBuffer {
+  const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  const length = Math.max(1, to - from);
+  const fadeFrames = Math.min(Math.floor(fade * buffer.sampleRate), Math.floor(length / 2));
+
+  const slice = new AudioBuffer({ numberOfChannels: buffer.numberOfChannels, length, sampleRate: buffer.sampleRate });
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch).slice(from, from + length);
+    for (let i = 0; i < fadeFrames; i++) {
+      const g = i / fadeFrames;
+      data[i] *= g;
+      data[length - 1 - i] *= g;
+    }
+    slice.copyToChannel(data, ch);
+  }
+  return slice;
 }
 
 /**
@@ -162,6 +190,7 @@ export function blobToBase64(blob: Blob): Promise<string> {
 
 /**
  * Encodes an AudioBuffer to MP3 format using @breezystack/lamejs
+ * Stereo buffers are written as stereo MP3, mono stays mono.
  * Falls back to WAV if MP3 encoding fails
  */
 export async function bufferToMp3(buffer: AudioBuffer): Promise<Blob> {
@@ -169,23 +198,31 @@ export async function bufferToMp3(buffer: AudioBuffer): Promise<Blob> {
     // Import the ES module compatible version of lamejs
     const { Mp3Encoder } = await import('@breezystack/lamejs');
 
-    const mp3encoder = new Mp3Encoder(1, buffer.sampleRate, 128); // mono, sample rate, 128kbps
-    const samples = buffer.getChannelData(0);
+    const numChannels = Math.min(2, buffer.numberOfChannels);
+    const kbps = numChannels === 2 ? 192 : 128;
+    const mp3encoder = new Mp3Encoder(numChannels, buffer.sampleRate, kbps);
 
     // Convert Float32Array to Int16Array
-    const sampleBlockSize = 1152; // must be multiple of 576
-    const int16Samples = new Int16Array(samples.length);
-    for (let i = 0; i < samples.length; i++) {
-      const s = Math.max(-1, Math.min(1, samples[i]));
-      int16Samples[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-    }
+    const toInt16 = (samples: Float32Array) => {
+      const int16Samples = new Int16Array(samples.length);
+      for (let i = 0; i < samples.length; i++) {
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        int16Samples[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+      }
+      return int16Samples;
+    };
+    const left = toInt16(buffer.getChannelData(0));
+    const right = numChannels === 2 ? toInt16(buffer.getChannelData(1)) : undefined;
 
+    const sampleBlockSize = 1152; // must be multiple of 576
     const mp3Data: Uint8Array[] = [];
 
     // Encode in blocks
-    for (let i = 0; i < int16Samples.length; i += sampleBlockSize) {
-      const sampleChunk = int16Samples.subarray(i, i + sampleBlockSize);
-      const mp3buf = mp3encoder.encodeBuffer(sampleChunk);
+    for (let i = 0; i < left.length; i += sampleBlockSize) {
+      const mp3buf = mp3encoder.encodeBuffer(
+        left.subarray(i, i + sampleBlockSize),
+        right?.subarray(i, i + sampleBlockSize)
+      );
       if (mp3buf.length > 0) {
         mp3Data.push(new Uint8Array(mp3buf));
       }
@@ -222,33 +259,43 @@ export async function bufferToMp3(buffer: AudioBuffer): Promise<Blob> {
  * @returns WebM video blob
  */
 export interface WebmSegment {
-  audioBuffer: AudioBuffer;
   imageBase64: string; // The specific image for this dialogue segment
+  start: number;       // Seconds from the start of the mixed audio
   duration: number;
+  speaker?: string;    // Character name for the speaker overlay
+  location?: string;   // Scene name for the scene title overlay
+  motion?: VideoMotion;          // Preset for this segment (empty = automatic)
+  transition?: VideoTransition;  // Transition into this segment (empty = automatic)
+  backgroundBase64?: string;     // Scene image (parallax background)
+  foregroundBase64?: string;     // Character image (parallax foreground)
 }
 
 export type WebmResolution = '720p' | '1080p' | '4k';
 export type WebmQuality = 'draft' | 'high' | 'ultra';
+export type VideoOrientation = 'landscape' | 'portrait';  // portrait = 9:16 (Shorts / Reels)
 
 export interface WebmOptions {
   resolution?: WebmResolution;
   quality?: WebmQuality;
+  orientation?: VideoOrientation;
+  overlays?: WebmOverlayOptions;  // Burned-in captions, name plates, scene titles, progress bar
+  motion?: VideoMotionSettings;   // Ken Burns motion and transitions (omit for stills with hard cuts)
+  mode?: VideoMode;               // Slideshow of segment images (default) or audio-reactive visualizer
+  visualizer?: VisualizerOptions;
+  onProgress?: (progress: VideoRenderProgress) => void;
 }
 
-/**
- * Creates a dynamic WebM video with synchronized images and audio segments
- * @param segments - Array of audio/visual segments
- * @param defaultCover - Fallback image if a segment is missing one (optional)
- * @param options - Video resolution and quality settings
- * @returns WebM video blob
- */
-export async function createDynamicWebmVideo(
-  segments: WebmSegment[],
-  defaultCover?: string,
-  options: WebmOptions = {}
-): Promise<Blob> {
-  const { resolution = '1080p', quality = 'high' } = options;
+export interface VideoRenderProgress {
+  frame: number;        // Frames rendered so far
+  totalFrames: number;
+}
 
+const ANIMATION_FPS = 30;
+const KEYFRAME_INTERVAL = 2;         // Seconds between keyframes (offline encoding)
+const AUDIO_CHUNK_FRAMES = 4096;     // Frames per AudioData handed to the encoder
+const MAX_ENCODE_QUEUE = 8;
+
+function resolveVideoSize(resolution: WebmResolution, quality: WebmQuality, orientation: VideoOrientation = 'landscape') {
   // Resolve resolution
   let width = 1920;
   let height = 1080;
@@ -266,17 +313,26 @@ export async function createDynamicWebmVideo(
     case 'ultra': bitrate = 16000000; break; // 16 Mbps
   }
 
-  // 1. Setup Canvas
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d')!;
-
-  // 2. Setup Audio Context & Destination
-  const audioContext = new AudioContext();
-  const audioDestination = audioContext.createMediaStreamDestination();
+  return orientation === 'portrait' ? { width: height, height: width, bitrate } : { width, height, bitrate };
+}
 
-  // 3. Pre-load all images to avoid loading delay during recording
+/**
+ * Pre-loads the images and resolves motion / transitions once, then returns
+ * drawFrame(time), which paints the canvas for any point on the timeline.
+ * Shared by the realtime WebM recorder and the WebCodecs MP4 encoder.
+ */
+async function prepareVideoRenderer(
+  ctx: CanvasRenderingContext2D,
+  audio: AudioBuffer,
+  segments: WebmSegment[],
+  defaultCover: string | undefined,
+  options: WebmOptions,
+  analyser: VisualizerSource | null
+) {
+  const { overlays, motion, visualizer = {} } = options;
+  const canvas = ctx.canvas;
+
+  // Pre-load all images to avoid loading delay during rendering
   // Map base64 -> HTMLImageElement
   const imageCache = new Map<string, HTMLImageElement>();
   const uniqueImages = new Set<string>();
@@ -284,8 +340,15 @@ export async function createDynamicWebmVideo(
   if (defaultCover) uniqueImages.add(defaultCover);
   segments.forEach(s => {
     if (s.imageBase64) uniqueImages.add(s.imageBase64);
+    if (motion?.motion && s.backgroundBase64) uniqueImages.add(s.backgroundBase64);
+    if (motion?.motion && s.foregroundBase64) uniqueImages.add(s.foregroundBase64);
   });
 
+  const portraitImages = new Map<string, HTMLImageElement>();
+  if (analyser) {
+    visualizer.portraits?.forEach(p => p.imageBase64 && uniqueImages.add(p.imageBase64));
+  }
+
   await Promise.all(Array.from(uniqueImages).map(async (base64) => {
     const img = new Image();
     await new Promise<void>((resolve, reject) => {
@@ -311,6 +374,130 @@ export async function createDynamicWebmVideo(
     }
   };
 
+  visualizer.portraits?.forEach(p => {
+    const img = p.imageBase64 ? imageCache.get(p.imageBase64) : undefined;
+    if (img) portraitImages.set(p.name, img);
+  });
+
+  // Visualizer, motion, transitions and overlays are redrawn every frame; otherwise the canvas only changes between segments
+  const withOverlays = hasOverlays(overlays);
+  const animated = !!analyser || withOverlays || !!motion?.motion || !!motion?.transitions;
+  const sceneStarts = segments.filter((s, idx) => s.location && s.location !== segments[idx - 1]?.location);
+
+  // 動態與轉場: resolved once per segment
+  const looks = segments.map((segment, idx) => {
+    const hasOwnImage = !!segment.imageBase64 && segment.imageBase64 !== defaultCover;
+    const hasLayers = !hasOwnImage && !!segment.backgroundBase64 && !!segment.foregroundBase64;
+    const preset = motion?.motion ? pickMotion(idx, segment.motion, hasLayers) : 'none';
+    const isParallax = preset === 'parallax';
+    return {
+      motion: preset,
+      image: isParallax && !hasOwnImage ? (segment.backgroundBase64 ?? segment.imageBase64) : segment.imageBase64,
+      foreground: isParallax ? segment.foregroundBase64 : undefined,
+      transition: motion?.transitions && idx > 0
+        ? pickTransition(motion, segment.location !== segments[idx - 1].location, segment.transition)
+        : 'cut' as const,
+    };
+  });
+
+  const drawSegment = (idx: number, time: number) => {
+    const segment = segments[idx];
+    const look = looks[idx];
+    drawMotionFrame(ctx, {
+      image: imageCache.get(look.image) || (defaultCover ? imageCache.get(defaultCover) ?? null : null),
+      foreground: look.foreground ? imageCache.get(look.foreground) : null,
+    }, look.motion, segment.duration > 0 ? (time - segment.start) / segment.duration : 0);
+  };
+
+  const drawFrame = (time: number) => {
+    let idx = 0;
+    for (let i = 0; i < segments.length; i++) {
+      if (segments[i].start <= time) idx = i;
+    }
+
+    if (analyser) {
+      const background = defaultCover ? imageCache.get(defaultCover) ?? null : null;
+      drawVisualizerFrame(ctx, analyser, visualizer, segments[idx]?.speaker, background, portraitImages);
+    } else if (segments.length === 0) {
+      drawImage(defaultCover || '');
+    } else {
+      const sinceStart = time - segments[idx].start;
+      const transitionLength = Math.min(motion?.transitionDuration ?? 0, segments[idx].duration);
+      const transition = looks[idx].transition;
+      if (idx > 0 && transition !== 'cut' && sinceStart < transitionLength) {
+        drawTransitionFrame(ctx, transition, sinceStart / transitionLength, () => drawSegment(idx - 1, time), () => drawSegment(idx, time));
+      } else {
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        drawSegment(idx, time);
+      }
+    }
+
+    if (withOverlays) {
+      const scene = [...sceneStarts].reverse().find(s => s.start <= time);
+      drawVideoOverlays(ctx, {
+        time,
+        duration: audio.duration,
+        speaker: segments[idx]?.speaker,
+        sceneTitle: scene?.location ? { text: scene.location, start: scene.start } : undefined,
+      }, overlays!);
+    }
+  };
+
+  return { drawFrame, drawImage, animated };
+}
+
+/**
+ * Creates a dynamic WebM video with images synchronized to a mixed audio track.
+ * Frames are drawn and encoded offline (VP9/Opus via WebCodecs), so rendering is faster than realtime
+ * and unaffected by background-tab throttling; falls back to realtime MediaRecorder capture without WebCodecs.
+ * @param audio - Mixed-down timeline audio
+ * @param segments - Visual segments positioned on the timeline
+ * @param defaultCover - Fallback image if a segment is missing one (optional)
+ * @param options - Video resolution, quality, overlay, motion and visualizer settings, progress callback
+ * @returns WebM video blob
+ */
+export async function createDynamicWebmVideo(
+  audio: AudioBuffer,
+  segments: WebmSegment[],
+  defaultCover?: string,
+  options: WebmOptions = {}
+): Promise<Blob> {
+  const codecs = await findOfflineCodecs(audio, options, 'webm');
+  if (codecs) {
+    return renderVideoOffline(audio, segments, defaultCover, options, 'webm', codecs);
+  }
+  console.warn('[Video] WebCodecs VP9/Opus is not available, recording in realtime');
+  return recordWebmRealtime(audio, segments, defaultCover, options);
+}
+
+/**
+ * Records the canvas through MediaRecorder while the audio plays in realtime
+ */
+async function recordWebmRealtime(
+  audio: AudioBuffer,
+  segments: WebmSegment[],
+  defaultCover: string | undefined,
+  options: WebmOptions
+): Promise<Blob> {
+  const { resolution = '1080p', quality = 'high', visualizer = {}, onProgress } = options;
+  const isVisualizer = resolveVideoMode(options.mode, segments, defaultCover) === 'visualizer';
+  const { width, height, bitrate } = resolveVideoSize(resolution, quality, options.orientation);
+
+  // 1. Setup Canvas
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  // 2. Setup Audio Context & Destination
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const analyser = isVisualizer ? createVisualizerAnalyser(audioContext, visualizer.style) : null;
+
+  // 3. Pre-load images and resolve the look of every segment
+  const { drawFrame, drawImage, animated } = await prepareVideoRenderer(ctx, audio, segments, defaultCover, options, analyser);
+
   // 4. Setup MediaRecorder
   const canvasStream = canvas.captureStream(30); // 30 FPS for smoother transitions
   const combinedStream = new MediaStream([
@@ -342,57 +529,310 @@ export async function createDynamicWebmVideo(
     // Start Recording
     mediaRecorder.start();
 
-    // 5. Play segments sequentially
+    // 5. Play the mixed audio once and switch images on the timeline
+    let frameTimer: ReturnType<typeof setInterval> | undefined;
+    let progressTimer: ReturnType<typeof setInterval> | undefined;
     try {
       // Draw first image immediately
-      if (segments.length > 0) {
-        drawImage(segments[0].imageBase64);
+      if (animated) {
+        drawFrame(0);
+      } else {
+        drawImage(segments.length > 0 ? segments[0].imageBase64 : (defaultCover || ''));
       }
 
-      for (let i = 0; i < segments.length; i++) {
-        const segment = segments[i];
-
-        // Draw current image
-        drawImage(segment.imageBase64);
-
-        // Play audio
-        const source = audioContext.createBufferSource();
-        source.buffer = segment.audioBuffer;
+      const source = audioContext.createBufferSource();
+      source.buffer = audio;
+      if (analyser) {
+        source.connect(analyser);
+        analyser.connect(audioDestination);
+      } else {
         source.connect(audioDestination);
-        source.start();
+      }
+      const startTime = audioContext.currentTime;
+      source.start(startTime);
+
+      if (onProgress) {
+        const totalFrames = Math.ceil(audio.duration * ANIMATION_FPS);
+        progressTimer = setInterval(() => {
+          const elapsed = audioContext.currentTime - startTime;
+          onProgress({ frame: Math.min(totalFrames, Math.round(elapsed * ANIMATION_FPS)), totalFrames });
+        }, 250);
+      }
+
+      if (animated) {
+        frameTimer = setInterval(() => {
+          drawFrame(Math.min(audio.duration, audioContext.currentTime - startTime));
+        }, 1000 / ANIMATION_FPS);
+      } else {
+        for (const segment of segments) {
+          const wait = startTime + segment.start - audioContext.currentTime;
+          if (wait > 0) {
+            await new Promise(r => setTimeout(r, wait * 1000));
+          }
+          drawImage(segment.imageBase64);
+        }
+      }
 
-        // Wait for duration
-        // We use a slightly safer wait logic to ensure audio completes
-        await new Promise(r => setTimeout(r, segment.duration * 1000));
+      // Wait for the audio to finish
+      const remaining = startTime + audio.duration - audioContext.currentTime;
+      if (remaining > 0) {
+        await new Promise(r => setTimeout(r, remaining * 1000));
       }
 
       // Allow a tiny buffer at the end
       await new Promise(r => setTimeout(r, 500));
+      clearInterval(frameTimer);
+      clearInterval(progressTimer);
       mediaRecorder.stop();
 
     } catch (err) {
+      clearInterval(frameTimer);
+      clearInterval(progressTimer);
       mediaRecorder.stop();
       reject(err);
     }
   });
 }
 
+type OfflineContainer = 'mp4' | 'webm';
+
+interface OfflineCodecs {
+  video: string;
+  audio: string;
+}
+
+// H.264 High profile at a level that covers each resolution
+const MP4_VIDEO_CODECS: Record<WebmResolution, string> = {
+  '720p': 'avc1.64001f',  // Level 3.1
+  '1080p': 'avc1.640028', // Level 4.0
+  '4k': 'avc1.640033',    // Level 5.1
+};
+// VP9 profile 0, 8-bit; VP8 as the second choice
+const VP9_VIDEO_CODECS: Record<WebmResolution, string> = {
+  '720p': 'vp09.00.31.08',
+  '1080p': 'vp09.00.40.08',
+  '4k': 'vp09.00.51.08',
+};
+const AUDIO_CODECS: Record<OfflineContainer, string> = { mp4: 'mp4a.40.2', webm: 'opus' }; // AAC-LC / Opus
+const AUDIO_BITRATES: Record<OfflineContainer, number> = { mp4: 192000, webm: 128000 };
+const AUDIO_SAMPLE_RATES: Record<OfflineContainer, number[]> = { mp4: [44100, 48000], webm: [48000] };
+
+// Encoder settings renderVideoOffline configures, so the support check probes exactly those
+function offlineEncodeSettings(audio: AudioBuffer, options: WebmOptions, container: OfflineContainer) {
+  const { width, height, bitrate } = resolveVideoSize(options.resolution ?? '1080p', options.quality ?? 'high', options.orientation);
+  // Audio encoders only take some rates (Opus: 48 kHz only); other rates are resampled to 48 kHz
+  const sampleRate = AUDIO_SAMPLE_RATES[container].includes(audio.sampleRate) ? audio.sampleRate : 48000;
+  return { width, height, bitrate, sampleRate, channels: Math.min(2, audio.numberOfChannels) };
+}
+
+/**
+ * First video / audio codec pair this browser can encode with WebCodecs for this audio and these options, or null
+ */
+async function findOfflineCodecs(audio: AudioBuffer, options: WebmOptions, container: OfflineContainer): Promise<OfflineCodecs | null> {
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined' || typeof VideoFrame === 'undefined') {
+    return null;
+  }
+  try {
+    const resolution = options.resolution ?? '1080p';
+    const { width, height, bitrate, sampleRate, channels } = offlineEncodeSettings(audio, options, container);
+    const audioCodec = AUDIO_CODECS[container];
+    const audioSupport = await AudioEncoder.isConfigSupported({
+      codec: audioCodec, sampleRate, numberOfChannels: channels, bitrate: AUDIO_BITRATES[container],
+    });
+    if (!audioSupport.supported) return null;
+
+    const candidates = container === 'mp4' ? [MP4_VIDEO_CODECS[resolution]] : [VP9_VIDEO_CODECS[resolution], 'vp8'];
+    for (const codec of candidates) {
+      const video = await VideoEncoder.isConfigSupported({
+        codec, width, height, bitrate, framerate: ANIMATION_FPS,
+        ...(container === 'mp4' ? { avc: { format: 'avc' as const } } : {}),
+      });
+      if (video.supported) return { video: codec, audio: audioCodec };
+    }
+  } catch (e) {
+    console.warn('[Video] WebCodecs support check failed:', e);
+  }
+  return null;
+}
+
+/**
+ * Whether this browser can encode H.264 + AAC with WebCodecs for this audio at the given size and orientation
+ */
+export async function canEncodeMp4(audio: AudioBuffer, options: WebmOptions = {}): Promise<boolean> {
+  return !!(await findOfflineCodecs(audio, options, 'mp4'));
+}
+
+/**
+ * Creates an MP4 (H.264/AAC) video with WebCodecs, taking the same segments and options as
+ * createDynamicWebmVideo. Check canEncodeMp4() first, or use createVideo() which falls back to WebM.
+ */
+export async function createMp4Video(
+  audio: AudioBuffer,
+  segments: WebmSegment[],
+  defaultCover?: string,
+  options: WebmOptions = {}
+): Promise<Blob> {
+  const codecs = await findOfflineCodecs(audio, options, 'mp4');
+  if (!codecs) throw new Error('This browser cannot encode H.264/AAC with WebCodecs');
+  return renderVideoOffline(audio, segments, defaultCover, options, 'mp4', codecs);
+}
+
+/**
+ * Draws every frame deterministically from the segment timeline and encodes it with WebCodecs,
+ * without wall-clock playback. The audio is the already rendered (offline) mixdown.
+ */
+async function renderVideoOffline(
+  audio: AudioBuffer,
+  segments: WebmSegment[],
+  defaultCover: string | undefined,
+  options: WebmOptions,
+  container: OfflineContainer,
+  codecs: OfflineCodecs
+): Promise<Blob> {
+  const { visualizer = {}, onProgress } = options;
+  const isVisualizer = resolveVideoMode(options.mode, segments, defaultCover) === 'visualizer';
+  const { width, height, bitrate, sampleRate, channels } = offlineEncodeSettings(audio, options, container);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const analyser = isVisualizer ? new BufferAnalyser(audio, visualizer.style) : null;
+  const { drawFrame } = await prepareVideoRenderer(ctx, audio, segments, defaultCover, options, analyser);
+
+  const source = audio.sampleRate === sampleRate ? audio : await resampleBuffer(audio, sampleRate);
+
+  const muxer = container === 'mp4'
+    ? new Mp4Muxer({ width, height }, { sampleRate: source.sampleRate, channels })
+    : new WebmMuxer({ width, height, codec: codecs.video }, { sampleRate: source.sampleRate, channels });
+  let encodeError: Error | null = null;
+  const onError = (e: DOMException) => { encodeError = e; };
+
+  const videoEncoder = new VideoEncoder({ output: (chunk, meta) => muxer.addVideoChunk(chunk, meta), error: onError });
+  videoEncoder.configure({
+    codec: codecs.video,
+    width,
+    height,
+    bitrate,
+    framerate: ANIMATION_FPS,
+    ...(container === 'mp4' ? { avc: { format: 'avc' as const } } : {}),
+  });
+
+  const audioEncoder = new AudioEncoder({ output: (chunk, meta) => muxer.addAudioChunk(chunk, meta), error: onError });
+  audioEncoder.configure({
+    codec: codecs.audio,
+    sampleRate: source.sampleRate,
+    numberOfChannels: channels,
+    bitrate: AUDIO_BITRATES[container],
+  });
+
+  try {
+    // 1. Audio: planar float chunks straight from the buffer, encoded up to the given sample frame
+    // alongside the video so neither encoder queues the whole episode
+    let audioOffset = 0;
+    const encodeAudioUntil = async (end: number) => {
+      for (; audioOffset < Math.min(end, source.length); audioOffset += AUDIO_CHUNK_FRAMES) {
+        const offset = audioOffset;
+        const frames = Math.min(AUDIO_CHUNK_FRAMES, source.length - offset);
+        const data = new Float32Array(frames * channels);
+        for (let ch = 0; ch < channels; ch++) {
+          data.set(source.getChannelData(ch).subarray(offset, offset + frames), ch * frames);
+        }
+        const audioData = new AudioData({
+          format: 'f32-planar',
+          sampleRate: source.sampleRate,
+          numberOfFrames: frames,
+          numberOfChannels: channels,
+          timestamp: Math.round(offset / source.sampleRate * 1e6),
+          data,
+        });
+        audioEncoder.encode(audioData);
+        audioData.close();
+
+        while (audioEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+          await new Promise(r => setTimeout(r, 5));
+        }
+      }
+    };
+
+    // 2. Video: draw every frame on the timeline, with the audio up to the end of that frame
+    const totalFrames = Math.max(1, Math.ceil(audio.duration * ANIMATION_FPS));
+    const frameDuration = Math.round(1e6 / ANIMATION_FPS);
+    for (let i = 0; i < totalFrames; i++) {
+      if (encodeError) throw encodeError;
+      const time = i / ANIMATION_FPS;
+      analyser?.seek(time);
+      drawFrame(time);
+
+      const frame = new VideoFrame(canvas, { timestamp: i * frameDuration, duration: frameDuration });
+      videoEncoder.encode(frame, { keyFrame: i % (ANIMATION_FPS * KEYFRAME_INTERVAL) === 0 });
+      frame.close();
+      onProgress?.({ frame: i + 1, totalFrames });
+      await encodeAudioUntil(Math.ceil((i + 1) / ANIMATION_FPS * source.sampleRate));
+
+      // Let the encoder catch up (and keep the page responsive)
+      while (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(r => setTimeout(r, 5));
+      }
+    }
+
+    await encodeAudioUntil(source.length);
+    await Promise.all([videoEncoder.flush(), audioEncoder.flush()]);
+    if (encodeError) throw encodeError;
+    return muxer.finalize();
+  } finally {
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder.state !== 'closed') audioEncoder.close();
+  }
+}
+
+async function resampleBuffer(buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+  const offline = new OfflineAudioContext(buffer.numberOfChannels, Math.ceil(buffer.duration * sampleRate), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+}
+
+/**
+ * Creates the episode video in the requested container. MP4 falls back to WebM
+ * where WebCodecs (or its H.264/AAC encoders) is unavailable; check blob.type for the result.
+ */
+export async function createVideo(
+  audio: AudioBuffer,
+  segments: WebmSegment[],
+  defaultCover: string | undefined,
+  format: VideoFormat,
+  options: WebmOptions = {}
+): Promise<Blob> {
+  if (format === 'mp4') {
+    if (await canEncodeMp4(audio, options)) {
+      return createMp4Video(audio, segments, defaultCover, options);
+    }
+    console.warn('[Video] WebCodecs H.264/AAC is not available, falling back to WebM');
+  }
+  return createDynamicWebmVideo(audio, segments, defaultCover, options);
+}
+
 /**
  * Legacy wrapper for backward compatibility or single-image video
  */
 export async function createWebmVideo(
   audioBlob: Blob,
   imageBase64: string,
-  duration: number
+  duration: number,
+  options: WebmOptions = {}
 ): Promise<Blob> {
   // Decode audio blob simply to get a buffer
   const audioContext = new AudioContext();
   const audioBuffer = await audioContext.decodeAudioData(await audioBlob.arrayBuffer());
   audioContext.close();
 
-  return createDynamicWebmVideo([{
-    audioBuffer,
+  return createDynamicWebmVideo(audioBuffer, [{
     imageBase64,
+    start: 0,
     duration
-  }], imageBase64);
+  }], imageBase64, options);
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * Chapters
+ * Podcasting 2.0 JSON chapters derived from scene (location) changes on the rendered timeline.
+ */
+
+import { ScriptItem } from '../types';
+import { Timeline, MAIN_TRACK } from './timeline';
+
+export interface Chapter {
+  startTime: number;  // Seconds on the timeline
+  title: string;
+}
+
+/**
+ * One chapter per run of main-track clips in the same scene.
+ * Returns an empty list when the script has fewer than two scenes.
+ */
+export function buildChapters(timeline: Timeline, items: ScriptItem[]): Chapter[] {
+  // Items without a location stay in the current scene
+  const locations = new Map<string, string | undefined>();
+  let location: string | undefined;
+  for (const item of items) {
+    location = item.location || location;
+    locations.set(item.id, location);
+  }
+
+  const chapters: Chapter[] = [];
+  for (const clip of timeline.clips.filter(c => c.track === MAIN_TRACK).sort((a, b) => a.start - b.start)) {
+    const scene = locations.get(clip.id);
+    if (!scene || scene === chapters[chapters.length - 1]?.title) continue;
+    chapters.push({ startTime: Math.round(clip.start * 1000) / 1000, title: scene });
+  }
+  if (chapters.length < 2) return [];
+
+  chapters[0].startTime = 0; // Chapters cover the whole episode
+  return chapters;
+}
+
+export function toChaptersJson(chapters: Chapter[], options: { title?: string; podcastName?: string } = {}): string {
+  return JSON.stringify({
+    version: '1.2.0',
+    ...(options.title && { title: options.title }),
+    ...(options.podcastName && { podcastName: options.podcastName }),
+    chapters,
+  }, null, 2);
+}
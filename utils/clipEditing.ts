@@ -0,0 +1,70 @@
+/**
+ * Clip Editing
+ * Waveform peaks and silence detection for the non-destructive clip editor.
+ * Edits live on the ScriptItem (trimStart / trimEnd / fades / gain) and are applied by the timeline.
+ */
+
+export const DEFAULT_SILENCE_THRESHOLD_DB = -45;
+const SILENCE_WINDOW = 0.01;  // Seconds per RMS window
+const SILENCE_PADDING = 0.05; // Seconds of room kept before the first / after the last sound
+
+/**
+ * Peak amplitude (0..1) per bin across all channels, for drawing a waveform
+ */
+export function computeWaveformPeaks(buffer: AudioBuffer, bins: number): number[] {
+  const peaks = new Array(bins).fill(0);
+  const samplesPerBin = Math.max(1, Math.floor(buffer.length / bins));
+
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let bin = 0; bin < bins; bin++) {
+      const from = bin * samplesPerBin;
+      const to = Math.min(data.length, from + samplesPerBin);
+      let peak = peaks[bin];
+      for (let i = from; i < to; i++) {
+        const v = Math.abs(data[i]);
+        if (v > peak) peak = v;
+      }
+      peaks[bin] = peak;
+    }
+  }
+  return peaks.map(p => Math.min(1, p));
+}
+
+/**
+ * Find where sound starts and ends: the first and last RMS window louder than the threshold.
+ * Returns null when the whole clip is below the threshold.
+ */
+export function detectSilenceTrim(
+  buffer: AudioBuffer,
+  thresholdDb: number = DEFAULT_SILENCE_THRESHOLD_DB,
+  padding: number = SILENCE_PADDING
+): { trimStart: number; trimEnd: number } | null {
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const windowSize = Math.max(1, Math.floor(buffer.sampleRate * SILENCE_WINDOW));
+  const windows = Math.ceil(buffer.length / windowSize);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+
+  const isLoud = (w: number) => {
+    const from = w * windowSize;
+    const to = Math.min(buffer.length, from + windowSize);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+    }
+    return Math.sqrt(sum / ((to - from) * channels.length)) >= threshold;
+  };
+
+  let first = 0;
+  while (first < windows && !isLoud(first)) first++;
+  if (first === windows) return null;
+
+  let last = windows - 1;
+  while (last > first && !isLoud(last)) last--;
+
+  const toSeconds = (w: number) => (w * windowSize) / buffer.sampleRate;
+  return {
+    trimStart: Math.max(0, toSeconds(first) - padding),
+    trimEnd: Math.min(buffer.duration, toSeconds(last + 1) + padding),
+  };
+}
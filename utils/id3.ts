@@ -0,0 +1,157 @@
+/**
+ * ID3 Tags
+ * ID3v2.4 tag writer for exported MP3s: title / artist / album / year, cover art (APIC),
+ * the transcript as lyrics (USLT) and scene chapters (CHAP + CTOC).
+ */
+
+import { GeneratedPodcastInfo, ScriptItem } from '../types';
+import { Timeline } from './timeline';
+import { buildChapters } from './chapters';
+import { toPlainTranscript } from './subtitles';
+import { detectLanguage, toIso639_2 } from './language';
+
+export interface Id3Chapter {
+  title: string;
+  start: number;  // Seconds
+  end: number;
+}
+
+export interface Id3Tags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: number;
+  genre?: string;
+  cover?: string;   // Base64 JPEG or PNG
+  lyrics?: { text: string; language: string };  // ISO 639-2 code
+  chapters?: Id3Chapter[];
+}
+
+const UTF8 = 0x03;
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+// 28-bit size spread over 4 bytes with the high bit clear (v2.4 uses it for tag and frame sizes)
+const syncsafe = (n: number) => new Uint8Array([(n >>> 21) & 0x7f, (n >>> 14) & 0x7f, (n >>> 7) & 0x7f, n & 0x7f]);
+
+const uint32 = (n: number) => new Uint8Array([(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff]);
+
+const text = (value: string) => encoder.encode(value);
+const terminated = (value: string) => concat([text(value), new Uint8Array([0])]);
+
+function frame(id: string, body: Uint8Array): Uint8Array {
+  return concat([text(id), syncsafe(body.length), new Uint8Array([0, 0]), body]);
+}
+
+const textFrame = (id: string, value: string) => frame(id, concat([new Uint8Array([UTF8]), text(value)]));
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function pictureFrame(base64: string): Uint8Array {
+  const image = base64ToBytes(base64);
+  const mime = image[0] === 0x89 && image[1] === 0x50 ? 'image/png' : 'image/jpeg';
+  return frame('APIC', concat([
+    new Uint8Array([UTF8]),
+    terminated(mime),
+    new Uint8Array([0x03, 0x00]),  // Front cover, empty description
+    image,
+  ]));
+}
+
+function lyricsFrame(lyrics: { text: string; language: string }): Uint8Array {
+  return frame('USLT', concat([
+    new Uint8Array([UTF8]),
+    text(lyrics.language.slice(0, 3).padEnd(3, ' ')),
+    new Uint8Array([0]),  // Empty content descriptor
+    text(lyrics.text),
+  ]));
+}
+
+// CHAP frames with a top-level ordered CTOC listing them (ID3v2 Chapter Frame Addendum)
+function chapterFrames(chapters: Id3Chapter[]): Uint8Array[] {
+  const ids = chapters.map((_, i) => `chp${i}`);
+  const chaps = chapters.map((chapter, i) => frame('CHAP', concat([
+    terminated(ids[i]),
+    uint32(Math.round(chapter.start * 1000)),
+    uint32(Math.round(chapter.end * 1000)),
+    uint32(0xffffffff),  // No byte offsets, players use the times
+    uint32(0xffffffff),
+    textFrame('TIT2', chapter.title),
+  ])));
+  const toc = frame('CTOC', concat([
+    terminated('toc'),
+    new Uint8Array([0x03, ids.length]),  // Top-level + ordered
+    ...ids.map(terminated),
+  ]));
+  return [toc, ...chaps];
+}
+
+/**
+ * Serialize an ID3v2.4 tag (header + frames, no padding)
+ */
+export function buildId3Tag(tags: Id3Tags): Uint8Array {
+  const frames: Uint8Array[] = [];
+  if (tags.title) frames.push(textFrame('TIT2', tags.title));
+  if (tags.artist) frames.push(textFrame('TPE1', tags.artist));
+  if (tags.album) frames.push(textFrame('TALB', tags.album));
+  if (tags.year) frames.push(textFrame('TDRC', String(tags.year)));
+  if (tags.genre) frames.push(textFrame('TCON', tags.genre));
+  if (tags.cover) frames.push(pictureFrame(tags.cover));
+  if (tags.lyrics?.text) frames.push(lyricsFrame(tags.lyrics));
+  // The CTOC entry count is one byte
+  if (tags.chapters?.length) frames.push(...chapterFrames(tags.chapters.slice(0, 255)));
+
+  const body = concat(frames);
+  return concat([text('ID3'), new Uint8Array([0x04, 0x00, 0x00]), syncsafe(body.length), body]);
+}
+
+/**
+ * Prepend an ID3 tag to an MP3. The WAV fallback from bufferToMp3 is returned untouched.
+ */
+export function tagMp3(mp3: Blob, tags: Id3Tags): Blob {
+  if (mp3.type !== 'audio/mp3') return mp3;
+  return new Blob([buildId3Tag(tags), mp3], { type: mp3.type });
+}
+
+/**
+ * Episode tags: podcast info, cover art, the transcript and one chapter per scene.
+ * The transcript language is the show's (BCP-47) when given, otherwise detected from the text.
+ */
+export function buildEpisodeTags(
+  info: Partial<Pick<GeneratedPodcastInfo, 'podcastName' | 'author' | 'episodeTitle'>>,
+  cover: string | null | undefined,
+  timeline: Timeline,
+  items: ScriptItem[],
+  language?: string
+): Id3Tags {
+  const transcript = toPlainTranscript(timeline, items);
+  const chapters = buildChapters(timeline, items);
+  return {
+    title: info.episodeTitle,
+    artist: info.author,
+    album: info.podcastName,
+    year: new Date().getFullYear(),
+    genre: 'Podcast',
+    cover: cover || undefined,
+    lyrics: transcript ? { text: transcript, language: toIso639_2(language || detectLanguage(transcript)) } : undefined,
+    chapters: chapters.map((chapter, i) => ({
+      title: chapter.title,
+      start: chapter.startTime,
+      end: chapters[i + 1]?.startTime ?? timeline.duration,
+    })),
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Language
+ * Script-based language detection for transcripts and captions (when no show language is set),
+ * as BCP-47 tags, with the ISO 639-2 codes ID3 frames use.
+ */
+
+const KANA = /[\u3040-\u30ff]/;
+const HANGUL = /[\uac00-\ud7af]/;
+const HAN = /[\u3400-\u9fff]/;
+
+/**
+ * Whether the text contains Chinese, Japanese or Korean characters (written without word spacing)
+ */
+export const hasCjk = (text: string) => KANA.test(text) || HANGUL.test(text) || HAN.test(text);
+
+/**
+ * BCP-47 language of a text, guessed from its script (Han without kana is taken as Traditional Chinese)
+ */
+export function detectLanguage(text: string): string {
+  if (KANA.test(text)) return 'ja';
+  if (HANGUL.test(text)) return 'ko';
+  if (HAN.test(text)) return 'zh-TW';
+  return 'en';
+}
+
+// ISO 639-2 (bibliographic) codes for common primary languages
+const ISO_639_2: Record<string, string> = {
+  zh: 'chi', ja: 'jpn', ko: 'kor', en: 'eng', fr: 'fre', de: 'ger', es: 'spa', it: 'ita',
+  pt: 'por', ru: 'rus', nl: 'dut', sv: 'swe', th: 'tha', vi: 'vie', id: 'ind', ar: 'ara', hi: 'hin',
+};
+
+/**
+ * ISO 639-2 code for a BCP-47 tag ('zh-TW' -> 'chi'); 'und' when unknown
+ */
+export function toIso639_2(language: string): string {
+  return ISO_639_2[language.split('-')[0].toLowerCase()] || 'und';
+}
@@ -0,0 +1,276 @@
+/**
+ * Mastering
+ * Loudness measurement (ITU-R BS.1770 / EBU R128), per-clip gain matching
+ * and a lookahead peak limiter, applied before WAV/MP3 encoding.
+ */
+
+import { MasteringSettings, LoudnessReport } from '../types';
+import { Timeline, renderTimeline, EXPORT_SAMPLE_RATE } from './timeline';
+
+const BLOCK_SECONDS = 0.4;       // Gating block length
+const BLOCK_STEP_SECONDS = 0.1;  // 75% overlap
+const ABSOLUTE_GATE = -70;       // LUFS
+const RELATIVE_GATE = -10;       // LU below the ungated mean
+const MAX_CLIP_CORRECTION = 20;  // dB, so near-silent clips are not blown up
+const LIMITER_LOOKAHEAD = 0.005; // Seconds
+const LIMITER_RELEASE = 0.1;     // Seconds
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const gainToDb = (gain: number) => 20 * Math.log10(gain);
+
+// Measurements are cached per buffer and region; clips are re-measured on every export otherwise
+const loudnessCache = new WeakMap<AudioBuffer, Map<string, number>>();
+
+// K-weighting filter coefficients (pre-filter shelf + RLB high-pass) for any sample rate
+function kWeightingCoefficients(sampleRate: number) {
+  // Stage 1: high shelf
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const Q1 = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q1 + K * K;
+  const shelf = {
+    b0: (Vh + Vb * K / Q1 + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q1 + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q1 + K * K) / a0,
+  };
+
+  // Stage 2: high-pass
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  const Q2 = 0.5003270373238773;
+  a0 = 1 + K / Q2 + K * K;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q2 + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+// Squared K-weighted signal of one channel
+function kWeightedSquares(data: Float32Array, sampleRate: number): Float32Array {
+  const out = new Float32Array(data.length);
+  out.set(data);
+
+  for (const f of kWeightingCoefficients(sampleRate)) {
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < out.length; i++) {
+      const x = out[i];
+      const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      out[i] = y;
+    }
+  }
+
+  for (let i = 0; i < out.length; i++) out[i] = out[i] * out[i];
+  return out;
+}
+
+/**
+ * Integrated loudness of a buffer in LUFS (-Infinity for silence).
+ * offset / duration (seconds) limit the measurement to a region, e.g. a trimmed clip.
+ */
+export function measureLoudness(buffer: AudioBuffer, offset = 0, duration = buffer.duration): number {
+  const { sampleRate, numberOfChannels } = buffer;
+  const from = Math.min(buffer.length, Math.max(0, Math.round(offset * sampleRate)));
+  const to = Math.min(buffer.length, from + Math.max(0, Math.round(duration * sampleRate)));
+  const regionKey = `${from}:${to}`;
+
+  let cache = loudnessCache.get(buffer);
+  const cached = cache?.get(regionKey);
+  if (cached !== undefined) return cached;
+
+  const length = to - from;
+  const squares: Float32Array[] = [];
+  for (let ch = 0; ch < numberOfChannels; ch++) {
+    squares.push(kWeightedSquares(buffer.getChannelData(ch).subarray(from, to), sampleRate));
+  }
+
+  // Clips shorter than one gating block are measured as a single block
+  const blockSize = Math.min(length, Math.round(BLOCK_SECONDS * sampleRate));
+  const step = Math.max(1, Math.round(BLOCK_STEP_SECONDS * sampleRate));
+  const blockPowers: number[] = [];
+
+  for (let start = 0; blockSize > 0 && start + blockSize <= length; start += step) {
+    let power = 0;
+    for (const sq of squares) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) sum += sq[i];
+      power += sum / blockSize;
+    }
+    blockPowers.push(power);
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+  const absGated = blockPowers.filter(p => toLufs(p) > ABSOLUTE_GATE);
+  let loudness = -Infinity;
+  if (absGated.length > 0) {
+    const relativeGate = toLufs(mean(absGated)) + RELATIVE_GATE;
+    const gated = absGated.filter(p => toLufs(p) > relativeGate);
+    loudness = toLufs(mean(gated));
+  }
+
+  if (!cache) loudnessCache.set(buffer, cache = new Map());
+  cache.set(regionKey, loudness);
+  return loudness;
+}
+
+/**
+ * Sample peak of a buffer in dBFS
+ */
+export function measurePeak(buffer: AudioBuffer): number {
+  let peak = 0;
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) {
+      const v = Math.abs(data[i]);
+      if (v > peak) peak = v;
+    }
+  }
+  return gainToDb(peak);
+}
+
+/**
+ * Scale each speech clip so it sits at the target loudness before mixing, measured over the
+ * part of the buffer that plays. SFX and scene beds keep their mix level.
+ * The clip's own gain is kept as a relative trim on top of the match.
+ */
+export function matchClipLoudness(timeline: Timeline, targetLufs: number): Timeline {
+  const clips = timeline.clips.map(clip => {
+    if (!clip.speech) return clip;
+    const loudness = measureLoudness(clip.buffer, clip.offset, clip.duration);
+    if (!isFinite(loudness)) return clip;
+
+    const correction = Math.max(-MAX_CLIP_CORRECTION, Math.min(MAX_CLIP_CORRECTION, targetLufs - loudness));
+    return { ...clip, gain: clip.gain * dbToGain(correction) };
+  });
+  return { ...timeline, clips };
+}
+
+/**
+ * Lookahead peak limiter. The gain curve is a sliding minimum over the lookahead window,
+ * smoothed with a release and then a moving average, so it never exceeds the ceiling.
+ */
+export function limitPeaks(buffer: AudioBuffer, ceilingDb: number): AudioBuffer {
+  const { sampleRate, length, numberOfChannels } = buffer;
+  const ceiling = dbToGain(ceilingDb);
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate));
+  const releaseCoef = 1 - Math.exp(-1 / (LIMITER_RELEASE * sampleRate));
+
+  // Gain each sample needs to stay under the ceiling
+  const required = new Float32Array(length).fill(1);
+  for (let ch = 0; ch < numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < length; i++) {
+      const v = Math.abs(data[i]);
+      if (v > ceiling) required[i] = Math.min(required[i], ceiling / v);
+    }
+  }
+
+  // Sliding minimum over [i, i + lookahead) using a monotonic deque
+  const windowMin = new Float32Array(length);
+  const deque = new Int32Array(length + lookahead);
+  let head = 0, tail = 0, next = 0;
+  for (let i = 0; i < length; i++) {
+    while (next < Math.min(length, i + lookahead)) {
+      while (tail > head && required[deque[tail - 1]] >= required[next]) tail--;
+      deque[tail++] = next++;
+    }
+    while (deque[head] < i) head++;
+    windowMin[i] = required[deque[head]];
+  }
+
+  // Instant attack, exponential release
+  let g = 1;
+  for (let i = 0; i < length; i++) {
+    g = windowMin[i] < g ? windowMin[i] : g + (windowMin[i] - g) * releaseCoef;
+    windowMin[i] = g;
+  }
+
+  // Moving average over the lookahead window smooths the attack without overshooting
+  const out = new AudioBuffer({ length, numberOfChannels, sampleRate });
+  let acc = 0;
+  const gain = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    acc += windowMin[i];
+    if (i >= lookahead) acc -= windowMin[i - lookahead];
+    gain[i] = acc / Math.min(i + 1, lookahead);
+  }
+
+  for (let ch = 0; ch < numberOfChannels; ch++) {
+    const input = buffer.getChannelData(ch);
+    const output = out.getChannelData(ch);
+    for (let i = 0; i < length; i++) output[i] = input[i] * gain[i];
+  }
+  return out;
+}
+
+/**
+ * Normalize a mixed buffer to the target loudness and limit its peaks
+ */
+export function masterBuffer(
+  buffer: AudioBuffer,
+  settings: MasteringSettings
+): { buffer: AudioBuffer; report: LoudnessReport } {
+  const inputLufs = measureLoudness(buffer);
+
+  if (!settings.enabled || !isFinite(inputLufs)) {
+    return {
+      buffer,
+      report: { inputLufs, outputLufs: inputLufs, peakDb: measurePeak(buffer), targetLufs: settings.targetLufs },
+    };
+  }
+
+  const makeup = dbToGain(settings.targetLufs - inputLufs);
+  const normalized = new AudioBuffer({
+    length: buffer.length,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const input = buffer.getChannelData(ch);
+    const output = normalized.getChannelData(ch);
+    for (let i = 0; i < input.length; i++) output[i] = input[i] * makeup;
+  }
+
+  const limited = limitPeaks(normalized, settings.ceilingDb);
+  const report: LoudnessReport = {
+    inputLufs,
+    outputLufs: measureLoudness(limited),
+    peakDb: measurePeak(limited),
+    targetLufs: settings.targetLufs,
+  };
+  console.log(`[Mastering] ${inputLufs.toFixed(1)} LUFS -> ${report.outputLufs.toFixed(1)} LUFS (peak ${report.peakDb.toFixed(1)} dBFS)`);
+  return { buffer: limited, report };
+}
+
+/**
+ * Render a timeline through the mastering chain: clip matching, mixdown, normalization, limiter
+ */
+export async function renderMasteredTimeline(
+  timeline: Timeline,
+  settings: MasteringSettings,
+  sampleRate: number = EXPORT_SAMPLE_RATE
+): Promise<{ buffer: AudioBuffer; report: LoudnessReport }> {
+  const matched = settings.enabled && settings.matchClips
+    ? matchClipLoudness(timeline, settings.targetLufs)
+    : timeline;
+  const mixed = await renderTimeline(matched, sampleRate);
+  return masterBuffer(mixed, settings);
+}
+
+/**
+ * Short human-readable loudness summary, e.g. "-16.0 LUFS (target -16), peak -1.0 dBFS"
+ */
+export function formatLoudnessReport(report: LoudnessReport): string {
+  const lufs = (v: number) => Number.isFinite(v) ? v.toFixed(1) : '-∞';
+  return `${lufs(report.outputLufs)} LUFS (target ${report.targetLufs}), peak ${lufs(report.peakDb)} dBFS`;
+}
@@ -0,0 +1,278 @@
+/**
+ * MP4 Muxer
+ * Writes WebCodecs H.264 / AAC chunks into a plain (non-fragmented) ISO-BMFF file:
+ * ftyp, one mdat holding every sample, then moov with the sample tables.
+ */
+
+export interface Mp4VideoTrack {
+  width: number;
+  height: number;
+  avcC?: Uint8Array;   // VideoDecoderConfig.description (avc format)
+}
+
+export interface Mp4AudioTrack {
+  sampleRate: number;
+  channels: number;
+  asc?: Uint8Array;    // AudioSpecificConfig (AudioDecoderConfig.description)
+}
+
+interface Mp4Sample {
+  data: Uint8Array;
+  timestamp: number;   // Microseconds
+  duration: number;    // Microseconds
+  keyFrame: boolean;
+}
+
+const VIDEO_TIMESCALE = 90000;
+const MOVIE_TIMESCALE = 1000;
+const AAC_FRAME_SIZE = 1024;
+
+// AAC sampling frequency index (ISO 14496-3)
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// === Byte helpers ===
+
+const u8 = (v: number) => [v & 0xff];
+const u16 = (v: number) => [(v >> 8) & 0xff, v & 0xff];
+const u24 = (v: number) => [(v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff];
+const u32 = (v: number) => [(v >>> 24) & 0xff, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff];
+const ascii = (s: string) => Array.from(s, c => c.charCodeAt(0));
+const zeros = (n: number) => new Array<number>(n).fill(0);
+
+type Bytes = number[] | Uint8Array;
+
+function concat(parts: Bytes[]): Uint8Array {
+  const size = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function box(type: string, ...payload: Bytes[]): Uint8Array {
+  const body = concat(payload);
+  return concat([u32(body.length + 8), ascii(type), body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Bytes[]): Uint8Array {
+  return box(type, u8(version), u24(flags), ...payload);
+}
+
+// Identity transform (16.16 / 2.30 fixed point)
+const MATRIX = [...u32(0x10000), ...u32(0), ...u32(0), ...u32(0), ...u32(0x10000), ...u32(0), ...u32(0), ...u32(0), ...u32(0x40000000)];
+
+/**
+ * AudioSpecificConfig for AAC-LC, used when the encoder does not supply one
+ */
+export function buildAudioSpecificConfig(sampleRate: number, channels: number): Uint8Array {
+  const freqIndex = Math.max(0, AAC_SAMPLE_RATES.indexOf(sampleRate));
+  const objectType = 2; // AAC LC
+  return new Uint8Array([
+    (objectType << 3) | (freqIndex >> 1),
+    ((freqIndex & 1) << 7) | (channels << 3),
+  ]);
+}
+
+export class Mp4Muxer {
+  private videoSamples: Mp4Sample[] = [];
+  private audioSamples: Mp4Sample[] = [];
+
+  constructor(private video: Mp4VideoTrack, private audio?: Mp4AudioTrack) { }
+
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) {
+    const description = meta?.decoderConfig?.description;
+    if (description && !this.video.avcC) this.video.avcC = toUint8Array(description);
+    this.videoSamples.push(copyChunk(chunk));
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) {
+    const description = meta?.decoderConfig?.description;
+    if (description && this.audio && !this.audio.asc) this.audio.asc = toUint8Array(description);
+    this.audioSamples.push(copyChunk(chunk));
+  }
+
+  finalize(): Blob {
+    if (this.videoSamples.length === 0) throw new Error('No video frames were encoded');
+    if (!this.video.avcC) throw new Error('Encoder did not provide an H.264 configuration (avcC)');
+
+    const hasAudio = !!this.audio && this.audioSamples.length > 0;
+    const ftyp = box('ftyp', ascii('isom'), u32(0x200), ascii('isom'), ascii('iso2'), ascii('avc1'), ascii('mp41'));
+
+    // mdat: all video samples, then all audio samples (one chunk per track)
+    const videoBytes = this.videoSamples.reduce((sum, s) => sum + s.data.length, 0);
+    const audioBytes = hasAudio ? this.audioSamples.reduce((sum, s) => sum + s.data.length, 0) : 0;
+    const mdatHeader = concat([u32(videoBytes + audioBytes + 8), ascii('mdat')]);
+    const videoOffset = ftyp.length + mdatHeader.length;
+    const audioOffset = videoOffset + videoBytes;
+
+    const lastVideo = this.videoSamples[this.videoSamples.length - 1];
+    const durationUs = Math.max(
+      lastVideo.timestamp + lastVideo.duration,
+      hasAudio ? this.audioSamples.length * AAC_FRAME_SIZE / this.audio!.sampleRate * 1e6 : 0
+    );
+
+    const moov = box('moov',
+      this.mvhd(durationUs, hasAudio ? 3 : 2),
+      this.videoTrak(durationUs, videoOffset),
+      ...(hasAudio ? [this.audioTrak(durationUs, audioOffset)] : [])
+    );
+
+    return new Blob([
+      ftyp,
+      mdatHeader,
+      ...this.videoSamples.map(s => s.data),
+      ...(hasAudio ? this.audioSamples.map(s => s.data) : []),
+      moov,
+    ] as BlobPart[], { type: 'video/mp4' });
+  }
+
+  private mvhd(durationUs: number, nextTrackId: number) {
+    return fullBox('mvhd', 0, 0,
+      u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(Math.round(durationUs / 1e6 * MOVIE_TIMESCALE)),
+      u32(0x00010000), u16(0x0100), zeros(10), MATRIX, zeros(24), u32(nextTrackId)
+    );
+  }
+
+  private tkhd(trackId: number, durationUs: number, isAudio: boolean) {
+    const width = isAudio ? 0 : this.video.width;
+    const height = isAudio ? 0 : this.video.height;
+    return fullBox('tkhd', 0, 3,
+      u32(0), u32(0), u32(trackId), u32(0), u32(Math.round(durationUs / 1e6 * MOVIE_TIMESCALE)),
+      zeros(8), u16(0), u16(0), u16(isAudio ? 0x0100 : 0), u16(0), MATRIX,
+      u32(width * 0x10000), u32(height * 0x10000)
+    );
+  }
+
+  private mdia(timescale: number, duration: number, handler: 'vide' | 'soun', name: string, mediaHeader: Uint8Array, stbl: Uint8Array) {
+    return box('mdia',
+      fullBox('mdhd', 0, 0, u32(0), u32(0), u32(timescale), u32(duration), u16(0x55c4), u16(0)),
+      fullBox('hdlr', 0, 0, u32(0), ascii(handler), zeros(12), ascii(name), [0]),
+      box('minf',
+        mediaHeader,
+        box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+        stbl
+      )
+    );
+  }
+
+  private videoTrak(durationUs: number, offset: number) {
+    const { width, height } = this.video;
+    const toTicks = (us: number) => Math.round(us / 1e6 * VIDEO_TIMESCALE);
+
+    const avc1 = box('avc1',
+      zeros(6), u16(1),                    // reserved, data_reference_index
+      zeros(16),                           // pre_defined / reserved
+      u16(width), u16(height),
+      u32(0x00480000), u32(0x00480000),    // 72 dpi
+      u32(0), u16(1),                      // reserved, frame_count
+      zeros(32),                           // compressorname
+      u16(0x0018), u16(0xffff),            // depth, pre_defined
+      box('avcC', this.video.avcC!)
+    );
+
+    // Sample durations from consecutive timestamps (no B-frames, so decode order = display order)
+    const deltas = this.videoSamples.map((s, i) => {
+      const next = this.videoSamples[i + 1];
+      return toTicks(next ? next.timestamp - s.timestamp : s.duration);
+    });
+    const keyFrames = this.videoSamples.map((s, i) => s.keyFrame ? i + 1 : 0).filter(Boolean);
+
+    const stbl = box('stbl',
+      fullBox('stsd', 0, 0, u32(1), avc1),
+      stts(deltas),
+      fullBox('stss', 0, 0, u32(keyFrames.length), ...keyFrames.map(u32)),
+      stsc(this.videoSamples.length),
+      stsz(this.videoSamples),
+      fullBox('stco', 0, 0, u32(1), u32(offset))
+    );
+
+    return box('trak',
+      this.tkhd(1, durationUs, false),
+      this.mdia(VIDEO_TIMESCALE, toTicks(durationUs), 'vide', 'VideoHandler',
+        fullBox('vmhd', 0, 1, u16(0), zeros(6)), stbl)
+    );
+  }
+
+  private audioTrak(durationUs: number, offset: number) {
+    const { sampleRate, channels } = this.audio!;
+    const asc = this.audio!.asc || buildAudioSpecificConfig(sampleRate, channels);
+
+    const descriptor = (tag: number, ...payload: Bytes[]) => {
+      const body = concat(payload);
+      return concat([u8(tag), u8(body.length), body]);
+    };
+    const esds = fullBox('esds', 0, 0,
+      descriptor(0x03, u16(2), u8(0),
+        descriptor(0x04, u8(0x40), u8(0x15), u24(0), u32(0), u32(0), // MPEG-4 audio, audio stream
+          descriptor(0x05, asc)
+        ),
+        descriptor(0x06, u8(0x02))
+      )
+    );
+
+    const mp4a = box('mp4a',
+      zeros(6), u16(1),
+      zeros(8),
+      u16(channels), u16(16), u16(0), u16(0),
+      u32(sampleRate * 0x10000),
+      esds
+    );
+
+    const stbl = box('stbl',
+      fullBox('stsd', 0, 0, u32(1), mp4a),
+      stts(this.audioSamples.map(() => AAC_FRAME_SIZE)),
+      stsc(this.audioSamples.length),
+      stsz(this.audioSamples),
+      fullBox('stco', 0, 0, u32(1), u32(offset))
+    );
+
+    return box('trak',
+      this.tkhd(2, durationUs, true),
+      this.mdia(sampleRate, this.audioSamples.length * AAC_FRAME_SIZE, 'soun', 'SoundHandler',
+        fullBox('smhd', 0, 0, u16(0), u16(0)), stbl)
+    );
+  }
+}
+
+// Run-length (count, delta) pairs
+function stts(deltas: number[]) {
+  const runs: [number, number][] = [];
+  for (const delta of deltas) {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === delta) last[0]++;
+    else runs.push([1, delta]);
+  }
+  return fullBox('stts', 0, 0, u32(runs.length), ...runs.map(([count, delta]) => [...u32(count), ...u32(delta)]));
+}
+
+// Every sample sits in a single chunk
+function stsc(sampleCount: number) {
+  return fullBox('stsc', 0, 0, u32(1), u32(1), u32(sampleCount), u32(1));
+}
+
+function stsz(samples: Mp4Sample[]) {
+  const sizes = new Uint8Array(samples.length * 4);
+  const view = new DataView(sizes.buffer);
+  samples.forEach((s, i) => view.setUint32(i * 4, s.data.length));
+  return fullBox('stsz', 0, 0, u32(0), u32(samples.length), sizes);
+}
+
+function copyChunk(chunk: EncodedVideoChunk | EncodedAudioChunk): Mp4Sample {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return {
+    data,
+    timestamp: chunk.timestamp,
+    duration: chunk.duration ?? 0,
+    keyFrame: chunk.type === 'key',
+  };
+}
+
+function toUint8Array(source: AllowSharedBufferSource): Uint8Array {
+  if (source instanceof ArrayBuffer) return new Uint8Array(source.slice(0));
+  const view = source as ArrayBufferView;
+  return new Uint8Array(view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength));
+}
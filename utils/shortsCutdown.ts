@@ -0,0 +1,142 @@
+/**
+ * Shorts Cutdown
+ * A 30–60 second vertical (9:16) clip of a contiguous span of script items, with burned-in
+ * captions and an optional hook title card, for YouTube Shorts and Instagram Reels.
+ */
+
+import { CastMember, ItemType, SceneDefinition, ScriptItem, ShortsRange, VideoFormat, VideoMode } from '../types';
+import { ShortsHighlightLine } from '../services/geminiService';
+import { Timeline, getVideoSegments } from './timeline';
+import { VideoOverlaySettings, toWebmOverlayOptions } from './videoOverlays';
+import { VideoMotionSettings } from './videoMotion';
+import { VisualizerOptions } from './videoVisualizer';
+import { VideoRenderProgress, createVideo, sliceAudioBuffer } from './audioUtils';
+
+export const SHORTS_MIN_SECONDS = 30;
+export const SHORTS_MAX_SECONDS = 60;
+
+// Batch page toggles (persisted in localStorage)
+export interface ShortsSettings {
+  createInBatch: boolean;   // Pick a highlight with the LLM and render a Short for every job
+  uploadInBatch: boolean;   // Upload the Short next to the full episode
+  hookCard: boolean;
+}
+
+export const DEFAULT_SHORTS_SETTINGS: ShortsSettings = {
+  createInBatch: false,
+  uploadInBatch: false,
+  hookCard: true,
+};
+
+const SETTINGS_KEY = 'shortsCutdown';
+
+export function loadShortsSettings(): ShortsSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_SHORTS_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SHORTS_SETTINGS;
+  } catch {
+    return DEFAULT_SHORTS_SETTINGS;
+  }
+}
+
+export function saveShortsSettings(settings: ShortsSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Speech and SFX lines on the main track, in timeline order (what the LLM and the range picker choose from)
+ */
+export function getShortsLines(timeline: Timeline, items: ScriptItem[]): ShortsHighlightLine[] {
+  return timeline.clips
+    .map(clip => ({ clip, item: items.find(i => i.id === clip.id) }))
+    .filter(({ item }) => item && (item.type === ItemType.SPEECH || item.type === ItemType.SFX))
+    .sort((a, b) => a.clip.start - b.clip.start)
+    .map(({ clip, item }) => ({
+      id: item!.id,
+      speaker: item!.type === ItemType.SPEECH ? item!.character : undefined,
+      text: item!.type === ItemType.SPEECH ? item!.text : `(${item!.sfxDescription || 'SFX'})`,
+      start: clip.start,
+      duration: clip.duration,
+    }));
+}
+
+/**
+ * Time range covering the lines from startId to endId, adjusted to whole lines of
+ * SHORTS_MIN_SECONDS to SHORTS_MAX_SECONDS: a short span takes in the following lines (earlier ones
+ * at the end of the episode), a long one ends after the last line that fits. A single line longer
+ * than the maximum is cut. Returns null when either id is not on the timeline.
+ */
+export function getShortsRange(timeline: Timeline, items: ScriptItem[], startId: string, endId: string): ShortsRange | null {
+  const lines = getShortsLines(timeline, items);
+  let first = lines.findIndex(l => l.id === startId);
+  let last = lines.findIndex(l => l.id === endId);
+  if (first < 0 || last < 0) return null;
+  if (first > last) [first, last] = [last, first];
+
+  const spanStart = () => lines[first].start;
+  const spanEnd = () => Math.max(...lines.slice(first, last + 1).map(l => l.start + l.duration));
+
+  while (spanEnd() - spanStart() < SHORTS_MIN_SECONDS && last < lines.length - 1) last++;
+  while (spanEnd() - spanStart() < SHORTS_MIN_SECONDS && first > 0) first--;
+  while (spanEnd() - spanStart() > SHORTS_MAX_SECONDS && last > first) last--;
+
+  const start = spanStart();
+  return {
+    startId: lines[first].id,
+    endId: lines[last].id,
+    start,
+    end: Math.min(spanEnd(), start + SHORTS_MAX_SECONDS),
+  };
+}
+
+export interface ShortsClipOptions {
+  format: VideoFormat;
+  overlays: VideoOverlaySettings;   // Captions are always burned in
+  motion?: VideoMotionSettings;
+  mode?: VideoMode;
+  visualizer?: VisualizerOptions;
+  cover?: string;
+  scenes?: SceneDefinition[];
+  cast?: CastMember[];
+  onProgress?: (progress: VideoRenderProgress) => void;
+}
+
+/**
+ * Render the 9:16 clip from the mastered episode audio
+ */
+export async function renderShortsClip(
+  audio: AudioBuffer,
+  timeline: Timeline,
+  items: ScriptItem[],
+  range: ShortsRange,
+  options: ShortsClipOptions
+): Promise<Blob> {
+  const { start, end } = range;
+  const clipAudio = sliceAudioBuffer(audio, start, end);
+
+  // Segments and captions shifted onto the clip's own clock
+  const segments = getVideoSegments(timeline, items, options.cover || '', { scenes: options.scenes, cast: options.cast })
+    .filter(s => s.start + s.duration > start && s.start < end)
+    .map(s => {
+      const segStart = Math.max(s.start, start);
+      return { ...s, start: segStart - start, duration: Math.min(s.start + s.duration, end) - segStart };
+    });
+
+  const overlays = toWebmOverlayOptions({ ...options.overlays, captions: true }, timeline, items);
+  overlays.captions = overlays.captions
+    ?.filter(c => c.end > start && c.start < end)
+    .map(c => ({ ...c, start: Math.max(0, c.start - start), end: Math.min(end, c.end) - start }));
+  overlays.hookTitle = range.hookTitle || undefined;
+  overlays.sceneTitles = false; // The hook card takes the title slot
+
+  return createVideo(clipAudio, segments, options.cover, options.format, {
+    resolution: '1080p',
+    quality: 'high',
+    orientation: 'portrait',
+    overlays,
+    motion: options.motion,
+    mode: options.mode,
+    visualizer: options.visualizer,
+    onProgress: options.onProgress,
+  });
+}
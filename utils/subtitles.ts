@@ -0,0 +1,218 @@
+/**
+ * Subtitles
+ * SRT / WebVTT captions built from the rendered timeline, so cue times match the exported audio.
+ */
+
+import { CastMember, ItemType, ScriptItem } from '../types';
+import { Timeline } from './timeline';
+
+// 字幕長度設定 (common broadcast guidelines)
+const CJK_LINE_LENGTH = 16;
+const LATIN_LINE_LENGTH = 42;
+const MAX_LINES_PER_CUE = 2;
+
+// Speaker colors for VTT styling, assigned in cast order
+const SPEAKER_COLORS = ['#fde047', '#67e8f9', '#86efac', '#f9a8d4', '#c4b5fd', '#fdba74', '#93c5fd', '#fca5a5'];
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+const CJK_BREAK_AFTER = /[，。！？、；：…—,.!?;:]/;
+
+export interface SubtitleCue {
+  start: number;  // Seconds on the timeline
+  end: number;
+  speaker?: string;
+  lines: string[];
+}
+
+export interface SubtitleOptions {
+  speakerLabels?: boolean;  // Prefix each cue with "Name: "
+  styleSpeakers?: boolean;  // VTT only: voice spans with a color per character
+  cast?: CastMember[];      // Speaker color order
+}
+
+export interface SubtitleFiles {
+  srt: string;
+  vtt: string;
+  json?: string;  // Podcasting 2.0 JSON transcript
+}
+
+/**
+ * Split caption text into display lines.
+ * Latin text wraps on spaces; CJK text prefers to break after punctuation and never
+ * starts a line with a punctuation mark.
+ */
+export function splitSubtitleLines(text: string, maxLength?: number): string[] {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return [];
+
+  const cjkCount = Array.from(clean).filter(c => CJK_CHAR.test(c)).length;
+  const isCjk = cjkCount / clean.length > 0.3;
+  const limit = maxLength ?? (isCjk ? CJK_LINE_LENGTH : LATIN_LINE_LENGTH);
+
+  return isCjk ? splitCjk(clean, limit) : splitLatin(clean, limit);
+}
+
+function splitLatin(text: string, limit: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    if (line && line.length + 1 + word.length > limit) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function splitCjk(text: string, limit: number): string[] {
+  const chars = Array.from(text);
+  const lines: string[] = [];
+  let line: string[] = [];
+
+  for (let i = 0; i < chars.length; i++) {
+    line.push(chars[i]);
+    const next = chars[i + 1];
+    if (line.length < limit || next === undefined || CJK_BREAK_AFTER.test(next)) continue;
+
+    // Break after the last punctuation in the second half of the line, else at the limit
+    let cut = line.length;
+    for (let j = line.length - 1; j >= Math.floor(limit / 2); j--) {
+      if (CJK_BREAK_AFTER.test(line[j])) {
+        cut = j + 1;
+        break;
+      }
+    }
+    lines.push(line.slice(0, cut).join('').trim());
+    line = line.slice(cut);
+  }
+  if (line.length > 0) lines.push(line.join('').trim());
+  return lines.filter(Boolean);
+}
+
+// Drop inline delivery tags such as [whispers]
+export const spokenText = (item: ScriptItem) => (item.text || '').replace(/\[[^\]]*\]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * One or more cues per speech clip. Long lines are grouped into cues of up to two lines,
+ * and the clip's time is shared between them by text length.
+ */
+export function buildSubtitleCues(timeline: Timeline, items: ScriptItem[], options: SubtitleOptions = {}): SubtitleCue[] {
+  const { speakerLabels = true } = options;
+  const cues: SubtitleCue[] = [];
+
+  for (const clip of timeline.clips) {
+    const item = items.find(i => i.id === clip.id);
+    if (!item || item.type !== ItemType.SPEECH) continue;
+
+    const text = spokenText(item);
+    const label = speakerLabels && item.character ? `${item.character}: ` : '';
+    const lines = splitSubtitleLines(label + text);
+    if (lines.length === 0) continue;
+
+    const groups: string[][] = [];
+    for (let i = 0; i < lines.length; i += MAX_LINES_PER_CUE) {
+      groups.push(lines.slice(i, i + MAX_LINES_PER_CUE));
+    }
+
+    const totalChars = lines.reduce((sum, l) => sum + l.length, 0);
+    let start = clip.start;
+    for (const group of groups) {
+      const share = group.reduce((sum, l) => sum + l.length, 0) / totalChars;
+      const end = start + clip.duration * share;
+      cues.push({ start, end, speaker: item.character, lines: group });
+      start = end;
+    }
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+// 00:01:02,345 (SRT) / 00:01:02.345 (VTT)
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues.map((cue, idx) => [
+    idx + 1,
+    `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+    ...cue.lines,
+  ].join('\n')).join('\n\n') + '\n';
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toVtt(cues: SubtitleCue[], options: SubtitleOptions = {}): string {
+  const { styleSpeakers = true, cast = [] } = options;
+  const blocks = ['WEBVTT'];
+
+  if (styleSpeakers) {
+    const speakers = Array.from(new Set([
+      ...cast.map(c => c.name),
+      ...cues.map(c => c.speaker).filter((s): s is string => !!s),
+    ]));
+    const rules = speakers
+      .filter(name => cues.some(c => c.speaker === name))
+      .map(name => {
+        const color = SPEAKER_COLORS[speakers.indexOf(name) % SPEAKER_COLORS.length];
+        return `::cue(v[voice="${name.replace(/["\\]/g, '\\$&')}"]) { color: ${color}; }`;
+      });
+    if (rules.length > 0) blocks.push(`STYLE\n${rules.join('\n')}`);
+  }
+
+  cues.forEach(cue => {
+    const text = escapeVtt(cue.lines.join('\n'));
+    const body = styleSpeakers && cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${text}</v>` : text;
+    blocks.push(`${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${body}`);
+  });
+
+  return blocks.join('\n\n') + '\n';
+}
+
+// Speech clips with text, in timeline order
+function transcriptSegments(timeline: Timeline, items: ScriptItem[]) {
+  return timeline.clips
+    .map(clip => ({ clip, item: items.find(i => i.id === clip.id) }))
+    .filter(({ item }) => item?.type === ItemType.SPEECH && spokenText(item))
+    .sort((a, b) => a.clip.start - b.clip.start)
+    .map(({ clip, item }) => ({ clip, speaker: item!.character, body: spokenText(item!) }));
+}
+
+/**
+ * Podcasting 2.0 JSON transcript: one segment per speech clip with its speaker (not split for display)
+ */
+export function toTranscriptJson(timeline: Timeline, items: ScriptItem[]): string {
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  const segments = transcriptSegments(timeline, items).map(({ clip, speaker, body }) => ({
+    ...(speaker && { speaker }),
+    startTime: round(clip.start),
+    endTime: round(clip.start + clip.duration),
+    body,
+  }));
+  return JSON.stringify({ version: '1.0.0', segments }, null, 2);
+}
+
+/**
+ * Plain-text transcript ("Speaker: line" per speech clip), e.g. for the MP3 lyrics tag
+ */
+export function toPlainTranscript(timeline: Timeline, items: ScriptItem[]): string {
+  return transcriptSegments(timeline, items)
+    .map(({ speaker, body }) => (speaker ? `${speaker}: ${body}` : body))
+    .join('\n');
+}
+
+/**
+ * SRT and WebVTT captions, and the JSON transcript, for a timeline
+ */
+export function generateSubtitles(timeline: Timeline, items: ScriptItem[], options: SubtitleOptions = {}): SubtitleFiles {
+  const cues = buildSubtitleCues(timeline, items, options);
+  return { srt: toSrt(cues), vtt: toVtt(cues, options), json: toTranscriptJson(timeline, items) };
+}
@@ -0,0 +1,28 @@
+/**
+ * Tag Matching
+ * Whole-word tag lookup shared by the SFX library matchers (local library and sound library provider).
+ */
+
+import { hasCjk } from './language';
+
+export type TagMatcher = (text: string) => boolean;
+
+/**
+ * Matcher for one tag. Latin tags must be whole words, case-insensitive ("car" is not in "carpet");
+ * CJK is written without spaces, so those tags match anywhere in the text.
+ */
+export function compileTagMatcher(tag: string): TagMatcher {
+  if (hasCjk(tag)) return text => text.includes(tag);
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu');
+  return text => pattern.test(text);
+}
+
+// Compiled matchers by tag, for callers that do not keep their own
+const matcherCache = new Map<string, TagMatcher>();
+
+export function containsTag(text: string, tag: string): boolean {
+  let matcher = matcherCache.get(tag);
+  if (!matcher) matcherCache.set(tag, matcher = compileTagMatcher(tag));
+  return matcher(text);
+}
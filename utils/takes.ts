@@ -0,0 +1,97 @@
+/**
+ * Take helpers
+ * A script item keeps every synthesis result as a take; audioBuffer / audioKey / audioFormat
+ * on the item mirror the selected take so playback, timeline and export need no changes.
+ */
+
+import { AudioTake, ScriptItem } from '../types';
+import { saveItemAudioBase64, loadItemAudioBase64, generateTakeAudioKey } from '../services/batchStorageService';
+import { decodeRawPCM, decodeAudioFile } from './audioUtils';
+
+type TakeSource = Pick<AudioTake, 'providerId' | 'voice' | 'prompt' | 'text'>;
+
+/**
+ * Persist a new take's audio in IndexedDB and return the take
+ */
+export async function createTake(
+    itemId: string,
+    source: TakeSource,
+    audioBase64: string,
+    audioFormat: AudioTake['audioFormat']
+): Promise<AudioTake> {
+    const id = crypto.randomUUID();
+    const audioKey = generateTakeAudioKey(itemId, id);
+    await saveItemAudioBase64(audioKey, audioBase64);
+    return { id, ...source, createdAt: Date.now(), audioKey, audioFormat };
+}
+
+/**
+ * Item fields that make a take the selected one. Trim points are in seconds into the previous
+ * take's audio, so they are cleared; gain and fades still apply to any take.
+ */
+export function selectTake(take: AudioTake): Partial<ScriptItem> {
+    return {
+        selectedTakeId: take.id,
+        audioBuffer: take.audioBuffer ?? null,
+        audioKey: take.audioKey,
+        audioFormat: take.audioFormat,
+        trimStart: undefined,
+        trimEnd: undefined,
+    };
+}
+
+/**
+ * Item fields after appending a take (the new take becomes the selected one)
+ */
+export function appendTake(item: ScriptItem, take: AudioTake): Partial<ScriptItem> {
+    return { takes: [...(item.takes || []), take], ...selectTake(take) };
+}
+
+export function getSelectedTake(item: ScriptItem): AudioTake | undefined {
+    return item.takes?.find(t => t.id === item.selectedTakeId);
+}
+
+/**
+ * Whether a take was produced from the same line, voice and prompt (so it can be reused as-is)
+ */
+export function takeMatches(take: AudioTake | undefined, source: TakeSource): boolean {
+    return !!take
+        && take.providerId === source.providerId
+        && (take.voice || '') === (source.voice || '')
+        && (take.prompt || '') === (source.prompt || '')
+        && take.text === source.text;
+}
+
+/**
+ * Load and decode a take's audio from IndexedDB
+ */
+export async function decodeTake(take: AudioTake, ctx: AudioContext): Promise<AudioBuffer | null> {
+    const base64 = await loadItemAudioBase64(take.audioKey);
+    if (!base64) return null;
+    return take.audioFormat === 'pcm' ? decodeRawPCM(base64, ctx) : decodeAudioFile(base64, ctx);
+}
+
+/**
+ * Decode every take of an item; the item's audioBuffer follows the selected take
+ */
+export async function loadItemTakes(item: ScriptItem, ctx: AudioContext): Promise<ScriptItem> {
+    if (!item.takes?.length) return item;
+
+    const takes = await Promise.all(item.takes.map(async take => {
+        try {
+            return { ...take, audioBuffer: await decodeTake(take, ctx) };
+        } catch (e) {
+            console.error('[Takes] Failed to load take:', take.audioKey, e);
+            return take;
+        }
+    }));
+    const selected = takes.find(t => t.id === item.selectedTakeId);
+    return { ...item, takes, audioBuffer: selected?.audioBuffer ?? item.audioBuffer };
+}
+
+/**
+ * Drop decoded buffers before saving (takes are restored from their audioKey)
+ */
+export function stripTakeBuffers(takes?: AudioTake[]): AudioTake[] | undefined {
+    return takes?.map(({ audioBuffer, ...take }) => take);
+}
@@ -0,0 +1,411 @@
+/**
+ * Multitrack Timeline
+ * Lays script items out on lanes and renders them through Web Audio.
+ * Used by the Player, WAV/MP3 export, WebM video and batch file generation.
+ */
+
+import { ItemType, ScriptItem, SceneDefinition, CastMember, PacingSettings, DEFAULT_PACING_SETTINGS, VideoMotion, VideoTransition } from '../types';
+
+// Track 0 is the main dialogue lane; it advances the timeline cursor.
+// Clips on other tracks are layered at the cursor without pushing it forward.
+export const MAIN_TRACK = 0;
+
+// Scene ambience/music beds live on their own lane underneath everything else.
+export const BED_TRACK = -1;
+
+export const EXPORT_SAMPLE_RATE = 44100;
+
+// 場景音效床設定
+export const DEFAULT_BED_GAIN = 0.4;
+const BED_CROSSFADE = 1.5;   // Seconds of overlap between beds at a scene change
+const BED_DUCK_LEVEL = 0.35; // Bed level multiplier while someone is speaking
+const BED_DUCK_RAMP = 0.2;   // Seconds to duck down / recover
+
+// 空間定位設定
+const DISTANCE_ATTENUATION = 0.6;  // Gain lost at distance 1
+const DISTANCE_MIN_CUTOFF = 3000;  // Lowpass cutoff (Hz) at distance 1
+const DISTANCE_REVERB = 0.35;      // Extra reverb send at distance 1
+const REVERB_SECONDS = 1.8;
+
+export interface TimelineClip {
+  id: string;           // ScriptItem id
+  buffer: AudioBuffer;
+  start: number;        // Seconds from the beginning of the timeline
+  offset: number;       // Seconds into the buffer where playback begins (trim in point)
+  duration: number;
+  track: number;
+  gain: number;
+  fadeIn: number;
+  fadeOut: number;
+  pan: number;          // -1 .. 1
+  distance: number;     // 0 .. 1
+  reverb: number;       // 0 .. 1 send level
+  speech?: boolean;                        // Dialogue (the only clips mastering matches in loudness)
+  loop?: boolean;                          // Loop the buffer to fill the clip duration (scene beds)
+  duck?: { start: number; end: number }[]; // Clip-relative ranges where the clip is ducked under speech
+}
+
+export interface Timeline {
+  clips: TimelineClip[];
+  duration: number;
+}
+
+export interface TimelineOptions {
+  includeSfx?: boolean;
+  scenes?: SceneDefinition[]; // Scenes with a decoded audioBuffer get a bed under their items
+  cast?: CastMember[];        // Default stereo placement per character
+  pacing?: PacingSettings;    // Gaps between main-track clips
+}
+
+/**
+ * Place every item that has audio on the timeline.
+ * Main-track clips are separated by the pacing gap (or the previous item's pauseAfter)
+ * plus their own pauseBefore; each clip then starts at the cursor plus its startOffset.
+ */
+export function buildTimeline(items: ScriptItem[], options: TimelineOptions = {}): Timeline {
+  const { includeSfx = true, scenes = [], cast = [], pacing = DEFAULT_PACING_SETTINGS } = options;
+  const clips: TimelineClip[] = [];
+  const locations: (string | undefined)[] = []; // Scene of each main-track clip
+  const speech: { start: number; end: number }[] = [];
+  let cursor = 0;
+  let location: string | undefined;
+  let prevMain: { item: ScriptItem; location: string | undefined } | null = null;
+
+  for (const item of items) {
+    // Items without a location stay in the current scene
+    location = item.location || location;
+
+    if (!item.audioBuffer) continue;
+    if (item.type === ItemType.SFX && !includeSfx) continue;
+
+    const buffer = item.audioBuffer;
+    const track = item.track ?? MAIN_TRACK;
+    const region = getClipRegion(item, buffer);
+
+    if (track === MAIN_TRACK) {
+      if (prevMain) {
+        const defaultGap = prevMain.location !== location ? pacing.sceneChangeGap : pacing.lineGap;
+        cursor += Math.max(0, prevMain.item.pauseAfter ?? defaultGap);
+      }
+      cursor += Math.max(0, item.pauseBefore ?? 0);
+      prevMain = { item, location };
+    }
+
+    const start = Math.max(0, cursor + (item.startOffset ?? 0));
+
+    if (track === MAIN_TRACK) locations.push(location);
+    if (item.type === ItemType.SPEECH) speech.push({ start, end: start + region.duration });
+
+    const member = item.character ? cast.find(c => c.name === item.character) : undefined;
+
+    clips.push({
+      id: item.id,
+      buffer,
+      start,
+      offset: region.offset,
+      duration: region.duration,
+      track,
+      gain: item.gain ?? 1,
+      fadeIn: Math.max(0, item.fadeIn ?? 0),
+      fadeOut: Math.max(0, item.fadeOut ?? 0),
+      pan: clamp(item.pan ?? member?.pan ?? 0, -1, 1),
+      distance: clamp(item.distance ?? member?.distance ?? 0, 0, 1),
+      reverb: clamp(item.reverb ?? member?.reverb ?? 0, 0, 1),
+      speech: item.type === ItemType.SPEECH,
+    });
+
+    if (track === MAIN_TRACK) {
+      cursor = Math.max(cursor, start + region.duration);
+    }
+  }
+
+  const mainClips = clips.filter(c => c.track === MAIN_TRACK);
+  clips.push(...layoutSceneBeds(mainClips, locations, speech, scenes));
+
+  const duration = clips.reduce((acc, c) => Math.max(acc, c.start + c.duration), 0);
+  return { clips, duration };
+}
+
+/**
+ * The trimmed part of an item's audio. Trim points are clamped to the buffer,
+ * and an out point at or before the in point falls back to the end of the buffer.
+ */
+export function getClipRegion(
+  item: Pick<ScriptItem, 'trimStart' | 'trimEnd'>,
+  buffer: AudioBuffer
+): { offset: number; duration: number } {
+  const offset = clamp(item.trimStart ?? 0, 0, buffer.duration);
+  let end = clamp(item.trimEnd ?? buffer.duration, 0, buffer.duration);
+  if (end <= offset) end = buffer.duration;
+  return { offset, duration: end - offset };
+}
+
+/**
+ * One looping bed clip per run of consecutive main-track clips in the same scene.
+ * A bed lasts until the next scene starts and crossfades into it, ducking under speech.
+ */
+function layoutSceneBeds(
+  mainClips: TimelineClip[],
+  locations: (string | undefined)[],
+  speech: { start: number; end: number }[],
+  scenes: SceneDefinition[]
+): TimelineClip[] {
+  const beds: TimelineClip[] = [];
+  let runStart = 0;
+
+  for (let i = 0; i < mainClips.length; i++) {
+    const isRunEnd = i === mainClips.length - 1 || locations[i + 1] !== locations[i];
+    if (!isRunEnd) continue;
+
+    const firstClip = mainClips[runStart];
+    const next = mainClips[i + 1];
+    const runEnd = next ? next.start : mainClips[i].start + mainClips[i].duration;
+    const scene = scenes.find(s => s.name === locations[i]);
+    runStart = i + 1;
+
+    if (!scene?.audioBuffer) continue;
+
+    const start = Math.max(0, firstClip.start - BED_CROSSFADE / 2);
+    const end = runEnd + BED_CROSSFADE / 2;
+    const duck = speech
+      .filter(r => r.end > start && r.start < end)
+      .map(r => ({ start: Math.max(0, r.start - start), end: Math.min(end, r.end) - start }));
+
+    beds.push({
+      id: `bed_${scene.id}_${beds.length}`,
+      buffer: scene.audioBuffer,
+      start,
+      offset: 0,
+      duration: end - start,
+      track: BED_TRACK,
+      gain: scene.audioGain ?? DEFAULT_BED_GAIN,
+      fadeIn: BED_CROSSFADE,
+      fadeOut: BED_CROSSFADE,
+      pan: 0,
+      distance: 0,
+      reverb: 0,
+      loop: true,
+      duck,
+    });
+  }
+
+  return beds;
+}
+
+/**
+ * Schedule all clips of a timeline on an audio context.
+ * @param when - Context time at which the timeline starts
+ * @returns The scheduled source nodes (so callers can stop them)
+ */
+export function scheduleTimeline(
+  ctx: BaseAudioContext,
+  timeline: Timeline,
+  destination: AudioNode,
+  when: number = 0
+): AudioBufferSourceNode[] {
+  // Shared reverb bus, only built when some clip sends to it
+  const needsReverb = timeline.clips.some(c => reverbSend(c) > 0);
+  const reverbBus = needsReverb ? createReverbBus(ctx, destination) : null;
+
+  return timeline.clips.map(clip => {
+    const source = ctx.createBufferSource();
+    source.buffer = clip.buffer;
+    source.loop = !!clip.loop;
+
+    const gainNode = ctx.createGain();
+    applyClipEnvelope(gainNode.gain, clip, when + clip.start);
+    connectSpatial(ctx, gainNode, clip, destination, reverbBus);
+
+    if (clip.duck && clip.duck.length > 0) {
+      const duckNode = ctx.createGain();
+      applyDucking(duckNode.gain, clip.duck, when + clip.start);
+      source.connect(duckNode);
+      duckNode.connect(gainNode);
+    } else {
+      source.connect(gainNode);
+    }
+
+    if (clip.loop) {
+      source.start(when + clip.start);
+      source.stop(when + clip.start + clip.duration);
+    } else {
+      source.start(when + clip.start, clip.offset, clip.duration);
+    }
+    return source;
+  });
+}
+
+// Gain + fade automation for one clip. Fades are clamped so they never overlap.
+function applyClipEnvelope(param: AudioParam, clip: TimelineClip, t0: number) {
+  const fadeIn = Math.min(clip.fadeIn, clip.duration / 2);
+  const fadeOut = Math.min(clip.fadeOut, clip.duration / 2);
+  const end = t0 + clip.duration;
+
+  if (fadeIn > 0) {
+    param.setValueAtTime(0, t0);
+    param.linearRampToValueAtTime(clip.gain, t0 + fadeIn);
+  } else {
+    param.setValueAtTime(clip.gain, t0);
+  }
+
+  if (fadeOut > 0) {
+    param.setValueAtTime(clip.gain, end - fadeOut);
+    param.linearRampToValueAtTime(0, end);
+  }
+}
+
+// Place a clip in the stereo field: distance -> lowpass + attenuation, then pan, plus a reverb send
+function connectSpatial(
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  clip: TimelineClip,
+  destination: AudioNode,
+  reverbBus: AudioNode | null
+) {
+  let node: AudioNode = input;
+
+  if (clip.distance > 0) {
+    const air = ctx.createBiquadFilter();
+    air.type = 'lowpass';
+    air.frequency.value = 20000 - (20000 - DISTANCE_MIN_CUTOFF) * clip.distance;
+    const attenuation = ctx.createGain();
+    attenuation.gain.value = 1 - DISTANCE_ATTENUATION * clip.distance;
+    node.connect(air);
+    air.connect(attenuation);
+    node = attenuation;
+  }
+
+  if (clip.pan !== 0) {
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = clip.pan;
+    node.connect(panner);
+    node = panner;
+  }
+
+  node.connect(destination);
+
+  const send = reverbSend(clip);
+  if (reverbBus && send > 0) {
+    const sendGain = ctx.createGain();
+    sendGain.gain.value = send;
+    node.connect(sendGain);
+    sendGain.connect(reverbBus);
+  }
+}
+
+function reverbSend(clip: TimelineClip): number {
+  return Math.min(1, clip.reverb + DISTANCE_REVERB * clip.distance);
+}
+
+// Convolution reverb with a synthetic stereo impulse (decaying noise, decorrelated per channel)
+function createReverbBus(ctx: BaseAudioContext, destination: AudioNode): AudioNode {
+  const length = Math.floor(ctx.sampleRate * REVERB_SECONDS);
+  const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let ch = 0; ch < 2; ch++) {
+    const data = impulse.getChannelData(ch);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 3);
+    }
+  }
+
+  const convolver = ctx.createConvolver();
+  convolver.buffer = impulse;
+  convolver.connect(destination);
+  return convolver;
+}
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// Dip to BED_DUCK_LEVEL over each range; ranges closer than two ramps are merged
+function applyDucking(param: AudioParam, ranges: { start: number; end: number }[], t0: number) {
+  const merged: { start: number; end: number }[] = [];
+  for (const r of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && r.start - last.end < BED_DUCK_RAMP * 2) {
+      last.end = Math.max(last.end, r.end);
+    } else {
+      merged.push({ ...r });
+    }
+  }
+
+  param.setValueAtTime(1, t0);
+  for (const r of merged) {
+    const downAt = t0 + Math.max(0, r.start - BED_DUCK_RAMP);
+    param.setValueAtTime(1, downAt);
+    param.linearRampToValueAtTime(BED_DUCK_LEVEL, Math.max(downAt, t0 + r.start));
+    param.setValueAtTime(BED_DUCK_LEVEL, t0 + r.end);
+    param.linearRampToValueAtTime(1, t0 + r.end + BED_DUCK_RAMP);
+  }
+}
+
+/**
+ * Mix a timeline down to a single AudioBuffer
+ */
+export async function renderTimeline(
+  timeline: Timeline,
+  sampleRate: number = EXPORT_SAMPLE_RATE
+): Promise<AudioBuffer> {
+  if (timeline.clips.length === 0) {
+    throw new Error('No audio on the timeline to render');
+  }
+
+  // Stereo master; reverb tails ring past the last clip
+  const hasReverb = timeline.clips.some(c => reverbSend(c) > 0);
+  const length = Math.ceil((timeline.duration + (hasReverb ? REVERB_SECONDS : 0)) * sampleRate);
+  const offlineCtx = new OfflineAudioContext(2, length, sampleRate);
+  scheduleTimeline(offlineCtx, timeline, offlineCtx.destination);
+  return await offlineCtx.startRendering();
+}
+
+export interface VideoSegment {
+  itemId: string;
+  imageBase64: string;       // Item image, or the default image when the item has none
+  start: number;
+  duration: number;
+  speaker?: string;
+  location?: string;
+  motion?: VideoMotion;      // Item presets (empty = automatic)
+  transition?: VideoTransition;
+  backgroundBase64?: string;
+  foregroundBase64?: string;
+}
+
+/**
+ * Visual segments for video: one per main-track clip, held until the next one starts
+ */
+export function getVideoSegments(
+  timeline: Timeline,
+  items: ScriptItem[],
+  defaultImage: string,
+  layers: { scenes?: SceneDefinition[]; cast?: CastMember[] } = {}
+): VideoSegment[] {
+  const { scenes = [], cast = [] } = layers;
+  const mainClips = timeline.clips.filter(c => c.track === MAIN_TRACK);
+
+  // Items without a location stay in the current scene
+  const locations = new Map<string, string | undefined>();
+  let location: string | undefined;
+  for (const item of items) {
+    location = item.location || location;
+    locations.set(item.id, location);
+  }
+
+  return mainClips.map((clip, idx) => {
+    const next = mainClips[idx + 1];
+    const end = next ? next.start : timeline.duration;
+    const item = items.find(i => i.id === clip.id);
+    return {
+      itemId: clip.id,
+      imageBase64: item?.imageBase64 || defaultImage,
+      start: clip.start,
+      duration: Math.max(0, end - clip.start),
+      speaker: item?.type === ItemType.SPEECH ? item.character : undefined,
+      location: locations.get(clip.id),
+      motion: item?.motion,
+      transition: item?.transition,
+      // Scene and character images for the parallax preset
+      backgroundBase64: scenes.find(sc => sc.name === locations.get(clip.id))?.imageBase64,
+      foregroundBase64: item?.character ? cast.find(c => c.name === item.character)?.imageBase64 : undefined,
+    };
+  });
+}
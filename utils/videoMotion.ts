@@ -0,0 +1,180 @@
+/**
+ * Video Motion
+ * Ken Burns motion presets and transitions between dialogue images for createDynamicWebmVideo.
+ */
+
+import { VideoMotion, VideoTransition } from '../types';
+
+// Motion and transition settings used by the publish section and batch mode (persisted in localStorage)
+export interface VideoMotionSettings {
+  motion: boolean;
+  transitions: boolean;
+  sceneTransition: VideoTransition;  // Automatic transition at a location change
+  lineTransition: VideoTransition;   // Automatic transition within a scene
+  transitionDuration: number;        // Seconds
+}
+
+export const DEFAULT_VIDEO_MOTION_SETTINGS: VideoMotionSettings = {
+  motion: true,
+  transitions: true,
+  sceneTransition: 'dip-to-black',
+  lineTransition: 'crossfade',
+  transitionDuration: 0.6,
+};
+
+export const VIDEO_MOTION_LABELS: Record<VideoMotion, string> = {
+  'none': 'Still',
+  'pan-left': 'Pan Left',
+  'pan-right': 'Pan Right',
+  'zoom-in': 'Zoom In',
+  'zoom-out': 'Zoom Out',
+  'parallax': 'Parallax',
+};
+
+export const VIDEO_TRANSITION_LABELS: Record<VideoTransition, string> = {
+  'cut': 'Cut',
+  'crossfade': 'Crossfade',
+  'dip-to-black': 'Dip to Black',
+  'slide': 'Slide',
+};
+
+const SETTINGS_KEY = 'videoMotion';
+
+// Automatic motion cycles through these so consecutive images move differently
+const AUTO_MOTIONS: VideoMotion[] = ['zoom-in', 'pan-right', 'zoom-out', 'pan-left'];
+
+const MOTION_ZOOM = 0.12;      // Extra scale for zoom / pan presets
+const PARALLAX_SHIFT = 0.03;   // Background drift as a fraction of the frame width
+const FOREGROUND_SHIFT = 0.08; // Foreground drift (moves further, so it reads as closer)
+
+export function loadVideoMotionSettings(): VideoMotionSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_VIDEO_MOTION_SETTINGS, ...JSON.parse(saved) } : DEFAULT_VIDEO_MOTION_SETTINGS;
+  } catch {
+    return DEFAULT_VIDEO_MOTION_SETTINGS;
+  }
+}
+
+export function saveVideoMotionSettings(settings: VideoMotionSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Motion for a segment: the item's preset, else parallax when there are separate
+ * scene and character layers, else the next preset in the automatic cycle
+ */
+export function pickMotion(index: number, preset?: VideoMotion, hasLayers = false): VideoMotion {
+  if (preset) return preset;
+  if (hasLayers) return 'parallax';
+  return AUTO_MOTIONS[index % AUTO_MOTIONS.length];
+}
+
+/**
+ * Transition into a segment: the item's choice, else the scene or line default
+ */
+export function pickTransition(
+  settings: Pick<VideoMotionSettings, 'sceneTransition' | 'lineTransition'>,
+  isSceneChange: boolean,
+  preset?: VideoTransition
+): VideoTransition {
+  if (preset) return preset;
+  return isSceneChange ? settings.sceneTransition : settings.lineTransition;
+}
+
+export interface MotionLayers {
+  image: HTMLImageElement | null;       // Main image (background for parallax)
+  foreground?: HTMLImageElement | null; // Character layer for parallax
+}
+
+/**
+ * Draw one segment's image(s) with its motion applied.
+ * @param progress - 0 at the start of the segment, 1 at its end (may run past 1 during a transition)
+ */
+export function drawMotionFrame(
+  ctx: CanvasRenderingContext2D,
+  layers: MotionLayers,
+  motion: VideoMotion,
+  progress: number
+) {
+  const { width, height } = ctx.canvas;
+  const p = Math.max(0, progress);
+
+  // Parallax needs a foreground layer; without one it falls back to a zoom
+  const effective = motion === 'parallax' && !layers.foreground ? 'zoom-in' : motion;
+
+  let zoom = 1;
+  let shiftX = 0;
+  switch (effective) {
+    case 'zoom-in': zoom = 1 + MOTION_ZOOM * p; break;
+    case 'zoom-out': zoom = 1 + MOTION_ZOOM * (1 - p); break;
+    case 'pan-left': zoom = 1 + MOTION_ZOOM; shiftX = (0.5 - p) * MOTION_ZOOM * width; break;
+    case 'pan-right': zoom = 1 + MOTION_ZOOM; shiftX = (p - 0.5) * MOTION_ZOOM * width; break;
+    case 'parallax': zoom = 1 + MOTION_ZOOM / 2; shiftX = (0.5 - p) * PARALLAX_SHIFT * width; break;
+  }
+
+  if (layers.image) drawFitted(ctx, layers.image, zoom, shiftX);
+
+  if (effective === 'parallax' && layers.foreground) {
+    // Character stands in the lower right third and drifts the other way
+    const img = layers.foreground;
+    const scale = (height * 0.75) / img.height;
+    const w = img.width * scale;
+    const x = width * 0.62 - w / 2 + (p - 0.5) * FOREGROUND_SHIFT * width;
+    ctx.drawImage(img, x, height - img.height * scale, w, img.height * scale);
+  }
+}
+
+// Fit the whole image in the frame (as the still slideshow did), then zoom and shift it
+function drawFitted(ctx: CanvasRenderingContext2D, img: HTMLImageElement, zoom: number, shiftX: number) {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / img.width, height / img.height) * zoom;
+  const w = img.width * scale;
+  const h = img.height * scale;
+  ctx.drawImage(img, (width - w) / 2 + shiftX, (height - h) / 2, w, h);
+}
+
+/**
+ * Draw the frame during a transition from the previous segment to the next one.
+ * @param t - 0 at the start of the transition, 1 at its end
+ */
+export function drawTransitionFrame(
+  ctx: CanvasRenderingContext2D,
+  transition: VideoTransition,
+  t: number,
+  drawPrevious: () => void,
+  drawNext: () => void
+) {
+  const { width, height } = ctx.canvas;
+  const clear = () => {
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+  };
+  const withState = (alpha: number, offsetX: number, draw: () => void) => {
+    ctx.save();
+    ctx.globalAlpha = Math.min(1, Math.max(0, alpha));
+    ctx.translate(offsetX, 0);
+    draw();
+    ctx.restore();
+  };
+
+  clear();
+  switch (transition) {
+    case 'crossfade':
+      withState(1, 0, drawPrevious);
+      withState(t, 0, drawNext);
+      break;
+    case 'dip-to-black':
+      if (t < 0.5) withState(1 - t * 2, 0, drawPrevious);
+      else withState(t * 2 - 1, 0, drawNext);
+      break;
+    case 'slide': {
+      const eased = t * t * (3 - 2 * t);
+      withState(1, -eased * width, drawPrevious);
+      withState(1, (1 - eased) * width, drawNext);
+      break;
+    }
+    default:
+      drawNext();
+  }
+}
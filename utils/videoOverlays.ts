@@ -0,0 +1,214 @@
+/**
+ * Video Overlays
+ * Burned-in captions, speaker name plates, scene title cards and a progress bar,
+ * drawn on the video canvas every frame while createDynamicWebmVideo records.
+ */
+
+import { ScriptItem } from '../types';
+import { SubtitleCue, buildSubtitleCues, splitSubtitleLines } from './subtitles';
+import { Timeline } from './timeline';
+
+export type OverlayPosition = 'top' | 'bottom';
+
+export interface WebmOverlayStyle {
+  fontFamily?: string;
+  captionSize?: number;          // Font size as a fraction of the video height
+  captionColor?: string;
+  captionBackground?: string;
+  captionPosition?: OverlayPosition;
+  speakerColor?: string;
+  speakerBackground?: string;
+  sceneTitleColor?: string;
+  sceneTitleBackground?: string;
+  progressColor?: string;
+  progressPosition?: OverlayPosition;
+}
+
+export interface WebmOverlayOptions {
+  captions?: SubtitleCue[];  // Burned-in captions (omit to disable)
+  speakerNames?: boolean;    // Name plate from the segment's speaker
+  sceneTitles?: boolean;     // Title card when the segment's location changes
+  progressBar?: boolean;
+  hookTitle?: string;        // Title card over the first seconds (Shorts / Reels hook)
+  style?: WebmOverlayStyle;
+}
+
+// Which overlays the publish section and batch mode turn on (persisted in localStorage)
+export interface VideoOverlaySettings {
+  captions: boolean;
+  speakerNames: boolean;
+  sceneTitles: boolean;
+  progressBar: boolean;
+  captionPosition: OverlayPosition;
+  captionSize: number;
+}
+
+export const DEFAULT_VIDEO_OVERLAY_SETTINGS: VideoOverlaySettings = {
+  captions: true,
+  speakerNames: true,
+  sceneTitles: false,
+  progressBar: false,
+  captionPosition: 'bottom',
+  captionSize: 0.045,
+};
+
+export const DEFAULT_WEBM_OVERLAY_STYLE: Required<WebmOverlayStyle> = {
+  fontFamily: '"Noto Sans TC", "PingFang TC", "Microsoft JhengHei", "Helvetica Neue", Arial, sans-serif',
+  captionSize: 0.045,
+  captionColor: '#ffffff',
+  captionBackground: 'rgba(0, 0, 0, 0.6)',
+  captionPosition: 'bottom',
+  speakerColor: '#ffffff',
+  speakerBackground: 'rgba(147, 51, 234, 0.85)',
+  sceneTitleColor: '#ffffff',
+  sceneTitleBackground: 'rgba(0, 0, 0, 0.55)',
+  progressColor: '#a855f7',
+  progressPosition: 'bottom',
+};
+
+const SETTINGS_KEY = 'videoOverlays';
+const SCENE_TITLE_SECONDS = 3;
+const SCENE_TITLE_FADE = 0.5;
+const HOOK_TITLE_SECONDS = 3;
+
+export function loadVideoOverlaySettings(): VideoOverlaySettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_VIDEO_OVERLAY_SETTINGS, ...JSON.parse(saved) } : DEFAULT_VIDEO_OVERLAY_SETTINGS;
+  } catch {
+    return DEFAULT_VIDEO_OVERLAY_SETTINGS;
+  }
+}
+
+export function saveVideoOverlaySettings(settings: VideoOverlaySettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * WebmOverlayOptions for the saved settings. Captions leave out the speaker label
+ * when the name plate already shows who is talking.
+ */
+export function toWebmOverlayOptions(settings: VideoOverlaySettings, timeline: Timeline, items: ScriptItem[]): WebmOverlayOptions {
+  return {
+    captions: settings.captions ? buildSubtitleCues(timeline, items, { speakerLabels: !settings.speakerNames }) : undefined,
+    speakerNames: settings.speakerNames,
+    sceneTitles: settings.sceneTitles,
+    progressBar: settings.progressBar,
+    style: { captionPosition: settings.captionPosition, captionSize: settings.captionSize },
+  };
+}
+
+export function hasOverlays(options?: WebmOverlayOptions): boolean {
+  return !!options && (!!options.captions?.length || !!options.speakerNames || !!options.sceneTitles || !!options.progressBar || !!options.hookTitle);
+}
+
+export interface OverlayFrame {
+  time: number;            // Seconds from the start of the video
+  duration: number;        // Total video length
+  speaker?: string;
+  sceneTitle?: { text: string; start: number };
+}
+
+/**
+ * Draw every enabled overlay for one frame
+ */
+export function drawVideoOverlays(ctx: CanvasRenderingContext2D, frame: OverlayFrame, options: WebmOverlayOptions) {
+  const style = { ...DEFAULT_WEBM_OVERLAY_STYLE, ...options.style };
+  const { width, height } = ctx.canvas;
+  const margin = Math.round(height * 0.04);
+  const progressHeight = Math.max(4, Math.round(height * 0.008));
+  const fontSize = Math.round(Math.min(width, height) * style.captionSize); // Same text width in portrait
+  const lineHeight = Math.round(fontSize * 1.35);
+  const padding = Math.round(fontSize * 0.4);
+
+  // 字幕
+  const cue = options.captions?.find(c => frame.time >= c.start && frame.time < c.end);
+  let captionTop = style.captionPosition === 'bottom' ? height - margin : margin;
+  if (cue) {
+    ctx.font = `600 ${fontSize}px ${style.fontFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const boxHeight = cue.lines.length * lineHeight + padding;
+    const reserve = options.progressBar && style.progressPosition === style.captionPosition ? progressHeight : 0;
+    captionTop = style.captionPosition === 'bottom'
+      ? height - margin - reserve - boxHeight
+      : margin + reserve;
+
+    cue.lines.forEach((line, idx) => {
+      const y = captionTop + padding / 2 + lineHeight * idx + lineHeight / 2;
+      const textWidth = ctx.measureText(line).width;
+      ctx.fillStyle = style.captionBackground;
+      ctx.fillRect((width - textWidth) / 2 - padding, y - lineHeight / 2, textWidth + padding * 2, lineHeight);
+      ctx.fillStyle = style.captionColor;
+      ctx.fillText(line, width / 2, y);
+    });
+  }
+
+  // 說話者名牌: on the frame side of the caption box
+  if (options.speakerNames && frame.speaker) {
+    const plateSize = Math.round(fontSize * 0.7);
+    ctx.font = `700 ${plateSize}px ${style.fontFamily}`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const plateHeight = Math.round(plateSize * 1.6);
+    const plateWidth = ctx.measureText(frame.speaker).width + plateSize * 1.2;
+    const gap = Math.round(plateSize * 0.4);
+    const y = style.captionPosition === 'bottom'
+      ? (cue ? captionTop - gap - plateHeight : height - margin - plateHeight * 2)
+      : (cue ? captionTop + cue.lines.length * lineHeight + padding + gap : margin + plateHeight);
+    ctx.fillStyle = style.speakerBackground;
+    ctx.fillRect(margin, y, plateWidth, plateHeight);
+    ctx.fillStyle = style.speakerColor;
+    ctx.fillText(frame.speaker, margin + plateSize * 0.6, y + plateHeight / 2);
+  }
+
+  // 場景標題卡 (fades in and out)
+  if (options.sceneTitles && frame.sceneTitle) {
+    const elapsed = frame.time - frame.sceneTitle.start;
+    if (elapsed >= 0 && elapsed < SCENE_TITLE_SECONDS) {
+      const alpha = Math.min(1, elapsed / SCENE_TITLE_FADE, (SCENE_TITLE_SECONDS - elapsed) / SCENE_TITLE_FADE);
+      const titleSize = Math.round(fontSize * 1.4);
+      ctx.save();
+      ctx.globalAlpha = Math.max(0, alpha);
+      ctx.font = `700 ${titleSize}px ${style.fontFamily}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      const titleWidth = ctx.measureText(frame.sceneTitle.text).width + titleSize * 2;
+      const titleHeight = titleSize * 2;
+      const y = style.captionPosition === 'bottom' ? height * 0.18 : height * 0.82;
+      ctx.fillStyle = style.sceneTitleBackground;
+      ctx.fillRect((width - titleWidth) / 2, y - titleHeight / 2, titleWidth, titleHeight);
+      ctx.fillStyle = style.sceneTitleColor;
+      ctx.fillText(frame.sceneTitle.text, width / 2, y);
+      ctx.restore();
+    }
+  }
+
+  // 開場標題 (hook): large title over a darkened frame, fading out
+  if (options.hookTitle && frame.time < HOOK_TITLE_SECONDS) {
+    const alpha = Math.min(1, (HOOK_TITLE_SECONDS - frame.time) / SCENE_TITLE_FADE);
+    const hookSize = Math.round(fontSize * 1.8);
+    ctx.save();
+    ctx.globalAlpha = Math.max(0, alpha);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+    ctx.fillRect(0, 0, width, height);
+    ctx.font = `800 ${hookSize}px ${style.fontFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = style.sceneTitleColor;
+    const lines = splitSubtitleLines(options.hookTitle, Math.max(6, Math.floor((width * 0.85) / hookSize)));
+    lines.forEach((line, idx) => {
+      ctx.fillText(line, width / 2, height * 0.35 + (idx - (lines.length - 1) / 2) * hookSize * 1.25, width * 0.9);
+    });
+    ctx.restore();
+  }
+
+  // 進度條
+  if (options.progressBar && frame.duration > 0) {
+    const y = style.progressPosition === 'bottom' ? height - progressHeight : 0;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.fillRect(0, y, width, progressHeight);
+    ctx.fillStyle = style.progressColor;
+    ctx.fillRect(0, y, width * Math.min(1, frame.time / frame.duration), progressHeight);
+  }
+}
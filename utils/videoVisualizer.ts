@@ -0,0 +1,299 @@
+/**
+ * Video Visualizer
+ * Audio-reactive video for episodes without dialogue images: an animated waveform or spectrum
+ * from an AnalyserNode, the cast's portraits with the active speaker highlighted, and the episode title.
+ */
+
+import { VideoMode, VisualizerStyle } from '../types';
+
+export interface VisualizerPortrait {
+  name: string;
+  imageBase64?: string;
+}
+
+export interface VisualizerOptions {
+  style?: VisualizerStyle;
+  title?: string;                  // Episode title shown at the top
+  portraits?: VisualizerPortrait[]; // Usually the cast (CastMember.name / imageBase64)
+  accentColor?: string;
+  fontFamily?: string;
+}
+
+// What the drawing code reads: a live AnalyserNode, or a BufferAnalyser when rendering offline
+export type VisualizerSource = Pick<AnalyserNode, 'fftSize' | 'frequencyBinCount' | 'getFloatTimeDomainData' | 'getByteFrequencyData'>;
+
+export const VIDEO_MODE_LABELS: Record<VideoMode, string> = {
+  auto: 'Auto',
+  slideshow: 'Slideshow',
+  visualizer: 'Visualizer',
+};
+
+const DEFAULT_ACCENT = '#a855f7';
+const DEFAULT_FONT = '"Noto Sans TC", "PingFang TC", "Microsoft JhengHei", "Helvetica Neue", Arial, sans-serif';
+const MAX_PORTRAITS = 6;
+const SPECTRUM_BARS = 64;
+
+/**
+ * Pick the rendering mode. Auto uses the visualizer when no segment has an image of its own.
+ */
+export function resolveVideoMode(
+  mode: VideoMode | undefined,
+  segments: { imageBase64: string }[],
+  defaultCover?: string
+): 'slideshow' | 'visualizer' {
+  if (mode === 'visualizer') return 'visualizer';
+  if (mode !== 'auto') return 'slideshow';
+  const hasOwnImages = segments.some(s => !!s.imageBase64 && s.imageBase64 !== defaultCover);
+  return hasOwnImages ? 'slideshow' : 'visualizer';
+}
+
+export function createVisualizerAnalyser(ctx: BaseAudioContext, style: VisualizerStyle = 'waveform'): AnalyserNode {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = style === 'spectrum' ? 1024 : 2048;
+  analyser.smoothingTimeConstant = 0.8;
+  return analyser;
+}
+
+/**
+ * Analyser over a decoded buffer for frame-by-frame (non-realtime) rendering.
+ * Mirrors AnalyserNode: Blackman window, smoothing over time and the same dB-to-byte mapping.
+ */
+export class BufferAnalyser {
+  readonly fftSize: number;
+  readonly frequencyBinCount: number;
+  private readonly samples: Float32Array;
+  private readonly sampleRate: number;
+  private readonly smoothing = 0.8;
+  private readonly minDecibels = -100;
+  private readonly maxDecibels = -30;
+  private previous: Float32Array;
+  private position = 0;
+
+  constructor(buffer: AudioBuffer, style: VisualizerStyle = 'waveform') {
+    this.fftSize = style === 'spectrum' ? 1024 : 2048;
+    this.frequencyBinCount = this.fftSize / 2;
+    this.previous = new Float32Array(this.frequencyBinCount);
+    this.sampleRate = buffer.sampleRate;
+
+    // Mono mixdown, as an analyser sees it
+    this.samples = new Float32Array(buffer.length);
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+      const data = buffer.getChannelData(ch);
+      for (let i = 0; i < data.length; i++) this.samples[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+
+  /** Move to a time in seconds; the next reads cover the fftSize samples ending there */
+  seek(time: number) {
+    this.position = Math.round(time * this.sampleRate);
+  }
+
+  getFloatTimeDomainData(array: Float32Array) {
+    const start = this.position - this.fftSize;
+    for (let i = 0; i < array.length && i < this.fftSize; i++) {
+      array[i] = this.samples[start + i] ?? 0;
+    }
+  }
+
+  getByteFrequencyData(array: Uint8Array) {
+    const n = this.fftSize;
+    const re = new Float32Array(n);
+    const im = new Float32Array(n);
+    this.getFloatTimeDomainData(re);
+    for (let i = 0; i < n; i++) {
+      const a = 2 * Math.PI * i / (n - 1);
+      re[i] *= 0.42 - 0.5 * Math.cos(a) + 0.08 * Math.cos(2 * a);
+    }
+    fft(re, im);
+
+    const range = this.maxDecibels - this.minDecibels;
+    for (let k = 0; k < this.frequencyBinCount && k < array.length; k++) {
+      const magnitude = Math.hypot(re[k], im[k]) / n;
+      const smoothed = this.smoothing * this.previous[k] + (1 - this.smoothing) * magnitude;
+      this.previous[k] = smoothed;
+      const db = smoothed > 0 ? 20 * Math.log10(smoothed) : -Infinity;
+      array[k] = Math.max(0, Math.min(255, Math.floor(255 * (db - this.minDecibels) / range)));
+    }
+  }
+}
+
+// In-place radix-2 FFT (length must be a power of two)
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * cos - im[b] * sin;
+        const ti = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Draw one visualizer frame
+ * @param background - Cover image (dimmed behind everything), if any
+ * @param portraits - Decoded portrait images by character name
+ */
+export function drawVisualizerFrame(
+  ctx: CanvasRenderingContext2D,
+  analyser: VisualizerSource,
+  options: VisualizerOptions,
+  activeSpeaker: string | undefined,
+  background: HTMLImageElement | null,
+  portraits: Map<string, HTMLImageElement>
+) {
+  const { width, height } = ctx.canvas;
+  const accent = options.accentColor || DEFAULT_ACCENT;
+  const font = options.fontFamily || DEFAULT_FONT;
+
+  // 背景: cover filling the frame, darkened
+  ctx.fillStyle = '#09090b';
+  ctx.fillRect(0, 0, width, height);
+  if (background) {
+    const scale = Math.max(width / background.width, height / background.height);
+    const w = background.width * scale;
+    const h = background.height * scale;
+    ctx.drawImage(background, (width - w) / 2, (height - h) / 2, w, h);
+    ctx.fillStyle = 'rgba(9, 9, 11, 0.7)';
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  // 標題
+  if (options.title) {
+    ctx.font = `700 ${Math.round(height * 0.06)}px ${font}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(options.title, width / 2, height * 0.12, width * 0.9);
+  }
+
+  drawPortraits(ctx, (options.portraits || []).slice(0, MAX_PORTRAITS), activeSpeaker, portraits, accent, font);
+
+  if (options.style === 'spectrum') {
+    drawSpectrum(ctx, analyser, accent);
+  } else {
+    drawWaveform(ctx, analyser, accent);
+  }
+}
+
+// Row of round portraits; the speaker is enlarged with an accent ring, everyone else is dimmed
+function drawPortraits(
+  ctx: CanvasRenderingContext2D,
+  list: VisualizerPortrait[],
+  activeSpeaker: string | undefined,
+  images: Map<string, HTMLImageElement>,
+  accent: string,
+  font: string
+) {
+  if (list.length === 0) return;
+  const { width, height } = ctx.canvas;
+  const slot = Math.min(height * 0.26, (width * 0.85) / list.length);
+  const radius = slot * 0.36;
+  const centerY = height * 0.4;
+  const startX = (width - slot * list.length) / 2 + slot / 2;
+
+  list.forEach((portrait, idx) => {
+    const isActive = portrait.name === activeSpeaker;
+    const r = isActive ? radius * 1.15 : radius;
+    const x = startX + slot * idx;
+
+    ctx.save();
+    ctx.globalAlpha = activeSpeaker && !isActive ? 0.45 : 1;
+
+    ctx.beginPath();
+    ctx.arc(x, centerY, r, 0, Math.PI * 2);
+    ctx.closePath();
+    const img = images.get(portrait.name);
+    if (img) {
+      ctx.save();
+      ctx.clip();
+      const scale = Math.max((r * 2) / img.width, (r * 2) / img.height);
+      ctx.drawImage(img, x - (img.width * scale) / 2, centerY - (img.height * scale) / 2, img.width * scale, img.height * scale);
+      ctx.restore();
+    } else {
+      ctx.fillStyle = '#27272a';
+      ctx.fill();
+      ctx.font = `700 ${Math.round(r)}px ${font}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = '#a1a1aa';
+      ctx.fillText(Array.from(portrait.name)[0] || '?', x, centerY);
+    }
+
+    if (isActive) {
+      ctx.lineWidth = Math.max(3, r * 0.08);
+      ctx.strokeStyle = accent;
+      ctx.beginPath();
+      ctx.arc(x, centerY, r + ctx.lineWidth, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    ctx.font = `${isActive ? 700 : 500} ${Math.round(radius * 0.3)}px ${font}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = isActive ? '#ffffff' : '#d4d4d8';
+    ctx.fillText(portrait.name, x, centerY + r + radius * 0.25, slot * 0.95);
+    ctx.restore();
+  });
+}
+
+function drawWaveform(ctx: CanvasRenderingContext2D, analyser: VisualizerSource, accent: string) {
+  const { width, height } = ctx.canvas;
+  const data = new Float32Array(analyser.fftSize);
+  analyser.getFloatTimeDomainData(data);
+
+  const centerY = height * 0.7;
+  const amplitude = height * 0.1;
+  ctx.lineWidth = Math.max(2, height * 0.004);
+  ctx.strokeStyle = accent;
+  ctx.beginPath();
+  for (let i = 0; i < data.length; i++) {
+    const x = (i / (data.length - 1)) * width;
+    const y = centerY + data[i] * amplitude;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+}
+
+function drawSpectrum(ctx: CanvasRenderingContext2D, analyser: VisualizerSource, accent: string) {
+  const { width, height } = ctx.canvas;
+  const data = new Uint8Array(analyser.frequencyBinCount);
+  analyser.getByteFrequencyData(data);
+
+  // Speech lives in the lower bins, so bars cover the bottom half of the spectrum
+  const usable = Math.floor(data.length / 2);
+  const binsPerBar = Math.max(1, Math.floor(usable / SPECTRUM_BARS));
+  const barSlot = (width * 0.8) / SPECTRUM_BARS;
+  const baseline = height * 0.76;
+  const maxHeight = height * 0.18;
+
+  ctx.fillStyle = accent;
+  for (let bar = 0; bar < SPECTRUM_BARS; bar++) {
+    let sum = 0;
+    for (let i = 0; i < binsPerBar; i++) sum += data[bar * binsPerBar + i] || 0;
+    const level = sum / binsPerBar / 255;
+    const h = Math.max(2, level * maxHeight);
+    const x = width * 0.1 + bar * barSlot;
+    ctx.fillRect(x + barSlot * 0.15, baseline - h, barSlot * 0.7, h);
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * WebM Muxer
+ * Writes WebCodecs VP9 / VP8 and Opus chunks into a WebM (Matroska) file with known sizes:
+ * EBML header, Segment { Info, Tracks, Cues, Clusters }. A cluster starts at every video keyframe,
+ * so the cues make the file seekable.
+ */
+
+export interface WebmVideoTrack {
+  width: number;
+  height: number;
+  codec: string;          // WebCodecs codec string ('vp09.…' or 'vp8')
+}
+
+export interface WebmAudioTrack {
+  sampleRate: number;
+  channels: number;
+  opusHead?: Uint8Array;  // AudioDecoderConfig.description
+}
+
+interface WebmBlock {
+  track: number;
+  data: Uint8Array;
+  time: number;           // Milliseconds
+  keyFrame: boolean;
+}
+
+// Matroska element IDs
+const ID = {
+  EBML: 0x1a45dfa3, EBMLVersion: 0x4286, EBMLReadVersion: 0x42f7, EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3, DocType: 0x4282, DocTypeVersion: 0x4287, DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067, Info: 0x1549a966, TimecodeScale: 0x2ad7b1, Duration: 0x4489,
+  Tracks: 0x1654ae6b, TrackEntry: 0xae, TrackNumber: 0xd7, TrackUID: 0x73c5,
+  TrackType: 0x83, CodecID: 0x86, CodecPrivate: 0x63a2, CodecDelay: 0x56aa, SeekPreRoll: 0x56bb,
+  Video: 0xe0, PixelWidth: 0xb0, PixelHeight: 0xba, Audio: 0xe1, SamplingFrequency: 0xb5, Channels: 0x9f,
+  Cues: 0x1c53bb6b, CuePoint: 0xbb, CueTime: 0xb3, CueTrackPositions: 0xb7, CueTrack: 0xf7,
+  CueClusterPosition: 0xf1, Cluster: 0x1f43b675, Timecode: 0xe7, SimpleBlock: 0xa3,
+};
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+const MAX_CLUSTER_MS = 30000;         // SimpleBlock timecodes are signed 16-bit, relative to the cluster
+const OPUS_DEFAULT_PRE_SKIP = 312;    // libopus lookahead at 48 kHz
+const OPUS_SEEK_PRE_ROLL_NS = 80000000;
+
+// === EBML helpers ===
+
+type Bytes = number[] | Uint8Array;
+
+function concat(parts: Bytes[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function idBytes(id: number): number[] {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+}
+
+// Data size as an EBML variable-length integer (shortest form)
+function sizeBytes(size: number): number[] {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Array<number>(length);
+  let v = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = v % 256;
+    v = Math.floor(v / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+const header = (id: number, size: number) => [...idBytes(id), ...sizeBytes(size)];
+
+function element(id: number, ...payload: Bytes[]): Uint8Array {
+  const body = concat(payload);
+  return concat([header(id, body.length), body]);
+}
+
+function uint(id: number, value: number, width?: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v % 256);
+  while (bytes.length < (width ?? 1)) bytes.unshift(0);
+  return element(id, bytes);
+}
+
+function float(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+const text = (id: number, value: string) => element(id, Array.from(value, c => c.charCodeAt(0)));
+
+/**
+ * OpusHead (RFC 7845) for the CodecPrivate, used when the encoder does not supply one
+ */
+export function buildOpusHead(channels: number, sampleRate: number, preSkip = OPUS_DEFAULT_PRE_SKIP): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(Array.from('OpusHead', c => c.charCodeAt(0)));
+  head[8] = 1;                          // Version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true); // Input sample rate
+  view.setInt16(16, 0, true);           // Output gain
+  head[18] = 0;                         // Mapping family (mono / stereo)
+  return head;
+}
+
+export class WebmMuxer {
+  private videoBlocks: WebmBlock[] = [];
+  private audioBlocks: WebmBlock[] = [];
+
+  constructor(private video: WebmVideoTrack, private audio?: WebmAudioTrack) { }
+
+  addVideoChunk(chunk: EncodedVideoChunk, _meta?: EncodedVideoChunkMetadata) {
+    this.videoBlocks.push(copyChunk(chunk, VIDEO_TRACK));
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) {
+    const description = meta?.decoderConfig?.description;
+    if (description && this.audio && !this.audio.opusHead) this.audio.opusHead = toUint8Array(description);
+    this.audioBlocks.push(copyChunk(chunk, AUDIO_TRACK));
+  }
+
+  finalize(): Blob {
+    if (this.videoBlocks.length === 0) throw new Error('No video frames were encoded');
+    const hasAudio = !!this.audio && this.audioBlocks.length > 0;
+
+    const ebml = element(ID.EBML,
+      uint(ID.EBMLVersion, 1), uint(ID.EBMLReadVersion, 1), uint(ID.EBMLMaxIDLength, 4),
+      uint(ID.EBMLMaxSizeLength, 8), text(ID.DocType, 'webm'), uint(ID.DocTypeVersion, 4),
+      uint(ID.DocTypeReadVersion, 2)
+    );
+
+    const lastVideo = this.videoBlocks[this.videoBlocks.length - 1];
+    const lastAudio = this.audioBlocks[this.audioBlocks.length - 1];
+    const durationMs = Math.max(lastVideo.time, hasAudio ? lastAudio.time : 0) + 1;
+
+    const info = element(ID.Info,
+      uint(ID.TimecodeScale, 1000000),  // Timecodes in milliseconds
+      float(ID.Duration, durationMs)
+    );
+    const tracks = element(ID.Tracks, this.videoTrackEntry(), ...(hasAudio ? [this.audioTrackEntry()] : []));
+
+    // Interleave by time; at equal times video goes first so every cluster opens on its keyframe
+    const blocks = [...this.videoBlocks, ...(hasAudio ? this.audioBlocks : [])]
+      .sort((a, b) => a.time - b.time || a.track - b.track);
+
+    const clusters: { time: number; parts: Uint8Array[]; size: number; keyFrame: boolean; position: number }[] = [];
+    for (const block of blocks) {
+      let cluster = clusters[clusters.length - 1];
+      const startsCluster = !cluster
+        || (block.track === VIDEO_TRACK && block.keyFrame)
+        || block.time - cluster.time >= MAX_CLUSTER_MS;
+      if (startsCluster) {
+        const timecode = uint(ID.Timecode, block.time);
+        cluster = { time: block.time, parts: [timecode], size: timecode.length, keyFrame: block.track === VIDEO_TRACK && block.keyFrame, position: 0 };
+        clusters.push(cluster);
+      }
+      const blockHeader = new Uint8Array(4);
+      blockHeader[0] = 0x80 | block.track;  // Track number as a 1-byte vint
+      new DataView(blockHeader.buffer).setInt16(1, block.time - cluster.time);
+      blockHeader[3] = block.keyFrame ? 0x80 : 0;
+      const elementHeader = new Uint8Array(header(ID.SimpleBlock, blockHeader.length + block.data.length));
+      cluster.parts.push(elementHeader, blockHeader, block.data);
+      cluster.size += elementHeader.length + blockHeader.length + block.data.length;
+    }
+
+    // Cues sit before the clusters; fixed 8-byte positions keep their size independent of the offsets
+    const cued = clusters.filter(c => c.keyFrame);
+    const buildCues = () => element(ID.Cues, ...cued.map(c => element(ID.CuePoint,
+      uint(ID.CueTime, c.time),
+      element(ID.CueTrackPositions, uint(ID.CueTrack, VIDEO_TRACK), uint(ID.CueClusterPosition, c.position, 8))
+    )));
+    const cuesLength = buildCues().length;
+
+    let position = info.length + tracks.length + cuesLength; // Relative to the segment data
+    const clusterHeaders = clusters.map(c => {
+      const bytes = new Uint8Array(header(ID.Cluster, c.size));
+      c.position = position;
+      position += bytes.length + c.size;
+      return bytes;
+    });
+    const cues = buildCues();
+
+    const segmentSize = position;
+    return new Blob([
+      ebml,
+      new Uint8Array(header(ID.Segment, segmentSize)),
+      info,
+      tracks,
+      cues,
+      ...clusters.flatMap((c, i) => [clusterHeaders[i], ...c.parts]),
+    ] as BlobPart[], { type: 'video/webm' });
+  }
+
+  private videoTrackEntry() {
+    const codecId = this.video.codec.startsWith('vp09') ? 'V_VP9' : 'V_VP8';
+    return element(ID.TrackEntry,
+      uint(ID.TrackNumber, VIDEO_TRACK), uint(ID.TrackUID, VIDEO_TRACK), uint(ID.TrackType, 1),
+      text(ID.CodecID, codecId),
+      element(ID.Video, uint(ID.PixelWidth, this.video.width), uint(ID.PixelHeight, this.video.height))
+    );
+  }
+
+  private audioTrackEntry() {
+    const { sampleRate, channels } = this.audio!;
+    const opusHead = this.audio!.opusHead || buildOpusHead(channels, sampleRate);
+    const preSkip = new DataView(opusHead.buffer, opusHead.byteOffset).getUint16(10, true);
+    return element(ID.TrackEntry,
+      uint(ID.TrackNumber, AUDIO_TRACK), uint(ID.TrackUID, AUDIO_TRACK), uint(ID.TrackType, 2),
+      text(ID.CodecID, 'A_OPUS'),
+      element(ID.CodecPrivate, opusHead),
+      uint(ID.CodecDelay, Math.round(preSkip / 48000 * 1e9)),
+      uint(ID.SeekPreRoll, OPUS_SEEK_PRE_ROLL_NS),
+      element(ID.Audio, float(ID.SamplingFrequency, sampleRate), uint(ID.Channels, channels))
+    );
+  }
+}
+
+function copyChunk(chunk: EncodedVideoChunk | EncodedAudioChunk, track: number): WebmBlock {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return { track, data, time: Math.round(chunk.timestamp / 1000), keyFrame: chunk.type === 'key' };
+}
+
+function toUint8Array(source: AllowSharedBufferSource): Uint8Array {
+  if (source instanceof ArrayBuffer) return new Uint8Array(source.slice(0));
+  const view = source as ArrayBufferView;
+  return new Uint8Array(view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength));
+}